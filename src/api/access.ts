@@ -0,0 +1,161 @@
+import { timingSafeEqual } from "node:crypto";
+import type { CorsOptions } from "cors";
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import {
+  authenticateApiKey, exceededQuota, getUsage, hasScope, periodEnd, recordUsage, type ApiKey, type ApiKeyScope,
+} from "../mastra/auth/keys.js";
+import { createRateLimiter } from "../mastra/auth/rateLimit.js";
+import { isAllowedRepoPath } from "../mastra/projects/store.js";
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+// Every /api route but the webhooks wants an API key, sent as X-API-Key or
+// "Authorization: Bearer …" (see mastra/auth/keys.ts). RELEASE_NOTES_ADMIN_KEY
+// is an admin key outside the database, to create the first real ones with.
+// RELEASE_NOTES_AUTH=off turns all of this off for local development.
+
+export interface AccessConfig {
+  enabled: boolean;
+  adminKey: string | null;
+  rateLimit: number;      // requests per minute for keys without their own
+  corsOrigins: string[];  // "*" allows every origin
+}
+
+let config: AccessConfig = {
+  enabled:     process.env.RELEASE_NOTES_AUTH !== "off",
+  adminKey:    process.env.RELEASE_NOTES_ADMIN_KEY || null,
+  rateLimit:   Number(process.env.RELEASE_NOTES_RATE_LIMIT) || 60,
+  corsOrigins: (process.env.RELEASE_NOTES_CORS_ORIGINS ?? "").split(",").map((o) => o.trim()).filter(Boolean),
+};
+
+export const configureAccess = (overrides: Partial<AccessConfig>) => {
+  config = { ...config, ...overrides };
+};
+
+const limiter = createRateLimiter();
+
+// The bootstrap key: every scope, no quotas, no rate limit
+const BOOTSTRAP_KEY: ApiKey = {
+  id: "bootstrap", name: "RELEASE_NOTES_ADMIN_KEY", scopes: ["admin"],
+  requestQuota: null, tokenQuota: null, rateLimit: 0,
+  createdAt: new Date(0).toISOString(), rotatedAt: null, revokedAt: null, lastUsedAt: null,
+};
+
+// ─── CORS ─────────────────────────────────────────────────────────────────────
+// Requests without an Origin (curl, servers, same-origin Swagger UI) are not
+// affected; browsers elsewhere only get through from the allowlist.
+
+export const corsOptions = (): CorsOptions => ({
+  origin: (origin, callback) =>
+    callback(null, !origin || config.corsOrigins.includes("*") || config.corsOrigins.includes(origin)),
+  exposedHeaders: ["Retry-After", "X-RateLimit-Limit", "X-RateLimit-Remaining"],
+});
+
+// ─── Middleware ───────────────────────────────────────────────────────────────
+
+const presentedKey = (req: Request) => {
+  const header = req.header("x-api-key");
+  if (header) return header.trim();
+  const bearer = req.header("authorization")?.match(/^Bearer\s+(\S+)$/i);
+  return bearer?.[1] ?? null;
+};
+
+const isBootstrapKey = (key: string) => {
+  if (!config.adminKey) return false;
+  const [a, b] = [Buffer.from(key), Buffer.from(config.adminKey)];
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+const retryAfter = (res: Response, ms: number) => res.setHeader("Retry-After", String(Math.max(1, Math.ceil(ms / 1000))));
+
+// The key behind the current request; undefined with auth off
+export const requestKey = (res: Response) => res.locals.apiKey as ApiKey | undefined;
+
+// The stored key a run started by this request charges its tokens to
+export const runKeyId = (res: Response) => {
+  const key = requestKey(res);
+  return key && key !== BOOTSTRAP_KEY ? key.id : undefined;
+};
+
+// A run belongs to the key that started it; admin keys may reach every run
+export const canAccessRun = (res: Response, ownerKeyId: string | undefined) => {
+  const key = requestKey(res);
+  return !config.enabled || (key !== undefined && (hasScope(key, "admin") || key.id === ownerKeyId));
+};
+
+export const authenticate: RequestHandler = async (req, res, next) => {
+  if (!config.enabled) return next();
+  const presented = presentedKey(req);
+  if (!presented) {
+    res.setHeader("WWW-Authenticate", "Bearer");
+    return res.status(401).json({ error: "API key required", code: "UNAUTHENTICATED" });
+  }
+
+  try {
+    const key = isBootstrapKey(presented) ? BOOTSTRAP_KEY : await authenticateApiKey(presented);
+    if (!key) return res.status(401).json({ error: "Invalid or revoked API key", code: "INVALID_API_KEY" });
+
+    const limit = key.rateLimit ?? config.rateLimit;
+    if (limit > 0) {
+      const decision = limiter.take(key.id, limit);
+      res.setHeader("X-RateLimit-Limit", String(decision.limit));
+      res.setHeader("X-RateLimit-Remaining", String(decision.remaining));
+      if (!decision.allowed) {
+        retryAfter(res, decision.retryAfterMs);
+        return res.status(429).json({ error: `Rate limit of ${limit} requests per minute exceeded`, code: "RATE_LIMITED" });
+      }
+    }
+    res.locals.apiKey = key;
+    next();
+  } catch (error) {
+    console.error("[access] failed to authenticate request:", error);
+    res.status(500).json({ error: "Failed to authenticate request" });
+  }
+};
+
+export const requireScope = (scope: ApiKeyScope): RequestHandler => (_req, res, next) => {
+  const key = requestKey(res);
+  if (!config.enabled || (key && hasScope(key, scope))) return next();
+  res.status(403).json({ error: `API key lacks the ${scope} scope`, code: "INSUFFICIENT_SCOPE" });
+};
+
+// Reads are open to every key; anything that changes state needs admin
+export const adminForWrites: RequestHandler = (req, res, next) =>
+  req.method === "GET" || req.method === "HEAD" ? next() : requireScope("admin")(req, res, next);
+
+// Refuses a request whose body or query names a repository the server does
+// not serve (see isAllowedRepoPath)
+export const allowRepoPath = (from: "body" | "query"): RequestHandler => async (req, res, next) => {
+  const repoPath = (req[from] as { repoPath?: unknown } | undefined)?.repoPath;
+  if (typeof repoPath !== "string" || !repoPath) return next(); // none, or left to request validation
+
+  try {
+    if (await isAllowedRepoPath(repoPath)) return next();
+    res.status(422).json({
+      error: `repoPath "${repoPath}" is not a repository this server serves: name a project's repoPath or one under RELEASE_NOTES_REPO_ROOTS`,
+      code:  "REPO_NOT_ALLOWED",
+    });
+  } catch (error) {
+    console.error("[access] failed to check repoPath:", error);
+    res.status(500).json({ error: "Failed to check repoPath" });
+  }
+};
+
+// Counts a run-starting request against the key's monthly quotas, refusing it
+// once one is used up
+export const chargeRun: RequestHandler = async (_req: Request, res: Response, next: NextFunction) => {
+  const key = requestKey(res);
+  if (!key || !runKeyId(res)) return next(); // auth off, or the bootstrap key
+
+  try {
+    const exceeded = exceededQuota(key, await getUsage(key.id));
+    if (exceeded) {
+      retryAfter(res, periodEnd().getTime() - Date.now());
+      return res.status(429).json({ error: `Monthly ${exceeded === "requests" ? "request" : "token"} quota used up`, code: "QUOTA_EXCEEDED" });
+    }
+    await recordUsage(key.id, { requests: 1 });
+    next();
+  } catch (error) {
+    console.error("[access] failed to check quota:", error);
+    res.status(500).json({ error: "Failed to check API key quota" });
+  }
+};
@@ -0,0 +1,107 @@
+import { afterAll, beforeAll, beforeEach, describe, it, expect } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import type { Server } from "node:http";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { createApiKey } from "../mastra/auth/keys.js";
+import { configureProjects } from "../mastra/projects/store.js";
+import { buildFixtureRepo } from "../eval/repo.js";
+import { configureAccess } from "./access.js";
+
+// ─── Fixtures ──────────────────────────────────────────────────────────────────
+// The whole app, with auth off unless a test turns it on and with Mastra's
+// storage in memory (set before the app and its Mastra instance load), against
+// a fixture repository.
+
+process.env.RELEASE_NOTES_DB_URL = ":memory:";
+const { app } = await import("./app.js");
+
+const projectsDir = mkdtempSync(path.join(tmpdir(), "projects-"));
+let repo: Awaited<ReturnType<typeof buildFixtureRepo>>;
+let server: Server;
+let base: string;
+
+beforeAll(async () => {
+  repo = await buildFixtureRepo({
+    commits: [
+      { message: "chore: initial commit", author: "Ada <ada@example.com>", date: "2026-03-02T10:00:00Z", files: { "a.txt": "a" }, tag: "v1.0.0" },
+      { message: "feat(auth): add sign-in with Google", author: "Ada <ada@example.com>", date: "2026-03-03T10:00:00Z", files: { "b.txt": "b" } },
+    ],
+  });
+  server = app.listen(0);
+  base = `http://127.0.0.1:${(server.address() as { port: number }).port}/api`;
+});
+
+afterAll(() => {
+  server.close();
+  rmSync(repo.dir, { recursive: true, force: true });
+  rmSync(projectsDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  configureAccess({ enabled: false });
+  configureProjects({ dir: projectsDir, defaultProject: "default", repoRoots: [repo.dir] });
+});
+
+const post = (route: string, body: unknown, key?: string) => fetch(`${base}${route}`, {
+  method:  "POST",
+  headers: { "Content-Type": "application/json", ...(key && { "X-API-Key": key }) },
+  body:    JSON.stringify(body),
+});
+
+const get = (route: string, key: string) => fetch(`${base}${route}`, { headers: { "X-API-Key": key } });
+
+// ─── POST /api/query ───────────────────────────────────────────────────────────
+
+describe("POST /api/query", () => {
+  it("refuses a commitLog without a commit range instead of guessing one", async () => {
+    const res = await post("/query", { commitLog: "Generate release notes for this sprint", repoPath: repo.dir });
+    expect(res.status).toBe(422);
+    expect(await res.json()).toMatchObject({ code: "MISSING_RANGE", error: expect.stringContaining("<fromRef>..<toRef>") });
+  });
+
+  it("only reads repositories the server serves", async () => {
+    const refused = await post("/query", { commitLog: "v1.0.0..HEAD", repoPath: projectsDir });
+    expect(refused.status).toBe(422);
+    expect(await refused.json()).toMatchObject({ code: "REPO_NOT_ALLOWED" });
+    expect((await post("/runs", { commitLog: "v1.0.0..HEAD", repoPath: "/" })).status).toBe(422);
+
+    // A project's own repository is allowed; this one is no git repository
+    writeFileSync(path.join(projectsDir, "docs.json"), JSON.stringify({ product: "Docs", repoPath: projectsDir }));
+    try {
+      const allowed = await post("/query", { commitLog: "v1.0.0..HEAD", repoPath: projectsDir });
+      expect(await allowed.json()).toMatchObject({ code: "REPO_NOT_FOUND" });
+    } finally {
+      rmSync(path.join(projectsDir, "docs.json"));
+    }
+  });
+});
+
+// ─── Run ownership ─────────────────────────────────────────────────────────────
+
+describe("/api/runs/:runId", () => {
+  beforeEach(() => configureAccess({ enabled: true }));
+
+  it("only lets the key that started a run, or an admin key, reach it", async () => {
+    const scopes = ["generate", "runs:read"] as const;
+    const { secret: owner } = await createApiKey({ name: "owner", scopes: [...scopes] });
+    const { secret: other } = await createApiKey({ name: "other", scopes: [...scopes] });
+    const { secret: admin } = await createApiKey({ name: "admin", scopes: ["admin"] });
+
+    // Fails in parse-commits without calling a model
+    const started = await post("/runs", { commitLog: "no range here", repoPath: repo.dir }, owner);
+    expect(started.status).toBe(202);
+    const { runId } = (await started.json()) as { runId: string };
+    const status = async () => ((await (await get(`/runs/${runId}`, owner)).json()) as { status: string }).status;
+    await expect.poll(status).toBe("failed");
+
+    expect((await get(`/runs/${runId}`, admin)).status).toBe(200);
+    const hidden = await get(`/runs/${runId}`, other);
+    expect(hidden.status).toBe(404);
+    expect(await hidden.json()).toEqual({ error: "Run not found", code: "RUN_NOT_FOUND" });
+    expect((await get(`/runs/${runId}/events`, other)).status).toBe(404);
+    expect((await post(`/runs/${runId}/cancel`, {}, other)).status).toBe(404);
+    expect((await post(`/runs/${runId}/approve`, {}, other)).status).toBe(404);
+    expect((await post(`/runs/${runId}/cancel`, {}, owner)).status).toBe(409);
+  });
+});
@@ -0,0 +1,68 @@
+import express from "express";
+import cors from "cors";
+import swaggerUi from "swagger-ui-express";
+import { mastra } from "../mastra/index.js";
+import { describeError } from "../mastra/lib/errors.js";
+import { swaggerSpec } from "./openapi.js";
+import { parseQueryBody } from "./requests.js";
+import { runsRouter } from "./runs.js";
+import { enrichmentsRouter } from "./enrichments.js";
+import { projectsRouter } from "./projects.js";
+import { templatesRouter } from "./templates.js";
+import { webhooksRouter } from "./webhooks.js";
+import { keysRouter } from "./keys.js";
+import { releasesRouter } from "./releases.js";
+import { adminForWrites, allowRepoPath, authenticate, chargeRun, corsOptions, requireScope, runKeyId } from "./access.js";
+
+// Routes and middleware; server.ts listens with them
+export const app = express();
+app.use(cors(corsOptions()));
+// Ahead of the JSON parser: webhook signatures are checked against the raw body.
+// Forges sign their deliveries, so webhooks also skip the API key check.
+app.use("/api/webhooks", webhooksRouter);
+app.use(express.json());
+app.use("/api", authenticate);
+
+// ─── Routes ───────────────────────────────────────────────────────────────────
+
+app.use("/api-docs", swaggerUi.serve, swaggerUi.setup(swaggerSpec, { swaggerOptions: { persistAuthorization: true } }));
+app.get("/", (_req, res) => res.redirect("/api-docs"));
+
+app.post("/api/query", requireScope("generate"), allowRepoPath("body"), chargeRun, async (req, res) => {
+  const parsed = parseQueryBody(req.body);
+  if (!parsed.ok) {
+    return res.status(400).json({ error: parsed.error });
+  }
+
+  try {
+    const workflow = mastra.getWorkflow("releaseNotesWorkflow");
+    const run      = await workflow.createRun();
+    const output   = await run.start({ inputData: { ...parsed.input, apiKeyId: runKeyId(res) } });
+
+    if (output.status === "failed") {
+      const { status, code, message } = describeError(output.error);
+      if (status >= 500) console.error("[workflow] execution failed:", output.error);
+      return res.status(status).json({ error: message, code });
+    }
+
+    // Review mode: the notes wait for a reviewer at POST /api/runs/:runId/approve|edit|reject
+    if (output.status === "suspended") {
+      const review = (output as any).suspendPayload?.["review-notes"] ?? null;
+      return res.status(202).json({ runId: run.runId, status: "suspended", url: `/api/runs/${run.runId}`, review });
+    }
+
+    // Unwrap Mastra result envelope if present
+    const result = (output as any)?.result ?? output;
+    res.json(result);
+  } catch (error) {
+    console.error("[workflow] execution failed:", error);
+    res.status(500).json({ error: "Workflow execution failed" });
+  }
+});
+
+app.use("/api/runs", runsRouter);
+app.use("/api/releases", requireScope("runs:read"), releasesRouter);
+app.use("/api/templates", adminForWrites, templatesRouter);
+app.use("/api/projects", adminForWrites, projectsRouter);
+app.use("/api/enrichments", adminForWrites, enrichmentsRouter);
+app.use("/api/keys", requireScope("admin"), keysRouter);
@@ -0,0 +1,84 @@
+import { afterAll, beforeAll, beforeEach, describe, it, expect } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import type { Server } from "node:http";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import express from "express";
+import { createClient } from "@libsql/client";
+import { configureEnrichmentCache, listEnrichments } from "../mastra/enrichments/cache.js";
+import { configureProjects } from "../mastra/projects/store.js";
+import { buildFixtureRepo } from "../eval/repo.js";
+import { enrichmentsRouter } from "./enrichments.js";
+
+// ─── Fixtures ──────────────────────────────────────────────────────────────────
+// The router on its own, with no project files, so the default project reads
+// the server's working directory, and a repository only a request names.
+
+const projectsDir = mkdtempSync(path.join(tmpdir(), "projects-"));
+let repo: Awaited<ReturnType<typeof buildFixtureRepo>>;
+let server: Server;
+let base: string;
+
+beforeAll(async () => {
+  repo = await buildFixtureRepo({
+    commits: [
+      { message: "chore: initial commit", author: "Ada <ada@example.com>", date: "2026-03-02T10:00:00Z", files: { "a.txt": "a" } },
+      { message: "feat(auth): add sign-in with Google", author: "Ada <ada@example.com>", date: "2026-03-03T10:00:00Z", files: { "b.txt": "b" } },
+    ],
+  });
+  server = express().use(express.json()).use("/api/enrichments", enrichmentsRouter).listen(0);
+  base = `http://127.0.0.1:${(server.address() as { port: number }).port}/api/enrichments`;
+});
+
+afterAll(() => {
+  server.close();
+  rmSync(repo.dir, { recursive: true, force: true });
+  rmSync(projectsDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  const db = createClient({ url: ":memory:" });
+  configureEnrichmentCache({ db: () => db });
+  configureProjects({ dir: projectsDir, defaultProject: "default", repoRoots: [repo.dir] });
+});
+
+// ─── Pins ──────────────────────────────────────────────────────────────────────
+
+describe("PUT /api/enrichments/:sha/pin", () => {
+  const google = () => repo.shas.get("feat(auth): add sign-in with Google")!;
+
+  it("resolves the sha in the repository the request names", async () => {
+    const pin = (repoPath?: string) => fetch(`${base}/${google().slice(0, 7)}/pin`, {
+      method:  "PUT",
+      headers: { "Content-Type": "application/json" },
+      body:    JSON.stringify({ title: "Google Sign-In", repoPath }),
+    });
+
+    const missing = await pin();
+    expect(missing.status).toBe(422);
+    expect(await missing.json()).toMatchObject({ code: "UNKNOWN_COMMIT" });
+
+    const pinned = await pin(repo.dir);
+    expect(pinned.status).toBe(201);
+    expect(await pinned.json()).toMatchObject({ sha: google(), project: "default", pinned: true });
+    expect((await listEnrichments({ pinned: true })).map((e) => e.sha)).toEqual([google()]);
+
+    const query = new URLSearchParams({ repoPath: repo.dir });
+    expect((await fetch(`${base}/${google().slice(0, 7)}/pin?${query}`, { method: "DELETE" })).status).toBe(204);
+    expect(await listEnrichments({ pinned: true })).toEqual([]);
+  });
+
+  it("refuses a repository outside the server's allowlist", async () => {
+    const elsewhere = path.join(repo.dir, "..");
+    const pinned = await fetch(`${base}/${google().slice(0, 7)}/pin`, {
+      method:  "PUT",
+      headers: { "Content-Type": "application/json" },
+      body:    JSON.stringify({ title: "Google Sign-In", repoPath: elsewhere }),
+    });
+    expect(pinned.status).toBe(422);
+    expect(await pinned.json()).toMatchObject({ code: "REPO_NOT_ALLOWED" });
+
+    const query = new URLSearchParams({ repoPath: elsewhere });
+    expect((await fetch(`${base}/${google().slice(0, 7)}/pin?${query}`, { method: "DELETE" })).status).toBe(422);
+  });
+});
@@ -0,0 +1,110 @@
+import { Router } from "express";
+import {
+  DEFAULT_AUDIENCE, invalidateEnrichments, listEnrichments, pinEnrichment, unpinEnrichment,
+} from "../mastra/enrichments/cache.js";
+import { defaultProjectName, findProfile } from "../mastra/projects/store.js";
+import { describeError } from "../mastra/lib/errors.js";
+import { assertRepo, commitsWithPrefix, resolveRepoPath } from "../mastra/lib/git.js";
+import { allowRepoPath } from "./access.js";
+import { parseEnrichmentQuery, parsePinBody } from "./requests.js";
+
+// ─── Routes ───────────────────────────────────────────────────────────────────
+// The enrichment cache (see mastra/enrichments/cache.ts): inspect it, drop
+// entries so the next run rewrites them, or pin a hand-edited entry that every
+// later run uses for that commit.
+
+export const enrichmentsRouter = Router();
+
+const SHA = /^[0-9a-f]{4,40}$/i;
+
+// Pins are stored under the commit's full sha, so the sha given (full, or
+// abbreviated as in the notes) is looked up in the repository the runs read:
+// repoPath as in the run request, else the project's
+const resolvePin = async (sha: string, projectName: string | undefined, requestedRepo: string | undefined) => {
+  const project = projectName ?? defaultProjectName();
+  const found = await findProfile(project);
+  if (!found) {
+    return { ok: false as const, status: 422, body: { error: `Unknown project "${project}"`, code: "UNKNOWN_PROJECT" } };
+  }
+  const repoPath = resolveRepoPath(requestedRepo || found.profile.repoPath);
+  await assertRepo(repoPath);
+  const matches = await commitsWithPrefix(repoPath, sha);
+  if (matches.length === 0) {
+    return { ok: false as const, status: 422, body: { error: `No commit ${sha} in ${repoPath}`, code: "UNKNOWN_COMMIT" } };
+  }
+  if (matches.length > 1) {
+    return {
+      ok: false as const,
+      status: 422,
+      body: { error: `sha ${sha} is ambiguous: ${matches.map((m) => m.slice(0, 12)).join(", ")}`, code: "AMBIGUOUS_SHA" },
+    };
+  }
+  return { ok: true as const, project, sha: matches[0] };
+};
+
+enrichmentsRouter.get("/", async (req, res) => {
+  const parsed = parseEnrichmentQuery(req.query);
+  if (!parsed.ok) return res.status(400).json({ error: parsed.error });
+
+  try {
+    const { sha, project, audience, pinned, limit } = parsed.query;
+    res.json({ entries: await listEnrichments({ sha, project, audience, pinned }, limit) });
+  } catch (error) {
+    console.error("[enrichments] failed to list entries:", error);
+    res.status(500).json({ error: "Failed to list cached enrichments" });
+  }
+});
+
+// Invalidation: matching entries are deleted; pinned ones only with includePinned=true
+enrichmentsRouter.delete("/", async (req, res) => {
+  const parsed = parseEnrichmentQuery(req.query);
+  if (!parsed.ok) return res.status(400).json({ error: parsed.error });
+  const { sha, project, audience, includePinned, all } = parsed.query;
+  if (!sha && !project && !audience && !all) {
+    return res.status(400).json({ error: "Pass sha, project or audience, or all=true to clear the whole cache" });
+  }
+
+  try {
+    res.json({ deleted: await invalidateEnrichments({ sha, project, audience }, { includePinned }) });
+  } catch (error) {
+    console.error("[enrichments] failed to invalidate entries:", error);
+    res.status(500).json({ error: "Failed to invalidate cached enrichments" });
+  }
+});
+
+enrichmentsRouter.put("/:sha/pin", allowRepoPath("body"), async (req, res) => {
+  if (!SHA.test(req.params.sha)) return res.status(400).json({ error: "sha must be 4–40 hex characters" });
+  const parsed = parsePinBody(req.body);
+  if (!parsed.ok) return res.status(400).json({ error: parsed.error });
+
+  try {
+    const { repoPath, ...pin } = parsed.pin;
+    const resolved = await resolvePin(req.params.sha, pin.project, repoPath);
+    if (!resolved.ok) return res.status(resolved.status).json(resolved.body);
+    const entry = { ...pin, sha: resolved.sha, project: resolved.project };
+    const created = await pinEnrichment(entry);
+    res.status(created ? 201 : 200).json({ ...entry, pinned: true });
+  } catch (error) {
+    const { status, code, message } = describeError(error);
+    if (status >= 500) console.error("[enrichments] failed to pin entry:", error);
+    res.status(status).json({ error: status >= 500 ? "Failed to pin enrichment" : message, code });
+  }
+});
+
+enrichmentsRouter.delete("/:sha/pin", allowRepoPath("query"), async (req, res) => {
+  if (!SHA.test(req.params.sha)) return res.status(400).json({ error: "sha must be 4–40 hex characters" });
+  const parsed = parseEnrichmentQuery(req.query);
+  if (!parsed.ok) return res.status(400).json({ error: parsed.error });
+
+  try {
+    const resolved = await resolvePin(req.params.sha, parsed.query.project, parsed.query.repoPath);
+    if (!resolved.ok) return res.status(resolved.status).json(resolved.body);
+    const removed = await unpinEnrichment(resolved.sha, resolved.project, parsed.query.audience ?? DEFAULT_AUDIENCE);
+    if (!removed) return res.status(404).json({ error: "No pinned entry for that commit", code: "NOT_PINNED" });
+    res.status(204).end();
+  } catch (error) {
+    const { status, code, message } = describeError(error);
+    if (status >= 500) console.error("[enrichments] failed to unpin entry:", error);
+    res.status(status).json({ error: status >= 500 ? "Failed to unpin enrichment" : message, code });
+  }
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect } from "vitest";
+import { EventEmitter } from "node:events";
+import type { Response } from "express";
+import { endRunEvents, openEventStream, pipeRunEvents, type RunOutcome, type WatchEvent } from "./events.js";
+
+// ─── Fakes ─────────────────────────────────────────────────────────────────────
+
+const fakeResponse = () => {
+  const res = Object.assign(new EventEmitter(), {
+    chunks: [] as string[],
+    ended: false,
+    writeHead: () => res,
+    flushHeaders: () => {},
+    write: (chunk: string) => res.chunks.push(chunk),
+    end: () => { res.ended = true; },
+  });
+  return res;
+};
+
+const fakeRun = () => {
+  let listener: ((e: WatchEvent) => void) | null = null;
+  return {
+    runId: "run-1",
+    watch: (cb: (e: WatchEvent) => void) => {
+      listener = cb;
+      return () => { listener = null; };
+    },
+    emit: (e: WatchEvent) => listener?.(e),
+    get watching() {
+      return listener !== null;
+    },
+  };
+};
+
+const events = (chunks: string[]) =>
+  chunks
+    .filter((c) => c.startsWith("id:"))
+    .map((c) => {
+      const [, event, data] = c.match(/event: (.*)\ndata: (.*)\n/)!;
+      return { event, data: JSON.parse(data) };
+    });
+
+// ─── pipeRunEvents ─────────────────────────────────────────────────────────────
+
+describe("pipeRunEvents", () => {
+  it("emits step, branch and completion events, then closes", async () => {
+    const res = fakeResponse();
+    const run = fakeRun();
+    const done = pipeRunEvents(run, openEventStream(res as unknown as Response));
+
+    run.emit({ type: "workflow-step-start", payload: { id: "categorize-commits" } });
+    run.emit({
+      type: "workflow-step-result",
+      payload: {
+        id: "categorize-commits",
+        status: "success",
+        output: {
+          features: [{ sha: "a23ebf4", type: "feat", scope: "auth", message: "OAuth", breaking: false, body: "long…" }],
+          fixes: [], performance: [], maintenance: [],
+          versionBump: "minor", previousVersion: "v2.0.0", suggestedVersion: "v2.1.0",
+        },
+      },
+    });
+    run.emit({ type: "workflow-step-start", payload: { id: "refine-notes" } });
+    run.emit({ type: "workflow-step-result", payload: { id: "finalize-output", status: "success", output: { version: "v2.1.0" } } });
+    await done;
+
+    expect(events(res.chunks).map((e) => e.event)).toEqual([
+      "run-start", "step-start", "step-complete", "branch", "step-start", "step-complete", "run-complete",
+    ]);
+    const categorized = events(res.chunks)[2].data.output;
+    expect(categorized.features).toEqual([{ sha: "a23ebf4", type: "feat", scope: "auth", message: "OAuth", breaking: false }]);
+    expect(res.ended).toBe(true);
+    expect(run.watching).toBe(false);
+  });
+
+  it("reports a failed step as run-error with the error code", async () => {
+    const res = fakeResponse();
+    const run = fakeRun();
+    const done = pipeRunEvents(run, openEventStream(res as unknown as Response));
+
+    run.emit({
+      type: "workflow-step-result",
+      payload: { id: "parse-commits", status: "failed", error: { message: "Unknown git ref \"v9\"", code: "UNKNOWN_REF", status: 422 } },
+    });
+    await done;
+
+    expect(events(res.chunks).at(-1)).toEqual({
+      event: "run-error",
+      data: { runId: "run-1", stepId: "parse-commits", error: "Unknown git ref \"v9\"", code: "UNKNOWN_REF" },
+    });
+  });
+
+  it("closes with run-suspended when the run waits for review", async () => {
+    const res = fakeResponse();
+    const run = fakeRun();
+    const done = pipeRunEvents(run, openEventStream(res as unknown as Response));
+
+    const pending = { draft: "## v2.1.0", version: "v2.1.0", suggestions: [], revision: 0, feedback: [] };
+    run.emit({ type: "workflow-step-suspended", payload: { id: "review-notes", status: "suspended", suspendPayload: pending } });
+    await done;
+
+    expect(events(res.chunks).at(-1)).toEqual({
+      event: "run-suspended",
+      data: { runId: "run-1", stepId: "review-notes", review: pending },
+    });
+    expect(res.ended).toBe(true);
+  });
+
+  it("closes with run-finished when a step bails out of the run", async () => {
+    const res = fakeResponse();
+    const run = fakeRun();
+    const done = pipeRunEvents(run, openEventStream(res as unknown as Response));
+
+    run.emit({ type: "workflow-step-start", payload: { id: "parse-commits" } });
+    run.emit({ type: "workflow-step-result", payload: { id: "parse-commits", status: "bailed", output: {} } });
+    await done;
+
+    expect(events(res.chunks).slice(-2)).toEqual([
+      { event: "step-complete", data: { stepId: "parse-commits", status: "bailed", output: null } },
+      { event: "run-finished", data: { runId: "run-1", status: "bailed" } },
+    ]);
+    expect(res.ended).toBe(true);
+    expect(run.watching).toBe(false);
+  });
+
+  it("closes with run-failed when the workflow finishes tripped or failed", async () => {
+    const res = fakeResponse();
+    const run = fakeRun();
+    const done = pipeRunEvents(run, openEventStream(res as unknown as Response));
+
+    run.emit({ type: "workflow-finish", payload: { runId: "run-1" } });
+    expect(res.ended).toBe(false);
+    run.emit({
+      type: "workflow-finish",
+      payload: { workflowStatus: "tripwire", metadata: { error: { message: "Blocked by the moderation processor" } } },
+    });
+    await done;
+
+    expect(events(res.chunks).at(-1)).toEqual({
+      event: "run-failed",
+      data: { runId: "run-1", status: "tripwire", error: "Workflow execution failed", code: "INTERNAL_ERROR" },
+    });
+    expect(res.ended).toBe(true);
+  });
+
+  it("ends the stream from the run's outcome when no watch event did", async () => {
+    const res = fakeResponse();
+    const run = fakeRun();
+    const stream = openEventStream(res as unknown as Response);
+    const done = pipeRunEvents(run, stream);
+
+    endRunEvents(stream, { runId: "run-1", status: "suspended" });
+    expect(res.ended).toBe(false);
+    endRunEvents(stream, { runId: "run-1", status: "failed", error: { message: "Unknown git ref \"v9\"", code: "UNKNOWN_REF", status: 422 } });
+    await done;
+
+    expect(events(res.chunks).at(-1)).toEqual({
+      event: "run-failed",
+      data: { runId: "run-1", status: "failed", error: "Unknown git ref \"v9\"", code: "UNKNOWN_REF" },
+    });
+    expect(run.watching).toBe(false);
+  });
+
+  it("ends a stream subscribed mid-run once the stored run has failed", async () => {
+    const res = fakeResponse();
+    const run = fakeRun();
+    const stored: RunOutcome[] = [
+      { runId: "run-1", status: "running" },
+      { runId: "run-1", status: "running" },
+      { runId: "run-1", status: "failed", error: { message: "Budget exceeded", code: "BUDGET_EXCEEDED", status: 422 } },
+    ];
+    let reads = 0;
+    const outcome = async () => stored[Math.min(reads++, stored.length - 1)];
+    const done = pipeRunEvents(run, openEventStream(res as unknown as Response), { outcome, pollMs: 5 });
+
+    run.emit({ type: "workflow-step-start", payload: { id: "draft-notes" } });
+    run.emit({ type: "workflow-step-result", payload: { id: "draft-notes", status: "success", output: {} } });
+    await done;
+
+    expect(events(res.chunks).map((e) => e.event)).toEqual(["run-start", "step-start", "step-complete", "run-failed"]);
+    expect(events(res.chunks).at(-1)!.data).toEqual({ runId: "run-1", status: "failed", error: "Budget exceeded", code: "BUDGET_EXCEEDED" });
+    expect(reads).toBe(3);
+    expect(run.watching).toBe(false);
+  });
+
+  it("stops watching but leaves the run alone when the client disconnects", async () => {
+    const res = fakeResponse();
+    const run = fakeRun();
+    const done = pipeRunEvents(run, openEventStream(res as unknown as Response));
+
+    res.emit("close");
+    await done;
+    expect(run.watching).toBe(false);
+  });
+});
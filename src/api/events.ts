@@ -0,0 +1,196 @@
+import type { Response } from "express";
+import { describeError } from "../mastra/lib/errors.js";
+
+// ─── Server-Sent Events ───────────────────────────────────────────────────────
+// Translates Mastra's watch events into the progress events the frontend
+// renders:
+//
+//   run-start      { runId }
+//   step-start     { stepId }
+//   branch         { taken: "refine-notes" | "pass-through" }
+//   step-complete  { stepId, status, output }   output is a per-step summary
+//   run-suspended  { runId, stepId, review }     waiting for a reviewer
+//   run-complete   { runId, result }
+//   run-error      { runId, stepId, error, code }
+//   run-failed     { runId, status, error, code }  the run itself failed or tripped
+//   run-finished   { runId, status }            ended without notes, e.g. bailed
+//   run-canceled   { runId }
+//
+// A client disconnecting only stops its subscription; the run keeps going
+// unless it is canceled through POST /api/runs/:runId/cancel.
+
+type Payload = Record<string, any>;
+
+export interface WatchEvent {
+  type: string;
+  payload?: Payload;
+}
+
+export interface Watchable {
+  runId: string;
+  watch(cb: (event: WatchEvent) => void): () => void;
+}
+
+const BRANCH_STEPS = new Set(["refine-notes", "pass-through"]);
+const FINAL_STEP   = "finalize-output";
+
+export const TERMINAL_STATUSES = new Set(["success", "failed", "canceled", "bailed", "tripwire"]);
+
+const commitSummary = (c: Payload) => ({
+  sha: c.sha, type: c.type, scope: c.scope, message: c.message, breaking: c.breaking,
+});
+
+// Partial payloads are trimmed to what a progress UI shows; full step outputs
+// stay available from GET /api/runs/:runId.
+export const summarizeStepOutput = (stepId: string, output: Payload | undefined): Payload | null => {
+  if (!output) return null;
+  switch (stepId) {
+    case "parse-commits":
+      return {
+        fromRef: output.fromRef,
+        toRef:   output.toRef,
+        commits: (output.commits ?? []).map((c: Payload) => ({ ...commitSummary(c), classifiedBy: c.classifiedBy })),
+      };
+    case "categorize-commits":
+      return {
+        features:         (output.features ?? []).map(commitSummary),
+        fixes:            (output.fixes ?? []).map(commitSummary),
+        performance:      (output.performance ?? []).map(commitSummary),
+        maintenance:      (output.maintenance ?? []).map(commitSummary),
+        versionBump:      output.versionBump,
+        previousVersion:  output.previousVersion,
+        suggestedVersion: output.suggestedVersion,
+      };
+    default:
+      return output;
+  }
+};
+
+// ─── Stream plumbing ──────────────────────────────────────────────────────────
+
+export const openEventStream = (res: Response) => {
+  res.writeHead(200, {
+    "Content-Type":      "text/event-stream",
+    "Cache-Control":     "no-cache, no-transform",
+    Connection:          "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+
+  let id = 0;
+  let closed = false;
+  const listeners: Array<() => void> = [];
+  const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), 15_000);
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    listeners.forEach((fn) => fn());
+    res.end();
+  };
+  res.on("close", close);
+
+  return {
+    send: (event: string, data: unknown) => {
+      if (closed) return;
+      res.write(`id: ${++id}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    onClose: (fn: () => void) => listeners.push(fn),
+    close,
+  };
+};
+
+export type EventStream = ReturnType<typeof openEventStream>;
+
+export interface RunOutcome {
+  runId: string;
+  status: string;
+  result?: unknown;
+  error?: unknown;
+}
+
+// Sends the event for how a run ended and closes the stream. Runs that have
+// not ended (suspended, still running) leave the stream as it is.
+export const endRunEvents = (stream: EventStream, { runId, status, result, error }: RunOutcome) => {
+  if (!TERMINAL_STATUSES.has(status)) return;
+  if (status === "success") stream.send("run-complete", { runId, result: result ?? null });
+  else if (status === "canceled") stream.send("run-canceled", { runId });
+  else if (status === "failed" || status === "tripwire") {
+    const { code, message } = describeError(error ?? new Error(`Run ${status}`));
+    stream.send("run-failed", { runId, status, error: message, code });
+  } else stream.send("run-finished", { runId, status });
+  stream.close();
+};
+
+export interface PipeOptions {
+  // Reads how the run stands (e.g. from storage); polled for runs the caller
+  // did not start, whose outcome no watch event reports
+  outcome?: () => Promise<RunOutcome | null>;
+  pollMs?: number;
+}
+
+const OUTCOME_POLL_MS = 2_000;
+
+// Forwards a live run's events to the stream until the run reaches a terminal
+// state or the client goes away. Resolves once the subscription has ended.
+// Watch events do not say when the workflow as a whole failed: callers that
+// start the run pass its outcome to endRunEvents, the others pass `outcome`.
+export const pipeRunEvents = (run: Watchable, stream: EventStream, { outcome, pollMs = OUTCOME_POLL_MS }: PipeOptions = {}) =>
+  new Promise<void>((resolve) => {
+    const unwatch = run.watch((event) => {
+      const p = event.payload ?? {};
+      switch (event.type) {
+        case "workflow-step-start":
+          if (BRANCH_STEPS.has(p.id)) stream.send("branch", { taken: p.id });
+          stream.send("step-start", { stepId: p.id });
+          break;
+        case "workflow-step-result":
+          if (p.status === "failed") {
+            const { code, message } = describeError(p.error);
+            stream.send("run-error", { runId: run.runId, stepId: p.id, error: message, code });
+            return stream.close();
+          }
+          stream.send("step-complete", {
+            stepId: p.id,
+            status: p.status,
+            output: p.status === "success" ? summarizeStepOutput(p.id, p.output) : null,
+          });
+          if (p.id === FINAL_STEP && p.status === "success") {
+            stream.send("run-complete", { runId: run.runId, result: p.output });
+            return stream.close();
+          }
+          // A bailing step ends the run without reaching the final step
+          if (p.status === "bailed") return endRunEvents(stream, { runId: run.runId, status: "bailed" });
+          break;
+        case "workflow-step-suspended":
+          stream.send("run-suspended", { runId: run.runId, stepId: p.id, review: p.suspendPayload ?? null });
+          return stream.close();
+        case "workflow-canceled":
+          stream.send("run-canceled", { runId: run.runId });
+          return stream.close();
+        // Streamed runs report how the workflow ended; the status is missing
+        // when the engine only signals that the stream is done
+        case "workflow-finish": {
+          const status = p.workflowStatus ?? p.status;
+          if (status) endRunEvents(stream, { runId: run.runId, status, error: p.metadata?.error ?? p.error });
+          break;
+        }
+      }
+    });
+
+    // Checked once straight away too, for a run that ended before the watch began
+    const check = () => outcome?.().then(
+      (o) => o && endRunEvents(stream, o),
+      (error) => console.error("[runs] failed to read run outcome:", error),
+    );
+    const poll = outcome ? setInterval(check, pollMs) : undefined;
+
+    stream.onClose(() => {
+      clearInterval(poll);
+      unwatch();
+      resolve();
+    });
+    stream.send("run-start", { runId: run.runId });
+    void check();
+  });
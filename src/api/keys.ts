@@ -0,0 +1,68 @@
+import { Router } from "express";
+import { createApiKey, getApiKey, getUsage, listApiKeys, revokeApiKey, rotateApiKey, type ApiKey } from "../mastra/auth/keys.js";
+import { parseApiKeyBody } from "./requests.js";
+
+// ─── Routes ───────────────────────────────────────────────────────────────────
+// Admin only (see access.ts). The secret is in the response to create and
+// rotate and nowhere else.
+
+const withUsage = async (key: ApiKey) => ({ ...key, usage: await getUsage(key.id) });
+
+export const keysRouter = Router();
+
+keysRouter.post("/", async (req, res) => {
+  const parsed = parseApiKeyBody(req.body);
+  if (!parsed.ok) return res.status(400).json({ error: parsed.error });
+
+  try {
+    const { key, secret } = await createApiKey(parsed.key);
+    res.status(201).json({ ...key, secret });
+  } catch (error) {
+    console.error("[keys] failed to create key:", error);
+    res.status(500).json({ error: "Failed to create API key" });
+  }
+});
+
+keysRouter.get("/", async (req, res) => {
+  try {
+    const keys = await listApiKeys({ includeRevoked: req.query.includeRevoked === "true" });
+    res.json({ keys: await Promise.all(keys.map(withUsage)) });
+  } catch (error) {
+    console.error("[keys] failed to list keys:", error);
+    res.status(500).json({ error: "Failed to list API keys" });
+  }
+});
+
+keysRouter.get("/:id", async (req, res) => {
+  try {
+    const key = await getApiKey(req.params.id);
+    if (!key) return res.status(404).json({ error: "API key not found", code: "UNKNOWN_KEY" });
+    res.json(await withUsage(key));
+  } catch (error) {
+    console.error("[keys] failed to load key:", error);
+    res.status(500).json({ error: "Failed to load API key" });
+  }
+});
+
+keysRouter.post("/:id/rotate", async (req, res) => {
+  try {
+    const rotated = await rotateApiKey(req.params.id);
+    if (!rotated) return res.status(404).json({ error: "API key not found or revoked", code: "UNKNOWN_KEY" });
+    res.json({ ...rotated.key, secret: rotated.secret });
+  } catch (error) {
+    console.error("[keys] failed to rotate key:", error);
+    res.status(500).json({ error: "Failed to rotate API key" });
+  }
+});
+
+keysRouter.delete("/:id", async (req, res) => {
+  try {
+    if (!(await revokeApiKey(req.params.id))) {
+      return res.status(404).json({ error: "API key not found or already revoked", code: "UNKNOWN_KEY" });
+    }
+    res.status(204).end();
+  } catch (error) {
+    console.error("[keys] failed to revoke key:", error);
+    res.status(500).json({ error: "Failed to revoke API key" });
+  }
+});
@@ -0,0 +1,1482 @@
+// ─── OpenAPI spec ─────────────────────────────────────────────────────────────
+// Served by Swagger UI at /api-docs. Request and result shapes are shared
+// components so /api/query and /api/runs stay in step.
+
+const json = (schema: object) => ({ "application/json": { schema } });
+const ref  = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const errorResponses = {
+  400: { description: "Missing or invalid request field", content: json(ref("Error")) },
+  404: { description: "Repository path missing or not a git repository (REPO_NOT_FOUND)", content: json(ref("Error")) },
+  422: {
+    description:
+      "Unknown ref (UNKNOWN_REF), a repoPath the server does not serve (REPO_NOT_ALLOWED), " +
+      "no commit range in commitLog (MISSING_RANGE), no commits in range (EMPTY_RANGE), " +
+      "invalid version input (INVALID_VERSION), " +
+      "a changelog path outside the repository (INVALID_CHANGELOG_PATH), an unknown or invalid template " +
+      "(UNKNOWN_TEMPLATE, INVALID_TEMPLATE), an unknown or invalid project profile (UNKNOWN_PROJECT, INVALID_PROJECT), " +
+      "a model call the run's budget does not cover (BUDGET_EXCEEDED), " +
+      "or a cost budget with a model that has no price (MODEL_UNPRICED)",
+    content: json(ref("Error")),
+  },
+  500: { description: "Workflow execution failed", content: json(ref("Error")) },
+};
+
+// Any route behind an API key
+const accessResponses = {
+  401: { description: "Missing, invalid or revoked API key (UNAUTHENTICATED, INVALID_API_KEY)", content: json(ref("Error")) },
+  403: { description: "The key lacks the scope the route needs (INSUFFICIENT_SCOPE)", content: json(ref("Error")) },
+  429: {
+    description:
+      "Per-minute rate limit (RATE_LIMITED) or monthly quota (QUOTA_EXCEEDED) used up; see Retry-After. A run that " +
+      "reaches the key's token quota part-way fails with QUOTA_EXCEEDED as well",
+    headers: { "Retry-After": { schema: { type: "integer" }, description: "Seconds until the request may be retried" } },
+    content: json(ref("Error")),
+  },
+};
+
+// Shared by the approve / edit / reject endpoints
+const reviewResponses = {
+  parameters: [{ name: "runId", in: "path", required: true, schema: { type: "string" } }],
+  responses: {
+    202: {
+      description: "Run resumed; poll GET /api/runs/{runId}",
+      content: json({
+        type: "object",
+        properties: { runId: { type: "string" }, status: { type: "string", example: "running" }, url: { type: "string" } },
+      }),
+    },
+    400: errorResponses[400],
+    404: { description: "No run with that ID that the API key may see (RUN_NOT_FOUND)", content: json(ref("Error")) },
+    409: { description: "Run is not awaiting review (RUN_NOT_SUSPENDED)", content: json(ref("Error")) },
+  },
+};
+
+export const swaggerSpec = {
+  openapi: "3.0.0",
+  info: {
+    title: "Release Notes Generator API",
+    version: "1.0.0",
+    description:
+      "Runs the Mastra multi-step release notes workflow. " +
+      "Pass a commit range and optional instructions; receive polished Markdown release notes. " +
+      "Every route but the webhooks needs an API key in X-API-Key or an Authorization: Bearer header; " +
+      "starting runs needs the generate scope, reading them and the release history runs:read, and writes to templates, projects, " +
+      "enrichments and keys admin. A run is only visible to the key that started it and to admin keys. " +
+      "See the 401, 403 and 429 responses of POST /api/query.",
+  },
+  servers: [{ url: "http://localhost:3001", description: "Local dev server" }],
+  security: [{ ApiKeyAuth: [] }, { BearerAuth: [] }],
+  components: {
+    securitySchemes: {
+      ApiKeyAuth: { type: "apiKey", in: "header", name: "X-API-Key" },
+      BearerAuth: { type: "http", scheme: "bearer", description: "The same API key as a bearer token" },
+    },
+    schemas: {
+      ReleaseNotesRequest: {
+        type: "object",
+        required: ["commitLog"],
+        properties: {
+          commitLog: {
+            type: "string",
+            description:
+              "Commit range (\"<fromRef>..<toRef>\") on the first line, then optional instructions. " +
+              "Without a range the run fails with MISSING_RANGE.",
+            example: "commits f59ffed..9f130dd",
+          },
+          repoPath: {
+            type: "string",
+            description:
+              "Local git repository to read the range from. Defaults to RELEASE_NOTES_REPO_PATH or the server's cwd. " +
+              "Only that repository, a project's repoPath or one under RELEASE_NOTES_REPO_ROOTS is allowed (REPO_NOT_ALLOWED).",
+            example: "/srv/repos/n-aible_edtech_sims",
+          },
+          currentVersion: {
+            type: "string",
+            description:
+              "Version this release bumps from. Defaults to the latest semver tag reachable from the range's fromRef.",
+            example: "v2.0.0",
+          },
+          prerelease: {
+            type: "string",
+            description: "Prerelease channel; produces e.g. v2.1.0-beta.0, then v2.1.0-beta.1 from there.",
+            example: "beta",
+          },
+          buildMetadata: {
+            type: "string",
+            description: "Semver build metadata appended after '+'.",
+            example: "sha.9f130dd",
+          },
+          formats: {
+            type: "array",
+            items: { type: "string", enum: ["json", "keepachangelog", "html", "text", "slack"] },
+            description:
+              "Extra renderings returned under `formats` in the result. All are built from the enriched entries, " +
+              "not from the Markdown draft. The Markdown `result` is always returned.",
+            example: ["json", "slack"],
+          },
+          changelog: {
+            type: "object",
+            description:
+              "Return CHANGELOG.md with this release spliced in. Send an empty object to read the file from repoPath.",
+            properties: {
+              contents: { type: "string", description: "Current changelog; read from repoPath when omitted" },
+              path:     { type: "string", default: "CHANGELOG.md", description: "Path relative to repoPath" },
+            },
+          },
+          review: {
+            type: "boolean",
+            default: false,
+            description:
+              "Suspend the run before finalizing until a reviewer approves, edits or rejects the notes " +
+              "via /api/runs/{runId}/approve, /edit or /reject",
+          },
+          audiences: {
+            type: "array",
+            items: { type: "string", enum: ["developer", "customer", "executive-summary", "internal-ops"] },
+            description:
+              "Extra variants of the notes, returned under `variants`. Each audience has its own tone and " +
+              "filters: customer and executive-summary drop maintenance, docs and test commits, " +
+              "executive-summary keeps the top three per section and adds a summary, internal-ops drops tests. " +
+              "Breaking changes are always kept.",
+            example: ["customer", "executive-summary"],
+          },
+          locales: {
+            type: "array",
+            items: { type: "string" },
+            description:
+              "Translations of the final notes, returned under `localizations` and kept in the release history. " +
+              "Version headers, code, links, shas, references and the project's product and glossary terms stay as written.",
+            example: ["de", "pt-BR"],
+          },
+          template: {
+            type: "string",
+            default: "default",
+            description: "Template for the Markdown result's layout; defaults to the project's template. See GET /api/templates",
+            example: "keep-a-changelog",
+          },
+          project: {
+            type: "string",
+            description:
+              "Project profile supplying the product context, glossary, tone, version scheme and defaults for " +
+              "repoPath and template. Defaults to RELEASE_NOTES_PROJECT or the built-in profile; see GET /api/projects",
+            example: "n-aible",
+          },
+          releaseDate: {
+            type: "string",
+            format: "date",
+            description: "Release date for headers and calendar versions. Defaults to the date toRef was committed.",
+            example: "2026-03-09",
+          },
+          includeDiffs: {
+            type: "boolean",
+            description:
+              "Also give the classify and enrich models each commit's diff, capped at 3000 characters. " +
+              "Changed files with line counts are always included.",
+          },
+          maxRefinements: {
+            type: "integer",
+            minimum: 1,
+            maximum: 5,
+            description: "Refine passes allowed while the notes fail verification. Defaults to RELEASE_NOTES_MAX_REFINEMENTS or 2.",
+          },
+          budget: {
+            type: "object",
+            description:
+              "Limits on the run's model usage. Each model call is held to its prompt and longest possible answer " +
+              "(maxOutputTokens) before it runs; one that would go over fails the run with BUDGET_EXCEEDED, and " +
+              "refine passes that would go over are skipped. A maxCost needs a price for every model the run calls " +
+              "(MODEL_UNPRICED otherwise). Defaults to RELEASE_NOTES_MAX_TOKENS and " +
+              "RELEASE_NOTES_MAX_COST. The API key's monthly token quota applies as well (QUOTA_EXCEEDED).",
+            properties: {
+              maxTokens: { type: "integer", minimum: 1, example: 50000 },
+              maxCost:   { type: "number", exclusiveMinimum: true, minimum: 0, description: "USD", example: 0.5 },
+            },
+          },
+          dryRun: {
+            type: "boolean",
+            default: false,
+            description: "Generate the notes without adding them to the release history, e.g. for a preview",
+          },
+        },
+      },
+      ReleaseNotesResult: {
+        type: "object",
+        properties: {
+          result:  { type: "string", description: "Markdown release notes" },
+          version: {
+            type: "string",
+            example: "v2.1.0",
+            description: "Computed next version; 0.x releases bump minor for breaking changes and patch otherwise",
+          },
+          refined: { type: "boolean", description: "True if a refinement pass was applied" },
+          classification: {
+            type: "array",
+            description: "How each commit in the range was classified",
+            items: {
+              type: "object",
+              properties: {
+                sha:          { type: "string", example: "a23ebf4" },
+                type:         { type: "string", enum: ["feat", "fix", "perf", "chore", "docs", "refactor", "test"] },
+                scope:        { type: "string", nullable: true, example: "auth" },
+                breaking:     { type: "boolean" },
+                classifiedBy: {
+                  type: "string",
+                  enum: ["conventional", "llm"],
+                  description: "conventional = parsed from a Conventional Commits header; llm = free-form message classified by the parse model",
+                },
+                mergedIn: {
+                  type: "string",
+                  nullable: true,
+                  description: "Sha of the merge commit whose entry covers this commit; such commits get no entry of their own",
+                },
+              },
+            },
+          },
+          formats: ref("RenderedFormats"),
+          changelog: { allOf: [ref("ChangelogUpdate")], nullable: true, description: "Present when changelog was requested" },
+          review:    { allOf: [ref("ReviewReport")], nullable: true, description: "Present in review mode" },
+          variants:  { type: "array", items: ref("AudienceVariant"), description: "One per requested audience" },
+          localizations: { type: "array", items: ref("Localization"), description: "One per requested locale" },
+          migrations: {
+            type: "array",
+            items: ref("MigrationGuide"),
+            description: "One per breaking commit; also rendered into the notes' breaking changes section",
+          },
+          packages: {
+            type: "array",
+            items: ref("PackageRelease"),
+            description: "One per released package, for projects with packages; also summarised in the notes",
+          },
+          verification: ref("VerificationReport"),
+          usage:        ref("Usage"),
+          release: {
+            type: "object",
+            nullable: true,
+            description: "Where the release history keeps this run; see GET /api/releases/{version}. null for dry runs",
+            properties: {
+              project:  { type: "string", example: "default" },
+              version:  { type: "string", example: "v2.1.0" },
+              revision: { type: "integer", example: 1, description: "Starts at 1; regenerating the version adds one" },
+              verified: { type: "boolean", description: "false when the notes failed verification; they are kept all the same" },
+            },
+          },
+        },
+      },
+      Localization: {
+        type: "object",
+        properties: {
+          locale:   { type: "string", example: "pt-BR" },
+          language: { type: "string", example: "Brazilian Portuguese" },
+          markdown: { type: "string" },
+          verified: { type: "boolean", description: "False when the translation lost a reference or changed the structure" },
+          issues: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                rule:    { type: "string", enum: ["placeholder", "structure"] },
+                message: { type: "string" },
+              },
+            },
+          },
+        },
+      },
+      ReleaseSummary: {
+        type: "object",
+        properties: {
+          project:     { type: "string", example: "default" },
+          version:     { type: "string", example: "v2.1.0" },
+          revision:    { type: "integer", example: 1 },
+          range:       { type: "object", properties: { from: { type: "string" }, to: { type: "string" } } },
+          template:    { type: "string", example: "default" },
+          audiences:   { type: "array", items: { type: "string" } },
+          releaseDate: { type: "string", example: "2026-02-19" },
+          runId:       { type: "string", nullable: true },
+          verified:    { type: "boolean", description: "The notes passed verification" },
+          commits:     { type: "integer", description: "Commits in the range" },
+          entries:     { type: "integer", description: "Entries in the notes" },
+          createdAt:   { type: "string", format: "date-time" },
+        },
+      },
+      StoredRelease: {
+        description: "A finalized run as the release history keeps it",
+        allOf: [
+          ref("ReleaseSummary"),
+          {
+            type: "object",
+            properties: {
+              commits: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    sha:      { type: "string", example: "a23ebf4" },
+                    type:     { type: "string", example: "feat" },
+                    scope:    { type: "string", nullable: true },
+                    subject:  { type: "string" },
+                    author:   { type: "string" },
+                    breaking: { type: "boolean" },
+                    mergedIn: { type: "string", nullable: true },
+                  },
+                },
+              },
+              issues:   {
+                type: "array",
+                items: { type: "object" },
+                description: "What verification found, as in VerificationReport.issues; empty for verified releases",
+              },
+              markdown: { type: "string" },
+              document: ref("ReleaseDocument"),
+              outputs: {
+                type: "object",
+                properties: {
+                  formats:  ref("RenderedFormats"),
+                  variants: {
+                    type: "array",
+                    items: { type: "object", properties: { audience: { type: "string" }, markdown: { type: "string" } } },
+                  },
+                  localizations: {
+                    type: "array",
+                    items: { type: "object", properties: { locale: { type: "string" }, markdown: { type: "string" } } },
+                  },
+                  packages: {
+                    type: "array",
+                    items: {
+                      type: "object",
+                      properties: { name: { type: "string" }, version: { type: "string" }, markdown: { type: "string" } },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        ],
+      },
+      ReleaseEntryRecord: {
+        type: "object",
+        properties: {
+          project:     { type: "string" },
+          version:     { type: "string" },
+          revision:    { type: "integer" },
+          section:     { type: "string", example: "features", description: "Id of the template section the entry is in" },
+          sha:         { type: "string", example: "a23ebf4" },
+          type:        { type: "string", nullable: true, example: "feat" },
+          title:       { type: "string" },
+          description: { type: "string" },
+          breaking:    { type: "boolean" },
+        },
+      },
+      UsageTotals: {
+        type: "object",
+        properties: {
+          calls:        { type: "integer" },
+          inputTokens:  { type: "integer" },
+          outputTokens: { type: "integer" },
+          totalTokens:  { type: "integer" },
+          cost:         { type: "number", description: "USD, from the price table (RELEASE_NOTES_PRICES)" },
+        },
+      },
+      Usage: {
+        description: "Model tokens and cost for the run, per step and per model",
+        allOf: [
+          ref("UsageTotals"),
+          {
+            type: "object",
+            properties: {
+              currency:       { type: "string", example: "USD" },
+              steps:          { type: "object", additionalProperties: ref("UsageTotals"), description: "Keyed by step id" },
+              models:         { type: "object", additionalProperties: ref("UsageTotals"), example: { "openai:gpt-4o": {} } },
+              unpricedModels: {
+                type: "array",
+                items: { type: "string" },
+                description: "Models missing from the price table; their calls count as free in cost",
+              },
+              budget: {
+                type: "object",
+                properties: {
+                  maxTokens:         { type: "integer", nullable: true },
+                  maxCost:           { type: "number", nullable: true },
+                  refinementSkipped: { type: "string", nullable: true, description: "Why refine passes were skipped" },
+                },
+              },
+            },
+          },
+        ],
+      },
+      VerificationReport: {
+        type: "object",
+        description: "Rule-based checks on the final notes",
+        properties: {
+          passed:      { type: "boolean" },
+          refinements: { type: "integer", description: "Refine passes the quality branch ran" },
+          issues: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                rule: {
+                  type: "string",
+                  enum: ["coverage", "unexpected-entry", "empty-section", "version-header", "markdown"],
+                  description:
+                    "coverage = an entry is missing, repeated or in the wrong section; unexpected-entry = an entry or sha " +
+                    "matches no commit in the range; empty-section = a section without entries; version-header = the " +
+                    "header does not name the computed version; markdown = malformed Markdown",
+                },
+                message: { type: "string", example: "Add the missing entry 80941b8 (\"Expired Tokens\") under \"### 🐛 Bug Fixes\"." },
+                sha:     { type: "string" },
+              },
+            },
+          },
+        },
+      },
+      PackageRelease: {
+        type: "object",
+        properties: {
+          name:            { type: "string", example: "@acme/api" },
+          bump:            { type: "string", enum: ["major", "minor", "patch"] },
+          reason: {
+            type: "string",
+            enum: ["changes", "dependency"],
+            description: "changes = commits touched the package; dependency = only packages it depends on changed",
+          },
+          triggeredBy:     { type: "array", items: { type: "string" }, description: "For dependency releases: the released packages it depends on" },
+          previousVersion: { type: "string", nullable: true, example: "1.2.0", description: "From the newest <tagPrefix><version> tag behind fromRef" },
+          version:         { type: "string", example: "1.3.0" },
+          tag:             { type: "string", example: "@acme/api@1.3.0" },
+          shas:            { type: "array", items: { type: "string" }, description: "Entries in this package's notes" },
+          summary:         { type: "string", nullable: true, description: "Set for dependency releases" },
+          markdown:        { type: "string" },
+          document:        ref("ReleaseDocument"),
+        },
+      },
+      MigrationGuide: {
+        type: "object",
+        properties: {
+          sha:           { type: "string", example: "a23ebf4" },
+          title:         { type: "string", example: "Password Sessions Removed" },
+          whatChanged:   { type: "string" },
+          whoIsAffected: { type: "string" },
+          upgradeSteps:  { type: "array", items: { type: "string" } },
+        },
+      },
+      AudienceVariant: {
+        type: "object",
+        properties: {
+          audience: { type: "string", enum: ["developer", "customer", "executive-summary", "internal-ops"] },
+          label:    { type: "string", example: "Customers" },
+          summary:  { type: "string", nullable: true, description: "Set for executive-summary" },
+          markdown: { type: "string" },
+          document: ref("ReleaseDocument"),
+        },
+      },
+      PendingReview: {
+        type: "object",
+        description: "What a suspended run is waiting on a reviewer for",
+        properties: {
+          draft:       { type: "string", description: "Markdown notes to review" },
+          version:     { type: "string", example: "v2.1.0" },
+          suggestions: {
+            type: "array",
+            items: { type: "string" },
+            description: "Quality-check suggestions, or the feedback behind the latest revision",
+          },
+          revision:    { type: "integer", description: "Refine passes triggered by rejections so far" },
+          feedback:    { type: "array", items: { type: "string" }, description: "All rejection feedback so far" },
+        },
+      },
+      ReviewReport: {
+        type: "object",
+        properties: {
+          status:    { type: "string", enum: ["approved", "edited"] },
+          reviewer:  { type: "string", nullable: true },
+          revisions: { type: "integer" },
+          feedback:  { type: "array", items: { type: "string" } },
+        },
+      },
+      ChangelogUpdate: {
+        type: "object",
+        description:
+          "The same version's section is replaced, a new one goes in version order, Unreleased entries move into " +
+          "the newest release and compare links at the bottom are updated",
+        properties: {
+          path:     { type: "string", example: "CHANGELOG.md" },
+          action:   { type: "string", enum: ["created", "inserted", "replaced"] },
+          contents: { type: "string", description: "Updated file contents" },
+          diff:     {
+            type: "string",
+            description: "Unified diff against the previous contents, suitable for git apply",
+            example: "--- a/CHANGELOG.md\n+++ b/CHANGELOG.md\n@@ -7,6 +7,12 @@\n…",
+          },
+        },
+      },
+      RenderedFormats: {
+        type: "object",
+        description: "One key per requested format",
+        properties: {
+          json:           ref("ReleaseDocument"),
+          keepachangelog: {
+            type: "string",
+            description: "Keep a Changelog 1.1.0 section (Added / Changed / Fixed) for this version",
+            example: "## [2.1.0] - 2025-12-04\n\n### Added\n\n- **Google Sign-In**: Students can log in with Google. (a23ebf4)\n",
+          },
+          html: {
+            type: "string",
+            description: "HTML fragment; entry text is escaped, only inline code is kept as markup",
+          },
+          text: { type: "string", description: "Plain text with underlined headings" },
+          slack: ref("SlackMessage"),
+        },
+      },
+      ReleaseEntry: {
+        type: "object",
+        properties: {
+          sha:         { type: "string", example: "a23ebf4" },
+          title:       { type: "string", example: "Google Sign-In" },
+          description: { type: "string", example: "Students can log in with their school Google account." },
+          breaking:    { type: "boolean" },
+          links:       { type: "array", items: ref("EntryLink"), description: "Pull requests and issues, or the commit without a pull request" },
+        },
+      },
+      EntryLink: {
+        type: "object",
+        properties: {
+          label:    { type: "string", example: "#240" },
+          url:      { type: "string", nullable: true, description: "null when the project has no URL pattern for this kind of reference" },
+          relation: { type: "string", enum: ["pull", "closes", "refs", "commit"] },
+        },
+      },
+      Contributor: {
+        type: "object",
+        properties: {
+          name:    { type: "string", example: "Ada Lovelace" },
+          email:   { type: "string", example: "ada@example.com" },
+          commits: { type: "integer", description: "Commits authored or co-authored in the range" },
+        },
+      },
+      ReleaseDocument: {
+        type: "object",
+        properties: {
+          package:  { type: "string", example: "@acme/api", description: "Set for package releases" },
+          version:  { type: "string", example: "v2.1.0" },
+          date:     { type: "string", format: "date", description: "Date of the range's last commit" },
+          range:    {
+            type: "object",
+            properties: { from: { type: "string", example: "f59ffed" }, to: { type: "string", example: "9f130dd" } },
+          },
+          sections: {
+            type: "array",
+            description: "The template's non-empty sections, in its order (features, fixes, performance, maintenance by default)",
+            items: {
+              type: "object",
+              properties: {
+                id:      { type: "string", example: "features", description: "Template section id" },
+                title:   { type: "string", example: "Features", description: "Template heading without its ### and icon" },
+                icon:    { type: "string", example: "✨", description: "The heading's leading emoji, if it has one" },
+                entries: { type: "array", items: ref("ReleaseEntry") },
+              },
+            },
+          },
+          contributors: {
+            type: "array",
+            items: ref("Contributor"),
+            description: "Commit authors and co-authors, bots excluded; omitted for audiences without a contributors list",
+          },
+        },
+      },
+      SlackMessage: {
+        type: "object",
+        description: "Block Kit payload ready for chat.postMessage or an incoming webhook",
+        properties: {
+          text:   { type: "string", description: "Notification fallback text" },
+          blocks: { type: "array", items: { type: "object" } },
+        },
+      },
+      TemplateSection: {
+        type: "object",
+        required: ["id", "heading", "types"],
+        properties: {
+          id:      { type: "string", example: "features" },
+          heading: { type: "string", example: "### ✨ Features" },
+          types:   {
+            type: "array",
+            items: { type: "string", enum: ["feat", "fix", "perf", "chore", "docs", "refactor", "test"] },
+            description: "Commit types listed in this section; each type may belong to one section at most",
+          },
+          entry:   { type: "string", description: "Overrides the template's entry format for this section" },
+        },
+      },
+      Template: {
+        type: "object",
+        required: ["sections"],
+        description:
+          "Placeholders: header and footer take {{version}}, {{previousVersion}}, {{date}}, {{monthYear}}, " +
+          "{{fromRef}}, {{toRef}}; entries take {{title}}, {{description}}, {{sha}}, {{scope}}, {{type}}, {{breaking}}, " +
+          "{{refs}}. Entry formats without {{refs}} get the entry's links appended. " +
+          "Commit types no section claims are left out.",
+        properties: {
+          name:          { type: "string", example: "keep-a-changelog" },
+          description:   { type: "string" },
+          header:        { type: "string", default: "## {{version}} — {{monthYear}}", description: "Must be a '## ' heading containing {{version}}" },
+          footer:        { type: "string", default: "" },
+          entry:         { type: "string", default: "- {{breaking}}**{{title}}**: {{description}}" },
+          breakingLabel: { type: "string", default: "**BREAKING:** ", description: "What {{breaking}} expands to" },
+          breakingHeading: {
+            type: "string",
+            default: "### ⚠️ Breaking Changes",
+            description: "Heading of the section listing breaking commits with their migration guides, below the header",
+          },
+          contributorsHeading: {
+            type: "string",
+            default: "### 👥 Contributors",
+            description: "Heading of the contributors list above the footer; empty leaves it out",
+          },
+          packagesHeading: {
+            type: "string",
+            default: "### 📦 Packages",
+            description: "Heading of the package versions list above the contributors, for projects with packages; empty leaves it out",
+          },
+          sections:      { type: "array", items: ref("TemplateSection") },
+          source:        { type: "string", enum: ["database", "file", "builtin"], readOnly: true },
+        },
+      },
+      TemplateSummary: {
+        type: "object",
+        properties: {
+          name:        { type: "string" },
+          description: { type: "string" },
+          source:      { type: "string", enum: ["database", "file", "builtin"] },
+          errors:      { type: "array", items: { type: "string" }, description: "Validation errors of a broken template file" },
+        },
+      },
+      ProjectProfile: {
+        type: "object",
+        required: ["product"],
+        properties: {
+          name:          { type: "string", example: "n-aible" },
+          product:       { type: "string", example: "n-aible" },
+          description:   { type: "string", example: "an AI-powered EdTech simulation platform" },
+          glossary:      { type: "object", additionalProperties: { type: "string" }, description: "Domain term → meaning; left untranslated in localized notes" },
+          repoPath:      { type: "string", description: "Repository used when the request has no repoPath" },
+          template:      { type: "string", description: "Template used when the request has no template" },
+          tone:          { type: "string", description: "Style guidance added to every prompt" },
+          versionScheme: {
+            type: "string",
+            enum: ["semver", "calver"],
+            default: "semver",
+            description: "calver releases as YYYY.M.MICRO from the release date, e.g. v2026.3.0",
+          },
+          links:         ref("LinkConfig"),
+          components:    {
+            type: "array",
+            description:
+              "Path rules that give commits without a Conventional Commits scope one: the scope whose paths saw the most " +
+              "changed lines wins. * matches within a directory, ** across directories; a trailing / matches a whole directory.",
+            items: {
+              type: "object",
+              required: ["scope", "paths"],
+              properties: {
+                scope: { type: "string", example: "notifications" },
+                paths: { type: "array", items: { type: "string" }, example: ["src/notifications/", "**/push*.ts"] },
+              },
+            },
+          },
+          packages:      {
+            type: "array",
+            description:
+              "Monorepo packages. A commit belongs to every package whose paths it touched; each package is bumped from " +
+              "its own commits and tags, and packages depending on a released one get a patch release.",
+            items: {
+              type: "object",
+              required: ["name", "paths"],
+              properties: {
+                name:      { type: "string", example: "@acme/api" },
+                paths:     { type: "array", items: { type: "string" }, example: ["packages/api/"] },
+                dependsOn: { type: "array", items: { type: "string" }, example: ["@acme/core"] },
+                tagPrefix: { type: "string", description: "Tags are <tagPrefix><version>; defaults to <name>@" },
+              },
+            },
+          },
+          webhook:       {
+            type: "object",
+            description: "Which deliveries to POST /api/webhooks/{forge} start a run; same pattern syntax as components",
+            properties: {
+              tags:         {
+                type: "array",
+                items: { type: "string" },
+                default: ["v*"],
+                description: "Tag pushes that start a run; releases begin at the previous tag matching these",
+              },
+              branches:     { type: "array", items: { type: "string" }, default: [], description: "Branches whose pushes start a run" },
+              pullRequests: {
+                type: "array",
+                items: { type: "string" },
+                default: [],
+                description: "Head branches of release pull/merge requests whose merge starts a run",
+                example: ["release/*"],
+              },
+              repository:   {
+                type: "string",
+                description: "The only forge repository (GitHub full name, GitLab path with namespace) whose deliveries " +
+                  "start runs for the project; required to pick the project with ?project=",
+                example: "acme/app",
+              },
+            },
+          },
+          source:        { type: "string", enum: ["file", "builtin"], readOnly: true },
+        },
+      },
+      LinkConfig: {
+        type: "object",
+        description:
+          "URL patterns for entry links. A forge preset builds commit, pull request and issue URLs from repoUrl; " +
+          "explicit patterns override it. Without a pattern the reference is shown unlinked.",
+        properties: {
+          forge:       { type: "string", enum: ["github", "gitlab"] },
+          repoUrl:     { type: "string", format: "uri", example: "https://github.com/acme/app" },
+          commit:      { type: "string", example: "https://github.com/acme/app/commit/{sha}" },
+          pullRequest: { type: "string", example: "https://github.com/acme/app/pull/{number}" },
+          issue:       { type: "string", example: "https://github.com/acme/app/issues/{number}" },
+          ticket:      { type: "string", example: "https://acme.atlassian.net/browse/{key}", description: "For tracker keys such as ABC-42" },
+        },
+      },
+      ProjectSummary: {
+        type: "object",
+        properties: {
+          name:    { type: "string" },
+          product: { type: "string" },
+          source:  { type: "string", enum: ["file", "builtin"] },
+          errors:  { type: "array", items: { type: "string" }, description: "Validation errors of a broken profile file" },
+        },
+      },
+      CachedEnrichment: {
+        type: "object",
+        properties: {
+          sha:         { type: "string", example: "a23ebf4c1d0e7b2a9f8e6d5c4b3a2f1e0d9c8b7a", description: "Full commit sha" },
+          project:     { type: "string", example: "n-aible" },
+          audience:    { type: "string", example: "default", description: "\"default\" for the main notes, else an audience variant" },
+          prompt:      { type: "string", nullable: true, example: "enrich-features@1", description: "null for pinned entries" },
+          model:       { type: "string", nullable: true, example: "openai:gpt-4o" },
+          title:       { type: "string" },
+          description: { type: "string" },
+          pinned:      { type: "boolean" },
+          updatedAt:   { type: "string", format: "date-time" },
+        },
+      },
+      RunStatus: {
+        type: "string",
+        enum: ["pending", "running", "success", "failed", "suspended", "waiting", "canceled", "bailed", "paused", "tripwire"],
+      },
+      RunStep: {
+        type: "object",
+        properties: {
+          status:    ref("RunStatus"),
+          startedAt: { type: "string", format: "date-time", nullable: true },
+          endedAt:   { type: "string", format: "date-time", nullable: true },
+          output:    { type: "object", nullable: true, description: "The step's output once it has succeeded" },
+          error:     { allOf: [ref("Error")], nullable: true },
+        },
+      },
+      Run: {
+        type: "object",
+        properties: {
+          runId:        { type: "string", format: "uuid" },
+          status:       ref("RunStatus"),
+          createdAt:    { type: "string", format: "date-time" },
+          updatedAt:    { type: "string", format: "date-time" },
+          currentSteps: {
+            type: "array",
+            items: { type: "string" },
+            description: "Steps executing right now (two while the enrich steps run in parallel)",
+            example: ["draft-release-notes"],
+          },
+          steps:  { type: "object", additionalProperties: ref("RunStep"), description: "Keyed by step id" },
+          input:  { type: "object", nullable: true, description: "Workflow input the run was started with" },
+          review: { allOf: [ref("PendingReview")], nullable: true, description: "Set while the run awaits review" },
+          result: { allOf: [ref("ReleaseNotesResult")], nullable: true },
+          error:  { allOf: [ref("Error")], nullable: true },
+          usage:  { allOf: [ref("Usage")], description: "Usage the steps recorded so far; without the budget" },
+        },
+      },
+      RunSummary: {
+        type: "object",
+        properties: {
+          runId:     { type: "string", format: "uuid" },
+          status:    ref("RunStatus"),
+          createdAt: { type: "string", format: "date-time" },
+          updatedAt: { type: "string", format: "date-time" },
+          commitLog: { type: "string", nullable: true },
+          version:   { type: "string", nullable: true },
+          usage:     {
+            type: "object",
+            properties: { calls: { type: "integer" }, totalTokens: { type: "integer" }, cost: { type: "number" } },
+          },
+        },
+      },
+      ApiKeyRequest: {
+        type: "object",
+        required: ["name", "scopes"],
+        properties: {
+          name:         { type: "string", example: "ci" },
+          scopes:       { type: "array", minItems: 1, items: { type: "string", enum: ["generate", "runs:read", "admin"] } },
+          requestQuota: { type: "integer", minimum: 1, description: "Run requests per calendar month (UTC); unlimited when left out" },
+          tokenQuota:   { type: "integer", minimum: 1, description: "Model tokens per calendar month (UTC); unlimited when left out" },
+          rateLimit:    { type: "integer", minimum: 1, description: "Requests per minute; RELEASE_NOTES_RATE_LIMIT when left out" },
+        },
+      },
+      ApiKey: {
+        type: "object",
+        properties: {
+          id:           { type: "string", example: "3f9a1c0b7d2e" },
+          name:         { type: "string" },
+          scopes:       { type: "array", items: { type: "string", enum: ["generate", "runs:read", "admin"] } },
+          requestQuota: { type: "integer", nullable: true },
+          tokenQuota:   { type: "integer", nullable: true },
+          rateLimit:    { type: "integer", nullable: true },
+          createdAt:    { type: "string", format: "date-time" },
+          rotatedAt:    { type: "string", format: "date-time", nullable: true },
+          revokedAt:    { type: "string", format: "date-time", nullable: true },
+          lastUsedAt:   { type: "string", format: "date-time", nullable: true },
+          usage: {
+            type: "object",
+            description: "This month's usage against the quotas",
+            properties: {
+              period:   { type: "string", example: "2026-10" },
+              requests: { type: "integer" },
+              tokens:   { type: "integer" },
+            },
+          },
+        },
+      },
+      ApiKeySecret: {
+        allOf: [
+          ref("ApiKey"),
+          {
+            type: "object",
+            properties: {
+              secret: { type: "string", description: "The key itself; shown only in this response", example: "rnk_3f9a1c0b7d2e_…" },
+            },
+          },
+        ],
+      },
+      Error: {
+        type: "object",
+        properties: {
+          error: { type: "string" },
+          code:  { type: "string", example: "UNKNOWN_REF" },
+        },
+      },
+    },
+  },
+  paths: {
+    "/api/query": {
+      post: {
+        summary: "Generate release notes",
+        description:
+          "Triggers the 6-step Mastra workflow: parse → categorize → parallel enrich → draft → quality-branch → finalize. " +
+          "Holds the connection open until the run finishes; use /api/runs for long ranges. " +
+          "Request extra renderings (JSON, Keep a Changelog, HTML, plain text, Slack) with `formats`.",
+        requestBody: { required: true, content: json(ref("ReleaseNotesRequest")) },
+        responses: {
+          200: { description: "Release notes generated successfully", content: json(ref("ReleaseNotesResult")) },
+          202: {
+            description: "Review mode: the notes are waiting for a reviewer",
+            content: json({
+              type: "object",
+              properties: {
+                runId:  { type: "string", format: "uuid" },
+                status: { type: "string", example: "suspended" },
+                url:    { type: "string", example: "/api/runs/8a1c…" },
+                review: ref("PendingReview"),
+              },
+            }),
+          },
+          ...errorResponses,
+          ...accessResponses,
+        },
+      },
+    },
+    "/api/runs": {
+      post: {
+        summary: "Start a release notes run in the background",
+        description:
+          "Validates the request, starts the workflow and returns its run ID at once. " +
+          "Poll GET /api/runs/{runId} for progress; runs are persisted in LibSQL and resume after a restart.",
+        requestBody: { required: true, content: json(ref("ReleaseNotesRequest")) },
+        responses: {
+          202: {
+            description: "Run started",
+            content: json({
+              type: "object",
+              properties: {
+                runId:  { type: "string", format: "uuid" },
+                status: { type: "string", example: "running" },
+                url:    { type: "string", example: "/api/runs/8a1c…" },
+              },
+            }),
+          },
+          400: errorResponses[400],
+          422: { description: "A repoPath the server does not serve (REPO_NOT_ALLOWED)", content: json(ref("Error")) },
+          ...accessResponses,
+        },
+      },
+      get: {
+        summary: "List past runs",
+        parameters: [
+          { name: "status",  in: "query", schema: ref("RunStatus") },
+          { name: "from",    in: "query", schema: { type: "string", format: "date-time" }, description: "Created at or after" },
+          { name: "to",      in: "query", schema: { type: "string", format: "date-time" }, description: "Created at or before" },
+          { name: "page",    in: "query", schema: { type: "integer", minimum: 0, default: 0 } },
+          { name: "perPage", in: "query", schema: { type: "integer", minimum: 1, maximum: 100, default: 20 } },
+        ],
+        responses: {
+          200: {
+            description: "Runs, newest first",
+            content: json({
+              type: "object",
+              properties: {
+                runs:    { type: "array", items: ref("RunSummary") },
+                total:   { type: "integer" },
+                page:    { type: "integer" },
+                perPage: { type: "integer" },
+              },
+            }),
+          },
+          400: errorResponses[400],
+        },
+      },
+    },
+    "/api/runs/stream": {
+      post: {
+        summary: "Start a run and stream its progress (Server-Sent Events)",
+        description:
+          "Events: run-start, step-start, branch (refine-notes or pass-through), step-complete (with a per-step " +
+          "partial payload such as the categorized buckets or the draft), run-suspended (review mode), " +
+          "run-complete, run-error (a step failed), run-failed (the run failed or tripped), run-finished " +
+          "(the run ended without notes, e.g. bailed), run-canceled. " +
+          "Disconnecting does not stop the run; cancel it with POST /api/runs/{runId}/cancel.",
+        requestBody: { required: true, content: json(ref("ReleaseNotesRequest")) },
+        responses: {
+          200: { description: "Event stream", content: { "text/event-stream": { schema: { type: "string" } } } },
+          400: errorResponses[400],
+          422: { description: "A repoPath the server does not serve (REPO_NOT_ALLOWED)", content: json(ref("Error")) },
+        },
+      },
+    },
+    "/api/runs/{runId}": {
+      get: {
+        summary: "Get a run's status, step outputs and result",
+        parameters: [{ name: "runId", in: "path", required: true, schema: { type: "string" } }],
+        responses: {
+          200: { description: "Run state", content: json(ref("Run")) },
+          404: { description: "No run with that ID that the API key may see (RUN_NOT_FOUND)", content: json(ref("Error")) },
+        },
+      },
+    },
+    "/api/runs/{runId}/events": {
+      get: {
+        summary: "Subscribe to a run's progress (Server-Sent Events)",
+        description:
+          "Sends a snapshot event with the run's current state, then the same events as POST /api/runs/stream. " +
+          "Finished runs get their outcome event and runs awaiting review get run-suspended; either way the stream closes.",
+        parameters: [{ name: "runId", in: "path", required: true, schema: { type: "string" } }],
+        responses: {
+          200: { description: "Event stream", content: { "text/event-stream": { schema: { type: "string" } } } },
+          404: { description: "No run with that ID that the API key may see (RUN_NOT_FOUND)", content: json(ref("Error")) },
+        },
+      },
+    },
+    "/api/runs/{runId}/cancel": {
+      post: {
+        summary: "Abort a run in progress",
+        parameters: [{ name: "runId", in: "path", required: true, schema: { type: "string" } }],
+        responses: {
+          202: { description: "Run canceled; subscribers receive run-canceled" },
+          404: { description: "No run with that ID that the API key may see (RUN_NOT_FOUND)", content: json(ref("Error")) },
+          409: { description: "Run already finished (RUN_NOT_ACTIVE)", content: json(ref("Error")) },
+        },
+      },
+    },
+    "/api/runs/{runId}/approve": {
+      post: {
+        summary: "Approve the notes of a run awaiting review",
+        requestBody: {
+          content: json({ type: "object", properties: { reviewer: { type: "string", example: "sam" } } }),
+        },
+        ...reviewResponses,
+      },
+    },
+    "/api/runs/{runId}/edit": {
+      post: {
+        summary: "Replace the notes of a run awaiting review and finish it",
+        description: "The version header is kept at the computed version.",
+        requestBody: {
+          required: true,
+          content: json({
+            type: "object",
+            required: ["markdown"],
+            properties: { markdown: { type: "string" }, reviewer: { type: "string" } },
+          }),
+        },
+        ...reviewResponses,
+      },
+    },
+    "/api/runs/{runId}/reject": {
+      post: {
+        summary: "Reject the notes with feedback",
+        description: "Runs another refine pass with the feedback, then suspends again for review.",
+        requestBody: {
+          required: true,
+          content: json({
+            type: "object",
+            required: ["feedback"],
+            properties: {
+              feedback: { type: "string", example: "Call out the new Google sign-in more prominently" },
+              reviewer: { type: "string" },
+            },
+          }),
+        },
+        ...reviewResponses,
+      },
+    },
+    "/api/templates": {
+      get: {
+        summary: "List release notes templates",
+        description: "A name defined in more than one place resolves to database, then file (templates/*.json), then built-in.",
+        responses: {
+          200: {
+            description: "Templates by name",
+            content: json({
+              type: "object",
+              properties: {
+                templates: { type: "array", items: ref("TemplateSummary") },
+                default:   { type: "string", example: "default" },
+              },
+            }),
+          },
+        },
+      },
+    },
+    "/api/templates/validate": {
+      post: {
+        summary: "Validate a template definition without saving it",
+        requestBody: { required: true, content: json(ref("Template")) },
+        responses: {
+          200: {
+            description: "Validation result, with defaults filled in when valid",
+            content: json({
+              type: "object",
+              properties: {
+                valid:    { type: "boolean" },
+                template: ref("Template"),
+                errors:   { type: "array", items: { type: "string" }, example: ["sections.1.types: commit type \"fix\" is already mapped to section \"features\""] },
+              },
+            }),
+          },
+        },
+      },
+    },
+    "/api/templates/{name}": {
+      get: {
+        summary: "Get a template",
+        parameters: [{ name: "name", in: "path", required: true, schema: { type: "string" } }],
+        responses: {
+          200: { description: "Template definition", content: json(ref("Template")) },
+          404: { description: "No template with that name (UNKNOWN_TEMPLATE)", content: json(ref("Error")) },
+          422: { description: "Template file fails validation (INVALID_TEMPLATE)", content: json(ref("Error")) },
+        },
+      },
+      put: {
+        summary: "Create or replace a template in the database",
+        parameters: [{ name: "name", in: "path", required: true, schema: { type: "string" } }],
+        requestBody: { required: true, content: json(ref("Template")) },
+        responses: {
+          200: { description: "Template replaced", content: json(ref("Template")) },
+          201: { description: "Template created", content: json(ref("Template")) },
+          422: { description: "Invalid definition (INVALID_TEMPLATE); errors lists every problem", content: json(ref("Error")) },
+        },
+      },
+      delete: {
+        summary: "Delete a database template",
+        parameters: [{ name: "name", in: "path", required: true, schema: { type: "string" } }],
+        responses: {
+          204: { description: "Deleted" },
+          404: { description: "No template with that name (UNKNOWN_TEMPLATE)", content: json(ref("Error")) },
+          409: { description: "File and built-in templates are read-only (TEMPLATE_READ_ONLY)", content: json(ref("Error")) },
+        },
+      },
+    },
+    "/api/enrichments": {
+      get: {
+        summary: "List cached enrichments",
+        description:
+          "Entry prose the enrich model wrote, keyed by commit, project, audience, instructions, prompt version and " +
+          "model. Later runs reuse it and only send new commits to the model.",
+        parameters: [
+          ...[
+          { name: "sha", in: "query", schema: { type: "string" }, description: "Commit sha or prefix" },
+          { name: "project", in: "query", schema: { type: "string" } },
+          { name: "audience", in: "query", schema: { type: "string", enum: ["default", "developer", "customer", "executive-summary", "internal-ops"] } },
+        ],
+          { name: "pinned", in: "query", schema: { type: "boolean" } },
+          { name: "limit", in: "query", schema: { type: "integer", default: 100, maximum: 1000 } },
+        ],
+        responses: {
+          200: {
+            description: "Most recently written first",
+            content: json({ type: "object", properties: { entries: { type: "array", items: ref("CachedEnrichment") } } }),
+          },
+          400: errorResponses[400],
+        },
+      },
+      delete: {
+        summary: "Invalidate cached enrichments",
+        description: "Deletes matching entries so the next run rewrites those commits. Pass at least one filter or all=true.",
+        parameters: [
+          ...[
+          { name: "sha", in: "query", schema: { type: "string" }, description: "Commit sha or prefix" },
+          { name: "project", in: "query", schema: { type: "string" } },
+          { name: "audience", in: "query", schema: { type: "string", enum: ["default", "developer", "customer", "executive-summary", "internal-ops"] } },
+        ],
+          { name: "includePinned", in: "query", schema: { type: "boolean", default: false }, description: "Also delete hand-edited entries" },
+          { name: "all", in: "query", schema: { type: "boolean" } },
+        ],
+        responses: {
+          200: { description: "Entries deleted", content: json({ type: "object", properties: { deleted: { type: "integer" } } }) },
+          400: errorResponses[400],
+        },
+      },
+    },
+    "/api/enrichments/{sha}/pin": {
+      put: {
+        summary: "Pin a hand-edited entry",
+        description:
+          "Every later run uses this title and description for the commit in that project and audience, whatever " +
+          "the instructions, prompt version or model. Pass the sha as it appears in the notes or in full; it is " +
+          "resolved in repoPath (as given to the runs), else the project's repository, and stored in full.",
+        parameters: [{ name: "sha", in: "path", required: true, schema: { type: "string" } }],
+        requestBody: {
+          required: true,
+          content: json({
+            type: "object",
+            required: ["title"],
+            properties: {
+              title:       { type: "string", example: "Google Sign-In" },
+              description: { type: "string", example: "Learners can now sign in with their school Google account." },
+              project:     { type: "string", description: "Defaults to RELEASE_NOTES_PROJECT or the built-in profile" },
+              audience:    { type: "string", default: "default" },
+              repoPath:    {
+                type: "string",
+                description: "Repository the commit is in, as in the run request (and allowed as there); defaults to the project's",
+              },
+            },
+          }),
+        },
+        responses: {
+          200: { description: "Pinned entry replaced", content: json(ref("CachedEnrichment")) },
+          201: { description: "Entry pinned", content: json(ref("CachedEnrichment")) },
+          400: errorResponses[400],
+          404: { description: "The repository does not exist (REPO_NOT_FOUND)", content: json(ref("Error")) },
+          422: {
+            description:
+              "Unknown project (UNKNOWN_PROJECT), a repoPath the server does not serve (REPO_NOT_ALLOWED), " +
+              "or a sha that matches no commit (UNKNOWN_COMMIT) or several (AMBIGUOUS_SHA)",
+            content: json(ref("Error")),
+          },
+        },
+      },
+      delete: {
+        summary: "Unpin an entry",
+        parameters: [
+          { name: "sha", in: "path", required: true, schema: { type: "string" } },
+          { name: "project", in: "query", schema: { type: "string" } },
+          { name: "audience", in: "query", schema: { type: "string", default: "default" } },
+          { name: "repoPath", in: "query", schema: { type: "string" }, description: "As for PUT" },
+        ],
+        responses: {
+          204: { description: "Unpinned" },
+          400: errorResponses[400],
+          404: { description: "No pinned entry for that commit (NOT_PINNED)", content: json(ref("Error")) },
+          422: { description: "As for PUT: UNKNOWN_PROJECT, REPO_NOT_ALLOWED, UNKNOWN_COMMIT or AMBIGUOUS_SHA", content: json(ref("Error")) },
+        },
+      },
+    },
+    "/api/projects": {
+      get: {
+        summary: "List project profiles",
+        description: "Profiles are projects/*.json files plus the built-in default.",
+        responses: {
+          200: {
+            description: "Profiles by name",
+            content: json({
+              type: "object",
+              properties: {
+                projects: { type: "array", items: ref("ProjectSummary") },
+                default:  { type: "string", example: "default" },
+              },
+            }),
+          },
+        },
+      },
+    },
+    "/api/projects/{name}": {
+      get: {
+        summary: "Get a project profile",
+        parameters: [{ name: "name", in: "path", required: true, schema: { type: "string" } }],
+        responses: {
+          200: { description: "Profile definition", content: json(ref("ProjectProfile")) },
+          404: { description: "No profile with that name (UNKNOWN_PROJECT)", content: json(ref("Error")) },
+          422: { description: "Profile file fails validation (INVALID_PROJECT)", content: json(ref("Error")) },
+        },
+      },
+    },
+    "/api/releases": {
+      get: {
+        summary: "List a project's releases",
+        description: "The latest revision of each version the workflow finalized, newest first, verified or not.",
+        parameters: [
+          { name: "project", in: "query", schema: { type: "string" }, description: "Defaults to RELEASE_NOTES_PROJECT or the built-in profile" },
+          {
+            name: "verified", in: "query", schema: { type: "boolean" },
+            description: "Only releases whose latest revision passed (true) or failed (false) verification",
+          },
+          { name: "limit", in: "query", schema: { type: "integer", default: 100, maximum: 1000 } },
+          { name: "offset", in: "query", schema: { type: "integer", default: 0 } },
+        ],
+        responses: {
+          200: {
+            description: "Releases",
+            content: json({
+              type: "object",
+              properties: { project: { type: "string" }, releases: { type: "array", items: ref("ReleaseSummary") } },
+            }),
+          },
+          400: errorResponses[400],
+          ...accessResponses,
+        },
+      },
+    },
+    "/api/releases/search": {
+      get: {
+        summary: "Search release entries",
+        description:
+          "Entries of the latest revision of every release, in every project unless one is given. Pass at least one " +
+          "of q (text in the title or description), sha (prefix) or type.",
+        parameters: [
+          { name: "q", in: "query", schema: { type: "string" }, example: "sign in" },
+          { name: "sha", in: "query", schema: { type: "string" }, description: "Commit sha or prefix" },
+          { name: "type", in: "query", schema: { type: "string", enum: ["feat", "fix", "perf", "chore", "docs", "refactor", "test"] } },
+          { name: "verified", in: "query", schema: { type: "boolean" }, description: "Only entries of verified (true) or unverified (false) releases" },
+          { name: "project", in: "query", schema: { type: "string" } },
+          { name: "limit", in: "query", schema: { type: "integer", default: 100, maximum: 1000 } },
+        ],
+        responses: {
+          200: {
+            description: "Most recent releases first",
+            content: json({ type: "object", properties: { entries: { type: "array", items: ref("ReleaseEntryRecord") } } }),
+          },
+          400: errorResponses[400],
+          ...accessResponses,
+        },
+      },
+    },
+    "/api/releases/compare": {
+      get: {
+        summary: "Compare two releases",
+        description:
+          "Commits and entries in `to` but not in `from` are added, the reverse dropped; entries for the same commit " +
+          "with different wording or section are changed. Compare two revisions of one version by passing it as both.",
+        parameters: [
+          { name: "from", in: "query", required: true, schema: { type: "string" }, example: "v2.0.0" },
+          { name: "to", in: "query", required: true, schema: { type: "string" }, example: "v2.1.0" },
+          { name: "fromRevision", in: "query", schema: { type: "integer" }, description: "Defaults to the latest" },
+          { name: "toRevision", in: "query", schema: { type: "integer" }, description: "Defaults to the latest" },
+          { name: "project", in: "query", schema: { type: "string" } },
+        ],
+        responses: {
+          200: {
+            description: "Differences",
+            content: json({
+              type: "object",
+              properties: {
+                from:    ref("ReleaseSummary"),
+                to:      ref("ReleaseSummary"),
+                commits: {
+                  type: "object",
+                  properties: {
+                    added:   { type: "array", items: { type: "object" } },
+                    dropped: { type: "array", items: { type: "object" } },
+                  },
+                },
+                entries: {
+                  type: "object",
+                  properties: {
+                    added:   { type: "array", items: ref("ReleaseEntryRecord") },
+                    dropped: { type: "array", items: ref("ReleaseEntryRecord") },
+                    changed: {
+                      type: "array",
+                      items: {
+                        type: "object",
+                        properties: { sha: { type: "string" }, from: ref("ReleaseEntryRecord"), to: ref("ReleaseEntryRecord") },
+                      },
+                    },
+                  },
+                },
+              },
+            }),
+          },
+          400: errorResponses[400],
+          404: { description: "Either release does not exist (UNKNOWN_RELEASE)", content: json(ref("Error")) },
+          ...accessResponses,
+        },
+      },
+    },
+    "/api/releases/{version}": {
+      get: {
+        summary: "Get a release by version",
+        parameters: [
+          { name: "version", in: "path", required: true, schema: { type: "string" }, example: "v2.1.0" },
+          { name: "revision", in: "query", schema: { type: "integer" }, description: "Defaults to the latest" },
+          { name: "project", in: "query", schema: { type: "string" } },
+        ],
+        responses: {
+          200: { description: "Release", content: json(ref("StoredRelease")) },
+          400: errorResponses[400],
+          404: { description: "No such release or revision (UNKNOWN_RELEASE)", content: json(ref("Error")) },
+          ...accessResponses,
+        },
+      },
+    },
+    "/api/releases/{version}/revisions": {
+      get: {
+        summary: "List every revision of a release",
+        description: "Each regeneration of a version is kept as a revision, oldest first.",
+        parameters: [
+          { name: "version", in: "path", required: true, schema: { type: "string" } },
+          { name: "project", in: "query", schema: { type: "string" } },
+        ],
+        responses: {
+          200: {
+            description: "Revisions",
+            content: json({ type: "object", properties: { revisions: { type: "array", items: ref("ReleaseSummary") } } }),
+          },
+          404: { description: "No release with that version (UNKNOWN_RELEASE)", content: json(ref("Error")) },
+          ...accessResponses,
+        },
+      },
+    },
+    "/api/keys": {
+      post: {
+        summary: "Create an API key (admin)",
+        requestBody: { required: true, content: json(ref("ApiKeyRequest")) },
+        responses: {
+          201: { description: "Key created; store the secret, it is not shown again", content: json(ref("ApiKeySecret")) },
+          400: errorResponses[400],
+          ...accessResponses,
+        },
+      },
+      get: {
+        summary: "List API keys with this month's usage (admin)",
+        parameters: [{ name: "includeRevoked", in: "query", schema: { type: "boolean", default: false } }],
+        responses: {
+          200: {
+            description: "Keys, oldest first",
+            content: json({ type: "object", properties: { keys: { type: "array", items: ref("ApiKey") } } }),
+          },
+          ...accessResponses,
+        },
+      },
+    },
+    "/api/keys/{id}": {
+      get: {
+        summary: "Get an API key with this month's usage (admin)",
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+        responses: {
+          200: { description: "Key", content: json(ref("ApiKey")) },
+          404: { description: "No key with that ID (UNKNOWN_KEY)", content: json(ref("Error")) },
+          ...accessResponses,
+        },
+      },
+      delete: {
+        summary: "Revoke an API key (admin)",
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+        responses: {
+          204: { description: "Key revoked; it stops working at once" },
+          404: { description: "No active key with that ID (UNKNOWN_KEY)", content: json(ref("Error")) },
+          ...accessResponses,
+        },
+      },
+    },
+    "/api/keys/{id}/rotate": {
+      post: {
+        summary: "Replace an API key's secret (admin)",
+        description: "The old secret stops working at once; scopes, quotas and usage stay with the key.",
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+        responses: {
+          200: { description: "New secret; it is not shown again", content: json(ref("ApiKeySecret")) },
+          404: { description: "No active key with that ID (UNKNOWN_KEY)", content: json(ref("Error")) },
+          ...accessResponses,
+        },
+      },
+    },
+    "/api/webhooks/{forge}": {
+      post: {
+        summary: "Receive a GitHub or GitLab webhook delivery",
+        security: [],
+        description:
+          "Point a repository's push and pull/merge request webhooks here. GitHub deliveries must carry an " +
+          "X-Hub-Signature-256 HMAC of the body, GitLab deliveries an X-Gitlab-Token, both made with " +
+          "RELEASE_NOTES_WEBHOOK_SECRET. The delivery goes to ?project=, else the project whose `webhook.repository` " +
+          "is the delivery's repository, else the default project; a project that names a repository takes deliveries " +
+          "from that repository only. The project's `webhook` filters decide which tag pushes, branch pushes and " +
+          "merged release pull requests start a background run; the range starts at the previous matching tag. " +
+          "Repeated delivery IDs get the first delivery's outcome instead of a second run.",
+        parameters: [
+          { name: "forge", in: "path", required: true, schema: { type: "string", enum: ["github", "gitlab"] } },
+          {
+            name: "project", in: "query", schema: { type: "string" },
+            description: "Must name the delivery's repository in its webhook.repository. Defaults to the project that " +
+              "does, then RELEASE_NOTES_PROJECT",
+          },
+        ],
+        requestBody: { required: true, content: json({ type: "object", description: "The forge's event payload" }) },
+        responses: {
+          200: {
+            description: "Nothing started: the delivery matched no filter (ignored) or was seen before (duplicate)",
+            content: json({
+              type: "object",
+              properties: {
+                status:     { type: "string", enum: ["ignored", "duplicate"] },
+                deliveryId: { type: "string", nullable: true },
+                runId:      { type: "string", nullable: true, description: "For duplicates: the run the first delivery started" },
+                reason:     { type: "string", nullable: true, example: "push to develop matches none of the project's webhook filters" },
+              },
+            }),
+          },
+          202: {
+            description: "Run started; poll GET /api/runs/{runId}",
+            content: json({
+              type: "object",
+              properties: {
+                status:     { type: "string", example: "running" },
+                deliveryId: { type: "string", nullable: true },
+                runId:      { type: "string", format: "uuid" },
+                url:        { type: "string", example: "/api/runs/8a1c…" },
+                commitLog:  { type: "string", example: "v1.4.0..v1.5.0" },
+              },
+            }),
+          },
+          400: { description: "Invalid query or a body that is not JSON", content: json(ref("Error")) },
+          401: { description: "Missing or wrong signature (INVALID_SIGNATURE)", content: json(ref("Error")) },
+          403: {
+            description: "The delivery's repository is not the project's webhook.repository (PROJECT_MISMATCH)",
+            content: json(ref("Error")),
+          },
+          404: { description: "Unknown forge (UNKNOWN_FORGE)", content: json(ref("Error")) },
+          422: { description: "Unknown or invalid project profile (UNKNOWN_PROJECT, INVALID_PROJECT)", content: json(ref("Error")) },
+          503: { description: "RELEASE_NOTES_WEBHOOK_SECRET is not set (WEBHOOKS_DISABLED)", content: json(ref("Error")) },
+        },
+      },
+    },
+  },
+};
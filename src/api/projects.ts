@@ -0,0 +1,30 @@
+import { Router } from "express";
+import { defaultProjectName, findProfile, listProfiles } from "../mastra/projects/store.js";
+import { describeError } from "../mastra/lib/errors.js";
+
+// ─── Routes ───────────────────────────────────────────────────────────────────
+// Read-only: profiles are checked in as projects/*.json (see
+// mastra/projects/store.ts).
+
+export const projectsRouter = Router();
+
+projectsRouter.get("/", async (_req, res) => {
+  try {
+    res.json({ projects: await listProfiles(), default: defaultProjectName() });
+  } catch (error) {
+    console.error("[projects] failed to list profiles:", error);
+    res.status(500).json({ error: "Failed to list project profiles" });
+  }
+});
+
+projectsRouter.get("/:name", async (req, res) => {
+  try {
+    const found = await findProfile(req.params.name);
+    if (!found) return res.status(404).json({ error: "Project not found", code: "UNKNOWN_PROJECT" });
+    res.json({ ...found.profile, source: found.source });
+  } catch (error) {
+    const { status, code, message } = describeError(error);
+    if (status >= 500) console.error("[projects] failed to load profile:", error);
+    res.status(status).json({ error: message, code });
+  }
+});
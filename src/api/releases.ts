@@ -0,0 +1,91 @@
+import { Router } from "express";
+import {
+  compareReleases, getRelease, listReleases, listRevisions, searchReleaseEntries,
+} from "../mastra/releases/store.js";
+import { defaultProjectName } from "../mastra/projects/store.js";
+import { parseReleaseQuery } from "./requests.js";
+
+// ─── Routes ───────────────────────────────────────────────────────────────────
+// The release history (see mastra/releases/store.ts): every finalized run,
+// verified or not (?verified= filters), browsable per project, searchable by entry and comparable between versions.
+// /search and /compare come before /:version so they aren't taken for one.
+
+export const releasesRouter = Router();
+
+const notFound = (version: string, revision?: number) => ({
+  error: `No release ${version}${revision ? ` revision ${revision}` : ""}`,
+  code:  "UNKNOWN_RELEASE",
+});
+
+releasesRouter.get("/", async (req, res) => {
+  const parsed = parseReleaseQuery("list", req.query);
+  if (!parsed.ok) return res.status(400).json({ error: parsed.error });
+
+  try {
+    const { project = defaultProjectName(), limit, offset, verified } = parsed.query;
+    res.json({ project, releases: await listReleases(project, { limit, offset, verified }) });
+  } catch (error) {
+    console.error("[releases] failed to list releases:", error);
+    res.status(500).json({ error: "Failed to list releases" });
+  }
+});
+
+// Across every project unless one is given
+releasesRouter.get("/search", async (req, res) => {
+  const parsed = parseReleaseQuery("search", req.query);
+  if (!parsed.ok) return res.status(400).json({ error: parsed.error });
+
+  try {
+    const { limit, ...filter } = parsed.query;
+    res.json({ entries: await searchReleaseEntries(filter, limit) });
+  } catch (error) {
+    console.error("[releases] failed to search entries:", error);
+    res.status(500).json({ error: "Failed to search releases" });
+  }
+});
+
+releasesRouter.get("/compare", async (req, res) => {
+  const parsed = parseReleaseQuery("compare", req.query);
+  if (!parsed.ok) return res.status(400).json({ error: parsed.error });
+
+  try {
+    const { project = defaultProjectName(), from, to, fromRevision, toRevision } = parsed.query;
+    const before = await getRelease(project, from, fromRevision);
+    if (!before) return res.status(404).json(notFound(from, fromRevision));
+    const after = await getRelease(project, to, toRevision);
+    if (!after) return res.status(404).json(notFound(to, toRevision));
+    res.json(compareReleases(before, after));
+  } catch (error) {
+    console.error("[releases] failed to compare releases:", error);
+    res.status(500).json({ error: "Failed to compare releases" });
+  }
+});
+
+releasesRouter.get("/:version", async (req, res) => {
+  const parsed = parseReleaseQuery("get", req.query);
+  if (!parsed.ok) return res.status(400).json({ error: parsed.error });
+
+  try {
+    const { project = defaultProjectName(), revision } = parsed.query;
+    const release = await getRelease(project, req.params.version, revision);
+    if (!release) return res.status(404).json(notFound(req.params.version, revision));
+    res.json(release);
+  } catch (error) {
+    console.error("[releases] failed to load release:", error);
+    res.status(500).json({ error: "Failed to load release" });
+  }
+});
+
+releasesRouter.get("/:version/revisions", async (req, res) => {
+  const parsed = parseReleaseQuery("get", req.query);
+  if (!parsed.ok) return res.status(400).json({ error: parsed.error });
+
+  try {
+    const revisions = await listRevisions(parsed.query.project ?? defaultProjectName(), req.params.version);
+    if (revisions.length === 0) return res.status(404).json(notFound(req.params.version));
+    res.json({ revisions });
+  } catch (error) {
+    console.error("[releases] failed to list revisions:", error);
+    res.status(500).json({ error: "Failed to list release revisions" });
+  }
+});
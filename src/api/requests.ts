@@ -0,0 +1,237 @@
+import { z } from "zod";
+import { AUDIENCE_IDS } from "../mastra/lib/audiences.js";
+import { DEFAULT_AUDIENCE } from "../mastra/enrichments/cache.js";
+import { OUTPUT_FORMATS } from "../mastra/lib/formats.js";
+import { API_KEY_SCOPES } from "../mastra/auth/keys.js";
+import { COMMIT_TYPES } from "../mastra/lib/conventionalCommits.js";
+import { isLocale } from "../mastra/lib/localize.js";
+
+// ─── Request validation ───────────────────────────────────────────────────────
+// Body accepted by every endpoint that starts a release notes run.
+
+// Rejects dates like 2026-02-30 that Date would roll over into the next month
+const isCalendarDate = (d: string) => {
+  const t = new Date(`${d}T00:00:00Z`);
+  return !Number.isNaN(t.getTime()) && t.toISOString().startsWith(d);
+};
+
+// Git repository to read; defaults to the project's (see resolveRepoPath).
+// Routes that take it check it against the allowlist with allowRepoPath.
+const repoPathField = z.string({ error: "repoPath must be a string" }).optional();
+
+export const queryBodySchema = z.object({
+  commitLog:      z.string({ error: "commitLog is required" }).min(1, "commitLog is required"),
+  repoPath:       repoPathField,
+  currentVersion: z.string({ error: "currentVersion must be a string" }).optional(),
+  prerelease:     z.string({ error: "prerelease must be a string" }).optional(),
+  buildMetadata:  z.string({ error: "buildMetadata must be a string" }).optional(),
+  formats:        z.array(
+    z.enum(OUTPUT_FORMATS, { error: `formats may only contain ${OUTPUT_FORMATS.join(", ")}` }),
+    { error: "formats must be an array" },
+  ).optional(),
+  changelog:      z.object({
+    contents: z.string({ error: "changelog.contents must be a string" }).optional(),
+    path:     z.string({ error: "changelog.path must be a string" }).min(1, "changelog.path must not be empty").optional(),
+  }, { error: "changelog must be an object" }).optional(),
+  review:         z.boolean({ error: "review must be a boolean" }).optional(),
+  audiences:      z.array(
+    z.enum(AUDIENCE_IDS, { error: `audiences may only contain ${AUDIENCE_IDS.join(", ")}` }),
+    { error: "audiences must be an array" },
+  ).optional(),
+  locales:        z.array(
+    z.string({ error: "locales may only contain strings" })
+      .refine(isLocale, "locales may only contain BCP 47 language tags, e.g. de or pt-BR"),
+    { error: "locales must be an array" },
+  ).optional(),
+  template:       z.string({ error: "template must be a string" }).min(1, "template must not be empty").optional(),
+  project:        z.string({ error: "project must be a string" }).min(1, "project must not be empty").optional(),
+  releaseDate:    z.string({ error: "releaseDate must be a string" })
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "releaseDate must be a YYYY-MM-DD date")
+    .refine(isCalendarDate, "releaseDate must be a valid date")
+    .optional(),
+  includeDiffs:   z.boolean({ error: "includeDiffs must be a boolean" }).optional(),
+  maxRefinements: z.number({ error: "maxRefinements must be a number" })
+    .int("maxRefinements must be an integer")
+    .min(1, "maxRefinements must be between 1 and 5")
+    .max(5, "maxRefinements must be between 1 and 5")
+    .optional(),
+  budget:         z.object({
+    maxTokens: z.number({ error: "budget.maxTokens must be a number" })
+      .int("budget.maxTokens must be an integer")
+      .min(1, "budget.maxTokens must be at least 1")
+      .optional(),
+    maxCost:   z.number({ error: "budget.maxCost must be a number" }).positive("budget.maxCost must be positive").optional(),
+  }, { error: "budget must be an object" }).optional(),
+  dryRun:         z.boolean({ error: "dryRun must be a boolean" }).optional(),
+});
+
+export type QueryBody = z.infer<typeof queryBodySchema>;
+
+// The API calls the commit range "commitLog"; the workflow calls it "query".
+export const toWorkflowInput = ({ commitLog, ...options }: QueryBody) => ({ query: commitLog, ...options });
+
+export const parseQueryBody = (body: unknown) => {
+  const parsed = queryBodySchema.safeParse(body ?? {});
+  return parsed.success
+    ? { ok: true as const, input: toWorkflowInput(parsed.data) }
+    : { ok: false as const, error: parsed.error.issues[0].message };
+};
+
+// ─── Review decisions ─────────────────────────────────────────────────────────
+// Bodies for POST /api/runs/:runId/approve, /edit and /reject, turned into the
+// resume data the review-notes step expects.
+
+const reviewer = z.string({ error: "reviewer must be a string" }).optional();
+
+const reviewBodySchemas = {
+  approve: z.object({ reviewer }),
+  edit: z.object({
+    markdown: z.string({ error: "markdown is required" }).trim().min(1, "markdown is required"),
+    reviewer,
+  }),
+  reject: z.object({
+    feedback: z.string({ error: "feedback is required" }).trim().min(1, "feedback is required"),
+    reviewer,
+  }),
+};
+
+export type ReviewAction = keyof typeof reviewBodySchemas;
+
+export const parseReviewBody = (action: ReviewAction, body: unknown) => {
+  const parsed = reviewBodySchemas[action].safeParse(body ?? {});
+  return parsed.success
+    ? { ok: true as const, decision: { action, ...parsed.data } }
+    : { ok: false as const, error: parsed.error.issues[0].message };
+};
+
+// ─── Enrichment cache ─────────────────────────────────────────────────────────
+// Filters for GET/DELETE /api/enrichments and the body of PUT
+// /api/enrichments/:sha/pin. "default" is the main notes; the other audiences
+// are the variants.
+
+const ENRICHMENT_AUDIENCES = [DEFAULT_AUDIENCE, ...AUDIENCE_IDS] as const;
+
+const cacheAudience = z.enum(ENRICHMENT_AUDIENCES, {
+  error: `audience must be one of ${ENRICHMENT_AUDIENCES.join(", ")}`,
+});
+
+const booleanFlag = (name: string) =>
+  z.enum(["true", "false"], { error: `${name} must be true or false` }).transform((v) => v === "true").optional();
+
+const enrichmentQuerySchema = z.object({
+  sha:           z.string().regex(/^[0-9a-f]{4,40}$/i, "sha must be 4–40 hex characters").optional(),
+  project:       z.string().min(1, "project must not be empty").optional(),
+  audience:      cacheAudience.optional(),
+  repoPath:      repoPathField,
+  pinned:        booleanFlag("pinned"),
+  includePinned: booleanFlag("includePinned"),
+  all:           booleanFlag("all"),
+  limit:         z.coerce.number({ error: "limit must be a number" }).int().min(1).max(1000).optional(),
+});
+
+export const parseEnrichmentQuery = (query: unknown) => {
+  const parsed = enrichmentQuerySchema.safeParse(query ?? {});
+  return parsed.success
+    ? { ok: true as const, query: parsed.data }
+    : { ok: false as const, error: parsed.error.issues[0].message };
+};
+
+const pinBodySchema = z.object({
+  title:       z.string({ error: "title is required" }).trim().min(1, "title is required"),
+  description: z.string({ error: "description must be a string" }).default(""),
+  project:     z.string({ error: "project must be a string" }).min(1, "project must not be empty").optional(),
+  audience:    cacheAudience.default(DEFAULT_AUDIENCE),
+  repoPath:    repoPathField,
+});
+
+export const parsePinBody = (body: unknown) => {
+  const parsed = pinBodySchema.safeParse(body ?? {});
+  return parsed.success
+    ? { ok: true as const, pin: parsed.data }
+    : { ok: false as const, error: parsed.error.issues[0].message };
+};
+
+// ─── Webhooks ─────────────────────────────────────────────────────────────────
+// Query of POST /api/webhooks/:forge; forges only let you configure the URL.
+
+const webhookQuerySchema = z.object({
+  project: z.string({ error: "project must be a string" }).min(1, "project must not be empty").optional(),
+});
+
+export const parseWebhookQuery = (query: unknown) => {
+  const parsed = webhookQuerySchema.safeParse(query ?? {});
+  return parsed.success
+    ? { ok: true as const, query: parsed.data }
+    : { ok: false as const, error: parsed.error.issues[0].message };
+};
+
+// ─── Release history ──────────────────────────────────────────────────────────
+// Queries of the /api/releases routes. project defaults to RELEASE_NOTES_PROJECT
+// or the built-in profile; a missing revision means the latest.
+
+const releaseProject = z.string({ error: "project must be a string" }).min(1, "project must not be empty").optional();
+
+const count = (name: string, min: number, max = Number.MAX_SAFE_INTEGER) =>
+  z.coerce.number({ error: `${name} must be a number` }).int(`${name} must be an integer`)
+    .min(min, `${name} must be at least ${min}`).max(max, `${name} must be at most ${max}`).optional();
+
+const releaseVersion = (name: string) => z.string({ error: `${name} is required` }).trim().min(1, `${name} is required`);
+
+const releaseQuerySchemas = {
+  list:    z.object({
+    project:  releaseProject,
+    verified: booleanFlag("verified"),
+    limit:    count("limit", 1, 1000),
+    offset:   count("offset", 0),
+  }),
+  get:     z.object({ project: releaseProject, revision: count("revision", 1) }),
+  search:  z.object({
+    project: releaseProject,
+    q:       z.string({ error: "q must be a string" }).trim().min(1, "q must not be empty").optional(),
+    sha:     z.string().regex(/^[0-9a-f]{4,40}$/i, "sha must be 4–40 hex characters").optional(),
+    type:    z.enum(COMMIT_TYPES, { error: `type must be one of ${COMMIT_TYPES.join(", ")}` }).optional(),
+    verified: booleanFlag("verified"),
+    limit:   count("limit", 1, 1000),
+  }).refine((q) => q.q || q.sha || q.type, { error: "Pass q, sha or type" }),
+  compare: z.object({
+    project:      releaseProject,
+    from:         releaseVersion("from"),
+    to:           releaseVersion("to"),
+    fromRevision: count("fromRevision", 1),
+    toRevision:   count("toRevision", 1),
+  }),
+};
+
+export type ReleaseQueryKind = keyof typeof releaseQuerySchemas;
+
+export const parseReleaseQuery = <K extends ReleaseQueryKind>(kind: K, query: unknown) => {
+  const parsed = (releaseQuerySchemas[kind] as z.ZodType).safeParse(query ?? {});
+  return parsed.success
+    ? { ok: true as const, query: parsed.data as z.output<(typeof releaseQuerySchemas)[K]> }
+    : { ok: false as const, error: parsed.error.issues[0].message };
+};
+
+// ─── API keys ─────────────────────────────────────────────────────────────────
+// Body of POST /api/keys. Limits left out mean no quota and the server's
+// default rate limit.
+
+const limit = (name: string) =>
+  z.number({ error: `${name} must be a number` }).int(`${name} must be an integer`).min(1, `${name} must be at least 1`).optional();
+
+const apiKeyBodySchema = z.object({
+  name:         z.string({ error: "name is required" }).trim().min(1, "name is required"),
+  scopes:       z.array(
+    z.enum(API_KEY_SCOPES, { error: `scopes may only contain ${API_KEY_SCOPES.join(", ")}` }),
+    { error: "scopes must be an array" },
+  ).min(1, "scopes must not be empty"),
+  requestQuota: limit("requestQuota"),
+  tokenQuota:   limit("tokenQuota"),
+  rateLimit:    limit("rateLimit"),
+});
+
+export const parseApiKeyBody = (body: unknown) => {
+  const parsed = apiKeyBodySchema.safeParse(body ?? {});
+  return parsed.success
+    ? { ok: true as const, key: parsed.data }
+    : { ok: false as const, error: parsed.error.issues[0].message };
+};
@@ -0,0 +1,237 @@
+import { Router, type Request, type Response } from "express";
+import type { WorkflowRun } from "@mastra/core/storage";
+import type { WorkflowState } from "@mastra/core/workflows";
+import { z } from "zod";
+import { mastra } from "../mastra/index.js";
+import { describeError } from "../mastra/lib/errors.js";
+import { summarizeUsage, type UsageRecord } from "../mastra/lib/usage.js";
+import { allowRepoPath, canAccessRun, chargeRun, requireScope, runKeyId } from "./access.js";
+import { TERMINAL_STATUSES, endRunEvents, openEventStream, pipeRunEvents } from "./events.js";
+import { parseQueryBody, parseReviewBody, type ReviewAction } from "./requests.js";
+
+// ─── Presenters ───────────────────────────────────────────────────────────────
+// Mastra's run state carries the whole step graph; clients get the parts they
+// can act on.
+
+const REVIEW_STEP = "review-notes";
+
+const iso = (ms?: number) => (ms ? new Date(ms).toISOString() : null);
+
+const presentError = (error: unknown) => {
+  if (!error) return null;
+  const { code, message } = describeError(error);
+  return { error: message, code };
+};
+
+// Model calls the run's steps recorded so far, including a review in progress,
+// so failed and suspended runs show what they spent too
+const runUsage = (steps: Record<string, { status?: string; output?: unknown; suspendPayload?: unknown }>) =>
+  summarizeUsage(Object.values(steps).flatMap((step) => {
+    const usage = ((step.status === "suspended" ? step.suspendPayload : step.output) as { usage?: unknown })?.usage;
+    return Array.isArray(usage) ? (usage as UsageRecord[]) : [];
+  }));
+
+export const presentRun = (state: WorkflowState) => {
+  const steps = Object.fromEntries(
+    Object.entries(state.steps ?? {}).map(([id, step]) => [
+      id,
+      {
+        status:    step.status,
+        startedAt: iso(step.startedAt),
+        endedAt:   iso(step.endedAt),
+        output:    step.status === "success" ? step.output ?? null : null,
+        error:     presentError(step.error),
+      },
+    ]),
+  );
+  return {
+    runId:        state.runId,
+    status:       state.status,
+    createdAt:    state.createdAt,
+    updatedAt:    state.updatedAt,
+    currentSteps: Object.entries(steps).filter(([, s]) => s.status === "running").map(([id]) => id),
+    steps,
+    input:        state.payload ?? null,
+    // Draft, suggestions and revision count while a reviewer is holding the run
+    review:       state.status === "suspended" ? (state.steps?.[REVIEW_STEP] as any)?.suspendPayload ?? null : null,
+    result:       state.status === "success" ? state.result ?? null : null,
+    error:        state.status === "failed" ? presentError(state.error) : null,
+    usage:        runUsage((state.steps ?? {}) as Parameters<typeof runUsage>[0]),
+  };
+};
+
+const presentRunSummary = (run: WorkflowRun) => {
+  const snapshot = typeof run.snapshot === "string" ? JSON.parse(run.snapshot) : run.snapshot;
+  const usage    = runUsage(snapshot?.context ?? {});
+  return {
+    runId:     run.runId,
+    status:    snapshot?.status ?? "pending",
+    createdAt: run.createdAt,
+    updatedAt: run.updatedAt,
+    commitLog: snapshot?.context?.input?.query ?? null,
+    version:   snapshot?.result?.version ?? null,
+    usage:     { calls: usage.calls, totalTokens: usage.totalTokens, cost: usage.cost },
+  };
+};
+
+// ─── Routes ───────────────────────────────────────────────────────────────────
+
+const listQuerySchema = z.object({
+  status:  z.enum(["pending", "running", "success", "failed", "suspended", "waiting", "canceled", "bailed", "paused", "tripwire"]).optional(),
+  from:    z.coerce.date({ error: "from must be a date" }).optional(),
+  to:      z.coerce.date({ error: "to must be a date" }).optional(),
+  page:    z.coerce.number().int().min(0).default(0),
+  perPage: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// The run, unless it belongs to another key: those look the same as missing runs
+const findRun = async (req: Request, res: Response) => {
+  const state = await mastra.getWorkflow("releaseNotesWorkflow").getWorkflowRunById(req.params.runId);
+  return state && canAccessRun(res, (state.payload as { apiKeyId?: string } | undefined)?.apiKeyId) ? state : null;
+};
+
+export const runsRouter = Router();
+
+runsRouter.post("/", requireScope("generate"), allowRepoPath("body"), chargeRun, async (req, res) => {
+  const parsed = parseQueryBody(req.body);
+  if (!parsed.ok) return res.status(400).json({ error: parsed.error });
+
+  try {
+    const workflow  = mastra.getWorkflow("releaseNotesWorkflow");
+    const run       = await workflow.createRun();
+    const { runId } = await run.startAsync({ inputData: { ...parsed.input, apiKeyId: runKeyId(res) } });
+    res.status(202).json({ runId, status: "running", url: `/api/runs/${runId}` });
+  } catch (error) {
+    console.error("[runs] failed to start run:", error);
+    res.status(500).json({ error: "Failed to start workflow run" });
+  }
+});
+
+// Same as POST /api/runs, but answers with an SSE stream of the run's progress.
+runsRouter.post("/stream", requireScope("generate"), allowRepoPath("body"), chargeRun, async (req, res) => {
+  const parsed = parseQueryBody(req.body);
+  if (!parsed.ok) return res.status(400).json({ error: parsed.error });
+
+  try {
+    const workflow = mastra.getWorkflow("releaseNotesWorkflow");
+    const run      = await workflow.createRun();
+    const stream   = openEventStream(res);
+    const piped    = pipeRunEvents(run, stream);
+    const outcome  = await run.start({ inputData: { ...parsed.input, apiKeyId: runKeyId(res) } });
+    endRunEvents(stream, { runId: run.runId, ...outcome });
+    await piped;
+  } catch (error) {
+    console.error("[runs] failed to stream run:", error);
+    if (!res.headersSent) res.status(500).json({ error: "Failed to start workflow run" });
+    else res.end();
+  }
+});
+
+runsRouter.get("/", requireScope("runs:read"), async (req, res) => {
+  const parsed = listQuerySchema.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.issues[0].message });
+  const { status, from, to, page, perPage } = parsed.data;
+
+  try {
+    const workflow = mastra.getWorkflow("releaseNotesWorkflow");
+    const { runs, total } = await workflow.listWorkflowRuns({ status, fromDate: from, toDate: to, page, perPage });
+    res.json({ runs: runs.map(presentRunSummary), total, page, perPage });
+  } catch (error) {
+    console.error("[runs] failed to list runs:", error);
+    res.status(500).json({ error: "Failed to list workflow runs" });
+  }
+});
+
+runsRouter.get("/:runId", requireScope("runs:read"), async (req, res) => {
+  try {
+    const state = await findRun(req, res);
+    if (!state) return res.status(404).json({ error: "Run not found", code: "RUN_NOT_FOUND" });
+    res.json(presentRun(state));
+  } catch (error) {
+    console.error("[runs] failed to load run:", error);
+    res.status(500).json({ error: "Failed to load workflow run" });
+  }
+});
+
+// Subscribes to a run started elsewhere. Late subscribers first get a snapshot
+// of the steps completed so far; finished runs get their outcome and a close.
+runsRouter.get("/:runId/events", requireScope("runs:read"), async (req, res) => {
+  try {
+    const workflow = mastra.getWorkflow("releaseNotesWorkflow");
+    const state    = await findRun(req, res);
+    if (!state) return res.status(404).json({ error: "Run not found", code: "RUN_NOT_FOUND" });
+
+    const stream = openEventStream(res);
+    const run    = presentRun(state);
+    stream.send("snapshot", run);
+
+    // A run waiting for review will not emit anything until someone resumes it
+    if (state.status === "suspended") {
+      stream.send("run-suspended", { runId: run.runId, stepId: REVIEW_STEP, review: run.review });
+      return stream.close();
+    }
+    if (TERMINAL_STATUSES.has(state.status)) {
+      return endRunEvents(stream, { runId: run.runId, status: state.status, result: run.result, error: state.error });
+    }
+
+    // Started elsewhere: how it ends comes from storage, as watch events do not say
+    const outcome = async () => {
+      const latest = await workflow.getWorkflowRunById(state.runId);
+      return latest && { runId: latest.runId, status: latest.status, result: latest.result, error: latest.error };
+    };
+    await pipeRunEvents(await workflow.createRun({ runId: state.runId }), stream, { outcome });
+  } catch (error) {
+    console.error("[runs] failed to stream run events:", error);
+    if (!res.headersSent) res.status(500).json({ error: "Failed to stream workflow run" });
+    else res.end();
+  }
+});
+
+runsRouter.post("/:runId/cancel", requireScope("generate"), async (req, res) => {
+  try {
+    const workflow = mastra.getWorkflow("releaseNotesWorkflow");
+    const state    = await findRun(req, res);
+    if (!state) return res.status(404).json({ error: "Run not found", code: "RUN_NOT_FOUND" });
+    if (TERMINAL_STATUSES.has(state.status)) {
+      return res.status(409).json({ error: `Run already ${state.status}`, code: "RUN_NOT_ACTIVE" });
+    }
+
+    const run = await workflow.createRun({ runId: state.runId });
+    await run.cancel();
+    res.status(202).json({ runId: state.runId, status: "canceled" });
+  } catch (error) {
+    console.error("[runs] failed to cancel run:", error);
+    res.status(500).json({ error: "Failed to cancel workflow run" });
+  }
+});
+
+// ─── Review ───────────────────────────────────────────────────────────────────
+// Resumes a run suspended at review-notes. Approve and edit finish the run; a
+// rejection refines the notes with the feedback and suspends it again.
+
+const resumeReview = (action: ReviewAction) => async (req: Request, res: Response) => {
+  const parsed = parseReviewBody(action, req.body);
+  if (!parsed.ok) return res.status(400).json({ error: parsed.error });
+
+  try {
+    const workflow = mastra.getWorkflow("releaseNotesWorkflow");
+    const state    = await findRun(req, res);
+    if (!state) return res.status(404).json({ error: "Run not found", code: "RUN_NOT_FOUND" });
+    if (state.status !== "suspended") {
+      return res.status(409).json({ error: `Run is ${state.status}, not awaiting review`, code: "RUN_NOT_SUSPENDED" });
+    }
+
+    const run = await workflow.createRun({ runId: state.runId });
+    run.resume({ step: REVIEW_STEP, resumeData: parsed.decision }).catch((error) => {
+      console.error(`[runs] failed to resume run ${state.runId}:`, error);
+    });
+    res.status(202).json({ runId: state.runId, status: "running", url: `/api/runs/${state.runId}` });
+  } catch (error) {
+    console.error("[runs] failed to resume run:", error);
+    res.status(500).json({ error: "Failed to resume workflow run" });
+  }
+};
+
+runsRouter.post("/:runId/approve", requireScope("generate"), resumeReview("approve"));
+runsRouter.post("/:runId/edit", requireScope("generate"), resumeReview("edit"));
+runsRouter.post("/:runId/reject", requireScope("generate"), resumeReview("reject"));
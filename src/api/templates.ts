@@ -0,0 +1,69 @@
+import { Router } from "express";
+import { DEFAULT_TEMPLATE_NAME, validateTemplate } from "../mastra/templates/template.js";
+import { deleteTemplate, findTemplate, listTemplates, saveTemplate } from "../mastra/templates/store.js";
+import { describeError } from "../mastra/lib/errors.js";
+
+// ─── Routes ───────────────────────────────────────────────────────────────────
+// Templates live in templates/*.json, in LibSQL, or built in (see
+// mastra/templates/store.ts). Only database templates can be written here.
+
+export const templatesRouter = Router();
+
+templatesRouter.get("/", async (_req, res) => {
+  try {
+    res.json({ templates: await listTemplates(), default: DEFAULT_TEMPLATE_NAME });
+  } catch (error) {
+    console.error("[templates] failed to list templates:", error);
+    res.status(500).json({ error: "Failed to list templates" });
+  }
+});
+
+// Dry run: checks a definition without storing it
+templatesRouter.post("/validate", (req, res) => {
+  const result = validateTemplate(req.body);
+  res.json(result.ok ? { valid: true, template: result.template } : { valid: false, errors: result.errors });
+});
+
+templatesRouter.get("/:name", async (req, res) => {
+  try {
+    const found = await findTemplate(req.params.name);
+    if (!found) return res.status(404).json({ error: "Template not found", code: "UNKNOWN_TEMPLATE" });
+    res.json({ ...found.template, source: found.source });
+  } catch (error) {
+    const { status, code, message } = describeError(error);
+    if (status >= 500) console.error("[templates] failed to load template:", error);
+    res.status(status).json({ error: message, code });
+  }
+});
+
+templatesRouter.put("/:name", async (req, res) => {
+  const result = validateTemplate({ ...req.body, name: req.params.name });
+  if (!result.ok) {
+    return res.status(422).json({ error: result.errors[0], code: "INVALID_TEMPLATE", errors: result.errors });
+  }
+
+  try {
+    const created = await saveTemplate(result.template);
+    res.status(created ? 201 : 200).json({ ...result.template, source: "database" });
+  } catch (error) {
+    console.error("[templates] failed to save template:", error);
+    res.status(500).json({ error: "Failed to save template" });
+  }
+});
+
+templatesRouter.delete("/:name", async (req, res) => {
+  try {
+    if (await deleteTemplate(req.params.name)) return res.status(204).end();
+    const found = await findTemplate(req.params.name).catch(() => ({ source: "file" }));
+    if (found) {
+      return res.status(409).json({
+        error: `Template "${req.params.name}" is a ${found.source} template and cannot be deleted through the API`,
+        code:  "TEMPLATE_READ_ONLY",
+      });
+    }
+    res.status(404).json({ error: "Template not found", code: "UNKNOWN_TEMPLATE" });
+  } catch (error) {
+    console.error("[templates] failed to delete template:", error);
+    res.status(500).json({ error: "Failed to delete template" });
+  }
+});
@@ -0,0 +1,87 @@
+import express, { Router } from "express";
+import { mastra } from "../mastra/index.js";
+import { describeError } from "../mastra/lib/errors.js";
+import { resolveRepoPath } from "../mastra/lib/git.js";
+import { findWebhookProject, getProfile } from "../mastra/projects/store.js";
+import { claimDelivery, recordDelivery, releaseDelivery } from "../mastra/webhooks/deliveries.js";
+import {
+  FORGES, parseForgeEvent, planWebhookRun, verifySignature, webhookProjectRefusal, type Forge,
+} from "../mastra/webhooks/forge.js";
+import { parseWebhookQuery } from "./requests.js";
+
+// ─── Routes ───────────────────────────────────────────────────────────────────
+// GitHub and GitLab deliveries for a project: ?project=, else the project that
+// names the delivery's repository, else the default. Signed with
+// RELEASE_NOTES_WEBHOOK_SECRET; the repository has to match the project's (see
+// webhookProjectRefusal), and the project's webhook filters decide which tag
+// pushes, branch pushes and merged release pull requests start a background
+// run (see mastra/webhooks/forge.ts). Deliveries that start nothing are
+// acknowledged with the reason, so the forge does not retry them.
+
+export const webhooksRouter = Router();
+
+// The signature covers the exact bytes sent, so the body is parsed here rather
+// than by the server-wide JSON parser
+webhooksRouter.use(express.raw({ type: () => true, limit: "5mb" }));
+
+webhooksRouter.post("/:forge", async (req, res) => {
+  const forge = req.params.forge as Forge;
+  if (!FORGES.includes(forge)) {
+    return res.status(404).json({ error: `Unknown forge "${req.params.forge}"`, code: "UNKNOWN_FORGE" });
+  }
+  const secret = process.env.RELEASE_NOTES_WEBHOOK_SECRET;
+  if (!secret) {
+    return res.status(503).json({ error: "Webhooks are not configured", code: "WEBHOOKS_DISABLED" });
+  }
+  const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+  if (!verifySignature(forge, req.headers, body, secret)) {
+    return res.status(401).json({ error: "Invalid webhook signature", code: "INVALID_SIGNATURE" });
+  }
+  const query = parseWebhookQuery(req.query);
+  if (!query.ok) return res.status(400).json({ error: query.error });
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = JSON.parse(body.toString("utf8"));
+  } catch {
+    return res.status(400).json({ error: "Webhook payload must be JSON" });
+  }
+
+  const event = parseForgeEvent(forge, req.headers, payload);
+  const { deliveryId } = event;
+  let claimed = false;
+  try {
+    const named   = query.query.project;
+    const byRepo  = !named && event.repository ? await findWebhookProject(event.repository) : null;
+    const profile = await getProfile(named ?? byRepo ?? undefined);
+    const refused = webhookProjectRefusal(event, profile.name, profile.webhook, Boolean(named));
+    if (refused) return res.status(403).json({ error: `Delivery refused: ${refused}`, code: "PROJECT_MISMATCH" });
+
+    if (deliveryId) {
+      const earlier = await claimDelivery({ forge, deliveryId, event: event.event, project: profile.name });
+      if (earlier) {
+        return res.json({ status: "duplicate", deliveryId, runId: earlier.runId, reason: earlier.reason });
+      }
+      claimed = true;
+    }
+
+    const repoPath = resolveRepoPath(profile.repoPath);
+    const plan     = await planWebhookRun(event, profile.webhook, repoPath);
+    if (!plan.run) {
+      if (deliveryId) await recordDelivery(forge, deliveryId, { status: "ignored", reason: plan.reason });
+      return res.json({ status: "ignored", deliveryId, reason: plan.reason });
+    }
+
+    const commitLog = `${plan.fromRef}..${plan.toRef}`;
+    const run       = await mastra.getWorkflow("releaseNotesWorkflow").createRun();
+    const { runId } = await run.startAsync({ inputData: { query: commitLog, repoPath, project: profile.name } });
+    if (deliveryId) await recordDelivery(forge, deliveryId, { status: "started", runId });
+    res.status(202).json({ status: "running", deliveryId, runId, url: `/api/runs/${runId}`, commitLog });
+  } catch (error) {
+    // Let the forge's retry try again
+    if (claimed && deliveryId) await releaseDelivery(forge, deliveryId).catch(() => undefined);
+    const { status, code, message } = describeError(error);
+    if (status >= 500) console.error("[webhooks] failed to handle delivery:", error);
+    res.status(status).json({ error: status >= 500 ? "Failed to handle webhook delivery" : message, code });
+  }
+});
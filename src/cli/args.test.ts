@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { EXIT_CODES, exitCodeFor, parseCliArgs } from "./args.js";
+
+describe("parseCliArgs", () => {
+  it("reads a range with output options", () => {
+    const parsed = parseCliArgs([
+      "v1.4.0..v1.5.0", "--project", "acme", "--audience", "customer", "--audience", "developer",
+      "--format", "keepachangelog", "-o", "notes.md", "--update-changelog", "--dry-run", "--locale", "de",
+    ]);
+    expect(parsed).toMatchObject({
+      ok: true,
+      options: {
+        range: "v1.4.0..v1.5.0", sinceLastTag: false, project: "acme", audiences: ["customer", "developer"], locales: ["de"],
+        format: "keepachangelog", output: "notes.md", updateChangelog: true, changelogPath: null, dryRun: true,
+        json: false,
+      },
+    });
+  });
+
+  it("takes --since-last-tag instead of a range", () => {
+    expect(parseCliArgs(["--since-last-tag", "--to", "main", "--tag-pattern", "release-*"])).toMatchObject({
+      ok: true,
+      options: { range: null, sinceLastTag: true, to: "main", tagPatterns: ["release-*"] },
+    });
+  });
+
+  it("rejects missing, doubled or malformed ranges and unknown values", () => {
+    expect(parseCliArgs([])).toEqual({ ok: false, error: "A range (from..to) or --since-last-tag is required" });
+    expect(parseCliArgs(["a..b", "--since-last-tag"])).toMatchObject({ ok: false });
+    expect(parseCliArgs(["v1.4.0"])).toEqual({ ok: false, error: '"v1.4.0" is not a from..to range' });
+    expect(parseCliArgs(["a..b", "--format", "pdf"])).toMatchObject({ ok: false, error: expect.stringMatching(/^Unknown format/) });
+    expect(parseCliArgs(["a..b", "--audience", "board"])).toMatchObject({ ok: false });
+    expect(parseCliArgs(["a..b", "--locale", "not a locale"])).toMatchObject({ ok: false });
+    expect(parseCliArgs(["a..b", "--changelog-path", "docs/CHANGES.md"])).toMatchObject({ ok: false });
+    expect(parseCliArgs(["a..b", "--verbose"])).toMatchObject({ ok: false });
+  });
+
+  it("needs no range for --help", () => {
+    expect(parseCliArgs(["--help"])).toMatchObject({ ok: true, options: { help: true } });
+  });
+});
+
+describe("exitCodeFor", () => {
+  it("maps each failure kind to its exit code", () => {
+    expect(exitCodeFor({ code: "EMPTY_RANGE" })).toBe(EXIT_CODES.range);
+    expect(exitCodeFor({ code: "UNKNOWN_TEMPLATE" })).toBe(EXIT_CODES.config);
+    expect(exitCodeFor({ name: "AI_APICallError" })).toBe(EXIT_CODES.model);
+    expect(exitCodeFor({ code: "BUDGET_EXCEEDED" })).toBe(EXIT_CODES.budget);
+    expect(exitCodeFor({ name: "TypeError" })).toBe(EXIT_CODES.error);
+  });
+});
@@ -0,0 +1,204 @@
+import { parseArgs } from "node:util";
+import { AUDIENCE_IDS } from "../mastra/lib/audiences.js";
+import { OUTPUT_FORMATS } from "../mastra/lib/formats.js";
+import { isLocale } from "../mastra/lib/localize.js";
+
+// ─── Exit codes ───────────────────────────────────────────────────────────────
+// One per kind of failure, so a pipeline can tell a bad range (nothing to
+// release yet) from a flaky model or notes that failed verification.
+
+export const EXIT_CODES = {
+  ok:            0,
+  error:         1, // anything unexpected
+  usage:         2, // bad flags
+  range:         3, // not a git repository, unknown ref, empty range, no previous tag
+  config:        4, // unknown or invalid project, template, version or changelog path
+  model:         5, // the LLM call failed or a model is misconfigured
+  budget:        6, // the run's token or cost budget ran out
+  qualityGate:   7, // the notes failed verification
+} as const;
+
+const CODE_EXIT: Record<string, number> = {
+  REPO_NOT_FOUND:         EXIT_CODES.range,
+  UNKNOWN_REF:            EXIT_CODES.range,
+  EMPTY_RANGE:            EXIT_CODES.range,
+  MISSING_RANGE:          EXIT_CODES.range,
+  NO_PREVIOUS_TAG:        EXIT_CODES.range,
+  UNKNOWN_PROJECT:        EXIT_CODES.config,
+  INVALID_PROJECT:        EXIT_CODES.config,
+  UNKNOWN_TEMPLATE:       EXIT_CODES.config,
+  INVALID_TEMPLATE:       EXIT_CODES.config,
+  INVALID_VERSION:        EXIT_CODES.config,
+  INVALID_CHANGELOG_PATH: EXIT_CODES.config,
+  UNKNOWN_MODEL_PROVIDER: EXIT_CODES.model,
+  MISSING_FIXTURE:        EXIT_CODES.model,
+  BUDGET_EXCEEDED:        EXIT_CODES.budget,
+  QUOTA_EXCEEDED:         EXIT_CODES.budget,
+  MODEL_UNPRICED:         EXIT_CODES.budget,
+};
+
+// The AI SDK's errors (API call failures, unparseable objects, …) are named AI_*
+export const exitCodeFor = (error: { code?: string; name?: string }) =>
+  (error.code && CODE_EXIT[error.code]) || (error.name?.startsWith("AI_") ? EXIT_CODES.model : EXIT_CODES.error);
+
+// ─── Options ──────────────────────────────────────────────────────────────────
+
+export const OUTPUT_KINDS = ["markdown", ...OUTPUT_FORMATS] as const;
+export type OutputKind = (typeof OUTPUT_KINDS)[number];
+
+export interface CliOptions {
+  range: string | null;        // "from..to"; null with --since-last-tag
+  sinceLastTag: boolean;
+  to: string;                  // end of the range for --since-last-tag
+  tagPatterns: string[];       // empty = the project's release tag patterns
+  instructions: string | null;
+  repo: string | null;
+  project: string | null;
+  template: string | null;
+  audiences: Array<(typeof AUDIENCE_IDS)[number]>;
+  locales: string[];
+  format: OutputKind;
+  output: string | null;
+  updateChangelog: boolean;
+  changelogPath: string | null;
+  currentVersion: string | null;
+  prerelease: string | null;
+  releaseDate: string | null;
+  includeDiffs: boolean;
+  allowUnverified: boolean;
+  dryRun: boolean;
+  json: boolean;
+  help: boolean;
+}
+
+export const USAGE = `Usage: release-notes [range] [options]
+
+Generates release notes for a commit range by running the release notes
+workflow in-process; no server needed.
+
+Range:
+  <from>..<to>              Commit range, e.g. v1.4.0..v1.5.0
+  --since-last-tag          From the previous release tag to --to (default HEAD)
+  --to <ref>                End of the range for --since-last-tag
+  --tag-pattern <glob>      Release tag pattern; repeatable (default: the project's, v*)
+
+Input:
+  --repo <path>             Git repository (default: the project's, RELEASE_NOTES_REPO_PATH or the cwd)
+  --project <name>          Project profile (default: RELEASE_NOTES_PROJECT)
+  --template <name>         Notes template (default: the project's)
+  --audience <id>           Write a variant for ${AUDIENCE_IDS.join(", ")}; repeatable
+  --locale <tag>            Translate the notes, e.g. de or pt-BR; repeatable. With -o, each
+                            translation goes to a file beside it (notes.de.md)
+  --instructions <text>     Extra instructions for the models
+  --current-version <ver>   Version being released from (default: latest tag)
+  --prerelease <channel>    Prerelease channel, e.g. beta
+  --release-date <date>     YYYY-MM-DD (default: the date --to was committed)
+  --include-diffs           Show the models each commit's diff
+
+Output:
+  --format <fmt>            ${OUTPUT_KINDS.join(", ")} (default markdown)
+  -o, --output <file>       Write the notes to a file instead of stdout
+  --update-changelog        Splice the release into CHANGELOG.md in the repository
+  --changelog-path <path>   Changelog path relative to the repository (default CHANGELOG.md)
+  --json                    Print the whole result (or the error) as JSON
+  --dry-run                 Write no files and leave the release history alone;
+                            print what would change
+  --allow-unverified        Write the notes even if they fail verification
+  -h, --help                Show this help
+
+Exit codes:
+  0 success, 1 unexpected error, 2 bad usage, 3 bad range or repository,
+  4 invalid project/template/version, 5 model failure, 6 budget exceeded,
+  7 notes failed verification`;
+
+type Parsed = { ok: true; options: CliOptions } | { ok: false; error: string };
+
+const RANGE = /^[^\s.][^\s]*\.\.[^\s.][^\s]*$/;
+
+export const parseCliArgs = (argv: string[]): Parsed => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        "since-last-tag":   { type: "boolean" },
+        "to":               { type: "string" },
+        "tag-pattern":      { type: "string", multiple: true },
+        "instructions":     { type: "string" },
+        "repo":             { type: "string" },
+        "project":          { type: "string" },
+        "template":         { type: "string" },
+        "audience":         { type: "string", multiple: true },
+        "locale":           { type: "string", multiple: true },
+        "format":           { type: "string" },
+        "output":           { type: "string", short: "o" },
+        "update-changelog": { type: "boolean" },
+        "changelog-path":   { type: "string" },
+        "current-version":  { type: "string" },
+        "prerelease":       { type: "string" },
+        "release-date":     { type: "string" },
+        "include-diffs":    { type: "boolean" },
+        "allow-unverified": { type: "boolean" },
+        "dry-run":          { type: "boolean" },
+        "json":             { type: "boolean" },
+        "help":             { type: "boolean", short: "h" },
+      },
+    });
+  } catch (error) {
+    return { ok: false, error: (error as Error).message };
+  }
+  const { values: v, positionals } = parsed;
+  const fail = (error: string) => ({ ok: false as const, error });
+
+  if (positionals.length > 1) return fail(`Unexpected argument "${positionals[1]}"`);
+  const range = positionals[0] ?? null;
+  if (!v.help) {
+    if (range && v["since-last-tag"]) return fail("Pass either a range or --since-last-tag, not both");
+    if (!range && !v["since-last-tag"]) return fail("A range (from..to) or --since-last-tag is required");
+    if (range && !RANGE.test(range)) return fail(`"${range}" is not a from..to range`);
+  }
+  if (v.to && !v["since-last-tag"]) return fail("--to only applies with --since-last-tag");
+
+  const audiences = v.audience ?? [];
+  const unknown   = audiences.find((a) => !(AUDIENCE_IDS as readonly string[]).includes(a));
+  if (unknown) return fail(`Unknown audience "${unknown}"; expected one of ${AUDIENCE_IDS.join(", ")}`);
+  const badLocale = v.locale?.find((l) => !isLocale(l));
+  if (badLocale) return fail(`"${badLocale}" is not a language tag like de or pt-BR`);
+  const format = v.format ?? "markdown";
+  if (!(OUTPUT_KINDS as readonly string[]).includes(format)) {
+    return fail(`Unknown format "${format}"; expected one of ${OUTPUT_KINDS.join(", ")}`);
+  }
+  if (v["release-date"] && !/^\d{4}-\d{2}-\d{2}$/.test(v["release-date"])) {
+    return fail("--release-date must be a YYYY-MM-DD date");
+  }
+  if (v["changelog-path"] && !v["update-changelog"]) return fail("--changelog-path only applies with --update-changelog");
+
+  return {
+    ok: true,
+    options: {
+      range,
+      sinceLastTag:    v["since-last-tag"] ?? false,
+      to:              v.to ?? "HEAD",
+      tagPatterns:     v["tag-pattern"] ?? [],
+      instructions:    v.instructions ?? null,
+      repo:            v.repo ?? null,
+      project:         v.project ?? null,
+      template:        v.template ?? null,
+      audiences:       audiences as CliOptions["audiences"],
+      locales:         v.locale ?? [],
+      format:          format as OutputKind,
+      output:          v.output ?? null,
+      updateChangelog: v["update-changelog"] ?? false,
+      changelogPath:   v["changelog-path"] ?? null,
+      currentVersion:  v["current-version"] ?? null,
+      prerelease:      v.prerelease ?? null,
+      releaseDate:     v["release-date"] ?? null,
+      includeDiffs:    v["include-diffs"] ?? false,
+      allowUnverified: v["allow-unverified"] ?? false,
+      dryRun:          v["dry-run"] ?? false,
+      json:            v.json ?? false,
+      help:            v.help ?? false,
+    },
+  };
+};
@@ -0,0 +1,5 @@
+#!/usr/bin/env -S npx tsx
+import { runCli } from "./run.js";
+
+// release-notes: see USAGE in args.ts, or run with --help
+process.exitCode = await runCli(process.argv.slice(2));
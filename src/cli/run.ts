@@ -0,0 +1,145 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { EXIT_CODES, USAGE, exitCodeFor, parseCliArgs, type CliOptions } from "./args.js";
+import { ReleaseNotesError } from "../mastra/lib/errors.js";
+import { assertRepo, previousReleaseTag, resolveRepoPath, verifyRef } from "../mastra/lib/git.js";
+import { getProfile } from "../mastra/projects/store.js";
+
+// ─── Output ───────────────────────────────────────────────────────────────────
+// Notes (or --json results) go to stdout, everything else to stderr, so the
+// output can be piped straight into a file or another tool.
+
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+const processIO: CliIO = {
+  stdout: (text) => process.stdout.write(`${text}\n`),
+  stderr: (text) => process.stderr.write(`${text}\n`),
+};
+
+const renderNotes = (result: any, format: CliOptions["format"]) => {
+  if (format === "markdown") return result.result as string;
+  const rendered = result.formats?.[format];
+  return typeof rendered === "string" ? rendered : JSON.stringify(rendered, null, 2);
+};
+
+const write = async (file: string, contents: string) => {
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, contents.endsWith("\n") ? contents : `${contents}\n`);
+};
+
+// ─── Run ──────────────────────────────────────────────────────────────────────
+
+// The commit range the workflow gets: as given, or from the previous release tag
+const resolveRange = async (options: CliOptions, repoPath: string, tagPatterns: string[]) => {
+  if (options.range) return options.range;
+  await assertRepo(repoPath);
+  await verifyRef(repoPath, options.to);
+  const patterns = options.tagPatterns.length ? options.tagPatterns : tagPatterns;
+  const from = await previousReleaseTag(repoPath, options.to, patterns);
+  if (!from) {
+    throw new ReleaseNotesError("NO_PREVIOUS_TAG", `No tag matching ${patterns.join(", ")} before ${options.to}`, 422);
+  }
+  return `${from}..${options.to}`;
+};
+
+// Runs the CLI and returns its exit code; see EXIT_CODES
+export const runCli = async (argv: string[], io: CliIO = processIO): Promise<number> => {
+  const parsed = parseCliArgs(argv);
+  const json   = parsed.ok ? parsed.options.json : argv.includes("--json");
+  const fail = (code: number, message: string, errorCode?: string) => {
+    if (json) io.stdout(JSON.stringify({ error: message, code: errorCode ?? null, exitCode: code }, null, 2));
+    else io.stderr(`release-notes: ${message}${errorCode ? ` (${errorCode})` : ""}`);
+    return code;
+  };
+
+  if (!parsed.ok) return fail(EXIT_CODES.usage, `${parsed.error}\nRun release-notes --help for usage.`);
+  const options = parsed.options;
+  if (options.help) {
+    io.stdout(USAGE);
+    return EXIT_CODES.ok;
+  }
+
+  try {
+    // The request's repo wins over the project's, as in the API
+    const profile  = await getProfile(options.project ?? undefined);
+    const repoPath = resolveRepoPath(options.repo ?? profile.repoPath);
+    const range    = await resolveRange(options, repoPath, profile.webhook.tags);
+    io.stderr(`Generating release notes for ${range} in ${repoPath}…`);
+
+    // Imported late: it opens the run database, which --help and bad flags don't need
+    const { mastra } = await import("../mastra/index.js");
+    const run    = await mastra.getWorkflow("releaseNotesWorkflow").createRun();
+    const output = await run.start({
+      inputData: {
+        query:          options.instructions ? `${range}\n${options.instructions}` : range,
+        repoPath,
+        project:        options.project ?? undefined,
+        template:       options.template ?? undefined,
+        audiences:      options.audiences.length ? options.audiences : undefined,
+        locales:        options.locales.length ? options.locales : undefined,
+        formats:        options.format === "markdown" ? undefined : [options.format],
+        changelog:      options.updateChangelog ? { path: options.changelogPath ?? undefined } : undefined,
+        currentVersion: options.currentVersion ?? undefined,
+        prerelease:     options.prerelease ?? undefined,
+        releaseDate:    options.releaseDate ?? undefined,
+        includeDiffs:   options.includeDiffs,
+        dryRun:         options.dryRun || undefined,
+      },
+    });
+    if (output.status !== "success") {
+      const error = ((output as any).error ?? {}) as { code?: string; name?: string; message?: string };
+      return fail(exitCodeFor(error), error.message ?? `Workflow run ${output.status}`, error.code);
+    }
+
+    const result = (output as any).result;
+    const notes  = renderNotes(result, options.format);
+    const passed = result.verification.passed || options.allowUnverified;
+    if (!result.verification.passed) {
+      io.stderr(`The notes failed verification after ${result.verification.refinements} refine pass(es):`);
+      for (const issue of result.verification.issues) io.stderr(`  - [${issue.rule}] ${issue.message}`);
+    }
+    for (const l of result.localizations.filter((l: any) => !l.verified)) {
+      io.stderr(`The ${l.language} (${l.locale}) translation may have lost references or structure:`);
+      for (const issue of l.issues) io.stderr(`  - [${issue.rule}] ${issue.message}`);
+    }
+
+    // Files are only written for notes that passed, or with --allow-unverified
+    const files: Array<{ file: string; contents: string; diff?: string }> = [];
+    if (options.output) {
+      files.push({ file: path.resolve(options.output), contents: notes });
+      // Translations are Markdown whatever --format says: notes.md → notes.de.md
+      const { dir, name, ext } = path.parse(path.resolve(options.output));
+      for (const { locale, markdown } of result.localizations) {
+        files.push({ file: path.join(dir, `${name}.${locale}${ext}`), contents: markdown });
+      }
+    }
+    if (result.changelog) {
+      files.push({
+        file:     path.join(repoPath, result.changelog.path),
+        contents: result.changelog.contents,
+        diff:     result.changelog.diff,
+      });
+    }
+    if (passed) {
+      for (const { file, contents, diff } of files) {
+        if (options.dryRun) {
+          io.stderr(`Would write ${file}`);
+          if (diff) io.stderr(diff);
+        } else {
+          await write(file, contents);
+          io.stderr(`Wrote ${file}`);
+        }
+      }
+    }
+
+    if (json) io.stdout(JSON.stringify(result, null, 2));
+    else if (!options.output || options.dryRun) io.stdout(notes);
+    return passed ? EXIT_CODES.ok : EXIT_CODES.qualityGate;
+  } catch (error) {
+    const e = error as { code?: string; name?: string; message?: string };
+    return fail(exitCodeFor(e), e.message ?? String(error), e.code);
+  }
+};
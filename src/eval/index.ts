@@ -0,0 +1,46 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { renderReport, runSuite } from "./suite.js";
+
+// ─── Release notes eval ───────────────────────────────────────────────────────
+//   npm run eval                                   replay every case under src/eval/cases
+//   npm run eval -- --case conventional-minor      one case (repeatable)
+//   npm run eval -- --record --case <name>         re-record a case against the models from env
+//   npm run eval -- --json report.json             also write the report as JSON
+// Prints a Markdown report and exits 1 when any case falls below a threshold.
+
+const USAGE = "Usage: npm run eval -- [--case <name>]... [--record] [--json <file>]";
+
+const { values } = (() => {
+  try {
+    return parseArgs({
+      options: {
+        case:   { type: "string", multiple: true, default: [] },
+        record: { type: "boolean", default: false },
+        json:   { type: "string" },
+        help:   { type: "boolean", short: "h", default: false },
+      },
+      strict: true,
+    });
+  } catch (error) {
+    process.stderr.write(`eval: ${(error as Error).message}\n${USAGE}\n`);
+    process.exit(2);
+  }
+})();
+
+if (values.help) {
+  process.stdout.write(`${USAGE}\n`);
+  process.exit(0);
+}
+
+const report = await runSuite({ cases: values.case, mode: values.record ? "record" : "replay" }).catch((error: Error) => {
+  process.stderr.write(`eval: ${error.message}\n`);
+  process.exit(2);
+});
+process.stdout.write(`${renderReport(report)}\n`);
+if (values.json) {
+  await mkdir(path.dirname(path.resolve(values.json)), { recursive: true });
+  await writeFile(path.resolve(values.json), `${JSON.stringify(report, null, 2)}\n`);
+}
+process.exitCode = report.passed ? 0 : 1;
@@ -0,0 +1,57 @@
+import { execFile } from "node:child_process";
+import { mkdir, mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { promisify } from "node:util";
+import { z } from "zod";
+
+// ─── Fixture repositories ─────────────────────────────────────────────────────
+// A case describes its commit range as data and the harness builds the git
+// repository fresh for every run. Authors and dates are pinned, so the shas —
+// and with them the prompts and their recorded responses — come out the same
+// on every machine.
+
+const exec = promisify(execFile);
+
+export const fixtureCommitSchema = z.object({
+  message: z.string().min(1),
+  author: z.string().regex(/^[^<>]+ <[^<>]+>$/, 'author must look like "Name <email>"').default("Ada <ada@example.com>"),
+  date: z.string().describe("ISO 8601, e.g. 2026-03-02T10:00:00Z"),
+  files: z.record(z.string(), z.string()).describe("Path → contents written before committing"),
+  tag: z.string().optional().describe("Lightweight tag on the commit"),
+});
+
+export const fixtureRepoSchema = z.object({
+  commits: z.array(fixtureCommitSchema).min(1),
+});
+
+export type FixtureRepo = z.output<typeof fixtureRepoSchema>;
+
+// Builds the repository in a new temporary directory; returns it with the sha
+// of every commit by the first line of its message
+export const buildFixtureRepo = async (spec: FixtureRepo) => {
+  const dir = await mkdtemp(path.join(tmpdir(), "release-notes-eval-"));
+  const git = (args: string[], env: NodeJS.ProcessEnv = {}) =>
+    exec("git", ["-C", dir, "-c", "commit.gpgsign=false", "-c", "tag.gpgsign=false", ...args], {
+      env: { ...process.env, ...env },
+    });
+
+  await git(["init", "-q", "-b", "main"]);
+  const shas = new Map<string, string>();
+  for (const commit of spec.commits) {
+    for (const [file, contents] of Object.entries(commit.files)) {
+      await mkdir(path.dirname(path.join(dir, file)), { recursive: true });
+      await writeFile(path.join(dir, file), contents);
+    }
+    const [, name, email] = /^(.+) <(.+)>$/.exec(commit.author)!;
+    await git(["add", "-A"]);
+    await git(["commit", "-q", "--allow-empty", "-m", commit.message], {
+      GIT_AUTHOR_NAME: name, GIT_AUTHOR_EMAIL: email, GIT_AUTHOR_DATE: commit.date,
+      GIT_COMMITTER_NAME: name, GIT_COMMITTER_EMAIL: email, GIT_COMMITTER_DATE: commit.date,
+    });
+    if (commit.tag) await git(["tag", commit.tag]);
+    const { stdout } = await git(["rev-parse", "HEAD"]);
+    shas.set(commit.message.split("\n")[0], stdout.trim());
+  }
+  return { dir, shas };
+};
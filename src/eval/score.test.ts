@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { scoreNotes, wordOverlap } from "./score.js";
+import type { ExpectedNotes } from "../mastra/lib/verify.js";
+
+const expected: ExpectedNotes = {
+  version: "v2.1.0",
+  sections: [
+    { heading: "### ✨ Features", entries: [{ sha: "a23ebf4", title: "Google Sign-In" }] },
+    { heading: "### 🐛 Bug Fixes", entries: [{ sha: "80941b8", title: "Expired Tokens Handled" }] },
+  ],
+  knownShas: ["a23ebf4", "80941b8"],
+  otherHeadings: ["### 👥 Contributors"],
+};
+
+const notes = [
+  "## v2.1.0 — December 2025",
+  "",
+  "### ✨ Features",
+  "- **Google Sign-In**: Log in with Google.",
+  "",
+  "### 🐛 Bug Fixes",
+  "- **Expired Tokens Handled**: No more 500s.",
+  "",
+  "### 👥 Contributors",
+  "- Ada",
+].join("\n");
+
+describe("scoreNotes", () => {
+  it("gives full marks to notes matching the expectation and the golden notes", () => {
+    expect(scoreNotes({ markdown: notes, version: "v2.1.0" }, expected, notes)).toEqual({
+      scores: { coverage: 1, placement: 1, version: 1, format: 1, golden: 1 },
+      issues: [],
+    });
+  });
+
+  it("separates missing entries from misplaced ones", () => {
+    const moved = notes
+      .replace("- **Google Sign-In**: Log in with Google.\n", "")
+      .replace("- **Expired Tokens Handled**: No more 500s.", "- **Google Sign-In**: Log in with Google.");
+    const { scores, issues } = scoreNotes({ markdown: moved, version: "v2.1.0" }, expected, notes);
+    expect(scores).toMatchObject({ coverage: 0.5, placement: 0 });
+    expect(issues).toEqual([
+      'placement: a23ebf4 ("Google Sign-In") is under "### 🐛 Bug Fixes", expected "### ✨ Features"',
+      'coverage: 80941b8 ("Expired Tokens Handled") is missing',
+      "format: expected no empty sections",
+    ]);
+  });
+
+  it("scores the computed version and the format and length rules", () => {
+    const long = notes.replace("No more 500s.", "x".repeat(400));
+    const { scores, issues } = scoreNotes({ markdown: long, version: "v2.0.1" }, expected, notes, { maxChars: 300, maxEntryChars: 300 });
+    expect(scores.version).toBe(0);
+    expect(scores.format).toBe(0.6);
+    expect(issues).toEqual(expect.arrayContaining([
+      "version: computed v2.0.1, expected v2.1.0",
+      "format: expected at most 300 characters",
+      "format: expected entries of at most 300 characters",
+    ]));
+  });
+});
+
+describe("wordOverlap", () => {
+  it("is the F1 of the shared words, ignoring case and punctuation", () => {
+    expect(wordOverlap("Sign in with Google!", "sign in with google")).toBe(1);
+    expect(wordOverlap("sign in", "sign in with google")).toBe(0.667);
+    expect(wordOverlap("", "")).toBe(1);
+  });
+});
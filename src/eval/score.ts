@@ -0,0 +1,103 @@
+import { mentions, parseSections, verifyReleaseNotes, type ExpectedNotes } from "../mastra/lib/verify.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+// Every metric scores 0–1. coverage and placement count the expected entries
+// found in the notes at all and found once under the right heading; version
+// checks the computed version and the header; format is the share of format
+// and length rules the notes pass; golden is the word overlap (F1) with the
+// case's golden notes, so rewording costs a little and lost content a lot.
+
+export const EVAL_METRICS = ["coverage", "placement", "version", "format", "golden"] as const;
+export type EvalMetric = (typeof EVAL_METRICS)[number];
+
+export type EvalScores = Record<EvalMetric, number>;
+
+export interface LengthLimits {
+  maxChars: number;      // whole notes
+  maxEntryChars: number; // one list item
+}
+
+export const DEFAULT_LIMITS: LengthLimits = { maxChars: 4000, maxEntryChars: 300 };
+
+export interface ScoredNotes {
+  scores: EvalScores;
+  issues: string[]; // why a metric lost points
+}
+
+// ─── Metrics ──────────────────────────────────────────────────────────────────
+
+const round = (n: number) => Math.round(n * 1000) / 1000;
+
+const words = (text: string) => text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+// F1 over word multisets
+export const wordOverlap = (actual: string, golden: string) => {
+  const want = new Map<string, number>();
+  for (const w of words(golden)) want.set(w, (want.get(w) ?? 0) + 1);
+  const got = words(actual);
+  let common = 0;
+  for (const w of got) {
+    const left = want.get(w) ?? 0;
+    if (left > 0) {
+      common++;
+      want.set(w, left - 1);
+    }
+  }
+  const total = got.length + words(golden).length;
+  return total === 0 ? 1 : round((2 * common) / total);
+};
+
+export const scoreNotes = (
+  notes: { markdown: string; version: string },
+  expected: ExpectedNotes,
+  golden: string,
+  limits: LengthLimits = DEFAULT_LIMITS,
+): ScoredNotes => {
+  const issues: string[] = [];
+  const headings = [...expected.sections.map((s) => s.heading), ...expected.otherHeadings];
+  const other    = new Set(expected.otherHeadings.map((h) => h.trim()));
+  const listed   = parseSections(notes.markdown, headings).filter((p) => !other.has(p.heading));
+
+  let found = 0;
+  let placed = 0;
+  const entries = expected.sections.flatMap((s) => s.entries.map((entry) => ({ entry, heading: s.heading.trim() })));
+  for (const { entry, heading } of entries) {
+    const at = listed.flatMap((p) => p.entries.filter((line) => mentions(line, entry)).map(() => p.heading));
+    const label = `${entry.sha} ("${entry.title}")`;
+    if (at.length === 0) {
+      issues.push(`coverage: ${label} is missing`);
+      continue;
+    }
+    found++;
+    if (at.length === 1 && at[0] === heading) placed++;
+    else issues.push(`placement: ${label} is under ${at.map((h) => `"${h}"`).join(", ")}, expected "${heading}"`);
+  }
+
+  const report = verifyReleaseNotes(notes.markdown, expected);
+  const versionOk = notes.version === expected.version && !report.issues.some((i) => i.rule === "version-header");
+  if (notes.version !== expected.version) issues.push(`version: computed ${notes.version}, expected ${expected.version}`);
+  else if (!versionOk) issues.push(`version: the header does not name ${expected.version}`);
+
+  const rules: Array<[string, boolean]> = [
+    ["valid Markdown", !report.issues.some((i) => i.rule === "markdown")],
+    ["no empty sections", !report.issues.some((i) => i.rule === "empty-section")],
+    ["no entries for commits outside the release", !report.issues.some((i) => i.rule === "unexpected-entry")],
+    [`at most ${limits.maxChars} characters`, notes.markdown.length <= limits.maxChars],
+    [
+      `entries of at most ${limits.maxEntryChars} characters`,
+      parseSections(notes.markdown, headings).every((p) => p.entries.every((e) => e.length <= limits.maxEntryChars)),
+    ],
+  ];
+  for (const [rule, ok] of rules) if (!ok) issues.push(`format: expected ${rule}`);
+
+  return {
+    scores: {
+      coverage:  entries.length ? round(found / entries.length) : 1,
+      placement: entries.length ? round(placed / entries.length) : 1,
+      version:   versionOk ? 1 : 0,
+      format:    round(rules.filter(([, ok]) => ok).length / rules.length),
+      golden:    wordOverlap(notes.markdown, golden),
+    },
+    issues,
+  };
+};
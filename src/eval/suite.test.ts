@@ -0,0 +1,12 @@
+import { describe, it, expect } from "vitest";
+import { listCases, renderReport, runSuite } from "./suite.js";
+
+// Replays every stored case; a prompt change without re-recording fails here
+describe("eval suite", () => {
+  it("replays the stored cases above their thresholds", async () => {
+    const report = await runSuite();
+    expect(report.cases.map((c) => c.name)).toEqual(await listCases());
+    expect(report.cases.filter((c) => !c.passed).map((c) => ({ name: c.name, error: c.error, issues: c.issues }))).toEqual([]);
+    expect(renderReport(report)).toContain("— passed");
+  }, 60_000);
+});
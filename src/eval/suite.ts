@@ -0,0 +1,200 @@
+import { readdir, readFile, rm } from "node:fs/promises";
+import path from "node:path";
+import { createClient } from "@libsql/client";
+import { Mastra } from "@mastra/core";
+import { LibSQLStore } from "@mastra/libsql";
+import { z } from "zod";
+import { releaseNotesWorkflow } from "../mastra/workflows/releaseNotesWorkflow.js";
+import { DEFAULT_MODELS, configureModels, modelConfigFromEnv, type ModelRole } from "../mastra/models/registry.js";
+import { configureEnrichmentCache } from "../mastra/enrichments/cache.js";
+import { configureReleaseStore } from "../mastra/releases/store.js";
+import { configureTemplates, getTemplate } from "../mastra/templates/store.js";
+import { DEFAULT_TEMPLATE_NAME } from "../mastra/templates/template.js";
+import { configureProjects, getProfile } from "../mastra/projects/store.js";
+import { DEFAULT_PROJECT_NAME } from "../mastra/projects/profile.js";
+import type { ReleaseDocument } from "../mastra/lib/formats.js";
+import type { ExpectedNotes } from "../mastra/lib/verify.js";
+import { buildFixtureRepo, fixtureRepoSchema } from "./repo.js";
+import { DEFAULT_LIMITS, EVAL_METRICS, scoreNotes, type EvalMetric, type EvalScores } from "./score.js";
+
+// ─── Cases ────────────────────────────────────────────────────────────────────
+// One directory per case under cases/:
+//   case.json   the fixture repository, the workflow input and what the notes must contain
+//   golden.md   notes a person approved for this range
+//   llm/        recorded model responses (see models/replay.ts)
+// Replays run every model role on the mock provider with strict fixtures, so
+// a prompt change shows up as a missing fixture until the case is re-recorded
+// with --record against real models. Responses whose modelId reads
+// "hand-written:<role>" were written by hand when the case was added.
+
+export const evalCaseSchema = z.object({
+  description: z.string(),
+  repo: fixtureRepoSchema,
+  input: z.object({ query: z.string().min(1) }).catchall(z.unknown())
+    .describe("Workflow input; repoPath is filled in with the fixture repository"),
+  expected: z.object({
+    version: z.string(),
+    // Template section id → first lines of the commits listed under it
+    sections: z.record(z.string(), z.array(z.string())),
+  }),
+  limits: z.object({ maxChars: z.number().int().min(1), maxEntryChars: z.number().int().min(1) }).partial().default({}),
+  thresholds: z.partialRecord(z.enum(EVAL_METRICS), z.number().min(0).max(1)).default({}),
+});
+
+export type EvalCase = z.output<typeof evalCaseSchema>;
+
+export type EvalMode = "replay" | "record";
+
+export interface CaseResult {
+  name: string;
+  description: string;
+  passed: boolean;
+  scores: EvalScores | null; // null when the run failed
+  thresholds: EvalScores;
+  failures: EvalMetric[];    // metrics below their threshold
+  issues: string[];
+  error: string | null;
+  markdown: string | null;
+}
+
+export interface EvalReport {
+  mode: EvalMode;
+  startedAt: string;
+  passed: boolean;
+  cases: CaseResult[];
+}
+
+// A score below its threshold fails the case; cases may set their own
+export const DEFAULT_THRESHOLDS: EvalScores = {
+  coverage:  1,
+  placement: 1,
+  version:   1,
+  format:    1,
+  golden:    0.8,
+};
+
+export interface EvalConfig {
+  casesDir: string;
+  thresholds: EvalScores;
+}
+
+let config: EvalConfig = {
+  casesDir: path.resolve(import.meta.dirname, "cases"),
+  thresholds: { ...DEFAULT_THRESHOLDS },
+};
+
+export const configureEval = (overrides: Partial<EvalConfig>) => {
+  config = { ...config, ...overrides, thresholds: { ...config.thresholds, ...overrides.thresholds } };
+};
+
+export const listCases = async () =>
+  (await readdir(config.casesDir, { withFileTypes: true })).filter((e) => e.isDirectory()).map((e) => e.name).sort();
+
+export const loadCase = async (name: string) => {
+  const dir = path.join(config.casesDir, name);
+  const spec = evalCaseSchema.parse(JSON.parse(await readFile(path.join(dir, "case.json"), "utf8")));
+  return { dir, spec, golden: await readFile(path.join(dir, "golden.md"), "utf8") };
+};
+
+// ─── Runs ─────────────────────────────────────────────────────────────────────
+
+// Every case gets empty databases: a cache hit from an earlier case or run
+// would change the prompts and miss the recordings
+const isolate = (fixturesDir: string, mode: EvalMode) => {
+  const db = createClient({ url: ":memory:" });
+  configureEnrichmentCache({ db: () => db });
+  configureReleaseStore({ db: () => db });
+  configureTemplates({ db: () => db });
+  configureProjects({ defaultProject: DEFAULT_PROJECT_NAME });
+  const roles = Object.keys(DEFAULT_MODELS) as ModelRole[];
+  configureModels(mode === "record"
+    ? { ...modelConfigFromEnv(), fixturesDir, record: true }
+    : { models: Object.fromEntries(roles.map((r) => [r, `mock:${r}`])), fixturesDir, strictFixtures: true, record: false });
+  return new Mastra({ workflows: { releaseNotesWorkflow }, storage: new LibSQLStore({ id: "eval", client: db }) });
+};
+
+// What the notes must contain, with titles from the run's own entries so the
+// score measures the draft, not the enrich model's wording
+const expectedNotes = async (spec: EvalCase, document: ReleaseDocument, shas: Map<string, string>): Promise<ExpectedNotes> => {
+  const profile  = await getProfile(spec.input.project as string | undefined);
+  const template = await getTemplate((spec.input.template as string | undefined) ?? profile.template ?? DEFAULT_TEMPLATE_NAME);
+  const entries  = document.sections.flatMap((s) => s.entries);
+  const entry = (subject: string) => {
+    const full = shas.get(subject);
+    if (!full) throw new Error(`expected commit "${subject}" is not in the fixture repository`);
+    const sha = entries.find((e) => full.startsWith(e.sha))?.sha ?? full.slice(0, 7);
+    return { sha, title: entries.find((e) => e.sha === sha)?.title ?? subject };
+  };
+  return {
+    version:  spec.expected.version,
+    sections: template.sections.map((s) => ({ heading: s.heading, entries: (spec.expected.sections[s.id] ?? []).map(entry) })),
+    knownShas: [...shas.values()].map((sha) => sha.slice(0, 7)),
+    otherHeadings: [template.breakingHeading, template.contributorsHeading, template.packagesHeading].filter(Boolean),
+  };
+};
+
+export const runCase = async (name: string, mode: EvalMode = "replay"): Promise<CaseResult> => {
+  const { dir, spec, golden } = await loadCase(name);
+  const thresholds = { ...config.thresholds, ...spec.thresholds };
+  const result = (fields: Partial<CaseResult>): CaseResult => ({
+    name, description: spec.description, passed: false, scores: null, thresholds, failures: [], issues: [],
+    error: null, markdown: null, ...fields,
+  });
+
+  const repo = await buildFixtureRepo(spec.repo);
+  try {
+    const mastra = isolate(path.join(dir, "llm"), mode);
+    const run    = await mastra.getWorkflow("releaseNotesWorkflow").createRun();
+    const formats = [...new Set([...((spec.input.formats as string[] | undefined) ?? []), "json"])];
+    const output = await run.start({ inputData: { ...spec.input, repoPath: repo.dir, formats } as any });
+    if (output.status !== "success") {
+      const error = ((output as any).error ?? {}) as { code?: string; message?: string };
+      const hint  = error.code === "MISSING_FIXTURE" ? `; re-record with npm run eval -- --record --case ${name}` : "";
+      return result({ error: `${error.message ?? `Workflow run ${output.status}`}${hint}` });
+    }
+
+    const notes  = (output as any).result;
+    const scored = scoreNotes(
+      { markdown: notes.result, version: notes.version },
+      await expectedNotes(spec, notes.formats.json, repo.shas),
+      golden,
+      { ...DEFAULT_LIMITS, ...spec.limits },
+    );
+    const failures = EVAL_METRICS.filter((m) => scored.scores[m] < thresholds[m]);
+    return result({ passed: failures.length === 0, scores: scored.scores, failures, issues: scored.issues, markdown: notes.result });
+  } catch (error) {
+    return result({ error: (error as Error).message });
+  } finally {
+    await rm(repo.dir, { recursive: true, force: true });
+  }
+};
+
+// One case at a time: they share the model registry and databases
+export const runSuite = async ({ cases, mode = "replay" }: { cases?: string[]; mode?: EvalMode } = {}): Promise<EvalReport> => {
+  const startedAt = new Date().toISOString();
+  const known = await listCases();
+  const unknown = cases?.filter((name) => !known.includes(name)) ?? [];
+  if (unknown.length) throw new Error(`Unknown eval case(s): ${unknown.join(", ")}; cases are ${known.join(", ")}`);
+  const results: CaseResult[] = [];
+  for (const name of cases?.length ? cases : known) results.push(await runCase(name, mode));
+  return { mode, startedAt, passed: results.every((r) => r.passed), cases: results };
+};
+
+// ─── Report ───────────────────────────────────────────────────────────────────
+
+export const renderReport = (report: EvalReport) => {
+  const cell = (r: CaseResult, m: EvalMetric) =>
+    r.scores ? `${r.scores[m].toFixed(2)}${r.failures.includes(m) ? ` ✗ (< ${r.thresholds[m]})` : ""}` : "—";
+  const lines = [
+    `## Release notes eval (${report.mode}) — ${report.passed ? "passed" : "FAILED"}`,
+    "",
+    `| Case | ${EVAL_METRICS.join(" | ")} | Result |`,
+    `|---|${EVAL_METRICS.map(() => "---:").join("|")}|---|`,
+    ...report.cases.map((r) =>
+      `| ${r.name} | ${EVAL_METRICS.map((m) => cell(r, m)).join(" | ")} | ${r.passed ? "pass" : "fail"} |`),
+  ];
+  for (const r of report.cases.filter((c) => c.error || c.issues.length)) {
+    lines.push("", `### ${r.name}`, "", ...(r.error ? [`- error: ${r.error}`] : []), ...r.issues.map((i) => `- ${i}`));
+  }
+  return lines.join("\n");
+};
@@ -0,0 +1,65 @@
+import { beforeEach, describe, it, expect } from "vitest";
+import { createClient } from "@libsql/client";
+import {
+  authenticateApiKey, configureApiKeys, createApiKey, exceededQuota, getUsage, hasScope, listApiKeys, periodEnd,
+  recordUsage, revokeApiKey, rotateApiKey, usagePeriod,
+} from "./keys.js";
+
+beforeEach(() => {
+  const db = createClient({ url: ":memory:" });
+  configureApiKeys({ db: () => db });
+});
+
+describe("API keys", () => {
+  it("authenticates a new key by its secret only", async () => {
+    const { key, secret } = await createApiKey({ name: "ci", scopes: ["generate", "generate"], requestQuota: 100 });
+    expect(secret).toMatch(new RegExp(`^rnk_${key.id}_`));
+    expect(key).toMatchObject({ name: "ci", scopes: ["generate"], requestQuota: 100, tokenQuota: null, revokedAt: null });
+
+    expect(await authenticateApiKey(secret)).toMatchObject({ id: key.id, lastUsedAt: null });
+    expect((await listApiKeys())[0].lastUsedAt).not.toBeNull();
+    expect(await authenticateApiKey(`${secret.slice(0, -1)}x`)).toBeNull();
+    expect(await authenticateApiKey("not-a-key")).toBeNull();
+  });
+
+  it("rotates and revokes keys", async () => {
+    const { key, secret } = await createApiKey({ name: "dashboard", scopes: ["runs:read"] });
+    const rotated = await rotateApiKey(key.id);
+    expect(rotated?.key.rotatedAt).not.toBeNull();
+    expect(await authenticateApiKey(secret)).toBeNull();
+    expect(await authenticateApiKey(rotated!.secret)).toMatchObject({ id: key.id });
+
+    expect(await revokeApiKey(key.id)).toBe(true);
+    expect(await revokeApiKey(key.id)).toBe(false);
+    expect(await rotateApiKey(key.id)).toBeNull();
+    expect(await authenticateApiKey(rotated!.secret)).toBeNull();
+    expect(await listApiKeys()).toEqual([]);
+    expect(await listApiKeys({ includeRevoked: true })).toHaveLength(1);
+  });
+
+  it("treats admin as every scope", () => {
+    expect(hasScope({ scopes: ["admin"] }, "generate")).toBe(true);
+    expect(hasScope({ scopes: ["runs:read"] }, "generate")).toBe(false);
+  });
+});
+
+describe("quotas", () => {
+  it("adds up usage per month", async () => {
+    const march = new Date("2026-03-31T23:59:00Z");
+    await recordUsage("k1", { requests: 1, tokens: 1200 }, march);
+    await recordUsage("k1", { tokens: 800 }, march);
+    await recordUsage("k1", { requests: 1 }, new Date("2026-04-01T00:00:00Z"));
+
+    expect(await getUsage("k1", "2026-03")).toEqual({ period: "2026-03", requests: 1, tokens: 2000 });
+    expect(await getUsage("k1", "2026-04")).toEqual({ period: "2026-04", requests: 1, tokens: 0 });
+    expect(usagePeriod(march)).toBe("2026-03");
+    expect(periodEnd(march).toISOString()).toBe("2026-04-01T00:00:00.000Z");
+  });
+
+  it("reports the quota a key has used up", () => {
+    const usage = { period: "2026-03", requests: 10, tokens: 5000 };
+    expect(exceededQuota({ requestQuota: 10, tokenQuota: null, rateLimit: null }, usage)).toBe("requests");
+    expect(exceededQuota({ requestQuota: 11, tokenQuota: 5000, rateLimit: null }, usage)).toBe("tokens");
+    expect(exceededQuota({ requestQuota: null, tokenQuota: null, rateLimit: null }, usage)).toBeNull();
+  });
+});
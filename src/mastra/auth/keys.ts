@@ -0,0 +1,195 @@
+import { createHash, randomBytes } from "node:crypto";
+import type { Client } from "@libsql/client";
+import { getDb } from "../db.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+// API keys read "rnk_<id>_<secret>". Only a hash of the whole key is stored, so
+// the key is shown once, when it is created or rotated; the id is public and
+// names the key in admin routes and logs. admin implies every other scope.
+// Quotas run per calendar month (UTC); tokens are what the models reported.
+
+export const API_KEY_SCOPES = ["generate", "runs:read", "admin"] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export interface ApiKeyLimits {
+  requestQuota: number | null; // run requests per month; null = unlimited
+  tokenQuota: number | null;   // model tokens per month; null = unlimited
+  rateLimit: number | null;    // requests per minute; null = the server default
+}
+
+export interface ApiKey extends ApiKeyLimits {
+  id: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  createdAt: string;
+  rotatedAt: string | null;
+  revokedAt: string | null;
+  lastUsedAt: string | null;
+}
+
+export interface ApiKeyUsage {
+  period: string; // YYYY-MM
+  requests: number;
+  tokens: number;
+}
+
+export interface ApiKeysConfig {
+  db: () => Client;
+}
+
+let config: ApiKeysConfig = { db: getDb };
+
+export const configureApiKeys = (overrides: Partial<ApiKeysConfig>) => {
+  config = { ...config, ...overrides };
+};
+
+// ─── Secrets ──────────────────────────────────────────────────────────────────
+
+const KEY_FORMAT = /^rnk_([0-9a-f]{12})_[\w-]{32}$/;
+
+const hashKey = (key: string) => createHash("sha256").update(key).digest("hex");
+
+const newSecret = (id: string) => `rnk_${id}_${randomBytes(24).toString("base64url")}`;
+
+export const hasScope = (key: Pick<ApiKey, "scopes">, scope: ApiKeyScope) =>
+  key.scopes.includes("admin") || key.scopes.includes(scope);
+
+// ─── Database ─────────────────────────────────────────────────────────────────
+
+const tables = new WeakMap<Client, Promise<unknown>>();
+
+const db = async () => {
+  const client = config.db();
+  if (!tables.has(client)) {
+    tables.set(client, client.batch([
+      `CREATE TABLE IF NOT EXISTS api_keys (
+        id            TEXT PRIMARY KEY,
+        name          TEXT NOT NULL,
+        key_hash      TEXT NOT NULL UNIQUE,
+        scopes        TEXT NOT NULL,
+        request_quota INTEGER,
+        token_quota   INTEGER,
+        rate_limit    INTEGER,
+        created_at    TEXT NOT NULL,
+        rotated_at    TEXT,
+        revoked_at    TEXT,
+        last_used_at  TEXT
+      )`,
+      `CREATE TABLE IF NOT EXISTS api_key_usage (
+        key_id   TEXT NOT NULL,
+        period   TEXT NOT NULL,
+        requests INTEGER NOT NULL DEFAULT 0,
+        tokens   INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (key_id, period)
+      )`,
+    ], "write"));
+  }
+  await tables.get(client);
+  return client;
+};
+
+const nullableNumber = (v: unknown) => (v === null || v === undefined ? null : Number(v));
+const nullableString = (v: unknown) => (v === null || v === undefined ? null : String(v));
+
+const toApiKey = (row: Record<string, unknown>): ApiKey => ({
+  id:           String(row.id),
+  name:         String(row.name),
+  scopes:       JSON.parse(String(row.scopes)),
+  requestQuota: nullableNumber(row.request_quota),
+  tokenQuota:   nullableNumber(row.token_quota),
+  rateLimit:    nullableNumber(row.rate_limit),
+  createdAt:    String(row.created_at),
+  rotatedAt:    nullableString(row.rotated_at),
+  revokedAt:    nullableString(row.revoked_at),
+  lastUsedAt:   nullableString(row.last_used_at),
+});
+
+// ─── Keys ─────────────────────────────────────────────────────────────────────
+
+export const createApiKey = async (input: { name: string; scopes: ApiKeyScope[] } & Partial<ApiKeyLimits>) => {
+  const id     = randomBytes(6).toString("hex");
+  const secret = newSecret(id);
+  const now    = new Date().toISOString();
+  await (await db()).execute({
+    sql: `INSERT INTO api_keys (id, name, key_hash, scopes, request_quota, token_quota, rate_limit, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [id, input.name, hashKey(secret), JSON.stringify([...new Set(input.scopes)]),
+      input.requestQuota ?? null, input.tokenQuota ?? null, input.rateLimit ?? null, now],
+  });
+  return { key: (await getApiKey(id))!, secret };
+};
+
+export const getApiKey = async (id: string) => {
+  const { rows } = await (await db()).execute({ sql: "SELECT * FROM api_keys WHERE id = ?", args: [id] });
+  return rows[0] ? toApiKey(rows[0] as Record<string, unknown>) : null;
+};
+
+export const listApiKeys = async ({ includeRevoked = false } = {}) => {
+  const { rows } = await (await db()).execute(
+    `SELECT * FROM api_keys ${includeRevoked ? "" : "WHERE revoked_at IS NULL"} ORDER BY created_at, id`,
+  );
+  return rows.map((r) => toApiKey(r as Record<string, unknown>));
+};
+
+// The old secret stops working at once; null for unknown or revoked keys
+export const rotateApiKey = async (id: string) => {
+  const secret = newSecret(id);
+  const result = await (await db()).execute({
+    sql:  "UPDATE api_keys SET key_hash = ?, rotated_at = ? WHERE id = ? AND revoked_at IS NULL",
+    args: [hashKey(secret), new Date().toISOString(), id],
+  });
+  return result.rowsAffected > 0 ? { key: (await getApiKey(id))!, secret } : null;
+};
+
+// Returns false when the key is unknown or already revoked
+export const revokeApiKey = async (id: string) => {
+  const result = await (await db()).execute({
+    sql:  "UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL",
+    args: [new Date().toISOString(), id],
+  });
+  return result.rowsAffected > 0;
+};
+
+// The active key a request presented, or null
+export const authenticateApiKey = async (secret: string) => {
+  if (!KEY_FORMAT.test(secret)) return null;
+  const client = await db();
+  const { rows } = await client.execute({
+    sql:  "SELECT * FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL",
+    args: [hashKey(secret)],
+  });
+  if (!rows[0]) return null;
+  const key = toApiKey(rows[0] as Record<string, unknown>);
+  await client.execute({ sql: "UPDATE api_keys SET last_used_at = ? WHERE id = ?", args: [new Date().toISOString(), key.id] });
+  return key;
+};
+
+// ─── Quotas ───────────────────────────────────────────────────────────────────
+
+export const usagePeriod = (at = new Date()) => at.toISOString().slice(0, 7);
+
+// When the period containing at ends and the quotas reset
+export const periodEnd = (at = new Date()) => new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth() + 1, 1));
+
+export const getUsage = async (id: string, period = usagePeriod()): Promise<ApiKeyUsage> => {
+  const { rows } = await (await db()).execute({
+    sql:  "SELECT requests, tokens FROM api_key_usage WHERE key_id = ? AND period = ?",
+    args: [id, period],
+  });
+  return { period, requests: Number(rows[0]?.requests ?? 0), tokens: Number(rows[0]?.tokens ?? 0) };
+};
+
+export const recordUsage = async (id: string, usage: { requests?: number; tokens?: number }, at = new Date()) => {
+  await (await db()).execute({
+    sql: `INSERT INTO api_key_usage (key_id, period, requests, tokens) VALUES (?, ?, ?, ?)
+          ON CONFLICT(key_id, period) DO UPDATE SET requests = requests + excluded.requests,
+            tokens = tokens + excluded.tokens`,
+    args: [id, usagePeriod(at), usage.requests ?? 0, usage.tokens ?? 0],
+  });
+};
+
+// Which quota the key has used up, if any
+export const exceededQuota = (key: ApiKeyLimits, usage: ApiKeyUsage) =>
+  key.requestQuota !== null && usage.requests >= key.requestQuota ? ("requests" as const)
+    : key.tokenQuota !== null && usage.tokens >= key.tokenQuota ? ("tokens" as const)
+    : null;
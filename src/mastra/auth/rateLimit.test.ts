@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import { createRateLimiter } from "./rateLimit.js";
+
+describe("createRateLimiter", () => {
+  it("admits requests while the sliding window has room", () => {
+    let t = 0;
+    const limiter = createRateLimiter({ windowMs: 60_000, now: () => t });
+
+    expect(limiter.take("k1", 2)).toEqual({ allowed: true, limit: 2, remaining: 1, retryAfterMs: 0 });
+    t = 20_000;
+    expect(limiter.take("k1", 2).remaining).toBe(0);
+    t = 30_000;
+    expect(limiter.take("k1", 2)).toEqual({ allowed: false, limit: 2, remaining: 0, retryAfterMs: 30_000 });
+    expect(limiter.take("k2", 2).allowed).toBe(true);
+
+    // The first request leaves the window; the rejected one never counted
+    t = 60_001;
+    expect(limiter.take("k1", 2)).toMatchObject({ allowed: true, remaining: 0 });
+    expect(limiter.take("k1", 2)).toMatchObject({ allowed: false, retryAfterMs: 19_999 });
+  });
+});
@@ -0,0 +1,30 @@
+// ─── Sliding-window rate limiter ──────────────────────────────────────────────
+// Keeps each caller's request times for the last window; a request is let in
+// while fewer than limit fall inside it. In memory, so limits are per process.
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterMs: number; // until the oldest request leaves the window; 0 when allowed
+}
+
+export const createRateLimiter = ({ windowMs = 60_000, now = Date.now } = {}) => {
+  const hits = new Map<string, number[]>();
+
+  const take = (id: string, limit: number): RateLimitDecision => {
+    const t = now();
+    const recent = (hits.get(id) ?? []).filter((at) => at > t - windowMs);
+    if (recent.length >= limit) {
+      hits.set(id, recent);
+      return { allowed: false, limit, remaining: 0, retryAfterMs: recent[recent.length - limit] + windowMs - t };
+    }
+    recent.push(t);
+    hits.set(id, recent);
+    return { allowed: true, limit, remaining: limit - recent.length, retryAfterMs: 0 };
+  };
+
+  return { take, reset: () => hits.clear() };
+};
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
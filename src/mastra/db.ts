@@ -0,0 +1,11 @@
+import { createClient, type Client } from "@libsql/client";
+
+// ─── Database ─────────────────────────────────────────────────────────────────
+// One LibSQL connection shared by Mastra's storage and the tables this service
+// owns (templates, …). Opened on first use so importing a module that touches
+// the database does not create local.db by itself. RELEASE_NOTES_DB_URL points
+// it elsewhere, e.g. ":memory:" for tests.
+
+let client: Client | null = null;
+
+export const getDb = () => (client ??= createClient({ url: process.env.RELEASE_NOTES_DB_URL || "file:local.db" }));
@@ -0,0 +1,61 @@
+import { beforeEach, describe, it, expect } from "vitest";
+import { createClient } from "@libsql/client";
+import {
+  configureEnrichmentCache, invalidateEnrichments, listEnrichments, lookupEnrichments, pinEnrichment, storeEnrichments,
+  unpinEnrichment, type EnrichmentScope,
+} from "./cache.js";
+
+const scope: EnrichmentScope = {
+  project:      "n-aible",
+  audience:     "default",
+  instructions: "",
+  prompt:       "enrich-features@1",
+  model:        "openai:gpt-4o",
+  context:      "n-aible, an AI-powered EdTech simulation platform",
+};
+
+beforeEach(() => {
+  const db = createClient({ url: ":memory:" });
+  configureEnrichmentCache({ db: () => db });
+});
+
+describe("enrichment cache", () => {
+  it("returns only commits enriched under the same scope", async () => {
+    await storeEnrichments(scope, [{ sha: "a23ebf4", title: "OAuth Support", description: "Sign in with Google." }]);
+
+    expect(await lookupEnrichments(scope, ["a23ebf4", "c41a2b0"])).toEqual(
+      new Map([["a23ebf4", { title: "OAuth Support", description: "Sign in with Google." }]]),
+    );
+    for (const changed of [{ instructions: "focus on auth" }, { prompt: "enrich-features@2" }, { model: "openai:gpt-4o-mini" }, { audience: "customer" }]) {
+      expect((await lookupEnrichments({ ...scope, ...changed }, ["a23ebf4"])).size).toBe(0);
+    }
+  });
+
+  it("prefers a pinned entry over the model's, whatever the scope", async () => {
+    await storeEnrichments(scope, [{ sha: "a23ebf4", title: "OAuth Support", description: "Generated." }]);
+    expect(await pinEnrichment({ sha: "a23ebf4", project: "n-aible", audience: "default", title: "Google Sign-In", description: "Edited." })).toBe(true);
+
+    for (const s of [scope, { ...scope, instructions: "shorter", prompt: "enrich-features@2" }]) {
+      expect((await lookupEnrichments(s, ["a23ebf4"])).get("a23ebf4")).toEqual({ title: "Google Sign-In", description: "Edited." });
+    }
+    expect((await lookupEnrichments({ ...scope, audience: "customer" }, ["a23ebf4"])).size).toBe(0);
+
+    expect(await unpinEnrichment("a23ebf4", "n-aible", "default")).toBe(true);
+    expect((await lookupEnrichments(scope, ["a23ebf4"])).get("a23ebf4")?.title).toBe("OAuth Support");
+  });
+
+  it("invalidates by sha prefix, keeping pinned entries unless asked", async () => {
+    await storeEnrichments(scope, [
+      { sha: "a23ebf4", title: "A", description: "" },
+      { sha: "c41a2b0", title: "C", description: "" },
+    ]);
+    await pinEnrichment({ sha: "a23ebf4", project: "n-aible", audience: "default", title: "Pinned", description: "" });
+
+    expect(await invalidateEnrichments({ sha: "a23e" })).toBe(1);
+    expect((await listEnrichments()).map((e) => [e.sha, e.pinned])).toEqual(
+      expect.arrayContaining([["a23ebf4", true], ["c41a2b0", false]]),
+    );
+    expect(await invalidateEnrichments({ project: "n-aible" }, { includePinned: true })).toBe(2);
+    expect(await listEnrichments()).toEqual([]);
+  });
+});
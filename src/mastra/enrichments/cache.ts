@@ -0,0 +1,196 @@
+import { createHash } from "node:crypto";
+import type { Client, InValue } from "@libsql/client";
+import { getDb } from "../db.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+// Prose the enrich model wrote for one commit, stored under a hash of
+// everything that shaped it: the commit, the project, the audience, the
+// request's instructions, the prompt version and the model. Rerunning an
+// overlapping range (an RC, then the final release) reuses it instead of
+// paying for — and re-wording — the same commits again.
+//
+// A pinned entry is a hand edit for one commit, project and audience. It wins
+// over whatever the model wrote, whatever the instructions or prompt version.
+//
+// Commits are stored under their full sha: git abbreviates shas to whatever
+// length is unique, which grows with the repository.
+
+export const DEFAULT_AUDIENCE = "default"; // the main notes, as opposed to an audience variant
+
+export interface EnrichmentScope {
+  project: string;
+  audience: string;
+  instructions: string;
+  prompt: string;  // prompt id and version, e.g. "enrich-features@1"
+  model: string;   // model spec, e.g. "openai:gpt-4o"
+  context: string; // product context the prompt opens with
+}
+
+export interface Enrichment {
+  title: string;
+  description: string;
+}
+
+export interface CachedEnrichment extends Enrichment {
+  sha: string; // full sha
+  project: string;
+  audience: string;
+  prompt: string | null; // null for pinned entries
+  model: string | null;
+  pinned: boolean;
+  updatedAt: string;
+}
+
+export interface EnrichmentFilter {
+  sha?: string;
+  project?: string;
+  audience?: string;
+  pinned?: boolean;
+}
+
+export interface EnrichmentCacheConfig {
+  db: () => Client;
+}
+
+let config: EnrichmentCacheConfig = { db: getDb };
+
+export const configureEnrichmentCache = (overrides: Partial<EnrichmentCacheConfig>) => {
+  config = { ...config, ...overrides };
+};
+
+// ─── Keys ─────────────────────────────────────────────────────────────────────
+
+const hash = (parts: string[]) => createHash("sha256").update(JSON.stringify(parts)).digest("hex");
+
+export const enrichmentKey = (scope: EnrichmentScope, sha: string) =>
+  hash([sha, scope.project, scope.audience, scope.instructions.trim(), scope.prompt, scope.model, scope.context]);
+
+const pinKey = (sha: string, project: string, audience: string) => hash(["pin", sha, project, audience]);
+
+// ─── Database ─────────────────────────────────────────────────────────────────
+
+const tables = new WeakMap<Client, Promise<unknown>>();
+
+const db = async () => {
+  const client = config.db();
+  if (!tables.has(client)) {
+    tables.set(client, client.batch([
+      `CREATE TABLE IF NOT EXISTS release_note_enrichments (
+        key         TEXT PRIMARY KEY,
+        sha         TEXT NOT NULL,
+        project     TEXT NOT NULL,
+        audience    TEXT NOT NULL,
+        prompt      TEXT,
+        model       TEXT,
+        title       TEXT NOT NULL,
+        description TEXT NOT NULL,
+        pinned      INTEGER NOT NULL DEFAULT 0,
+        created_at  TEXT NOT NULL,
+        updated_at  TEXT NOT NULL
+      )`,
+      "CREATE INDEX IF NOT EXISTS release_note_enrichments_sha ON release_note_enrichments (sha)",
+    ], "write"));
+  }
+  await tables.get(client);
+  return client;
+};
+
+const toCached = (row: Record<string, unknown>): CachedEnrichment => ({
+  sha:         String(row.sha),
+  project:     String(row.project),
+  audience:    String(row.audience),
+  prompt:      row.prompt === null ? null : String(row.prompt),
+  model:       row.model === null ? null : String(row.model),
+  title:       String(row.title),
+  description: String(row.description),
+  pinned:      Number(row.pinned) === 1,
+  updatedAt:   String(row.updated_at),
+});
+
+const where = ({ sha, project, audience, pinned }: EnrichmentFilter) => {
+  const clauses: string[] = [];
+  const args: InValue[] = [];
+  if (sha)                  { clauses.push("sha LIKE ?"); args.push(`${sha}%`); }
+  if (project)              { clauses.push("project = ?"); args.push(project); }
+  if (audience)             { clauses.push("audience = ?"); args.push(audience); }
+  if (pinned !== undefined) { clauses.push("pinned = ?"); args.push(pinned ? 1 : 0); }
+  return { sql: clauses.length ? `WHERE ${clauses.join(" AND ")}` : "", args };
+};
+
+// ─── Workflow ─────────────────────────────────────────────────────────────────
+
+// Cached prose for whichever of the full shas has some; pinned entries win
+export const lookupEnrichments = async (scope: EnrichmentScope, shas: string[]) => {
+  const found = new Map<string, Enrichment>();
+  if (shas.length === 0) return found;
+
+  const keys = shas.flatMap((sha) => [enrichmentKey(scope, sha), pinKey(sha, scope.project, scope.audience)]);
+  const { rows } = await (await db()).execute({
+    sql:  `SELECT sha, title, description, pinned FROM release_note_enrichments
+           WHERE key IN (${keys.map(() => "?").join(", ")}) ORDER BY pinned`,
+    args: keys,
+  });
+  for (const row of rows) found.set(String(row.sha), { title: String(row.title), description: String(row.description) });
+  return found;
+};
+
+export const storeEnrichments = async (scope: EnrichmentScope, entries: Array<Enrichment & { sha: string }>) => {
+  if (entries.length === 0) return;
+  const now = new Date().toISOString();
+  await (await db()).batch(entries.map((e) => ({
+    sql: `INSERT INTO release_note_enrichments
+            (key, sha, project, audience, prompt, model, title, description, pinned, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, 0, ?, ?)
+          ON CONFLICT(key) DO UPDATE SET title = excluded.title, description = excluded.description,
+            updated_at = excluded.updated_at`,
+    args: [enrichmentKey(scope, e.sha), e.sha, scope.project, scope.audience, scope.prompt, scope.model,
+      e.title, e.description, now, now],
+  })), "write");
+};
+
+// ─── Management ───────────────────────────────────────────────────────────────
+// sha filters match by prefix, so an abbreviated sha finds its entries.
+
+export const listEnrichments = async (filter: EnrichmentFilter = {}, limit = 100) => {
+  const { sql, args } = where(filter);
+  const { rows } = await (await db()).execute({
+    sql:  `SELECT * FROM release_note_enrichments ${sql} ORDER BY updated_at DESC, sha LIMIT ?`,
+    args: [...args, limit],
+  });
+  return rows.map((r) => toCached(r as Record<string, unknown>));
+};
+
+// Hand edits survive unless includePinned is set
+export const invalidateEnrichments = async (
+  filter: Omit<EnrichmentFilter, "pinned">,
+  { includePinned = false } = {},
+) => {
+  const { sql, args } = where(includePinned ? filter : { ...filter, pinned: false });
+  const result = await (await db()).execute({ sql: `DELETE FROM release_note_enrichments ${sql}`, args });
+  return result.rowsAffected;
+};
+
+// Returns true when the commit had no pinned entry for this project and audience before
+export const pinEnrichment = async (entry: Enrichment & { sha: string; project: string; audience: string }) => {
+  const client = await db();
+  const key = pinKey(entry.sha, entry.project, entry.audience);
+  const now = new Date().toISOString();
+  const existing = await client.execute({ sql: "SELECT 1 FROM release_note_enrichments WHERE key = ?", args: [key] });
+  await client.execute({
+    sql: `INSERT INTO release_note_enrichments
+            (key, sha, project, audience, prompt, model, title, description, pinned, created_at, updated_at)
+          VALUES (?, ?, ?, ?, NULL, NULL, ?, ?, 1, ?, ?)
+          ON CONFLICT(key) DO UPDATE SET title = excluded.title, description = excluded.description,
+            updated_at = excluded.updated_at`,
+    args: [key, entry.sha, entry.project, entry.audience, entry.title, entry.description, now, now],
+  });
+  return existing.rows.length === 0;
+};
+
+export const unpinEnrichment = async (sha: string, project: string, audience: string) => {
+  const result = await (await db()).execute({
+    sql:  "DELETE FROM release_note_enrichments WHERE key = ?",
+    args: [pinKey(sha, project, audience)],
+  });
+  return result.rowsAffected > 0;
+};
@@ -1,10 +1,19 @@
 import { Mastra } from "@mastra/core";
 import { LibSQLStore } from "@mastra/libsql";
 import { releaseNotesWorkflow } from "./workflows/releaseNotesWorkflow.js";
+import { configureModels, modelConfigFromEnv } from "./models/registry.js";
+import { configureUsage, usageConfigFromEnv } from "./lib/usage.js";
+import { getDb } from "./db.js";
+
+// Per-step models, local endpoints and offline replay are all set from env;
+// see modelConfigFromEnv for the variables.
+configureModels(modelConfigFromEnv());
+// Price table and default run budget; see usageConfigFromEnv
+configureUsage(usageConfigFromEnv());
 
 const storage = new LibSQLStore({
   id: "main",
-  url: "file:local.db",
+  client: getDb(),
 });
 
 export const mastra = new Mastra({
@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { AUDIENCES, selectForAudience } from "./audiences.js";
+
+const commit = (sha: string, type: "feat" | "fix" | "perf" | "chore" | "docs" | "refactor" | "test", breaking = false) =>
+  ({ sha, type, breaking });
+
+const buckets = {
+  features:    [commit("f1", "feat"), commit("f2", "feat"), commit("f3", "feat"), commit("f4", "feat", true)],
+  fixes:       [commit("x1", "fix")],
+  performance: [],
+  maintenance: [commit("m1", "chore"), commit("m2", "test"), commit("m3", "refactor", true)],
+};
+
+const shas = (selected: Record<string, Array<{ sha: string }>>) =>
+  Object.fromEntries(Object.entries(selected).map(([k, v]) => [k, v.map((c) => c.sha)]));
+
+describe("selectForAudience", () => {
+  it("gives developers everything", () => {
+    expect(shas(selectForAudience(buckets, AUDIENCES.developer))).toEqual({
+      features: ["f1", "f2", "f3", "f4"], fixes: ["x1"], performance: [], maintenance: ["m1", "m2", "m3"],
+    });
+  });
+
+  it("hides maintenance from customers but keeps breaking changes", () => {
+    expect(shas(selectForAudience(buckets, AUDIENCES.customer)).maintenance).toEqual(["m3"]);
+  });
+
+  it("keeps the top entries for executives, breaking first", () => {
+    expect(shas(selectForAudience(buckets, AUDIENCES["executive-summary"])).features).toEqual(["f4", "f1", "f2"]);
+  });
+
+  it("drops tests for internal ops", () => {
+    expect(shas(selectForAudience(buckets, AUDIENCES["internal-ops"])).maintenance).toEqual(["m1", "m3"]);
+  });
+});
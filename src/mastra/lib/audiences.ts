@@ -0,0 +1,100 @@
+import type { CommitType } from "./conventionalCommits.js";
+import type { BucketId } from "./formats.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export const AUDIENCE_IDS = ["developer", "customer", "executive-summary", "internal-ops"] as const;
+export type AudienceId = (typeof AUDIENCE_IDS)[number];
+
+export interface Audience {
+  id: AudienceId;
+  label: string;
+  tone: string;                  // prompt guidance for the enrich model
+  sections: BucketId[];          // buckets this audience sees
+  excludeTypes: CommitType[];    // dropped even inside an included bucket
+  maxEntriesPerSection?: number; // highlights only; breaking changes sort first
+  summary: boolean;              // lead with a short summary paragraph
+  contributors: boolean;         // close with the release's contributors
+}
+
+// ─── Audiences ────────────────────────────────────────────────────────────────
+// Breaking changes are never filtered out, whatever the rules below say.
+
+export const AUDIENCES: Record<AudienceId, Audience> = {
+  developer: {
+    id: "developer",
+    label: "Developers",
+    tone:
+      "Engineers who build on or contribute to the product. Be precise: name the APIs, config keys, " +
+      "scopes and migrations involved, and say exactly what changed in behaviour.",
+    sections: ["features", "fixes", "performance", "maintenance"],
+    excludeTypes: [],
+    summary: false,
+    contributors: true,
+  },
+  customer: {
+    id: "customer",
+    label: "Customers",
+    tone:
+      "End users and customers. Plain language, benefit first, no internal jargon, file names or commit " +
+      "hashes. Describe what they can now do or what no longer goes wrong.",
+    sections: ["features", "fixes", "performance"],
+    excludeTypes: ["chore", "docs", "refactor", "test"],
+    summary: false,
+    contributors: false,
+  },
+  "executive-summary": {
+    id: "executive-summary",
+    label: "Executive summary",
+    tone:
+      "Leadership. One line per item on business or customer impact, no implementation detail. " +
+      "Also write a 2–3 sentence summary of the release as a whole.",
+    sections: ["features", "fixes", "performance"],
+    excludeTypes: ["chore", "docs", "refactor", "test"],
+    maxEntriesPerSection: 3,
+    summary: true,
+    contributors: false,
+  },
+  "internal-ops": {
+    id: "internal-ops",
+    label: "Support & operations",
+    tone:
+      "Support and operations staff. Call out behaviour changes customers may ask about, configuration, " +
+      "infrastructure and dependency changes, migrations, and anything that affects rollout or incident response.",
+    sections: ["features", "fixes", "performance", "maintenance"],
+    excludeTypes: ["test"],
+    summary: false,
+    contributors: true,
+  },
+};
+
+// ─── Filtering ────────────────────────────────────────────────────────────────
+
+interface BucketCommit {
+  sha: string;
+  type: CommitType;
+  breaking: boolean;
+}
+
+export const selectForAudience = <C extends BucketCommit>(
+  buckets: Record<BucketId, C[]>,
+  audience: Audience,
+): Record<BucketId, C[]> => {
+  const select = (id: BucketId) => {
+    const all = buckets[id];
+    const kept = all.filter((c) =>
+      c.breaking || (audience.sections.includes(id) && !audience.excludeTypes.includes(c.type)),
+    );
+    if (!audience.maxEntriesPerSection) return kept;
+    // Stable sort: breaking changes first, then commit order
+    const ranked = [...kept].sort((a, b) => Number(b.breaking) - Number(a.breaking));
+    const limit = Math.max(audience.maxEntriesPerSection, ranked.filter((c) => c.breaking).length);
+    return ranked.slice(0, limit);
+  };
+  return {
+    features:    select("features"),
+    fixes:       select("fixes"),
+    performance: select("performance"),
+    maintenance: select("maintenance"),
+  };
+};
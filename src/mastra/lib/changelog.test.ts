@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import { CHANGELOG_PREAMBLE, updateChangelog } from "./changelog.js";
+import { unifiedDiff } from "./diff.js";
+
+const section = (version: string, bullet: string) =>
+  `## [${version}] - 2025-12-04\n\n### Added\n\n- ${bullet}\n`;
+
+const existing = `# Changelog
+
+## [Unreleased]
+
+Notes for the next release go here.
+
+### Fixed
+
+- Hand-written fix note
+
+## [1.4.2] - 2025-11-01
+
+### Fixed
+
+- **Session Timeout**: Sessions no longer expire early. (1a2b3c4)
+
+## [1.3.0] - 2025-10-01
+
+### Added
+
+- **Dark Mode**: Everything is darker. (5d6e7f8)
+
+[unreleased]: https://github.com/acme/app/compare/v1.4.2...HEAD
+[1.4.2]: https://github.com/acme/app/compare/v1.3.0...v1.4.2
+[1.3.0]: https://github.com/acme/app/compare/v1.2.0...v1.3.0
+`;
+
+describe("updateChangelog", () => {
+  it("inserts the newest release under Unreleased and moves the pending entries into it", () => {
+    const { contents, action } = updateChangelog(existing, section("1.5.0", "**Google Sign-In**: Log in with Google. (a23ebf4)"), "v1.5.0");
+    expect(action).toBe("inserted");
+    expect(contents).toBe(`# Changelog
+
+## [Unreleased]
+
+Notes for the next release go here.
+
+## [1.5.0] - 2025-12-04
+
+### Added
+
+- **Google Sign-In**: Log in with Google. (a23ebf4)
+
+### Fixed
+
+- Hand-written fix note
+
+## [1.4.2] - 2025-11-01
+
+### Fixed
+
+- **Session Timeout**: Sessions no longer expire early. (1a2b3c4)
+
+## [1.3.0] - 2025-10-01
+
+### Added
+
+- **Dark Mode**: Everything is darker. (5d6e7f8)
+
+[unreleased]: https://github.com/acme/app/compare/v1.5.0...HEAD
+[1.5.0]: https://github.com/acme/app/compare/v1.4.2...v1.5.0
+[1.4.2]: https://github.com/acme/app/compare/v1.3.0...v1.4.2
+[1.3.0]: https://github.com/acme/app/compare/v1.2.0...v1.3.0
+`);
+  });
+
+  it("replaces an existing section for the same version", () => {
+    const { contents, action } = updateChangelog(existing, section("1.4.2", "Regenerated entry"), "v1.4.2");
+    expect(action).toBe("replaced");
+    expect(contents).toContain("## [1.4.2] - 2025-12-04\n\n### Added\n\n- Regenerated entry\n\n## [1.3.0]");
+    expect(contents).not.toContain("Session Timeout");
+    expect(contents).toContain("## [Unreleased]\n\nNotes for the next release go here.\n\n### Fixed\n\n- Hand-written fix note\n\n## [1.4.2]");
+    expect(contents).toContain("[unreleased]: https://github.com/acme/app/compare/v1.4.2...HEAD");
+  });
+
+  it("backfills an older release in version order without touching Unreleased", () => {
+    const { contents } = updateChangelog(existing, section("1.4.0", "Backfilled"), "v1.4.0");
+    const order = [...contents.matchAll(/^## \[([^\]]+)\]/gm)].map((m) => m[1]);
+    expect(order).toEqual(["Unreleased", "1.4.2", "1.4.0", "1.3.0"]);
+    expect(contents).toContain("- Hand-written fix note");
+    expect(contents).toContain("[1.4.0]: https://github.com/acme/app/compare/v1.3.0...v1.4.0");
+  });
+
+  it("starts a new changelog from the Keep a Changelog preamble", () => {
+    const { contents, action } = updateChangelog("", section("0.1.0", "First release"), "v0.1.0");
+    expect(action).toBe("created");
+    expect(contents).toBe(`${CHANGELOG_PREAMBLE}\n${section("0.1.0", "First release")}`);
+  });
+});
+
+describe("unifiedDiff", () => {
+  it("prints hunks with context and line numbers", () => {
+    const before = ["a", "b", "c", "d", "e", "f", "g", "h", "i", "j"].join("\n") + "\n";
+    const after  = ["a", "b", "c", "X", "d", "e", "f", "g", "h", "j"].join("\n") + "\n";
+    expect(unifiedDiff(before, after, { fromFile: "a/f", toFile: "b/f", context: 1 })).toBe(
+      ["--- a/f", "+++ b/f", "@@ -3,2 +3,3 @@", " c", "+X", " d", "@@ -8,3 +9,2 @@", " h", "-i", " j", ""].join("\n"),
+    );
+  });
+
+  it("diffs a new file against /dev/null and flags a missing final newline", () => {
+    expect(unifiedDiff("", "one\n", { fromFile: "/dev/null", toFile: "b/f" })).toBe("--- /dev/null\n+++ b/f\n@@ -0,0 +1,1 @@\n+one\n");
+    expect(unifiedDiff("one", "one\n", { fromFile: "a/f", toFile: "b/f" })).toBe(
+      "--- a/f\n+++ b/f\n@@ -1,1 +1,1 @@\n-one\n\\ No newline at end of file\n+one\n",
+    );
+  });
+
+  it("returns an empty string for identical input", () => {
+    expect(unifiedDiff("same\n", "same\n", { fromFile: "a/f", toFile: "b/f" })).toBe("");
+  });
+});
@@ -0,0 +1,217 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { ReleaseNotesError } from "./errors.js";
+import { compareSemver, parseSemver } from "./semver.js";
+
+// ─── CHANGELOG.md updates ─────────────────────────────────────────────────────
+// Splices a rendered Keep a Changelog section (see renderKeepAChangelog) into an
+// existing changelog:
+//   - a section for the same version is replaced in place;
+//   - otherwise the section goes above the newest older version, so files stay
+//     sorted newest first even when an old release is backfilled;
+//   - releasing the newest version moves the "Unreleased" entries into it and
+//     leaves an empty Unreleased heading behind;
+//   - compare links at the bottom are added or bumped when the file already
+//     uses them, since that is the only place the repository URL is known.
+
+export interface ChangelogUpdate {
+  contents: string;
+  action: "created" | "inserted" | "replaced";
+}
+
+export const CHANGELOG_PREAMBLE = `# Changelog
+
+All notable changes to this project will be documented in this file.
+
+The format is based on [Keep a Changelog](https://keepachangelog.com/en/1.1.0/),
+and this project adheres to [Semantic Versioning](https://semver.org/spec/v2.0.0.html).
+
+## [Unreleased]
+`;
+
+const HEADING  = /^##\s+\[?([^\]\s]+)\]?/;
+const LINK_REF = /^\[([^\]]+)\]:\s*(\S+)\s*$/;
+const COMPARE  = /^(.*\/compare\/)(.+?)\.\.\.(.+)$/;
+const LIST_ITEM = /^\s*[-*]\s+/;
+
+const stripV = (v: string) => v.replace(/^v/, "");
+const isUnreleased = (name: string) => name.toLowerCase() === "unreleased";
+
+interface Section {
+  name: string;  // heading version without "v", or "Unreleased"
+  start: number; // heading line
+  end: number;   // exclusive
+}
+
+const findSections = (lines: string[]): Section[] => {
+  const starts = lines.flatMap((l, i) => {
+    const m = l.match(HEADING);
+    return m ? [{ name: stripV(m[1]), start: i }] : [];
+  });
+  return starts.map((s, i) => ({ ...s, end: starts[i + 1]?.start ?? lines.length }));
+};
+
+// Index of the trailing block of link reference definitions (and blank lines)
+const linkBlockStart = (lines: string[]) => {
+  let i = lines.length;
+  while (i > 0 && (lines[i - 1].trim() === "" || LINK_REF.test(lines[i - 1]))) i--;
+  return lines.slice(i).some((l) => LINK_REF.test(l)) ? i : lines.length;
+};
+
+const trimBlankEnd = (lines: string[]) => {
+  const out = [...lines];
+  while (out.length && out[out.length - 1].trim() === "") out.pop();
+  return out;
+};
+
+const trimBlank = (lines: string[]) => {
+  const out = trimBlankEnd(lines);
+  while (out.length && out[0].trim() === "") out.shift();
+  return out;
+};
+
+// Moves Unreleased list items under the matching "### Heading" of the release
+// section, skipping items the release already lists.
+const mergeUnreleased = (release: string[], unreleased: string[]) => {
+  const merged = [...release];
+  let heading: string | null = null;
+  for (const line of unreleased) {
+    if (/^###\s/.test(line)) { heading = line.trim(); continue; }
+    if (!heading || !LIST_ITEM.test(line)) continue;
+    if (merged.some((l) => l.trim() === line.trim())) continue;
+
+    const h = merged.findIndex((l) => l.trim() === heading);
+    if (h === -1) {
+      merged.push("", heading, "", line);
+      continue;
+    }
+    let insertAt = h + 1;
+    while (insertAt < merged.length && !/^###\s/.test(merged[insertAt])) insertAt++;
+    while (insertAt > h + 1 && merged[insertAt - 1].trim() === "") insertAt--;
+    merged.splice(insertAt, 0, line);
+  }
+  return merged;
+};
+
+const olderThan = (name: string, version: string) => {
+  const a = parseSemver(name);
+  const b = parseSemver(version);
+  return !!a && !!b && compareSemver(a, b) < 0;
+};
+
+export const updateChangelog = (
+  existing: string,
+  section: string,
+  version: string,
+  { previousVersion = null }: { previousVersion?: string | null } = {},
+): ChangelogUpdate => {
+  const created  = existing.trim() === "";
+  const lines    = (created ? CHANGELOG_PREAMBLE : existing).replace(/\r\n/g, "\n").split("\n");
+  const linkAt   = linkBlockStart(lines);
+  let body       = trimBlankEnd(lines.slice(0, linkAt));
+  const links    = lines.slice(linkAt).filter((l) => LINK_REF.test(l));
+  const name     = stripV(version);
+  let newSection = trimBlankEnd(section.replace(/\r\n/g, "\n").split("\n"));
+
+  const sections = findSections(body);
+  const versions = sections.filter((s) => !isUnreleased(s.name));
+  // Regenerating the latest release leaves Unreleased alone: those entries came after it
+  const isNewest = versions.every((s) => olderThan(s.name, name));
+
+  // Unreleased entries belong to whichever release comes next; any prose
+  // outside the lists stays where it was.
+  const unreleased = sections.find((s) => isUnreleased(s.name));
+  if (unreleased && isNewest) {
+    const pending = body.slice(unreleased.start + 1, unreleased.end);
+    newSection = mergeUnreleased(newSection, pending);
+    const kept = trimBlank(pending.filter((l) => !/^###\s/.test(l) && !LIST_ITEM.test(l)));
+    body = [
+      ...body.slice(0, unreleased.start + 1),
+      "",
+      ...(kept.length ? [...kept, ""] : []),
+      ...body.slice(unreleased.end),
+    ];
+  }
+
+  let action: ChangelogUpdate["action"];
+  const current = findSections(body).filter((s) => !isUnreleased(s.name));
+  const target  = current.find((s) => s.name === name);
+  if (target) {
+    body.splice(target.start, target.end - target.start, ...newSection, "");
+    action = "replaced";
+  } else {
+    const before = current.find((s) => olderThan(s.name, name));
+    const at = before ? before.start : body.length;
+    const pad = at === body.length && body.length && body[body.length - 1].trim() !== "" ? [""] : [];
+    body.splice(at, 0, ...pad, ...newSection, "");
+    action = created ? "created" : "inserted";
+  }
+
+  const updatedLinks = updateLinks(links, findSections(body).map((s) => s.name), name, isNewest, previousVersion);
+  const out = trimBlankEnd(body);
+  return {
+    contents: out.join("\n") + "\n" + (updatedLinks.length ? "\n" + updatedLinks.join("\n") + "\n" : ""),
+    action,
+  };
+};
+
+// ─── Link references ──────────────────────────────────────────────────────────
+//   [unreleased]: https://github.com/org/repo/compare/v1.5.0...HEAD
+//   [1.5.0]: https://github.com/org/repo/compare/v1.4.2...v1.5.0
+
+const updateLinks = (
+  links: string[],
+  order: string[],
+  name: string,
+  isNewest: boolean,
+  previousVersion: string | null,
+) => {
+  const refs = new Map<string, string>();
+  for (const l of links) {
+    const [, label, url] = l.match(LINK_REF)!;
+    refs.set(label.toLowerCase(), `[${label}]: ${url}`);
+  }
+
+  const sample = links.map((l) => l.match(LINK_REF)![2].match(COMPARE)).find(Boolean);
+  if (sample) {
+    const [, base, from, to] = sample;
+    const prefix = (to === "HEAD" ? from : to).startsWith("v") ? "v" : "";
+    const tag = (v: string) => `${prefix}${stripV(v)}`;
+
+    // Previous release: the next heading down, else whatever the caller bumped from
+    const below = order.slice(order.indexOf(name) + 1).find((n) => !isUnreleased(n) && parseSemver(n));
+    const prev  = below ?? (previousVersion ? stripV(previousVersion) : null);
+    refs.set(name.toLowerCase(), prev
+      ? `[${name}]: ${base}${tag(prev)}...${tag(name)}`
+      : `[${name}]: ${base.replace(/compare\/$/, "releases/tag/")}${tag(name)}`);
+
+    if (isNewest && refs.has("unreleased")) {
+      const label = refs.get("unreleased")!.match(LINK_REF)![1];
+      refs.set("unreleased", `[${label}]: ${base}${tag(name)}...HEAD`);
+    }
+  }
+
+  // Definitions follow heading order; ones for other labels keep their place at the end
+  const ordered = order.map((n) => n.toLowerCase()).filter((n) => refs.has(n));
+  const rest = [...refs.keys()].filter((k) => !ordered.includes(k));
+  return [...new Set(ordered)].concat(rest).map((k) => refs.get(k)!);
+};
+
+// ─── Reading from the repository ──────────────────────────────────────────────
+
+export const DEFAULT_CHANGELOG_PATH = "CHANGELOG.md";
+
+// Reads the changelog from the working tree; a missing file is an empty changelog.
+export const readChangelogFile = async (repoPath: string, file = DEFAULT_CHANGELOG_PATH) => {
+  const full = path.resolve(repoPath, file);
+  const rel  = path.relative(repoPath, full);
+  if (!rel || rel.startsWith("..") || path.isAbsolute(rel)) {
+    throw new ReleaseNotesError("INVALID_CHANGELOG_PATH", `Changelog path "${file}" is outside the repository`, 422);
+  }
+  try {
+    return await readFile(full, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return "";
+    throw error;
+  }
+};
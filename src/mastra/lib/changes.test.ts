@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { globToRegExp, inferScope, summarizeChanges } from "./changes.js";
+
+const file = (path: string, insertions: number, deletions = 0) => ({ path, insertions, deletions, binary: false });
+
+describe("globToRegExp", () => {
+  it("matches single segments, nested directories and directory prefixes", () => {
+    expect(globToRegExp("src/auth/*.ts").test("src/auth/google.ts")).toBe(true);
+    expect(globToRegExp("src/auth/*.ts").test("src/auth/providers/google.ts")).toBe(false);
+    expect(globToRegExp("**/oauth*.ts").test("oauth.ts")).toBe(true);
+    expect(globToRegExp("**/oauth*.ts").test("src/lib/oauthClient.ts")).toBe(true);
+    expect(globToRegExp("src/notifications/").test("src/notifications/email/send.ts")).toBe(true);
+    expect(globToRegExp("src/cache.?s").test("src/cache.ts")).toBe(true);
+    expect(globToRegExp("src/cache.ts").test("src/cacheXts")).toBe(false);
+  });
+});
+
+describe("inferScope", () => {
+  const rules = [
+    { scope: "auth", paths: ["src/auth/"] },
+    { scope: "notifications", paths: ["src/notifications/", "templates/email/**"] },
+  ];
+
+  it("picks the scope with the most changed lines", () => {
+    expect(inferScope([file("src/auth/google.ts", 10), file("src/notifications/push.ts", 200, 40)], rules))
+      .toBe("notifications");
+  });
+
+  it("gives ties to the earlier rule and ignores unmatched paths", () => {
+    expect(inferScope([file("src/notifications/a.ts", 5), file("src/auth/a.ts", 5), file("README.md", 90)], rules))
+      .toBe("auth");
+    expect(inferScope([file("README.md", 1)], rules)).toBeNull();
+    expect(inferScope([file("src/auth/a.ts", 1)], [])).toBeNull();
+  });
+});
+
+describe("summarizeChanges", () => {
+  it("lists the largest files first and counts the rest", () => {
+    const files = [file("a.ts", 1), file("b.ts", 50, 2), { path: "logo.png", insertions: 0, deletions: 0, binary: true }];
+    expect(summarizeChanges({ files, insertions: 51, deletions: 2 }, 2))
+      .toBe("3 files, +51 −2: b.ts (+50 −2), a.ts (+1 −0), … and 1 more");
+    expect(summarizeChanges({ files: [], insertions: 0, deletions: 0 })).toBe("no file changes");
+  });
+});
@@ -0,0 +1,69 @@
+import type { CommitChanges, FileChange } from "./git.js";
+
+// ─── Component rules ──────────────────────────────────────────────────────────
+// A project maps paths onto components so commits without a Conventional
+// Commits scope still get one: the scope whose paths saw the most changed lines
+// wins, ties going to the earlier rule. Patterns match the whole path:
+//   *   any characters except "/"
+//   **  any number of directories ("src/**/auth/*.ts")
+//   ?   one character except "/"
+// A pattern ending in "/" matches everything below that directory.
+
+export interface ComponentRule {
+  scope: string;   // e.g. "auth"
+  paths: string[]; // e.g. ["src/auth/", "**/oauth*.ts"]
+}
+
+export const globToRegExp = (pattern: string) => {
+  const glob = pattern.endsWith("/") ? `${pattern}**` : pattern;
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === "*" && glob[i + 1] === "*") {
+      // "**/" may match no directory at all; a trailing "**" matches the rest
+      if (glob[i + 2] === "/") { source += "(?:.*/)?"; i += 2; }
+      else { source += ".*"; i += 1; }
+    } else if (ch === "*") {
+      source += "[^/]*";
+    } else if (ch === "?") {
+      source += "[^/]";
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+// Weight of a file in scope inference; binary files count as one line
+const weight = (f: FileChange) => (f.binary ? 1 : f.insertions + f.deletions) || 1;
+
+export const inferScope = (files: FileChange[], rules: ComponentRule[]) => {
+  if (rules.length === 0 || files.length === 0) return null;
+  const patterns = rules.map((r) => ({ scope: r.scope, regexes: r.paths.map(globToRegExp) }));
+  const totals = new Map<string, number>();
+  for (const file of files) {
+    const rule = patterns.find((p) => p.regexes.some((re) => re.test(file.path)));
+    if (rule) totals.set(rule.scope, (totals.get(rule.scope) ?? 0) + weight(file));
+  }
+  let best: string | null = null;
+  for (const { scope } of rules) {
+    if ((totals.get(scope) ?? 0) > (best === null ? 0 : totals.get(best)!)) best = scope;
+  }
+  return best;
+};
+
+// ─── Prompt summaries ─────────────────────────────────────────────────────────
+
+// "3 files, +120 −4: src/auth/google.ts (+80 −2), … and 1 more"; the largest
+// changes first, so a cut list still names what the commit is mostly about
+export const summarizeChanges = (changes: CommitChanges, maxFiles = 8) => {
+  const { files } = changes;
+  if (files.length === 0) return "no file changes";
+  const listed = [...files]
+    .sort((a, b) => weight(b) - weight(a))
+    .slice(0, maxFiles)
+    .map((f) => (f.binary ? `${f.path} (binary)` : `${f.path} (+${f.insertions} −${f.deletions})`));
+  const more = files.length - listed.length;
+  return `${files.length} file${files.length === 1 ? "" : "s"}, +${changes.insertions} −${changes.deletions}: ` +
+    listed.join(", ") + (more > 0 ? `, … and ${more} more` : "");
+};
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { parseConventionalCommit } from "./conventionalCommits.js";
+
+describe("parseConventionalCommit", () => {
+  it("parses type, scope and description", () => {
+    expect(parseConventionalCommit("feat(auth): add google oauth")).toEqual({
+      type: "feat",
+      scope: "auth",
+      breaking: false,
+      message: "Add google oauth",
+    });
+  });
+
+  it("marks breaking changes from the ! marker", () => {
+    expect(parseConventionalCommit("feat(api)!: drop v1 endpoints")?.breaking).toBe(true);
+  });
+
+  it("marks breaking changes from a BREAKING CHANGE footer", () => {
+    const parsed = parseConventionalCommit("refactor: rework sessions", [
+      { key: "BREAKING CHANGE", value: "sessions are reset on upgrade" },
+    ]);
+    expect(parsed).toMatchObject({ type: "refactor", scope: null, breaking: true });
+  });
+
+  it("folds spec types outside the schema enum into the closest bucket", () => {
+    expect(parseConventionalCommit("ci: cache node_modules")?.type).toBe("chore");
+    expect(parseConventionalCommit("build(deps): bump zod")?.type).toBe("chore");
+  });
+
+  it("returns null for free-form messages", () => {
+    expect(parseConventionalCommit("updated stuff")).toBeNull();
+    expect(parseConventionalCommit("Merge PR #240: Optimize Database Connections & Queries")).toBeNull();
+    expect(parseConventionalCommit("wip: something")).toBeNull();
+    expect(parseConventionalCommit("fix:missing space")).toBeNull();
+  });
+});
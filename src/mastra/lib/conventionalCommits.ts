@@ -0,0 +1,60 @@
+import type { GitTrailer } from "./git.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export const COMMIT_TYPES = ["feat", "fix", "perf", "chore", "docs", "refactor", "test"] as const;
+export type CommitType = (typeof COMMIT_TYPES)[number];
+
+export interface ConventionalCommit {
+  type: CommitType;
+  scope: string | null;
+  breaking: boolean;
+  message: string;
+}
+
+// ─── Parser ───────────────────────────────────────────────────────────────────
+// Deterministic Conventional Commits 1.0 parser. Returns null for anything that
+// isn't a well-formed header so the caller can fall back to LLM classification.
+
+const HEADER = /^(?<type>[a-zA-Z]+)(?:\((?<scope>[^()\s][^()]*)\))?(?<bang>!)?: (?<description>\S.*)$/;
+
+// Spec types outside our commitSchema enum fold into the closest bucket.
+const TYPE_ALIASES: Record<string, CommitType> = {
+  feat: "feat",
+  feature: "feat",
+  fix: "fix",
+  perf: "perf",
+  chore: "chore",
+  build: "chore",
+  ci: "chore",
+  style: "chore",
+  revert: "chore",
+  docs: "docs",
+  refactor: "refactor",
+  test: "test",
+  tests: "test",
+};
+
+const BREAKING_TRAILERS = new Set(["BREAKING CHANGE", "BREAKING-CHANGE"]);
+
+export const breakingNotes = (trailers: GitTrailer[]) =>
+  trailers.filter((t) => BREAKING_TRAILERS.has(t.key)).map((t) => t.value);
+
+export const parseConventionalCommit = (
+  subject: string,
+  trailers: GitTrailer[] = [],
+): ConventionalCommit | null => {
+  const match = subject.trim().match(HEADER);
+  if (!match?.groups) return null;
+
+  const type = TYPE_ALIASES[match.groups.type.toLowerCase()];
+  if (!type) return null;
+
+  const description = match.groups.description.trim();
+  return {
+    type,
+    scope:    match.groups.scope?.trim() ?? null,
+    breaking: match.groups.bang === "!" || breakingNotes(trailers).length > 0,
+    message:  description.charAt(0).toUpperCase() + description.slice(1),
+  };
+};
@@ -0,0 +1,116 @@
+// ─── Unified diff ─────────────────────────────────────────────────────────────
+// Line diff (Myers' O(ND) algorithm) printed in `diff -u` / `git diff` format,
+// so callers can review or `git apply` a generated file change.
+
+type Op = { kind: " " | "-" | "+"; line: string; eof?: boolean };
+
+const NO_NEWLINE = "\\ No newline at end of file";
+
+const splitLines = (text: string) => {
+  if (text === "") return { lines: [] as string[], eol: true };
+  const eol = text.endsWith("\n");
+  return { lines: (eol ? text.slice(0, -1) : text).split("\n"), eol };
+};
+
+// Shortest edit script from a to b, as a list of kept/removed/added lines
+const diffLines = (a: string[], b: string[]): Op[] => {
+  // Common prefix and suffix never need the search; trimming them keeps the
+  // trace small for the usual "one section changed" edit.
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length, endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+  const x0 = a.slice(start, endA), y0 = b.slice(start, endB);
+  const n = x0.length, m = y0.length, max = n + m, off = max + 1;
+  const trace: Int32Array[] = [];
+  const v = new Int32Array(2 * max + 3);
+
+  search: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[k - 1 + off] < v[k + 1 + off]) ? v[k + 1 + off] : v[k - 1 + off] + 1;
+      let y = x - k;
+      while (x < n && y < m && x0[x] === y0[y]) { x++; y++; }
+      v[k + off] = x;
+      if (x >= n && y >= m) break search;
+    }
+  }
+
+  const middle: Op[] = [];
+  let x = n, y = m;
+  for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d--) {
+    const tv = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && tv[k - 1 + off] < tv[k + 1 + off]) ? k + 1 : k - 1;
+    const prevX = tv[prevK + off];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) middle.push({ kind: " ", line: x0[--x] }), y--;
+    if (d === 0) break;
+    if (x === prevX) middle.push({ kind: "+", line: y0[--y] });
+    else middle.push({ kind: "-", line: x0[--x] });
+  }
+  middle.reverse();
+
+  return [
+    ...a.slice(0, start).map((line) => ({ kind: " " as const, line })),
+    ...middle,
+    ...a.slice(endA).map((line) => ({ kind: " " as const, line })),
+  ];
+};
+
+export interface UnifiedDiffOptions {
+  fromFile: string; // e.g. "a/CHANGELOG.md", or "/dev/null" for a new file
+  toFile: string;
+  context?: number;
+}
+
+// Returns "" when the texts are identical.
+export const unifiedDiff = (before: string, after: string, { fromFile, toFile, context = 3 }: UnifiedDiffOptions) => {
+  if (before === after) return "";
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  // A missing final newline makes the last line differ from its twin that has one
+  const ops = diffLines(
+    a.lines.map((l, i) => (i === a.lines.length - 1 && !a.eol ? `${l}\0` : l)),
+    b.lines.map((l, i) => (i === b.lines.length - 1 && !b.eol ? `${l}\0` : l)),
+  ).map((op) => (op.line.endsWith("\0") ? { ...op, line: op.line.slice(0, -1), eof: true } : op));
+
+  // Line numbers before each op, then hunks of changes padded with context
+  const out = [`--- ${fromFile}`, `+++ ${toFile}`];
+  let i = 0, oldLine = 0, newLine = 0;
+  const positions = ops.map((op) => {
+    const pos = { oldLine, newLine };
+    if (op.kind !== "+") oldLine++;
+    if (op.kind !== "-") newLine++;
+    return pos;
+  });
+
+  while (i < ops.length) {
+    while (i < ops.length && ops[i].kind === " ") i++;
+    if (i >= ops.length) break;
+
+    const hunkStart = Math.max(0, i - context);
+    let hunkEnd = i;
+    // Extend while the next change is within 2×context unchanged lines
+    for (let j = i; j < ops.length; j++) {
+      if (ops[j].kind !== " ") hunkEnd = j;
+      else if (j - hunkEnd > 2 * context) break;
+    }
+    hunkEnd = Math.min(ops.length - 1, hunkEnd + context);
+
+    const hunk = ops.slice(hunkStart, hunkEnd + 1);
+    const oldCount = hunk.filter((op) => op.kind !== "+").length;
+    const newCount = hunk.filter((op) => op.kind !== "-").length;
+    const { oldLine: o, newLine: n } = positions[hunkStart];
+    out.push(`@@ -${oldCount ? o + 1 : o},${oldCount} +${newCount ? n + 1 : n},${newCount} @@`);
+    for (const op of hunk) {
+      out.push(`${op.kind}${op.line}`);
+      if (op.eof) out.push(NO_NEWLINE);
+    }
+    i = hunkEnd + 1;
+  }
+
+  return out.join("\n") + "\n";
+};
@@ -0,0 +1,34 @@
+// ─── Release notes errors ─────────────────────────────────────────────────────
+// Errors thrown from workflow steps carry an HTTP status and a stable code.
+// Mastra serializes step errors into the run result but keeps these own
+// properties, so the API layer can map them back onto a response.
+
+export class ReleaseNotesError extends Error {
+  constructor(
+    public readonly code: string,
+    message: string,
+    public readonly status = 500,
+  ) {
+    super(message);
+    this.name = "ReleaseNotesError";
+  }
+}
+
+export class GitRangeError extends ReleaseNotesError {
+  constructor(code: "REPO_NOT_FOUND" | "UNKNOWN_REF" | "EMPTY_RANGE" | "MISSING_RANGE", message: string) {
+    super(code, message, code === "REPO_NOT_FOUND" ? 404 : 422);
+    this.name = "GitRangeError";
+  }
+}
+
+// Reads the status/code pair off an error that may have been through Mastra's
+// serializer (plain object) or thrown directly (class instance).
+export const describeError = (error: unknown): { status: number; code: string; message: string } => {
+  const e = (error ?? {}) as { status?: unknown; code?: unknown; message?: unknown };
+  const status = typeof e.status === "number" && e.status >= 400 && e.status < 600 ? e.status : 500;
+  return {
+    status,
+    code:    typeof e.code === "string" ? e.code : "INTERNAL_ERROR",
+    message: typeof e.message === "string" && status < 500 ? e.message : "Workflow execution failed",
+  };
+};
@@ -0,0 +1,185 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildReleaseDocument, renderFormats, renderHtml, renderKeepAChangelog, renderMarkdown, renderSlack, renderText,
+} from "./formats.js";
+
+const doc = buildReleaseDocument(
+  { version: "v2.1.0", date: "2025-12-04", range: { from: "f59ffed", to: "9f130dd" } },
+  {
+    features: [
+      { sha: "a23ebf4", title: "Google Sign-In", description: "Log in with your school `Google` account.", breaking: false },
+    ],
+    fixes: [],
+    performance: [
+      { sha: "b7c1d02", title: "Faster Grading", description: "Rubrics load <2s> faster & cached.", breaking: false },
+    ],
+    maintenance: [
+      { sha: "c9e8f13", title: "Drop Node 18", description: "Node 20 is now required.", breaking: true },
+    ],
+  },
+);
+
+describe("buildReleaseDocument", () => {
+  it("keeps section order and omits empty sections", () => {
+    expect(doc.sections.map((s) => s.id)).toEqual(["features", "performance", "maintenance"]);
+    expect(doc.sections[0].title).toBe("Features");
+  });
+
+  it("lays the document out in a template's sections, leaving out what the template does not place", () => {
+    const layout = [{ id: "new", heading: "**New**" }, { id: "fixed", heading: "**🩹 Fixed**" }];
+    const compact = buildReleaseDocument(doc, {
+      new:   [...doc.sections[0].entries, ...doc.sections[1].entries],
+      fixed: [{ sha: "e4f5a6b", title: "Stable Sessions", description: "No more random logouts.", breaking: false }],
+    }, layout);
+
+    expect(compact.sections.map(({ id, title, icon }) => ({ id, title, icon }))).toEqual([
+      { id: "new", title: "New", icon: undefined },
+      { id: "fixed", title: "Fixed", icon: "🩹" },
+    ]);
+    expect(renderMarkdown(compact)).toContain("### 🩹 Fixed\n- **Stable Sessions**");
+    expect(renderKeepAChangelog(compact)).toContain("### Added\n\n- **Google Sign-In**");
+    expect(renderKeepAChangelog(compact)).toContain("### Fixed\n\n- **Stable Sessions**");
+    for (const text of [renderMarkdown(compact), renderKeepAChangelog(compact), renderHtml(compact), renderText(compact)]) {
+      expect(text).not.toContain("c9e8f13");
+    }
+  });
+});
+
+describe("renderKeepAChangelog", () => {
+  it("maps sections onto Keep a Changelog headings", () => {
+    expect(renderKeepAChangelog(doc)).toBe(
+      [
+        "## [2.1.0] - 2025-12-04",
+        "",
+        "### Added",
+        "",
+        "- **Google Sign-In**: Log in with your school `Google` account. (a23ebf4)",
+        "",
+        "### Changed",
+        "",
+        "- **Faster Grading**: Rubrics load <2s> faster & cached. (b7c1d02)",
+        "- **BREAKING:** **Drop Node 18**: Node 20 is now required. (c9e8f13)",
+        "",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("renderHtml", () => {
+  it("escapes entry text and keeps only inline code", () => {
+    const html = renderHtml(doc);
+    expect(html).toContain("<code>Google</code>");
+    expect(html).toContain("Rubrics load &lt;2s&gt; faster &amp; cached.");
+    expect(html).toContain(`<strong class="breaking">Breaking</strong> <strong>Drop Node 18</strong>`);
+  });
+
+  it("neutralises injected markup", () => {
+    const hostile = buildReleaseDocument(doc, {
+      features: [{ sha: "d1", title: "<img src=x onerror=alert(1)>", description: "`<script>`", breaking: false }],
+      fixes: [], performance: [], maintenance: [],
+    });
+    const html = renderHtml(hostile);
+    expect(html).not.toMatch(/<img|<script/);
+    expect(html).toContain("<code>&lt;script&gt;</code>");
+  });
+});
+
+describe("renderText", () => {
+  it("writes underlined headings and bullet entries", () => {
+    const text = renderText(doc);
+    expect(text.startsWith("v2.1.0 (2025-12-04)\n===================\n")).toBe(true);
+    expect(text).toContain("Maintenance\n-----------\n* [BREAKING] Drop Node 18: Node 20 is now required. (c9e8f13)");
+    expect(text).toContain("Log in with your school Google account.");
+  });
+});
+
+describe("renderSlack", () => {
+  it("builds a header, context and one mrkdwn section per category", () => {
+    const message = renderSlack(doc);
+    expect(message.text).toBe("Release v2.1.0: 3 changes");
+    expect(message.blocks.map((b) => b.type)).toEqual(["header", "context", "section", "section", "section"]);
+    expect(message.blocks[3]).toEqual({
+      type: "section",
+      text: { type: "mrkdwn", text: "*⚡ Performance*\n• *Faster Grading*: Rubrics load &lt;2s&gt; faster &amp; cached. `b7c1d02`" },
+    });
+  });
+
+  it("splits sections that exceed the Block Kit text limit", () => {
+    const entries = Array.from({ length: 40 }, (_, i) => ({
+      sha: `e${i}`, title: `Entry ${i}`, description: "x".repeat(120), breaking: false,
+    }));
+    const big = buildReleaseDocument(doc, { features: entries, fixes: [], performance: [], maintenance: [] });
+    const sections = renderSlack(big).blocks.filter((b) => b.type === "section") as any[];
+    expect(sections.length).toBeGreaterThan(1);
+    for (const s of sections) expect(s.text.text.length).toBeLessThanOrEqual(3000);
+  });
+});
+
+describe("links and contributors", () => {
+  const linked = buildReleaseDocument(
+    { ...doc, contributors: [{ name: "Ada <Lovelace>", email: "ada@example.com", commits: 2 }] },
+    {
+      features: [{
+        sha: "a23ebf4", title: "Google Sign-In", description: "Log in with Google.", breaking: false,
+        links: [
+          { label: "#240", url: "https://github.com/acme/app/pull/240", relation: "pull" },
+          { label: "ABC-42", url: null, relation: "closes" },
+        ],
+      }],
+      fixes: [{
+        sha: "82f7dfd", title: "OAuth Redirect", description: "Fixed.", breaking: false,
+        links: [{ label: "82f7dfd", url: "https://github.com/acme/app/commit/82f7dfd", relation: "commit" }],
+      }],
+      performance: [], maintenance: [],
+    },
+  );
+
+  it("links entries and lists contributors in Markdown", () => {
+    expect(renderMarkdown(linked)).toContain(
+      "- **Google Sign-In**: Log in with Google. ([#240](https://github.com/acme/app/pull/240), closes ABC-42)",
+    );
+    expect(renderMarkdown(linked)).toContain("### 👥 Contributors\n- Ada <Lovelace>\n");
+  });
+
+  it("links the sha in Keep a Changelog", () => {
+    const md = renderKeepAChangelog(linked);
+    expect(md).toContain("(a23ebf4, [#240](https://github.com/acme/app/pull/240), closes ABC-42)");
+    expect(md).toContain("**OAuth Redirect**: Fixed. ([82f7dfd](https://github.com/acme/app/commit/82f7dfd))");
+    expect(md).not.toContain("Contributors");
+  });
+
+  it("renders anchors and escapes contributor names in HTML", () => {
+    const html = renderHtml(linked);
+    expect(html).toContain(`<span class="refs">(<a href="https://github.com/acme/app/pull/240">#240</a>, closes ABC-42)</span>`);
+    expect(html).toContain(`<a href="https://github.com/acme/app/commit/82f7dfd"><code class="sha">82f7dfd</code></a>`);
+    expect(html).toContain("<li>Ada &lt;Lovelace&gt;</li>");
+  });
+
+  it("names references in text and Slack", () => {
+    expect(renderText(linked)).toContain("Log in with Google. (a23ebf4, #240, closes ABC-42)");
+    expect(renderText(linked)).toContain("Contributors\n------------\n* Ada <Lovelace>");
+    const slack = renderSlack(linked);
+    expect(JSON.stringify(slack.blocks)).toContain("(<https://github.com/acme/app/pull/240|#240>, closes ABC-42)");
+    expect(slack.blocks.at(-1)).toEqual({
+      type: "context", elements: [{ type: "mrkdwn", text: "Contributors: Ada &lt;Lovelace&gt;" }],
+    });
+  });
+});
+
+describe("package releases", () => {
+  it("names the package in headings", () => {
+    const pkg = { ...doc, package: "@acme/api", version: "1.3.0" };
+    expect(renderMarkdown(pkg).split("\n")[0]).toBe("## @acme/api 1.3.0 — 2025-12-04");
+    expect(renderText(pkg).split("\n")[0]).toBe("@acme/api 1.3.0 (2025-12-04)");
+    expect(renderHtml(pkg)).toContain("<h2>@acme/api 1.3.0 <time");
+    expect(renderSlack(pkg).text).toBe("Release @acme/api 1.3.0: 3 changes");
+  });
+});
+
+describe("renderFormats", () => {
+  it("renders only the requested formats", () => {
+    const out = renderFormats(doc, ["json", "text", "json"]);
+    expect(Object.keys(out)).toEqual(["json", "text"]);
+    expect(out.json).toBe(doc);
+  });
+});
@@ -0,0 +1,296 @@
+import { formatLinkMarkdown, type Contributor, type EntryLink } from "./references.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+// Every output format is rendered from this document, which finalize-output
+// builds from the categorized commits and their enrichment — never by
+// re-parsing the LLM's Markdown. Its sections are the template's: ids and
+// headings come from the template, entries from the commits each one claims.
+
+export const OUTPUT_FORMATS = ["json", "keepachangelog", "html", "text", "slack"] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+// The buckets categorize-commits sorts commits into, whatever the template
+export const BUCKET_IDS = ["features", "fixes", "performance", "maintenance"] as const;
+export type BucketId = (typeof BUCKET_IDS)[number];
+
+export type SectionId = string; // a template section id
+
+export interface ReleaseEntry {
+  sha: string;
+  title: string;
+  description: string;
+  breaking: boolean;
+  links?: EntryLink[]; // pull requests, issues, or the commit (see lib/references.ts)
+}
+
+export interface ReleaseSection {
+  id: SectionId;
+  title: string; // the template heading without its "###" and icon
+  icon?: string; // the heading's leading emoji, e.g. "✨"
+  entries: ReleaseEntry[];
+}
+
+// A template section as the document needs it
+export interface SectionLayout {
+  id: SectionId;
+  heading: string; // e.g. "### ✨ Features"
+}
+
+export interface ReleaseDocument {
+  package?: string; // monorepo package the release is for, e.g. "@acme/api"
+  version: string;
+  date: string; // YYYY-MM-DD
+  range: { from: string; to: string };
+  sections: ReleaseSection[]; // empty sections are omitted
+  contributors?: Contributor[];
+}
+
+export interface SlackMessage {
+  text: string; // notification fallback
+  blocks: Array<Record<string, unknown>>;
+}
+
+export interface RenderedFormats {
+  json?: ReleaseDocument;
+  keepachangelog?: string;
+  html?: string;
+  text?: string;
+  slack?: SlackMessage;
+}
+
+// The default template's sections (see templates/template.ts)
+export const DEFAULT_SECTIONS: SectionLayout[] = [
+  { id: "features",    heading: "### ✨ Features" },
+  { id: "fixes",       heading: "### 🐛 Bug Fixes" },
+  { id: "performance", heading: "### ⚡ Performance" },
+  { id: "maintenance", heading: "### 🔧 Maintenance" },
+];
+
+// Keep a Changelog only knows Added/Changed/Deprecated/Removed/Fixed/Security.
+// Sections are matched by id or title; any other section is Changed.
+const KEEP_A_CHANGELOG_HEADINGS = new Map([
+  ["features", "Added"], ["added", "Added"], ["new", "Added"],
+  ["fixes", "Fixed"], ["fixed", "Fixed"], ["bug fixes", "Fixed"],
+  ["deprecated", "Deprecated"], ["removed", "Removed"], ["security", "Security"],
+]);
+
+const keepAChangelogHeading = (section: ReleaseSection) =>
+  KEEP_A_CHANGELOG_HEADINGS.get(section.id) ?? KEEP_A_CHANGELOG_HEADINGS.get(section.title.toLowerCase()) ?? "Changed";
+
+const CONTRIBUTORS_TITLE = "Contributors";
+
+// "@acme/api 1.3.0" for package releases, else just the version
+const releaseName = (doc: ReleaseDocument) => (doc.package ? `${doc.package} ${doc.version}` : doc.version);
+
+// Links other than the commit's own, for formats that print the sha anyway
+const refLinks = (e: ReleaseEntry) => (e.links ?? []).filter((l) => l.relation !== "commit");
+
+const HEADING_ICON = /^(\p{Extended_Pictographic}\uFE0F?)\s*/u;
+
+// "### ✨ Features" and "**✨ Features**" both give "✨" and "Features"
+const splitHeading = (heading: string) => {
+  const text = heading.trim().replace(/^#+\s*/, "").replace(/^(\*\*|__)(.*)\1$/, "$2").trim();
+  const icon = text.match(HEADING_ICON)?.[1];
+  return { title: text.replace(HEADING_ICON, ""), ...(icon && { icon }) };
+};
+
+// Entries are keyed by section id; sections come in the layout's order
+export const buildReleaseDocument = (
+  meta: Omit<ReleaseDocument, "sections">,
+  entries: Record<SectionId, ReleaseEntry[]>,
+  layout: SectionLayout[] = DEFAULT_SECTIONS,
+): ReleaseDocument => ({
+  ...meta,
+  sections: layout
+    .filter(({ id }) => Object.hasOwn(entries, id) && entries[id].length > 0)
+    .map(({ id, heading }) => ({ id, ...splitHeading(heading), entries: entries[id] })),
+});
+
+// ─── Markdown ─────────────────────────────────────────────────────────────────
+// Same layout the draft step asks the LLM for, rendered deterministically.
+
+export const renderMarkdown = (doc: ReleaseDocument, summary?: string | null) => {
+  const lines = [`## ${releaseName(doc)} — ${doc.date}`];
+  if (summary) lines.push("", summary.trim());
+  for (const section of doc.sections) {
+    lines.push("", `### ${section.icon ? `${section.icon} ` : ""}${section.title}`);
+    for (const e of section.entries) {
+      const links = e.links?.length ? ` (${e.links.map(formatLinkMarkdown).join(", ")})` : "";
+      lines.push(`- ${e.breaking ? "**BREAKING:** " : ""}**${e.title}**${e.description ? `: ${e.description}` : ""}${links}`);
+    }
+  }
+  if (doc.contributors?.length) {
+    lines.push("", `### 👥 ${CONTRIBUTORS_TITLE}`, ...doc.contributors.map((c) => `- ${c.name}`));
+  }
+  return lines.join("\n") + "\n";
+};
+
+// ─── Keep a Changelog ─────────────────────────────────────────────────────────
+// https://keepachangelog.com/en/1.1.0/ — versions are written without the tag's
+// "v", and sections without a heading of their own there share Changed. The
+// sha is linked when the project has a commit URL pattern; contributors are
+// left to the release notes.
+
+export const renderKeepAChangelog = (doc: ReleaseDocument) => {
+  const groups = new Map<string, ReleaseEntry[]>();
+  for (const section of doc.sections) {
+    const heading = keepAChangelogHeading(section);
+    groups.set(heading, [...(groups.get(heading) ?? []), ...section.entries]);
+  }
+
+  const lines = [`## [${doc.version.replace(/^v/, "")}] - ${doc.date}`];
+  for (const [heading, entries] of groups) {
+    lines.push("", `### ${heading}`, "");
+    for (const e of entries) {
+      const commit = e.links?.find((l) => l.relation === "commit");
+      const refs = [commit ? formatLinkMarkdown(commit) : e.sha, ...refLinks(e).map(formatLinkMarkdown)];
+      lines.push(`- ${e.breaking ? "**BREAKING:** " : ""}**${e.title}**: ${e.description} (${refs.join(", ")})`);
+    }
+  }
+  return lines.join("\n") + "\n";
+};
+
+// ─── HTML ─────────────────────────────────────────────────────────────────────
+// Entry text comes from the LLM, so all of it is escaped; the only markup let
+// through is `inline code`, re-added after escaping. Link URLs come from the
+// project's patterns and are escaped too.
+
+const escapeHtml = (s: string) =>
+  s.replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const inlineHtml = (s: string) => escapeHtml(s).replace(/`([^`]+)`/g, "<code>$1</code>");
+
+const linkHtml = (l: EntryLink) =>
+  `${l.relation === "closes" ? "closes " : ""}` +
+  (l.url ? `<a href="${escapeHtml(l.url)}">${escapeHtml(l.label)}</a>` : escapeHtml(l.label));
+
+export const renderHtml = (doc: ReleaseDocument) => {
+  const out = [
+    `<section class="release-notes">`,
+    `<h2>${escapeHtml(releaseName(doc))} <time datetime="${escapeHtml(doc.date)}">${escapeHtml(doc.date)}</time></h2>`,
+  ];
+  for (const section of doc.sections) {
+    out.push(`<h3>${escapeHtml(section.title)}</h3>`, "<ul>");
+    for (const e of section.entries) {
+      const badge = e.breaking ? `<strong class="breaking">Breaking</strong> ` : "";
+      const commit = e.links?.find((l) => l.relation === "commit" && l.url);
+      const sha = `<code class="sha">${escapeHtml(e.sha)}</code>`;
+      const refs = refLinks(e);
+      out.push(
+        `<li>${badge}<strong>${inlineHtml(e.title)}</strong>: ${inlineHtml(e.description)} ` +
+          (commit ? `<a href="${escapeHtml(commit.url!)}">${sha}</a>` : sha) +
+          (refs.length ? ` <span class="refs">(${refs.map(linkHtml).join(", ")})</span>` : "") +
+          "</li>",
+      );
+    }
+    out.push("</ul>");
+  }
+  if (doc.contributors?.length) {
+    out.push(`<h3>${CONTRIBUTORS_TITLE}</h3>`, `<ul class="contributors">`);
+    for (const c of doc.contributors) out.push(`<li>${escapeHtml(c.name)}</li>`);
+    out.push("</ul>");
+  }
+  out.push("</section>");
+  return out.join("\n") + "\n";
+};
+
+// ─── Plain text ───────────────────────────────────────────────────────────────
+
+export const renderText = (doc: ReleaseDocument) => {
+  const heading = `${releaseName(doc)} (${doc.date})`;
+  const lines = [heading, "=".repeat(heading.length)];
+  for (const section of doc.sections) {
+    lines.push("", section.title, "-".repeat(section.title.length));
+    for (const e of section.entries) {
+      const refs = [e.sha, ...refLinks(e).map((l) => `${l.relation === "closes" ? "closes " : ""}${l.label}`)];
+      lines.push(`* ${e.breaking ? "[BREAKING] " : ""}${e.title}: ${e.description.replace(/`/g, "")} (${refs.join(", ")})`);
+    }
+  }
+  if (doc.contributors?.length) {
+    lines.push("", CONTRIBUTORS_TITLE, "-".repeat(CONTRIBUTORS_TITLE.length), ...doc.contributors.map((c) => `* ${c.name}`));
+  }
+  return lines.join("\n") + "\n";
+};
+
+// ─── Slack Block Kit ──────────────────────────────────────────────────────────
+// https://api.slack.com/reference/block-kit/blocks — section text is capped at
+// 3000 characters and header text at 150, so long sections are split. Links
+// use Slack's <url|label> syntax.
+
+const SLACK_SECTION_LIMIT = 3000;
+const SLACK_HEADER_LIMIT  = 150;
+
+const escapeSlack = (s: string) => s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const chunkLines = (lines: string[], limit: number) => {
+  const chunks: string[] = [];
+  let current = "";
+  for (const line of lines) {
+    const next = current ? `${current}\n${line}` : line;
+    if (next.length > limit && current) {
+      chunks.push(current);
+      current = line.slice(0, limit);
+    } else {
+      current = next.slice(0, limit);
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+const linkSlack = (l: EntryLink) =>
+  `${l.relation === "closes" ? "closes " : ""}${l.url ? `<${l.url}|${escapeSlack(l.label)}>` : escapeSlack(l.label)}`;
+
+export const renderSlack = (doc: ReleaseDocument): SlackMessage => {
+  const blocks: Array<Record<string, unknown>> = [
+    {
+      type: "header",
+      text: { type: "plain_text", text: `Release ${releaseName(doc)}`.slice(0, SLACK_HEADER_LIMIT), emoji: true },
+    },
+    {
+      type: "context",
+      elements: [{ type: "mrkdwn", text: `${doc.date} · \`${escapeSlack(doc.range.from)}..${escapeSlack(doc.range.to)}\`` }],
+    },
+  ];
+
+  for (const section of doc.sections) {
+    const lines = [
+      `*${section.icon ? `${section.icon} ` : ""}${escapeSlack(section.title)}*`,
+      ...section.entries.map((e) => {
+        const refs = refLinks(e);
+        return `• ${e.breaking ? ":warning: *Breaking* " : ""}*${escapeSlack(e.title)}*: ${escapeSlack(e.description)} ` +
+          `\`${e.sha}\`${refs.length ? ` (${refs.map(linkSlack).join(", ")})` : ""}`;
+      }),
+    ];
+    for (const text of chunkLines(lines, SLACK_SECTION_LIMIT)) {
+      blocks.push({ type: "section", text: { type: "mrkdwn", text } });
+    }
+  }
+  if (doc.contributors?.length) {
+    const names = doc.contributors.map((c) => escapeSlack(c.name)).join(", ");
+    blocks.push({ type: "context", elements: [{ type: "mrkdwn", text: `${CONTRIBUTORS_TITLE}: ${names}`.slice(0, SLACK_SECTION_LIMIT) }] });
+  }
+
+  const count = doc.sections.reduce((n, s) => n + s.entries.length, 0);
+  return { text: `Release ${releaseName(doc)}: ${count} change${count === 1 ? "" : "s"}`, blocks };
+};
+
+// ─── Dispatch ─────────────────────────────────────────────────────────────────
+
+export const renderFormats = (doc: ReleaseDocument, formats: readonly OutputFormat[]): RenderedFormats => {
+  const out: RenderedFormats = {};
+  for (const format of new Set(formats)) {
+    switch (format) {
+      case "json":           out.json = doc; break;
+      case "keepachangelog": out.keepachangelog = renderKeepAChangelog(doc); break;
+      case "html":           out.html = renderHtml(doc); break;
+      case "text":           out.text = renderText(doc); break;
+      case "slack":          out.slack = renderSlack(doc); break;
+    }
+  }
+  return out;
+};
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  commitsWithPrefix, ensureCommit, mergedCommits, nearestTag, previousReleaseTag, readCommitDiff, readCommitRange, parseTrailers, refDate,
+} from "./git.js";
+
+// ─── Fixture repository ────────────────────────────────────────────────────────
+
+let repo: string;
+
+const run = (...args: string[]) =>
+  execFileSync("git", ["-C", repo, "-c", "user.name=Ada", "-c", "user.email=ada@example.com", ...args], {
+    encoding: "utf8",
+  });
+
+const commit = (file: string, message: string) => {
+  writeFileSync(path.join(repo, file), message);
+  run("add", file);
+  run("commit", "-q", "-m", message);
+};
+
+beforeAll(() => {
+  repo = mkdtempSync(path.join(tmpdir(), "release-notes-git-"));
+  run("init", "-q", "-b", "main");
+  commit("a.txt", "chore: initial commit");
+  run("tag", "v1.0.0");
+  commit("b.txt", "feat(auth)!: oauth implementation\n\nAdds Google sign-in.\n\nBREAKING CHANGE: sessions are reset\nCo-authored-by: Grace <grace@example.com>");
+  commit("c.txt", "fixed google oauth");
+});
+
+afterAll(() => rmSync(repo, { recursive: true, force: true }));
+
+// ─── readCommitRange ───────────────────────────────────────────────────────────
+
+describe("readCommitRange", () => {
+  it("returns commits in the range oldest first with metadata", async () => {
+    const commits = await readCommitRange(repo, "v1.0.0", "HEAD");
+    expect(commits.map((c) => c.subject)).toEqual(["feat(auth)!: oauth implementation", "fixed google oauth"]);
+
+    const [oauth] = commits;
+    expect(oauth.author).toEqual({ name: "Ada", email: "ada@example.com" });
+    expect(oauth.parents).toHaveLength(1);
+    expect(oauth.body).toContain("Adds Google sign-in.");
+    expect(oauth.trailers).toEqual([
+      { key: "BREAKING CHANGE", value: "sessions are reset" },
+      { key: "Co-authored-by", value: "Grace <grace@example.com>" },
+    ]);
+    expect(oauth.fullSha.startsWith(oauth.sha)).toBe(true);
+    expect(oauth.changes).toEqual({ files: [{ path: "b.txt", insertions: 6, deletions: 0, binary: false }], insertions: 6, deletions: 0 });
+  });
+
+  it("rejects an unknown ref with UNKNOWN_REF", async () => {
+    await expect(readCommitRange(repo, "v9.9.9", "HEAD")).rejects.toMatchObject({ code: "UNKNOWN_REF", status: 422 });
+  });
+
+  it("rejects an empty range with EMPTY_RANGE", async () => {
+    await expect(readCommitRange(repo, "HEAD", "HEAD")).rejects.toMatchObject({ code: "EMPTY_RANGE", status: 422 });
+  });
+
+  it("rejects a missing repository with REPO_NOT_FOUND", async () => {
+    await expect(readCommitRange(path.join(repo, "nope"), "HEAD~1", "HEAD")).rejects.toMatchObject({
+      code: "REPO_NOT_FOUND",
+      status: 404,
+    });
+  });
+});
+
+describe("readCommitDiff", () => {
+  it("returns the diff, cut on a line boundary past maxChars", async () => {
+    const [oauth] = await readCommitRange(repo, "v1.0.0", "HEAD");
+    expect(await readCommitDiff(repo, oauth, 10_000)).toContain("+++ b/b.txt\n@@ -0,0 +1,6 @@\n+feat(auth)!: oauth implementation");
+    const cut = await readCommitDiff(repo, oauth, 80);
+    expect(cut.endsWith("\n[diff truncated at 80 characters]")).toBe(true);
+    expect(cut.length).toBeLessThan(80 + 40);
+  });
+});
+
+describe("refDate", () => {
+  it("returns the ref's committer date as YYYY-MM-DD", async () => {
+    expect(await refDate(repo, "v1.0.0")).toBe(run("log", "-1", "--format=%cs", "v1.0.0").trim());
+  });
+});
+
+describe("nearestTag", () => {
+  it("finds the closest tag matching the patterns", async () => {
+    expect(await nearestTag(repo, "HEAD", ["v*"])).toBe("v1.0.0");
+    expect(await nearestTag(repo, "HEAD", ["web@*"])).toBeNull();
+    expect(await nearestTag(repo, "v1.0.0^", ["v*"])).toBeNull();
+  });
+
+  it("skips a tag on the ref itself for the previous release", async () => {
+    expect(await previousReleaseTag(repo, "HEAD", ["v*"])).toBe("v1.0.0");
+    expect(await previousReleaseTag(repo, "v1.0.0", ["v*"])).toBeNull();
+  });
+});
+
+describe("ensureCommit", () => {
+  it("reports whether the commit is available", async () => {
+    expect(await ensureCommit(repo, run("rev-parse", "HEAD").trim())).toBe(true);
+    expect(await ensureCommit(repo, "0123456789abcdef0123456789abcdef01234567")).toBe(false);
+  });
+});
+
+describe("commitsWithPrefix", () => {
+  it("resolves a full or abbreviated sha to the full sha of its commit", async () => {
+    const full = run("rev-parse", "HEAD").trim();
+    expect(await commitsWithPrefix(repo, full)).toEqual([full]);
+    expect(await commitsWithPrefix(repo, full.slice(0, 7).toUpperCase())).toEqual([full]);
+    expect(await commitsWithPrefix(repo, run("rev-parse", "HEAD^{tree}").trim())).toEqual([]);
+    expect(await commitsWithPrefix(repo, "0123456789abcdef0123456789abcdef01234567")).toEqual([]);
+  });
+});
+
+describe("parseTrailers", () => {
+  it("reads the final paragraph as trailers, folding continuation lines", () => {
+    expect(parseTrailers("Some context.\n\nFixes #12\nBREAKING CHANGE: drops the v1\n  session format")).toEqual([
+      { key: "Fixes", value: "#12" },
+      { key: "BREAKING CHANGE", value: "drops the v1 session format" },
+    ]);
+  });
+
+  it("returns nothing when the final paragraph is prose", () => {
+    expect(parseTrailers("Fixes: #12\n\nnot a trailer")).toEqual([]);
+  });
+});
+
+describe("mergedCommits", () => {
+  it("lists the commits a merge brought in, without the merge itself", async () => {
+    run("checkout", "-q", "-b", "sso");
+    commit("d.txt", "add saml metadata");
+    commit("e.txt", "fix saml redirect");
+    run("checkout", "-q", "main");
+    commit("f.txt", "docs: readme");
+    run("merge", "-q", "--no-ff", "-m", "Merge pull request #240 from org/sso", "sso");
+
+    const commits = await readCommitRange(repo, "v1.0.0", "HEAD");
+    const merge = commits.find((c) => c.parents.length > 1)!;
+    const merged = await mergedCommits(repo, merge);
+    expect(commits.filter((c) => merged.includes(c.fullSha)).map((c) => c.subject).sort())
+      .toEqual(["add saml metadata", "fix saml redirect"]);
+    expect(await mergedCommits(repo, commits[0])).toEqual([]);
+    // A merge's changes are everything it brought in
+    expect(merge.changes.files.map((f) => f.path).sort()).toEqual(["d.txt", "e.txt"]);
+  });
+});
@@ -0,0 +1,240 @@
+import { execFile } from "node:child_process";
+import { stat } from "node:fs/promises";
+import path from "node:path";
+import { promisify } from "node:util";
+import { GitRangeError } from "./errors.js";
+
+const exec = promisify(execFile);
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface GitTrailer {
+  key: string;
+  value: string;
+}
+
+export interface FileChange {
+  path: string;       // new path for renames
+  insertions: number;
+  deletions: number;
+  binary: boolean;    // git reports no line counts for binary files
+}
+
+export interface CommitChanges {
+  files: FileChange[];
+  insertions: number;
+  deletions: number;
+}
+
+export interface GitCommit {
+  sha: string;        // abbreviated, as shown in release notes
+  fullSha: string;
+  parents: string[];  // full shas; more than one means a merge commit
+  author: { name: string; email: string };
+  date: string;       // ISO-8601 author date
+  subject: string;
+  body: string;       // message body without the subject line, trailers included
+  trailers: GitTrailer[];
+  changes: CommitChanges; // merges: against their first parent, i.e. everything they brought in
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+// Field and record separators that cannot appear in a commit message.
+const FS = "\x1f";
+const RS = "\x1e";
+
+const LOG_FORMAT = ["%h", "%H", "%P", "%an", "%ae", "%aI", "%s", "%b"].join("%x1f") + "%x1e";
+
+export const resolveRepoPath = (repoPath?: string) =>
+  path.resolve(repoPath || process.env.RELEASE_NOTES_REPO_PATH || process.cwd());
+
+export const git = async (repoPath: string, args: string[]) => {
+  const { stdout } = await exec("git", ["-C", repoPath, ...args], { maxBuffer: 64 * 1024 * 1024 });
+  return stdout;
+};
+
+// Trailers are the final paragraph of the body when every line in it reads
+// "Token: value" or "Token #value" (continuation lines are indented). Parsed
+// here rather than with %(trailers) because git rejects "BREAKING CHANGE".
+const TRAILER_LINE = /^(BREAKING CHANGE|[\w-]+)(?::\s*|\s+(?=#))(.*)$/;
+
+export const parseTrailers = (body: string): GitTrailer[] => {
+  const paragraphs = body.trim().split(/\n\s*\n/);
+  const last = paragraphs[paragraphs.length - 1] ?? "";
+  const trailers: GitTrailer[] = [];
+  for (const line of last.split("\n")) {
+    const m = line.match(TRAILER_LINE);
+    if (m) {
+      trailers.push({ key: m[1], value: m[2].trim() });
+    } else if (/^\s+\S/.test(line) && trailers.length > 0) {
+      trailers[trailers.length - 1].value += ` ${line.trim()}`;
+    } else {
+      return [];
+    }
+  }
+  return trailers;
+};
+
+export const assertRepo = async (repoPath: string) => {
+  const exists = await stat(repoPath).then((s) => s.isDirectory(), () => false);
+  if (!exists) {
+    throw new GitRangeError("REPO_NOT_FOUND", `Repository path does not exist: ${repoPath}`);
+  }
+  try {
+    await git(repoPath, ["rev-parse", "--git-dir"]);
+  } catch {
+    throw new GitRangeError("REPO_NOT_FOUND", `Not a git repository: ${repoPath}`);
+  }
+};
+
+export const verifyRef = async (repoPath: string, ref: string) => {
+  try {
+    return (await git(repoPath, ["rev-parse", "--verify", "--quiet", `${ref}^{commit}`])).trim();
+  } catch {
+    throw new GitRangeError("UNKNOWN_REF", `Unknown git ref "${ref}" in ${repoPath}`);
+  }
+};
+
+// Tags whose commit is an ancestor of (or equal to) ref.
+export const listMergedTags = async (repoPath: string, ref: string) =>
+  (await git(repoPath, ["tag", "--merged", ref])).split("\n").map((t) => t.trim()).filter(Boolean);
+
+// Nearest tag reachable from ref whose name matches one of patterns (git's
+// glob syntax), or null when there is none.
+export const nearestTag = async (repoPath: string, ref: string, patterns: string[]) => {
+  if (patterns.length === 0) return null;
+  const match = patterns.flatMap((p) => ["--match", p]);
+  try {
+    return (await git(repoPath, ["describe", "--tags", "--abbrev=0", ...match, ref])).trim() || null;
+  } catch {
+    return null;
+  }
+};
+
+// The tag a release ending at ref starts from: the nearest matching tag, or the
+// one before it when ref is itself tagged (releasing the tag just pushed).
+export const previousReleaseTag = async (repoPath: string, ref: string, patterns: string[]) => {
+  const nearest = await nearestTag(repoPath, ref, patterns);
+  if (!nearest || await verifyRef(repoPath, nearest) !== await verifyRef(repoPath, ref)) return nearest;
+  return nearestTag(repoPath, `${ref}^`, patterns);
+};
+
+// Fetches from origin when the commit is not in the clone yet, as when a
+// webhook reports a push before anything else updated the repository.
+export const ensureCommit = async (repoPath: string, sha: string) => {
+  const present = () => git(repoPath, ["cat-file", "-e", `${sha}^{commit}`]).then(() => true, () => false);
+  if (await present()) return true;
+  await git(repoPath, ["fetch", "--quiet", "--tags", "origin"]).catch(() => undefined);
+  return present();
+};
+
+// Full shas of the commits whose sha starts with prefix (4–40 hex characters):
+// none when it is unknown, more than one when it is ambiguous
+export const commitsWithPrefix = async (repoPath: string, prefix: string) => {
+  const objects = (await git(repoPath, ["rev-parse", `--disambiguate=${prefix.toLowerCase()}`]).catch(() => ""))
+    .split("\n").filter(Boolean);
+  const types = await Promise.all(objects.map((sha) => git(repoPath, ["cat-file", "-t", sha]).then((t) => t.trim())));
+  return objects.filter((_, i) => types[i] === "commit");
+};
+
+// Committer date of ref as YYYY-MM-DD — when that commit landed, not when it was written.
+export const refDate = async (repoPath: string, ref: string) =>
+  (await git(repoPath, ["log", "-1", "--format=%cI", `${ref}^{commit}`, "--"])).trim().slice(0, 10);
+
+// Full shas of the commits a merge brought in: reachable from the merge but not
+// from its first parent. Empty for commits that are not merges.
+export const mergedCommits = async (repoPath: string, merge: Pick<GitCommit, "fullSha" | "parents">) => {
+  if (merge.parents.length < 2) return [];
+  return (await git(repoPath, ["rev-list", `${merge.parents[0]}..${merge.fullSha}`]))
+    .split("\n")
+    .map((s) => s.trim())
+    .filter((s) => s && s !== merge.fullSha);
+};
+
+// ─── Changes ──────────────────────────────────────────────────────────────────
+
+// "src/{old => new}/a.ts" and "old.ts => new.ts" become the new path
+const renamedPath = (p: string) =>
+  p.replace(/\{[^{}]* => ([^{}]*)\}/g, "$1").replace(/^.* => /, "").replace(/\/{2,}/g, "/");
+
+// Per-commit --numstat for a resolved range, keyed by full sha
+const readRangeChanges = async (repoPath: string, range: string) => {
+  const out = await git(repoPath, ["log", "--numstat", "--diff-merges=first-parent", "--format=%x1e%H", range]);
+  const changes = new Map<string, CommitChanges>();
+  for (const record of out.split(RS).filter((r) => r.trim())) {
+    const [sha, ...lines] = record.trim().split("\n");
+    const files = lines.filter((l) => l.includes("\t")).map((line): FileChange => {
+      const [added, deleted, ...rest] = line.split("\t");
+      const binary = added === "-";
+      return {
+        path:       renamedPath(rest.join("\t")),
+        insertions: binary ? 0 : Number(added),
+        deletions:  binary ? 0 : Number(deleted),
+        binary,
+      };
+    });
+    changes.set(sha.trim(), {
+      files,
+      insertions: files.reduce((n, f) => n + f.insertions, 0),
+      deletions:  files.reduce((n, f) => n + f.deletions, 0),
+    });
+  }
+  return changes;
+};
+
+// The commit's diff with one line of context, cut at maxChars on a line
+// boundary. Merges are diffed against their first parent.
+export const readCommitDiff = async (
+  repoPath: string,
+  commit: Pick<GitCommit, "fullSha" | "parents">,
+  maxChars: number,
+) => {
+  const diff = commit.parents.length
+    ? await git(repoPath, ["diff", "--no-color", "--unified=1", commit.parents[0], commit.fullSha])
+    : await git(repoPath, ["show", "--no-color", "--unified=1", "--format=", commit.fullSha]);
+  if (diff.length <= maxChars) return diff.trimEnd();
+  const cut = diff.slice(0, maxChars);
+  return `${cut.slice(0, Math.max(cut.lastIndexOf("\n"), 0))}\n[diff truncated at ${maxChars} characters]`;
+};
+
+// ─── Commit range ─────────────────────────────────────────────────────────────
+// Reads every commit reachable from toRef but not from fromRef, oldest first,
+// with the full message split into subject, body and trailers, and the files
+// each one changed.
+
+export const readCommitRange = async (
+  repoPath: string,
+  fromRef: string,
+  toRef: string,
+): Promise<GitCommit[]> => {
+  await assertRepo(repoPath);
+  const from = await verifyRef(repoPath, fromRef);
+  const to   = await verifyRef(repoPath, toRef);
+
+  const out = await git(repoPath, ["log", "--reverse", `--format=${LOG_FORMAT}`, `${from}..${to}`]);
+  const changes = await readRangeChanges(repoPath, `${from}..${to}`);
+  const commits = out
+    .split(RS)
+    .map((record) => record.replace(/^\n/, ""))
+    .filter((record) => record.trim() !== "")
+    .map((record): GitCommit => {
+      const [sha, fullSha, parents, name, email, date, subject, body] = record.split(FS);
+      return {
+        sha,
+        fullSha,
+        parents: parents ? parents.split(" ") : [],
+        author: { name, email },
+        date,
+        subject,
+        body: body.trim(),
+        trailers: parseTrailers(body),
+        changes: changes.get(fullSha) ?? { files: [], insertions: 0, deletions: 0 },
+      };
+    });
+
+  if (commits.length === 0) {
+    throw new GitRangeError("EMPTY_RANGE", `No commits in range ${fromRef}..${toRef}`);
+  }
+  return commits;
+};
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { canonicalLocale, checkLocalization, isLocale, languageName, protectMarkdown, restoreMarkdown } from "./localize.js";
+
+const notes = [
+  "## v2.1.0 — December 2025",
+  "",
+  "### ✨ Features",
+  "- **Scenario Builder**: Sign in with `oauth.google` ([#240](https://github.com/acme/app/pull/240)) (a23ebf4)",
+  "- **Faster Grading**: Fixes ABC-42, thanks @grace",
+  "",
+  "```sh",
+  "npm i @acme/app@2.1.0",
+  "```",
+].join("\n");
+
+describe("protectMarkdown", () => {
+  it("swaps the version header, code, links, references and product terms for placeholders", () => {
+    const { text, tokens } = protectMarkdown(notes, { version: "v2.1.0", terms: ["Scenario Builder"] });
+    expect(text).toBe([
+      "⟦0⟧",
+      "",
+      "### ✨ Features",
+      "- **⟦8⟧**: Sign in with ⟦2⟧ ([⟦4⟧](⟦3⟧)) (⟦6⟧)",
+      "- **Faster Grading**: Fixes ⟦5⟧, thanks ⟦7⟧",
+      "",
+      "⟦1⟧",
+    ].join("\n"));
+    expect(tokens[0]).toBe("## v2.1.0 — December 2025");
+    expect(restoreMarkdown(text, tokens)).toBe(notes);
+  });
+});
+
+describe("checkLocalization", () => {
+  const source = "⟦0⟧\n\n### ✨ Features\n- **⟦1⟧**: Anmelden mit ⟦2⟧\n  - ⟦3⟧";
+
+  it("passes a translation with the same placeholders and shape", () => {
+    expect(checkLocalization(source, "⟦0⟧\n\n### ✨ Funktionen\n- **⟦1⟧**: Sign in with ⟦2⟧\n  - ⟦3⟧")).toEqual([]);
+  });
+
+  it("reports lost, repeated or invented placeholders and a changed structure", () => {
+    const issues = checkLocalization(source, "⟦0⟧\n\n### ✨ Funktionen\n- **⟦1⟧**: ⟦1⟧ mit ⟦9⟧\n- ⟦3⟧");
+    expect(issues.map((i) => i.rule)).toEqual(["placeholder", "placeholder", "placeholder", "structure"]);
+    expect(issues[0].message).toBe("Keep ⟦1⟧ exactly 1 time(s), unchanged; found 2.");
+  });
+});
+
+describe("locales", () => {
+  it("accepts BCP 47 tags and names their language", () => {
+    expect(isLocale("pt-br")).toBe(true);
+    expect(isLocale("not a locale")).toBe(false);
+    expect(canonicalLocale("pt-br")).toBe("pt-BR");
+    expect(languageName("de")).toBe("German");
+  });
+});
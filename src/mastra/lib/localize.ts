@@ -0,0 +1,130 @@
+// ─── Types ────────────────────────────────────────────────────────────────────
+// Translated copies of the final notes. Before the translate model sees the
+// Markdown, everything that must survive verbatim is swapped for a numbered
+// placeholder (⟦0⟧, ⟦1⟧, …): the version header, code, URLs, shas, pull
+// request / issue / ticket references, @mentions and the project's product
+// terms. The translation is then checked against the source for lost or
+// invented placeholders and a changed heading or list structure.
+
+export interface ProtectedMarkdown {
+  text: string;     // the notes with placeholders
+  tokens: string[]; // what each placeholder stands for, by number
+}
+
+export const LOCALIZATION_RULES = ["placeholder", "structure"] as const;
+
+export interface LocalizationIssue {
+  rule: (typeof LOCALIZATION_RULES)[number];
+  message: string; // phrased as a fix, so it can go back to the model as is
+}
+
+// ─── Locales ──────────────────────────────────────────────────────────────────
+
+// BCP 47 tags as Intl understands them, e.g. "de", "pt-BR", "zh-Hant"
+export const isLocale = (tag: string) => {
+  try {
+    return Intl.getCanonicalLocales(tag).length === 1;
+  } catch {
+    return false;
+  }
+};
+
+export const canonicalLocale = (tag: string) => Intl.getCanonicalLocales(tag)[0];
+
+// "pt-BR" → "Brazilian Portuguese", for the prompt and the result
+export const languageName = (locale: string) => {
+  try {
+    return new Intl.DisplayNames(["en"], { type: "language" }).of(locale) ?? locale;
+  } catch {
+    return locale;
+  }
+};
+
+// ─── Placeholders ─────────────────────────────────────────────────────────────
+
+const PLACEHOLDER = /⟦(\d+)⟧/g;
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// In order: anything later could match inside what an earlier one protects
+const PROTECTED: RegExp[] = [
+  /^(`{3,}|~{3,})[^\n]*\n[\s\S]*?^\1[ \t]*$/gm,                        // fenced code
+  /`[^`\n]+`/g,                                                        // code spans
+  /(?<=\]\()[^)\s]+(?=\))/g,                                           // link targets
+  /\bhttps?:\/\/[^\s)<>\]]+/g,                                         // bare URLs
+  /<\/?[A-Za-z][^>\n]*>/g,                                             // HTML tags and autolinks
+  /(?:\b[\w.-]+\/[\w.-]+)?[#!]\d+\b/g,                                 // #240, !12, acme/app#240
+  /\b[A-Z][A-Z0-9]+-\d+\b/g,                                           // ABC-42
+  /\b(?=[0-9a-f]*\d)[0-9a-f]{7,40}\b/g,                                // shas
+  /(?<![\w@])@[\w-]+/g,                                                // @mentions
+  /\bv?\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?\b/g,     // versions
+];
+
+// terms: product names and glossary terms, kept as written
+export const protectMarkdown = (
+  markdown: string,
+  { version, terms = [] }: { version: string; terms?: string[] },
+): ProtectedMarkdown => {
+  const tokens: string[] = [];
+  const hold = (match: string) => `⟦${tokens.push(match) - 1}⟧`;
+  const header = new RegExp(`^#{1,6}[ \\t][^\\n]*${escapeRegExp(version)}[^\\n]*$`, "m");
+  let text = markdown.replace(header, hold);
+  for (const pattern of PROTECTED) text = text.replace(pattern, hold);
+
+  // Longest first, so "Scenario Builder Pro" wins over "Scenario Builder"
+  const words = [...new Set(terms.map((t) => t.trim()).filter(Boolean))].sort((a, b) => b.length - a.length);
+  if (words.length) {
+    const term = new RegExp(`(?<![\\p{L}\\p{N}])(?:${words.map(escapeRegExp).join("|")})(?![\\p{L}\\p{N}])`, "gu");
+    text = text.replace(term, hold);
+  }
+  return { text, tokens };
+};
+
+export const restoreMarkdown = (text: string, tokens: string[]) =>
+  text.replace(PLACEHOLDER, (match, n: string) => tokens[Number(n)] ?? match);
+
+// ─── Checks ───────────────────────────────────────────────────────────────────
+
+const placeholderCounts = (text: string) => {
+  const counts = new Map<number, number>();
+  for (const [, n] of text.matchAll(PLACEHOLDER)) counts.set(Number(n), (counts.get(Number(n)) ?? 0) + 1);
+  return counts;
+};
+
+// Heading levels and list items, line by line; the words may change, the shape may not
+const outline = (markdown: string) =>
+  markdown.split("\n").flatMap((line) => {
+    const heading = /^(#{1,6})\s/.exec(line.trim());
+    if (heading) return [`h${heading[1].length}`];
+    const item = /^(\s*)(?:[-*+]|\d+[.)])\s/.exec(line);
+    return item ? [`li${Math.floor(item[1].length / 2)}`] : [];
+  });
+
+// Compares the protected source with the model's translation, before restoring
+export const checkLocalization = (source: string, translated: string): LocalizationIssue[] => {
+  const issues: LocalizationIssue[] = [];
+  const expected = placeholderCounts(source);
+  const actual   = placeholderCounts(translated);
+  for (const [n, count] of expected) {
+    const got = actual.get(n) ?? 0;
+    if (got !== count) {
+      issues.push({ rule: "placeholder", message: `Keep ⟦${n}⟧ exactly ${count} time(s), unchanged; found ${got}.` });
+    }
+  }
+  for (const n of actual.keys()) {
+    if (!expected.has(n)) issues.push({ rule: "placeholder", message: `Remove ⟦${n}⟧; the source notes have no such placeholder.` });
+  }
+
+  const before = outline(source);
+  const after  = outline(translated);
+  const at = before.findIndex((kind, i) => after[i] !== kind);
+  if (at !== -1 || after.length !== before.length) {
+    issues.push({
+      rule: "structure",
+      message:
+        `Keep the Markdown structure of the source: ${before.filter((k) => k.startsWith("h")).length} headings and ` +
+        `${before.filter((k) => k.startsWith("li")).length} list items in the same order and nesting.`,
+    });
+  }
+  return issues;
+};
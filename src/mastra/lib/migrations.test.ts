@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { ensureMigrationGuides, missingMigrationGuidance, renderBreakingSection, type MigrationGuide } from "./migrations.js";
+
+const HEADING = "### ⚠️ Breaking Changes";
+
+const sessions: MigrationGuide = {
+  sha: "a23ebf4",
+  title: "Sessions Reset on Upgrade",
+  whatChanged: "Password sessions are replaced by Google sign-in.",
+  whoIsAffected: "Every signed-in user.",
+  upgradeSteps: ["Ask users to sign in again.", "Remove PASSWORD_LOGIN from your config."],
+};
+const api: MigrationGuide = { ...sessions, sha: "c41a2b0", title: "Scores API v2", upgradeSteps: ["Call /v2/scores."] };
+
+const notes = (breaking: string) =>
+  `## v2.0.0 — March 2026\n\n${breaking}${breaking ? "\n\n" : ""}### ✨ Features\n- **Google Sign-In**: Log in with Google.`;
+
+describe("renderBreakingSection", () => {
+  it("lists what changed, who is affected and numbered upgrade steps", () => {
+    expect(renderBreakingSection([sessions], HEADING)).toBe([
+      HEADING,
+      "- **Sessions Reset on Upgrade** (`a23ebf4`)",
+      "  - **What changed:** Password sessions are replaced by Google sign-in.",
+      "  - **Who is affected:** Every signed-in user.",
+      "  - **Upgrade steps:**",
+      "    1. Ask users to sign in again.",
+      "    2. Remove PASSWORD_LOGIN from your config.",
+    ].join("\n"));
+    expect(renderBreakingSection([], HEADING)).toBe("");
+  });
+});
+
+describe("missingMigrationGuidance", () => {
+  it("accepts notes that cover every breaking commit", () => {
+    expect(missingMigrationGuidance(notes(renderBreakingSection([sessions, api], HEADING)), [sessions, api], HEADING)).toEqual([]);
+  });
+
+  it("flags commits missing from the section or listed without upgrade steps", () => {
+    const partial = `${HEADING}\n- **Sessions Reset** (a23ebf4): sessions are gone.\n- Scores API v2 (c41a2b0). Migrate by calling /v2/scores.`;
+    expect(missingMigrationGuidance(notes(partial), [sessions, api], HEADING)).toEqual(["a23ebf4"]);
+    expect(missingMigrationGuidance(notes(""), [sessions], HEADING)).toEqual(["a23ebf4"]);
+  });
+
+  it("ignores mentions outside the section", () => {
+    const markdown = `${notes(`${HEADING}\n- Sessions (a23ebf4)`)}\n- **BREAKING:** Sessions a23ebf4 — upgrade steps below`;
+    expect(missingMigrationGuidance(markdown, [sessions], HEADING)).toEqual(["a23ebf4"]);
+  });
+});
+
+describe("ensureMigrationGuides", () => {
+  it("inserts the section below the version header", () => {
+    expect(ensureMigrationGuides(notes(""), [sessions], HEADING)).toBe(notes(renderBreakingSection([sessions], HEADING)));
+  });
+
+  it("replaces an incomplete section and leaves complete notes alone", () => {
+    const fixed = notes(renderBreakingSection([sessions], HEADING));
+    expect(ensureMigrationGuides(notes(`${HEADING}\n- Sessions (a23ebf4)`), [sessions], HEADING)).toBe(fixed);
+    expect(ensureMigrationGuides(fixed, [sessions], HEADING)).toBe(fixed);
+    expect(ensureMigrationGuides(notes(""), [], HEADING)).toBe(notes(""));
+  });
+
+  it("stops at the template's non-heading section titles", () => {
+    const compact = `## v2.0.0\n\n**⚠️ Breaking**\n- Sessions (a23ebf4)\n\n**New**\n- Google Sign-In`;
+    expect(ensureMigrationGuides(compact, [sessions], "**⚠️ Breaking**", ["**New**"])).toBe(
+      `## v2.0.0\n\n${renderBreakingSection([sessions], "**⚠️ Breaking**")}\n\n**New**\n- Google Sign-In`,
+    );
+  });
+});
@@ -0,0 +1,87 @@
+// ─── Types ────────────────────────────────────────────────────────────────────
+// One migration guide per breaking commit, written by the migration-guides
+// step from the commit body and its BREAKING CHANGE footer. The guides are
+// rendered here rather than by the draft model, so the quality check can tell
+// exactly which breaking commits the notes fail to cover.
+
+export interface MigrationGuide {
+  sha: string;
+  title: string;
+  whatChanged: string;
+  whoIsAffected: string;
+  upgradeSteps: string[];
+}
+
+// ─── Rendering ────────────────────────────────────────────────────────────────
+
+export const renderBreakingSection = (guides: MigrationGuide[], heading: string) => {
+  if (guides.length === 0) return "";
+  const lines = [heading];
+  for (const g of guides) {
+    lines.push(
+      `- **${g.title}** (\`${g.sha}\`)`,
+      `  - **What changed:** ${g.whatChanged}`,
+      `  - **Who is affected:** ${g.whoIsAffected}`,
+      "  - **Upgrade steps:**",
+      ...g.upgradeSteps.map((step, i) => `    ${i + 1}. ${step}`),
+    );
+  }
+  return lines.join("\n");
+};
+
+// ─── Checking ─────────────────────────────────────────────────────────────────
+// The section runs from its heading to the next Markdown heading or the next of
+// the template's other section headings (which may be bold text, not "#").
+
+const findSection = (lines: string[], heading: string, otherHeadings: string[]) => {
+  const start = lines.findIndex((l) => l.trim() === heading.trim());
+  if (start === -1) return null;
+  const stops = new Set(otherHeadings.map((h) => h.trim()));
+  let end = start + 1;
+  while (end < lines.length && !/^#{1,6}\s/.test(lines[end]) && !stops.has(lines[end].trim())) end++;
+  return { start, end };
+};
+
+// Shas of breaking commits the notes give no migration guidance for: the sha
+// must appear in the breaking changes section, followed by upgrade or
+// migration instructions before the next guide starts.
+export const missingMigrationGuidance = (
+  markdown: string,
+  guides: MigrationGuide[],
+  heading: string,
+  otherHeadings: string[] = [],
+) => {
+  const lines = markdown.split("\n");
+  const range = findSection(lines, heading, otherHeadings);
+  if (!range) return guides.map((g) => g.sha);
+
+  const section = lines.slice(range.start + 1, range.end);
+  const starts = guides.map((g) => section.findIndex((l) => l.includes(g.sha)));
+  return guides.filter((g, i) => {
+    if (starts[i] === -1) return true;
+    const next = Math.min(...starts.filter((s) => s > starts[i]), section.length);
+    return !/upgrade|migrat/i.test(section.slice(starts[i], next).join("\n"));
+  }).map((g) => g.sha);
+};
+
+// Puts the rendered section in place of whatever the notes have under the
+// heading (or right below the version header) unless every guide is covered.
+export const ensureMigrationGuides = (
+  markdown: string,
+  guides: MigrationGuide[],
+  heading: string,
+  otherHeadings: string[] = [],
+) => {
+  if (missingMigrationGuidance(markdown, guides, heading, otherHeadings).length === 0) return markdown;
+
+  const lines = markdown.split("\n");
+  const rendered = renderBreakingSection(guides, heading).split("\n");
+  const range = findSection(lines, heading, otherHeadings);
+  if (range) {
+    lines.splice(range.start, range.end - range.start, ...rendered, ...(range.end < lines.length ? [""] : []));
+  } else {
+    const header = lines.findIndex((l) => /^##\s/.test(l));
+    lines.splice(header + 1, 0, ...(header === -1 ? [] : [""]), ...rendered, ...(header === -1 ? [""] : []));
+  }
+  return lines.join("\n");
+};
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import {
+  bumpForCommits,
+  packagesForFiles,
+  packageVersionFromTags,
+  planPackageBumps,
+  renderPackagesSummary,
+  type PackageRule,
+} from "./packages.js";
+
+const file = (path: string) => ({ path, insertions: 1, deletions: 0, binary: false });
+
+const packages: PackageRule[] = [
+  { name: "@acme/core", paths: ["packages/core/"], dependsOn: [] },
+  { name: "@acme/api", paths: ["packages/api/"], dependsOn: ["@acme/core"] },
+  { name: "@acme/web", paths: ["packages/web/", "shared/ui/**"], dependsOn: ["@acme/api"], tagPrefix: "web-v" },
+  { name: "@acme/docs", paths: ["docs/"], dependsOn: [] },
+];
+
+describe("packagesForFiles", () => {
+  it("attributes a commit to every package it touches, in configured order", () => {
+    expect(packagesForFiles([file("shared/ui/button.tsx"), file("packages/core/index.ts")], packages))
+      .toEqual(["@acme/core", "@acme/web"]);
+    expect(packagesForFiles([file("README.md")], packages)).toEqual([]);
+  });
+});
+
+describe("packageVersionFromTags", () => {
+  it("reads the newest version behind the package's tag prefix", () => {
+    const tags = ["v3.0.0", "@acme/api@1.2.0", "@acme/api@1.10.0", "web-v2.0.0", "@acme/api@nightly"];
+    expect(packageVersionFromTags(tags, packages[1])).toBe("1.10.0");
+    expect(packageVersionFromTags(tags, packages[2])).toBe("2.0.0");
+    expect(packageVersionFromTags(tags, packages[0])).toBeNull();
+  });
+});
+
+describe("bumpForCommits", () => {
+  it("bumps by the most significant change", () => {
+    expect(bumpForCommits([{ type: "fix", breaking: false }, { type: "feat", breaking: false }])).toBe("minor");
+    expect(bumpForCommits([{ type: "chore", breaking: true }])).toBe("major");
+    expect(bumpForCommits([{ type: "docs", breaking: false }])).toBe("patch");
+    expect(bumpForCommits([])).toBeNull();
+  });
+});
+
+describe("planPackageBumps", () => {
+  it("patches dependents of changed packages, transitively", () => {
+    expect(planPackageBumps(packages, new Map([["@acme/core", "minor"]]))).toEqual([
+      { name: "@acme/core", bump: "minor", reason: "changes", triggeredBy: [] },
+      { name: "@acme/api", bump: "patch", reason: "dependency", triggeredBy: ["@acme/core"] },
+      { name: "@acme/web", bump: "patch", reason: "dependency", triggeredBy: ["@acme/api"] },
+    ]);
+  });
+
+  it("keeps a package's own bump and settles dependency cycles", () => {
+    const cyclic: PackageRule[] = [
+      { name: "a", paths: ["a/"], dependsOn: ["b"] },
+      { name: "b", paths: ["b/"], dependsOn: ["a"] },
+      { name: "c", paths: ["c/"], dependsOn: [] },
+    ];
+    expect(planPackageBumps(cyclic, new Map([["a", "major"], ["c", null]]))).toEqual([
+      { name: "a", bump: "major", reason: "changes", triggeredBy: [] },
+      { name: "b", bump: "patch", reason: "dependency", triggeredBy: ["a"] },
+    ]);
+  });
+});
+
+describe("renderPackagesSummary", () => {
+  it("lists each release with its bump and trigger", () => {
+    const releases = [
+      { name: "@acme/core", bump: "minor" as const, reason: "changes" as const, triggeredBy: [],
+        previousVersion: "1.2.0", version: "1.3.0", tag: "@acme/core@1.3.0", shas: ["a23ebf4"] },
+      { name: "@acme/api", bump: "patch" as const, reason: "dependency" as const, triggeredBy: ["@acme/core"],
+        previousVersion: null, version: "v0.1.0", tag: "@acme/api@v0.1.0", shas: [] },
+    ];
+    expect(renderPackagesSummary(releases, "### 📦 Packages")).toBe([
+      "### 📦 Packages",
+      "- **@acme/core** 1.2.0 → 1.3.0 (minor)",
+      "- **@acme/api** v0.1.0 (patch, dependency update: @acme/core)",
+    ].join("\n"));
+    expect(renderPackagesSummary(releases, "")).toBe("");
+    expect(renderPackagesSummary([], "### 📦 Packages")).toBe("");
+  });
+});
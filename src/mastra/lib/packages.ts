@@ -0,0 +1,95 @@
+import { globToRegExp } from "./changes.js";
+import type { FileChange } from "./git.js";
+import { formatSemver, latestSemver, type VersionBump } from "./semver.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+// Monorepo packages, defined per project by path patterns (same syntax as
+// component rules, see lib/changes.ts). A commit belongs to every package whose
+// paths it touched; each package is versioned on its own from tags named
+// "<tagPrefix><version>", by default "<name>@1.2.3".
+
+export interface PackageRule {
+  name: string;       // e.g. "@acme/api"
+  paths: string[];    // e.g. ["packages/api/"]
+  dependsOn: string[]; // other package names
+  tagPrefix?: string;
+}
+
+export interface PackageBump {
+  name: string;
+  bump: VersionBump;
+  reason: "changes" | "dependency";
+  triggeredBy: string[]; // for dependency bumps: the changed packages it depends on
+}
+
+export interface PackageRelease extends PackageBump {
+  previousVersion: string | null;
+  version: string;
+  tag: string;
+  shas: string[]; // entries for this package's notes; empty for dependency bumps
+}
+
+// ─── Attribution ──────────────────────────────────────────────────────────────
+
+export const packagesForFiles = (files: FileChange[], packages: PackageRule[]) => {
+  const matchers = packages.map((p) => ({ name: p.name, regexes: p.paths.map(globToRegExp) }));
+  return matchers
+    .filter((m) => files.some((f) => m.regexes.some((re) => re.test(f.path))))
+    .map((m) => m.name);
+};
+
+export const tagPrefix = (pkg: PackageRule) => pkg.tagPrefix ?? `${pkg.name}@`;
+
+// Newest "<prefix><semver>" tag among tags, without the prefix
+export const packageVersionFromTags = (tags: string[], pkg: PackageRule) => {
+  const prefix = tagPrefix(pkg);
+  const latest = latestSemver(tags.filter((t) => t.startsWith(prefix)).map((t) => t.slice(prefix.length)));
+  return latest ? formatSemver(latest) : null;
+};
+
+// ─── Bumps ────────────────────────────────────────────────────────────────────
+
+// The bump a set of commits warrants, as for the whole repository; null for none
+export const bumpForCommits = (commits: Array<{ type: string; breaking: boolean }>): VersionBump | null =>
+  commits.length === 0
+    ? null
+    : commits.some((c) => c.breaking) ? "major" : commits.some((c) => c.type === "feat") ? "minor" : "patch";
+
+// Packages with commits bump by those commits. A package without any that
+// depends on a bumped package, directly or through others, gets a patch bump
+// so it ships against the new version. Results keep the configured order.
+export const planPackageBumps = (packages: PackageRule[], own: Map<string, VersionBump | null>): PackageBump[] => {
+  const bumps = new Map<string, PackageBump>();
+  for (const pkg of packages) {
+    const bump = own.get(pkg.name);
+    if (bump) bumps.set(pkg.name, { name: pkg.name, bump, reason: "changes", triggeredBy: [] });
+  }
+
+  // Until nothing changes, so chains and cycles settle
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const pkg of packages) {
+      if (bumps.get(pkg.name)?.reason === "changes") continue;
+      const triggeredBy = pkg.dependsOn.filter((dep) => bumps.has(dep) && dep !== pkg.name);
+      if (triggeredBy.length > (bumps.get(pkg.name)?.triggeredBy.length ?? 0)) {
+        bumps.set(pkg.name, { name: pkg.name, bump: "patch", reason: "dependency", triggeredBy });
+        changed = true;
+      }
+    }
+  }
+  return packages.flatMap((p) => bumps.get(p.name) ?? []);
+};
+
+// ─── Rendering ────────────────────────────────────────────────────────────────
+
+// The aggregate section of the combined notes, one line per released package
+export const renderPackagesSummary = (releases: PackageRelease[], heading: string) => {
+  if (releases.length === 0 || !heading.trim()) return "";
+  const lines = releases.map((r) => {
+    const from = r.previousVersion ? `${r.previousVersion} → ` : "";
+    const why  = r.reason === "dependency" ? `, dependency update: ${r.triggeredBy.join(", ")}` : "";
+    return `- **${r.name}** ${from}${r.version} (${r.bump}${why})`;
+  });
+  return [heading.trim(), ...lines].join("\n");
+};
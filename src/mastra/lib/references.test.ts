@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import {
+  collectContributors, extractReferences, formatLinksMarkdown, linkPatterns, mergeReferences, referenceLinks,
+  renderContributors,
+} from "./references.js";
+
+const none = { pullRequests: [], issues: [], coAuthors: [] };
+
+describe("extractReferences", () => {
+  it("reads the pull request from merge and squash subjects", () => {
+    expect(extractReferences("Merge PR #240: fixed google oauth", "", []).pullRequests).toEqual([240]);
+    expect(extractReferences("Merge pull request #12 from org/sso", "", []).pullRequests).toEqual([12]);
+    expect(extractReferences("feat(auth): google sign-in (#241)", "", []).pullRequests).toEqual([241]);
+    expect(extractReferences("Merge branch 'sso'", "See merge request acme/app!37", []).pullRequests).toEqual([37]);
+  });
+
+  it("marks issues after a closing keyword and keeps other mentions", () => {
+    const refs = extractReferences("fixed google oauth", "Fixes #123, see #7.\n\nCloses: ABC-42", []);
+    expect(refs.issues).toEqual([
+      { id: "#123", closes: true },
+      { id: "ABC-42", closes: true },
+      { id: "#7", closes: false },
+    ]);
+  });
+
+  it("never lists the pull request number as an issue", () => {
+    expect(extractReferences("Merge PR #240: login (closes #9)", "", []).issues).toEqual([{ id: "#9", closes: true }]);
+  });
+
+  it("reads tracker keys from the subject prefix and ref trailers only", () => {
+    const refs = extractReferences("[ABC-7] hash tokens with SHA-256", "Body mentions UTF-8.", [
+      { key: "Refs", value: "ABC-8, ABC-9" },
+    ]);
+    expect(refs.issues.map((i) => i.id)).toEqual(["ABC-7", "ABC-8", "ABC-9"]);
+  });
+
+  it("reads cross-repository issues", () => {
+    expect(extractReferences("fix: retry", "Resolves org/api#31", []).issues).toEqual([{ id: "org/api#31", closes: true }]);
+  });
+
+  it("reads co-authors from Co-authored-by trailers", () => {
+    const refs = extractReferences("feat: sso", "", [
+      { key: "Co-authored-by", value: "Grace Hopper <grace@example.com>" },
+      { key: "Signed-off-by", value: "Ada <ada@example.com>" },
+    ]);
+    expect(refs.coAuthors).toEqual([{ name: "Grace Hopper", email: "grace@example.com" }]);
+  });
+});
+
+describe("mergeReferences", () => {
+  it("folds references together, keeping a closing mention", () => {
+    const merged = mergeReferences(
+      { pullRequests: [240], issues: [{ id: "#9", closes: false }], coAuthors: [] },
+      { ...none, issues: [{ id: "#9", closes: true }], coAuthors: [{ name: "Grace", email: "grace@example.com" }] },
+      { ...none, coAuthors: [{ name: "Grace H", email: "GRACE@example.com" }] },
+    );
+    expect(merged).toEqual({
+      pullRequests: [240],
+      issues: [{ id: "#9", closes: true }],
+      coAuthors: [{ name: "Grace H", email: "GRACE@example.com" }],
+    });
+  });
+});
+
+describe("collectContributors", () => {
+  it("counts authors and co-authors once per email and skips bots", () => {
+    const ada = { name: "Ada", email: "ada@example.com" };
+    expect(collectContributors([
+      { author: ada, references: { coAuthors: [{ name: "Grace", email: "grace@example.com" }] } },
+      { author: { name: "dependabot[bot]", email: "49699333+dependabot[bot]@users.noreply.github.com" }, references: none },
+      { author: { ...ada, email: "ADA@example.com" }, references: none },
+    ])).toEqual([
+      { name: "Ada", email: "ada@example.com", commits: 2 },
+      { name: "Grace", email: "grace@example.com", commits: 1 },
+    ]);
+  });
+});
+
+describe("referenceLinks", () => {
+  const refs = { pullRequests: [240], issues: [{ id: "#9", closes: true }, { id: "ABC-42", closes: false }], coAuthors: [] };
+
+  it("builds GitHub links from the repository URL", () => {
+    const links = referenceLinks("82f7dfd", refs, linkPatterns({ forge: "github", repoUrl: "https://github.com/acme/app.git" }));
+    expect(links).toEqual([
+      { label: "#240", url: "https://github.com/acme/app/pull/240", relation: "pull" },
+      { label: "#9", url: "https://github.com/acme/app/issues/9", relation: "closes" },
+      { label: "ABC-42", url: null, relation: "refs" },
+    ]);
+    expect(formatLinksMarkdown(links)).toBe(
+      "([#240](https://github.com/acme/app/pull/240), closes [#9](https://github.com/acme/app/issues/9), ABC-42)",
+    );
+  });
+
+  it("uses GitLab merge request paths and explicit patterns", () => {
+    const patterns = linkPatterns({
+      forge: "gitlab",
+      repoUrl: "https://gitlab.com/acme/app/",
+      ticket: "https://acme.atlassian.net/browse/{key}",
+    });
+    expect(referenceLinks("82f7dfd", refs, patterns).map((l) => [l.label, l.url])).toEqual([
+      ["!240", "https://gitlab.com/acme/app/-/merge_requests/240"],
+      ["#9", "https://gitlab.com/acme/app/-/issues/9"],
+      ["ABC-42", "https://acme.atlassian.net/browse/ABC-42"],
+    ]);
+  });
+
+  it("links the commit only when there is no pull request", () => {
+    const patterns = linkPatterns({ forge: "github", repoUrl: "https://github.com/acme/app" });
+    expect(referenceLinks("82f7dfd", { ...none, issues: [{ id: "org/api#3", closes: false }] }, patterns)).toEqual([
+      { label: "82f7dfd", url: "https://github.com/acme/app/commit/82f7dfd", relation: "commit" },
+      { label: "org/api#3", url: "https://github.com/org/api/issues/3", relation: "refs" },
+    ]);
+  });
+
+  it("leaves labels unlinked without patterns", () => {
+    expect(formatLinksMarkdown(referenceLinks("82f7dfd", refs, linkPatterns()))).toBe("(#240, closes #9, ABC-42)");
+    expect(formatLinksMarkdown([])).toBe("");
+  });
+});
+
+describe("renderContributors", () => {
+  it("lists contributors under the heading", () => {
+    expect(renderContributors([{ name: "Ada", email: "a@x", commits: 2 }], "### 👥 Contributors"))
+      .toBe("### 👥 Contributors\n- Ada");
+    expect(renderContributors([], "### 👥 Contributors")).toBe("");
+    expect(renderContributors([{ name: "Ada", email: "a@x", commits: 1 }], "")).toBe("");
+  });
+});
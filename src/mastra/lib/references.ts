@@ -0,0 +1,209 @@
+import type { GitTrailer } from "./git.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+// What a commit points at beyond its own prose: the pull request that landed
+// it, the issues it closes or mentions, and the people who wrote it. Read from
+// git deterministically, so none of it depends on the enrich model keeping it.
+
+export interface Person {
+  name: string;
+  email: string;
+}
+
+export interface IssueRef {
+  id: string;      // "#123", "org/repo#123" or a tracker key like "ABC-42"
+  closes: boolean; // preceded by a closing keyword (Fixes, Closes, Resolves)
+}
+
+export interface CommitReferences {
+  pullRequests: number[];
+  issues: IssueRef[];
+  coAuthors: Person[];
+}
+
+export interface EntryLink {
+  label: string;
+  url: string | null; // null when the profile has no URL pattern for this kind
+  relation: "pull" | "closes" | "refs" | "commit";
+}
+
+export interface Contributor extends Person {
+  commits: number;
+}
+
+// ─── Extraction ───────────────────────────────────────────────────────────────
+
+const MERGE_PR       = /^Merge (?:pull request|PR|merge request|MR) [#!](\d+)/i;
+const SQUASH_PR      = /\((?:#|!)(\d+)\)\s*$/;
+const GITLAB_MR      = /^See merge request \S*!(\d+)\s*$/m;
+const CLOSING        = /\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?)\b:?\s+((?:[\w.-]+\/[\w.-]+)?#\d+|[A-Z][A-Z0-9]+-\d+)/gi;
+const MENTION        = /(?<![\w/&!])((?:[\w.-]+\/[\w.-]+)?#\d+)\b/g;
+// Tracker keys only count in places meant for them; elsewhere "UTF-8" or
+// "SHA-256" would look the same.
+const TICKET         = /\b[A-Z][A-Z0-9]+-\d+\b/g;
+const SUBJECT_TICKET = /^\[?([A-Z][A-Z0-9]+-\d+)\]?[:\s]/;
+const REF_TRAILERS   = new Set(["refs", "ref", "references", "related", "issue", "issues", "jira", "ticket"]);
+const CO_AUTHOR      = /^(.*?)\s*<([^>]+)>\s*$/;
+
+export const extractReferences = (subject: string, body: string, trailers: GitTrailer[]): CommitReferences => {
+  const text = `${subject}\n${body}`;
+
+  const pullRequests = new Set<number>();
+  for (const m of [subject.match(MERGE_PR), subject.match(SQUASH_PR), body.match(GITLAB_MR)]) {
+    if (m) pullRequests.add(Number(m[1]));
+  }
+
+  const issues = new Map<string, IssueRef>();
+  const add = (id: string, closes: boolean) => {
+    if (/^#\d+$/.test(id) && pullRequests.has(Number(id.slice(1)))) return;
+    issues.set(id, { id, closes: closes || (issues.get(id)?.closes ?? false) });
+  };
+  for (const m of text.matchAll(CLOSING)) add(m[1], true);
+  const ticket = subject.match(SUBJECT_TICKET);
+  if (ticket) add(ticket[1], false);
+  for (const t of trailers) {
+    if (!REF_TRAILERS.has(t.key.toLowerCase())) continue;
+    for (const m of t.value.matchAll(TICKET)) add(m[0], false);
+  }
+  for (const m of text.matchAll(MENTION)) add(m[1], false);
+
+  const coAuthors = trailers
+    .filter((t) => t.key.toLowerCase() === "co-authored-by")
+    .flatMap((t) => {
+      const m = t.value.match(CO_AUTHOR);
+      return m ? [{ name: m[1] || m[2], email: m[2] }] : [];
+    });
+
+  return { pullRequests: [...pullRequests], issues: [...issues.values()], coAuthors };
+};
+
+// Folds the references of a merge's commits into the merge's own
+export const mergeReferences = (...refs: CommitReferences[]): CommitReferences => {
+  const issues = new Map<string, IssueRef>();
+  for (const issue of refs.flatMap((r) => r.issues)) {
+    issues.set(issue.id, { id: issue.id, closes: issue.closes || (issues.get(issue.id)?.closes ?? false) });
+  }
+  const people = new Map(refs.flatMap((r) => r.coAuthors).map((p) => [p.email.toLowerCase(), p] as const));
+  return {
+    pullRequests: [...new Set(refs.flatMap((r) => r.pullRequests))],
+    issues:       [...issues.values()],
+    coAuthors:    [...people.values()],
+  };
+};
+
+// ─── Contributors ─────────────────────────────────────────────────────────────
+// Authors and co-authors in order of first appearance, one per email; bots
+// ("dependabot[bot]") are left out.
+
+export const collectContributors = (
+  commits: Array<{ author: Person; references: Pick<CommitReferences, "coAuthors"> }>,
+): Contributor[] => {
+  const byEmail = new Map<string, Contributor>();
+  for (const c of commits) {
+    for (const person of [c.author, ...c.references.coAuthors]) {
+      if (/\[bot\]$/i.test(person.name) || /\[bot\]@/i.test(person.email)) continue;
+      const key = person.email.toLowerCase() || person.name;
+      const known = byEmail.get(key);
+      if (known) known.commits++;
+      else byEmail.set(key, { name: person.name, email: person.email, commits: 1 });
+    }
+  }
+  return [...byEmail.values()];
+};
+
+// ─── Links ────────────────────────────────────────────────────────────────────
+// URL patterns take {sha}, {number} (pull requests and #issues) or {key}
+// (tracker keys such as Jira's). A forge preset fills in the GitHub or GitLab
+// patterns from the repository URL; explicit patterns override it. Only a
+// preset can link "org/repo#12", since it knows where other repositories live.
+
+export interface LinkConfig {
+  forge?: "github" | "gitlab";
+  repoUrl?: string;     // e.g. https://github.com/org/repo
+  commit?: string;      // e.g. https://github.com/org/repo/commit/{sha}
+  pullRequest?: string; // e.g. https://github.com/org/repo/pull/{number}
+  issue?: string;       // e.g. https://github.com/org/repo/issues/{number}
+  ticket?: string;      // e.g. https://acme.atlassian.net/browse/{key}
+}
+
+export interface LinkPatterns {
+  commit: string | null;
+  pullRequest: string | null;
+  issue: string | null;
+  ticket: string | null;
+  crossIssue: string | null; // {repo} and {number}, for "org/repo#12"
+  pullRequestPrefix: "#" | "!";
+}
+
+export const linkPatterns = (config: LinkConfig = {}): LinkPatterns => {
+  const repo = config.repoUrl?.replace(/\/+$/, "").replace(/\.git$/, "");
+  const origin = repo ? new URL(repo).origin : "";
+  const preset: Partial<LinkPatterns> =
+    repo && config.forge === "github"
+      ? {
+          commit:      `${repo}/commit/{sha}`,
+          pullRequest: `${repo}/pull/{number}`,
+          issue:       `${repo}/issues/{number}`,
+          crossIssue:  `${origin}/{repo}/issues/{number}`,
+        }
+      : repo && config.forge === "gitlab"
+        ? {
+            commit:      `${repo}/-/commit/{sha}`,
+            pullRequest: `${repo}/-/merge_requests/{number}`,
+            issue:       `${repo}/-/issues/{number}`,
+            crossIssue:  `${origin}/{repo}/-/issues/{number}`,
+          }
+        : {};
+  return {
+    commit:      config.commit ?? preset.commit ?? null,
+    pullRequest: config.pullRequest ?? preset.pullRequest ?? null,
+    issue:       config.issue ?? preset.issue ?? null,
+    ticket:      config.ticket ?? null,
+    crossIssue:  preset.crossIssue ?? null,
+    pullRequestPrefix: config.forge === "gitlab" ? "!" : "#",
+  };
+};
+
+// Values are shas, numbers, tracker keys and "org/repo" names, all URL-safe
+const fill = (pattern: string | null, values: Record<string, string>) =>
+  pattern ? pattern.replace(/\{(\w+)\}/g, (_, name: string) => values[name] ?? "") : null;
+
+const issueUrl = (id: string, patterns: LinkPatterns) => {
+  const local = id.match(/^#(\d+)$/);
+  if (local) return fill(patterns.issue, { number: local[1] });
+  const cross = id.match(/^([\w.-]+\/[\w.-]+)#(\d+)$/);
+  if (cross) return fill(patterns.crossIssue, { repo: cross[1], number: cross[2] });
+  return fill(patterns.ticket, { key: id });
+};
+
+// Pull requests first, then closed and mentioned issues; the commit itself is
+// linked only when no pull request is.
+export const referenceLinks = (sha: string, refs: CommitReferences, patterns: LinkPatterns): EntryLink[] => {
+  const links: EntryLink[] = refs.pullRequests.map((n) => ({
+    label:    `${patterns.pullRequestPrefix}${n}`,
+    url:      fill(patterns.pullRequest, { number: String(n) }),
+    relation: "pull" as const,
+  }));
+  if (links.length === 0 && patterns.commit) {
+    links.push({ label: sha, url: fill(patterns.commit, { sha }), relation: "commit" });
+  }
+  for (const issue of refs.issues) {
+    links.push({ label: issue.id, url: issueUrl(issue.id, patterns), relation: issue.closes ? "closes" : "refs" });
+  }
+  return links;
+};
+
+// "[#240](…)", "closes [ABC-42](…)", or the bare label without a URL
+export const formatLinkMarkdown = (link: EntryLink) =>
+  `${link.relation === "closes" ? "closes " : ""}${link.url ? `[${link.label}](${link.url})` : link.label}`;
+
+// "([#240](…), closes [ABC-42](…))", or "" without links
+export const formatLinksMarkdown = (links: EntryLink[]) =>
+  links.length ? `(${links.map(formatLinkMarkdown).join(", ")})` : "";
+
+// The contributors section the draft and refine steps append; "" without
+// contributors or without a heading
+export const renderContributors = (contributors: Contributor[], heading: string) =>
+  contributors.length && heading.trim()
+    ? [heading.trim(), ...contributors.map((c) => `- ${c.name}`)].join("\n")
+    : "";
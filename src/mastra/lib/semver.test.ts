@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { compareSemver, latestSemver, nextCalendarVersion, nextVersion, parseSemver } from "./semver.js";
+
+describe("parseSemver", () => {
+  it("parses prefix, prerelease and build metadata", () => {
+    expect(parseSemver("v2.1.0-beta.3+sha.9f130dd")).toEqual({
+      prefix: "v", major: 2, minor: 1, patch: 0, prerelease: ["beta", 3], build: ["sha", "9f130dd"],
+    });
+  });
+
+  it("rejects non-semver strings", () => {
+    expect(parseSemver("release-2024")).toBeNull();
+    expect(parseSemver("1.2")).toBeNull();
+    expect(parseSemver("01.2.3")).toBeNull();
+  });
+});
+
+describe("compareSemver", () => {
+  it("follows semver.org precedence", () => {
+    const ordered = [
+      "1.0.0-alpha", "1.0.0-alpha.1", "1.0.0-alpha.beta", "1.0.0-beta",
+      "1.0.0-beta.2", "1.0.0-beta.11", "1.0.0-rc.1", "1.0.0",
+    ];
+    const parsed = ordered.map((v) => parseSemver(v)!);
+    for (let i = 1; i < parsed.length; i++) {
+      expect(compareSemver(parsed[i - 1], parsed[i])).toBeLessThan(0);
+    }
+  });
+
+  it("ignores build metadata", () => {
+    expect(compareSemver(parseSemver("1.0.0+a")!, parseSemver("1.0.0+b")!)).toBe(0);
+  });
+
+  it("picks the latest tag and skips non-semver ones", () => {
+    expect(latestSemver(["v1.9.0", "nightly", "v1.10.0", "v1.10.0-rc.1"])).toMatchObject({ major: 1, minor: 10, patch: 0, prerelease: [] });
+  });
+});
+
+describe("nextVersion", () => {
+  it("applies major, minor and patch bumps from 1.x", () => {
+    expect(nextVersion("v2.0.0", "major")).toBe("v3.0.0");
+    expect(nextVersion("v2.0.0", "minor")).toBe("v2.1.0");
+    expect(nextVersion("2.0.0", "patch")).toBe("2.0.1");
+  });
+
+  it("uses 0.x semantics below 1.0.0", () => {
+    expect(nextVersion("v0.4.2", "major")).toBe("v0.5.0");
+    expect(nextVersion("v0.4.2", "minor")).toBe("v0.4.3");
+    expect(nextVersion("v0.0.3", "major")).toBe("v0.0.4");
+  });
+
+  it("starts and advances prerelease channels", () => {
+    expect(nextVersion("v2.0.0", "minor", { prerelease: "beta" })).toBe("v2.1.0-beta.0");
+    expect(nextVersion("v2.1.0-beta.0", "minor", { prerelease: "beta" })).toBe("v2.1.0-beta.1");
+    expect(nextVersion("v2.1.0-beta.4", "patch", { prerelease: "rc" })).toBe("v2.1.0-rc.0");
+    expect(nextVersion("v2.1.0-beta.4", "major", { prerelease: "beta" })).toBe("v3.0.0-beta.0");
+  });
+
+  it("graduates a prerelease when no channel is requested", () => {
+    expect(nextVersion("v2.1.0-rc.2", "minor")).toBe("v2.1.0");
+    expect(nextVersion("v2.1.1-rc.2", "minor")).toBe("v2.2.0");
+  });
+
+  it("replaces build metadata", () => {
+    expect(nextVersion("v2.0.0+build.1", "patch", { build: "sha.9f130dd" })).toBe("v2.0.1+sha.9f130dd");
+  });
+
+  it("starts at v0.1.0 when there is no previous version", () => {
+    expect(nextVersion(null, "major")).toBe("v0.1.0");
+  });
+
+  it("rejects invalid input with INVALID_VERSION", () => {
+    expect(() => nextVersion("two", "patch")).toThrow(expect.objectContaining({ code: "INVALID_VERSION", status: 422 }));
+    expect(() => nextVersion("v1.0.0", "patch", { prerelease: "beta.1" })).toThrow(/prerelease channel/);
+  });
+});
+
+describe("nextCalendarVersion", () => {
+  it("starts a new month at MICRO 0 and counts up within it", () => {
+    expect(nextCalendarVersion("v2026.2.4", "2026-03-09")).toBe("v2026.3.0");
+    expect(nextCalendarVersion("v2026.3.0", "2026-03-21")).toBe("v2026.3.1");
+    expect(nextCalendarVersion(null, "2026-03-09")).toBe("v2026.3.0");
+  });
+
+  it("keeps the previous tag's prefix, even when switching from semver", () => {
+    expect(nextCalendarVersion("1.4.2", "2026-10-01")).toBe("2026.10.0");
+  });
+
+  it("handles prerelease channels like nextVersion", () => {
+    expect(nextCalendarVersion("v2026.2.4", "2026-03-09", { prerelease: "beta" })).toBe("v2026.3.0-beta.0");
+    expect(nextCalendarVersion("v2026.3.0-beta.0", "2026-03-10", { prerelease: "beta" })).toBe("v2026.3.0-beta.1");
+    expect(nextCalendarVersion("v2026.3.0-beta.1", "2026-03-12")).toBe("v2026.3.0");
+  });
+
+  it("rejects invalid input with INVALID_VERSION", () => {
+    expect(() => nextCalendarVersion("v1.0.0", "March 2026")).toThrow(expect.objectContaining({ code: "INVALID_VERSION" }));
+  });
+});
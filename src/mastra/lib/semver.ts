@@ -0,0 +1,190 @@
+import { ReleaseNotesError } from "./errors.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type VersionBump = "major" | "minor" | "patch";
+
+export interface SemVer {
+  prefix: "" | "v";
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: Array<string | number>;
+  build: string[];
+}
+
+export interface BumpOptions {
+  prerelease?: string; // channel, e.g. "beta" → 2.1.0-beta.0, 2.1.0-beta.1, …
+  build?: string;      // build metadata, e.g. "sha.9f130dd"
+}
+
+// ─── Parse / format ───────────────────────────────────────────────────────────
+// Regex from semver.org, plus an optional leading "v" as used by git tags.
+
+const SEMVER =
+  /^(v?)(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/;
+
+const CHANNEL = /^[a-zA-Z][0-9a-zA-Z-]*$/;
+const IDENTIFIER = /^[0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*$/;
+
+export const parseSemver = (version: string): SemVer | null => {
+  const m = version.trim().match(SEMVER);
+  if (!m) return null;
+  return {
+    prefix: m[1] as "" | "v",
+    major: Number(m[2]),
+    minor: Number(m[3]),
+    patch: Number(m[4]),
+    prerelease: m[5] ? m[5].split(".").map((id) => (/^\d+$/.test(id) ? Number(id) : id)) : [],
+    build: m[6] ? m[6].split(".") : [],
+  };
+};
+
+export const formatSemver = (v: SemVer) =>
+  `${v.prefix}${v.major}.${v.minor}.${v.patch}` +
+  (v.prerelease.length ? `-${v.prerelease.join(".")}` : "") +
+  (v.build.length ? `+${v.build.join(".")}` : "");
+
+// ─── Precedence ───────────────────────────────────────────────────────────────
+// semver.org §11: build metadata is ignored; a prerelease sorts before its
+// release; numeric identifiers sort numerically and before alphanumeric ones.
+
+const compareIdentifiers = (a: string | number, b: string | number) => {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "number") return -1;
+  if (typeof b === "number") return 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+export const compareSemver = (a: SemVer, b: SemVer) => {
+  const core = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+  if (core !== 0) return core;
+  if (!a.prerelease.length || !b.prerelease.length) {
+    return b.prerelease.length - a.prerelease.length;
+  }
+  for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+    if (a.prerelease[i] === undefined) return -1;
+    if (b.prerelease[i] === undefined) return 1;
+    const diff = compareIdentifiers(a.prerelease[i], b.prerelease[i]);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+export const latestSemver = (candidates: string[]) =>
+  candidates
+    .map(parseSemver)
+    .filter((v): v is SemVer => v !== null)
+    .sort(compareSemver)
+    .pop() ?? null;
+
+// ─── Bump ─────────────────────────────────────────────────────────────────────
+
+// Below 1.0.0 the left-most non-zero component acts as the major version:
+// breaking changes bump 0.x's minor, everything else its patch; in 0.0.x every
+// release is a patch bump.
+export const effectiveBump = (v: SemVer, bump: VersionBump): VersionBump => {
+  if (v.major > 0) return bump;
+  if (v.minor > 0) return bump === "major" ? "minor" : "patch";
+  return "patch";
+};
+
+const applyBump = (v: SemVer, bump: VersionBump): SemVer => {
+  const base = { ...v, prerelease: [], build: [] };
+  if (bump === "major") return { ...base, major: v.major + 1, minor: 0, patch: 0 };
+  if (bump === "minor") return { ...base, minor: v.minor + 1, patch: 0 };
+  return { ...base, patch: v.patch + 1 };
+};
+
+// A prerelease of X.Y.Z already carries a bump when its core is X.0.0 (major),
+// X.Y.0 (minor) or anything (patch) — 2.1.0-beta.3 + minor stays on 2.1.0.
+const prereleaseCovers = (v: SemVer, bump: VersionBump) =>
+  bump === "major" ? v.minor === 0 && v.patch === 0 : bump === "minor" ? v.patch === 0 : true;
+
+const assertBumpOptions = ({ prerelease, build }: BumpOptions) => {
+  if (prerelease !== undefined && !CHANNEL.test(prerelease)) {
+    throw new ReleaseNotesError("INVALID_VERSION", `Invalid prerelease channel "${prerelease}"`, 422);
+  }
+  if (build !== undefined && !IDENTIFIER.test(build)) {
+    throw new ReleaseNotesError("INVALID_VERSION", `Invalid build metadata "${build}"`, 422);
+  }
+};
+
+export const bumpSemver = (current: SemVer, requested: VersionBump, options: BumpOptions = {}): SemVer => {
+  assertBumpOptions(options);
+  const { prerelease: channel, build } = options;
+  const bump  = effectiveBump(current, requested);
+  const onPre = current.prerelease.length > 0;
+  let next: SemVer;
+
+  if (onPre && prereleaseCovers(current, bump)) {
+    const core = { ...current, prerelease: [], build: [] };
+    if (!channel) {
+      next = core; // graduate 2.1.0-beta.3 → 2.1.0
+    } else if (current.prerelease[0] === channel && typeof current.prerelease[1] === "number") {
+      next = { ...core, prerelease: [channel, current.prerelease[1] + 1] };
+    } else {
+      next = { ...core, prerelease: [channel, 0] };
+    }
+  } else {
+    next = applyBump(current, bump);
+    if (channel) next = { ...next, prerelease: [channel, 0] };
+  }
+
+  return build ? { ...next, build: build.split(".") } : next;
+};
+
+// The version the first release of a project gets when no previous version exists.
+export const INITIAL_VERSION: SemVer = { prefix: "v", major: 0, minor: 1, patch: 0, prerelease: [], build: [] };
+
+export const nextVersion = (
+  current: string | null,
+  bump: VersionBump,
+  options: BumpOptions = {},
+): string => {
+  if (current === null) {
+    assertBumpOptions(options);
+    const first = options.prerelease ? { ...INITIAL_VERSION, prerelease: [options.prerelease, 0] } : INITIAL_VERSION;
+    return formatSemver(options.build ? { ...first, build: options.build.split(".") } : first);
+  }
+  const parsed = parseSemver(current);
+  if (!parsed) {
+    throw new ReleaseNotesError("INVALID_VERSION", `"${current}" is not a valid semantic version`, 422);
+  }
+  return formatSemver(bumpSemver(parsed, bump, options));
+};
+
+// ─── Calendar versions ────────────────────────────────────────────────────────
+// YYYY.M.MICRO, e.g. v2026.3.0 then v2026.3.1 — month without a leading zero so
+// the result is still valid semver and sorts, tags and diffs like any other
+// version. The first release of a month is MICRO 0; prerelease channels work
+// as in bumpSemver.
+
+export const nextCalendarVersion = (
+  current: string | null,
+  date: string, // YYYY-MM-DD release date
+  options: BumpOptions = {},
+): string => {
+  assertBumpOptions(options);
+  const m = date.match(/^(\d{4})-(\d{2})-\d{2}/);
+  if (!m) throw new ReleaseNotesError("INVALID_VERSION", `Invalid release date "${date}"`, 422);
+  const [year, month] = [Number(m[1]), Number(m[2])];
+
+  const parsed = current === null ? null : parseSemver(current);
+  if (current !== null && !parsed) {
+    throw new ReleaseNotesError("INVALID_VERSION", `"${current}" is not a valid semantic version`, 422);
+  }
+  if (parsed && parsed.major === year && parsed.minor === month) {
+    return formatSemver(bumpSemver(parsed, "patch", options));
+  }
+
+  const { prerelease: channel, build } = options;
+  return formatSemver({
+    prefix:     parsed?.prefix ?? "v",
+    major:      year,
+    minor:      month,
+    patch:      0,
+    prerelease: channel ? [channel, 0] : [],
+    build:      build ? build.split(".") : [],
+  });
+};
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import {
+  closeRunLedger, configureUsage, costOf, exceedsBudget, holdBudget, priceFor, resolveBudget, runLedger, summarizeUsage, toUsageRecord,
+  usageConfigFromEnv,
+} from "./usage.js";
+
+describe("usage records", () => {
+  it("prices calls from the table, by model or by provider", () => {
+    expect(costOf("openai:gpt-4o", 1_000_000, 100_000)).toBe(3.5);
+    expect(costOf("mock:draft", 5000, 5000)).toBe(0);
+    expect(costOf("local:llama3.1:8b", 5000, 5000)).toBeNull();
+
+    configureUsage({ prices: { "local:*": { input: 0.1, output: 0.1 } } });
+    expect(costOf("local:llama3.1:8b", 5_000_000, 5_000_000)).toBe(1);
+  });
+
+  it("only falls back to a provider price for a spec that names its provider", () => {
+    configureUsage({ prices: { "gpt-4:*": { input: 1, output: 1 } } });
+    expect(priceFor("gpt-4o")).toBeNull();
+    expect(priceFor("gpt-4:turbo")).toEqual({ input: 1, output: 1 });
+  });
+
+  it("fills in a missing total", () => {
+    expect(toUsageRecord("draft-release-notes", "openai:gpt-4o-mini", { inputTokens: 2000, outputTokens: 500 }))
+      .toEqual({
+        step: "draft-release-notes", model: "openai:gpt-4o-mini",
+        inputTokens: 2000, outputTokens: 500, totalTokens: 2500, cost: 0.0006,
+      });
+  });
+
+  it("adds up calls per step and per model", () => {
+    const summary = summarizeUsage([
+      toUsageRecord("enrich-features", "openai:gpt-4o", { inputTokens: 1000, outputTokens: 200 }),
+      toUsageRecord("enrich-fixes", "openai:gpt-4o", { inputTokens: 3000, outputTokens: 600 }),
+      toUsageRecord("enrich-fixes", "other:model", { inputTokens: 10, outputTokens: 10 }),
+    ]);
+    expect(summary).toMatchObject({ calls: 3, inputTokens: 4010, outputTokens: 810, totalTokens: 4820, cost: 0.018 });
+    expect(summary.steps["enrich-fixes"]).toMatchObject({ calls: 2, totalTokens: 3620, cost: 0.0135 });
+    expect(summary.models["openai:gpt-4o"]).toMatchObject({ calls: 2, totalTokens: 4800 });
+    expect(summary.unpricedModels).toEqual(["other:model"]);
+  });
+});
+
+describe("budgets", () => {
+  const spent = [toUsageRecord("draft-release-notes", "openai:gpt-4o", { inputTokens: 8000, outputTokens: 1000 })];
+
+  it("reports the limit a call would take the run past", () => {
+    expect(exceedsBudget({ maxTokens: 10_000, maxCost: null }, spent, "openai:gpt-4o", 500, 0)).toBeNull();
+    expect(exceedsBudget({ maxTokens: 10_000, maxCost: null }, spent, "openai:gpt-4o", 1500, 0)).toBe("tokens");
+    expect(exceedsBudget({ maxTokens: null, maxCost: 0.035 }, spent, "openai:gpt-4o", 3000, 0)).toBe("cost");
+    expect(exceedsBudget({ maxTokens: null, maxCost: 0.035 }, spent, "mock:refine", 3000, 0)).toBeNull();
+  });
+
+  it("counts the answer a call may give", () => {
+    expect(exceedsBudget({ maxTokens: 10_000, maxCost: null }, spent, "openai:gpt-4o", 500, 1000)).toBe("tokens");
+    expect(exceedsBudget({ maxTokens: null, maxCost: 0.035 }, spent, "openai:gpt-4o", 500, 200)).toBeNull();
+    expect(exceedsBudget({ maxTokens: null, maxCost: 0.035 }, spent, "openai:gpt-4o", 500, 600)).toBe("cost");
+  });
+
+  it("will not let a call to a model with no price run under a cost limit", () => {
+    expect(exceedsBudget({ maxTokens: null, maxCost: 0.035 }, spent, "other:model", 1, 1)).toBe("unpriced");
+    expect(exceedsBudget({ maxTokens: null, maxCost: null }, spent, "other:model", 1, 1)).toBeNull();
+
+    const ledger = runLedger("run-unpriced", []);
+    expect(holdBudget(ledger, { maxTokens: null, maxCost: 1 }, "draft-release-notes", "other:model", 1, 1).exceeded).toBe("unpriced");
+    expect(ledger.held).toEqual([]);
+    closeRunLedger("run-unpriced");
+  });
+
+  it("holds calls in flight against the run's shared ledger until they are released", () => {
+    const budget = { maxTokens: 10_000, maxCost: null };
+    const ledger = runLedger("run-held", spent);
+    expect(runLedger("run-held", [])).toBe(ledger);
+
+    // Two parallel steps: the second sees the first one's hold, not only what was spent
+    const first = holdBudget(ledger, budget, "enrich-features", "openai:gpt-4o", 200, 400);
+    expect(first.exceeded).toBeNull();
+    expect(holdBudget(ledger, budget, "enrich-fixes", "openai:gpt-4o", 200, 400).exceeded).toBe("tokens");
+
+    first.release();
+    first.release();
+    expect(ledger.held).toEqual([]);
+    expect(holdBudget(ledger, budget, "enrich-fixes", "openai:gpt-4o", 200, 400).exceeded).toBeNull();
+
+    closeRunLedger("run-held");
+    expect(runLedger("run-held", []).records).toEqual([]);
+    closeRunLedger("run-held");
+  });
+
+  it("falls back to the configured default budget", () => {
+    configureUsage(usageConfigFromEnv({ RELEASE_NOTES_MAX_TOKENS: "50000", RELEASE_NOTES_PRICES: "{}" }));
+    expect(resolveBudget({ maxCost: 1 })).toEqual({ maxTokens: 50_000, maxCost: 1 });
+    expect(() => usageConfigFromEnv({ RELEASE_NOTES_PRICES: '{"openai:gpt-4o":{"input":-1}}' })).toThrow();
+  });
+});
@@ -0,0 +1,215 @@
+import type { LanguageModelUsage } from "ai";
+import { z } from "zod";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+// One record per model call: the step that made it, the model spec
+// ("provider:modelId") and the tokens the provider reported. Costs are in USD
+// from the price table; a model the table has no price for costs null, and
+// summaries list it under unpricedModels instead of guessing.
+
+export interface UsageRecord {
+  step: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number | null;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number; // priced calls only
+}
+
+export interface UsageSummary extends UsageTotals {
+  currency: "USD";
+  steps: Record<string, UsageTotals>;
+  models: Record<string, UsageTotals>;
+  unpricedModels: string[];
+}
+
+// null = no limit
+export interface UsageBudget {
+  maxTokens: number | null;
+  maxCost: number | null;
+}
+
+// ─── Prices ───────────────────────────────────────────────────────────────────
+// USD per million tokens, keyed by model spec; "provider:*" prices every model
+// of a provider. RELEASE_NOTES_PRICES takes a JSON table of the same shape,
+// merged over these.
+
+export const modelPriceSchema = z.object({
+  input:  z.number().min(0),
+  output: z.number().min(0),
+});
+
+export type ModelPrice = z.infer<typeof modelPriceSchema>;
+
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "openai:gpt-4o":      { input: 2.5,  output: 10 },
+  "openai:gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "mock:*":             { input: 0,    output: 0 },
+};
+
+export interface UsageConfig {
+  prices: Record<string, ModelPrice>;
+  // Applies to requests that do not set their own
+  defaultBudget: UsageBudget;
+}
+
+let config: UsageConfig = {
+  prices: { ...DEFAULT_PRICES },
+  defaultBudget: { maxTokens: null, maxCost: null },
+};
+
+export const configureUsage = (overrides: Partial<UsageConfig>) => {
+  config = { ...config, ...overrides, prices: { ...config.prices, ...overrides.prices } };
+};
+
+// RELEASE_NOTES_PRICES, RELEASE_NOTES_MAX_TOKENS, RELEASE_NOTES_MAX_COST
+export const usageConfigFromEnv = (env: NodeJS.ProcessEnv = process.env): Partial<UsageConfig> => {
+  const prices = env.RELEASE_NOTES_PRICES
+    ? z.record(z.string(), modelPriceSchema).parse(JSON.parse(env.RELEASE_NOTES_PRICES))
+    : {};
+  return {
+    prices,
+    defaultBudget: {
+      maxTokens: Number(env.RELEASE_NOTES_MAX_TOKENS) || null,
+      maxCost:   Number(env.RELEASE_NOTES_MAX_COST) || null,
+    },
+  };
+};
+
+// A spec without a provider prefix has no provider price to fall back on
+export const priceFor = (model: string): ModelPrice | null =>
+  config.prices[model] ?? (model.includes(":") ? config.prices[`${model.slice(0, model.indexOf(":"))}:*`] : undefined) ?? null;
+
+// Rounded to a millionth of a dollar so sums don't drift
+const round = (usd: number) => Math.round(usd * 1e6) / 1e6;
+
+export const costOf = (model: string, inputTokens: number, outputTokens: number) => {
+  const price = priceFor(model);
+  return price ? round((inputTokens * price.input + outputTokens * price.output) / 1e6) : null;
+};
+
+// ─── Records ──────────────────────────────────────────────────────────────────
+
+// Rough count for text not yet sent: about four characters a token
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export const toUsageRecord = (step: string, model: string, usage: Partial<LanguageModelUsage>): UsageRecord => {
+  const inputTokens  = usage.inputTokens ?? 0;
+  const outputTokens = usage.outputTokens ?? 0;
+  return {
+    step,
+    model,
+    inputTokens,
+    outputTokens,
+    totalTokens: usage.totalTokens ?? inputTokens + outputTokens,
+    cost:        costOf(model, inputTokens, outputTokens),
+  };
+};
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, cost: 0 });
+
+const add = (totals: UsageTotals, r: UsageRecord) => {
+  totals.calls++;
+  totals.inputTokens  += r.inputTokens;
+  totals.outputTokens += r.outputTokens;
+  totals.totalTokens  += r.totalTokens;
+  totals.cost          = round(totals.cost + (r.cost ?? 0));
+};
+
+export const summarizeUsage = (records: UsageRecord[]): UsageSummary => {
+  const total = emptyTotals();
+  const steps: Record<string, UsageTotals> = {};
+  const models: Record<string, UsageTotals> = {};
+  for (const r of records) {
+    add(total, r);
+    add(steps[r.step] ??= emptyTotals(), r);
+    add(models[r.model] ??= emptyTotals(), r);
+  }
+  const unpricedModels = [...new Set(records.filter((r) => r.cost === null).map((r) => r.model))];
+  return { ...total, currency: "USD", steps, models, unpricedModels };
+};
+
+// ─── Budgets ──────────────────────────────────────────────────────────────────
+
+export const resolveBudget = (requested?: Partial<UsageBudget>): UsageBudget => ({
+  maxTokens: requested?.maxTokens ?? config.defaultBudget.maxTokens,
+  maxCost:   requested?.maxCost ?? config.defaultBudget.maxCost,
+});
+
+// Which limit a call to model of about inputTokens in and outputTokens back
+// would take the run past, given what it has spent so far. A cost limit
+// cannot be kept with a model the price table does not know: "unpriced".
+export const exceedsBudget = (
+  budget: UsageBudget,
+  spent: UsageRecord[],
+  model: string,
+  inputTokens: number,
+  outputTokens: number,
+) => {
+  const total = summarizeUsage(spent);
+  if (budget.maxTokens !== null && total.totalTokens + inputTokens + outputTokens > budget.maxTokens) return "tokens" as const;
+  if (budget.maxCost !== null) {
+    const cost = costOf(model, inputTokens, outputTokens);
+    if (cost === null) return "unpriced" as const;
+    if (total.cost + cost > budget.maxCost) return "cost" as const;
+  }
+  return null;
+};
+
+// ─── Run ledgers ──────────────────────────────────────────────────────────────
+// What a run has spent and what its calls in flight hold, shared by all of the
+// run's steps so parallel steps see each other's calls before either records
+// its usage. A run's ledger starts from the usage its step outputs recorded the
+// first time the run is metered in this process (e.g. after a resume).
+
+export interface RunLedger {
+  records: UsageRecord[];
+  held: UsageRecord[]; // estimates of calls in flight
+}
+
+const MAX_LEDGERS = 1000;
+const ledgers = new Map<string, RunLedger>();
+
+export const runLedger = (runId: string, spent: UsageRecord[]): RunLedger => {
+  let ledger = ledgers.get(runId);
+  if (!ledger) {
+    ledger = { records: [...spent], held: [] };
+    ledgers.set(runId, ledger);
+    // Runs that never finish (failed, abandoned reviews) fall out oldest first
+    if (ledgers.size > MAX_LEDGERS) ledgers.delete(ledgers.keys().next().value!);
+  }
+  return ledger;
+};
+
+export const closeRunLedger = (runId: string) => {
+  ledgers.delete(runId);
+};
+
+// Holds an estimated call against the budget; null when the call may go
+// ahead, with the hold in place until release
+export const holdBudget = (
+  ledger: RunLedger,
+  budget: UsageBudget,
+  step: string,
+  model: string,
+  inputTokens: number,
+  outputTokens: number,
+) => {
+  const exceeded = exceedsBudget(budget, [...ledger.records, ...ledger.held], model, inputTokens, outputTokens);
+  if (exceeded) return { exceeded, release: () => {} };
+  const hold = toUsageRecord(step, model, { inputTokens, outputTokens });
+  ledger.held.push(hold);
+  const release = () => {
+    const i = ledger.held.indexOf(hold);
+    if (i >= 0) ledger.held.splice(i, 1);
+  };
+  return { exceeded: null, release };
+};
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { verifyReleaseNotes, type ExpectedNotes } from "./verify.js";
+
+const expected: ExpectedNotes = {
+  version: "v2.1.0",
+  sections: [
+    { heading: "### ✨ Features", entries: [{ sha: "a23ebf4", title: "Google Sign-In" }] },
+    { heading: "### 🐛 Bug Fixes", entries: [{ sha: "80941b8", title: "Expired Tokens Handled" }] },
+    { heading: "### ⚡ Performance", entries: [] },
+  ],
+  knownShas: ["a23ebf4", "80941b8", "1c243ee"],
+  otherHeadings: ["### ⚠️ Breaking Changes", "### 👥 Contributors"],
+};
+
+const good = [
+  "## v2.1.0 — December 2025",
+  "",
+  "### ⚠️ Breaking Changes",
+  "- **Google Sign-In Replaces Passwords** (`a23ebf4`)",
+  "  - **Upgrade steps:**",
+  "",
+  "### ✨ Features",
+  "- **Google Sign-In**: Log in with Google. ([#240](https://github.com/acme/app/pull/240))",
+  "",
+  "### 🐛 Bug Fixes",
+  "- **Expired Tokens Handled**: No more 500s.",
+  "",
+  "### 👥 Contributors",
+  "- Ada",
+].join("\n");
+
+const rules = (markdown: string) => verifyReleaseNotes(markdown, expected).issues.map((i) => i.rule);
+
+describe("verifyReleaseNotes", () => {
+  it("passes notes that cover every entry once", () => {
+    expect(verifyReleaseNotes(good, expected)).toEqual({ passed: true, issues: [] });
+  });
+
+  it("reports missing, duplicated and misplaced entries", () => {
+    const missing = good.replace("- **Expired Tokens Handled**: No more 500s.", "");
+    expect(verifyReleaseNotes(missing, expected).issues).toContainEqual({
+      rule: "coverage",
+      sha: "80941b8",
+      message: 'Add the missing entry 80941b8 ("Expired Tokens Handled") under "### 🐛 Bug Fixes".',
+    });
+    expect(rules(`${good}\n\n### 🔧 Maintenance\n- Expired tokens handled.`)).toEqual(["coverage"]);
+    const moved = good.replace("### 🐛 Bug Fixes", "### 🔧 Maintenance");
+    expect(verifyReleaseNotes(moved, expected).issues[0].message).toBe(
+      'Move entry 80941b8 ("Expired Tokens Handled") from "### 🔧 Maintenance" to "### 🐛 Bug Fixes".',
+    );
+  });
+
+  it("flags entries and shas that match no commit", () => {
+    const invented = good.replace("### 🐛 Bug Fixes", "### 🐛 Bug Fixes\n- **Dark Mode**: Finally here (`9f130dd`).");
+    expect(verifyReleaseNotes(invented, expected).issues.map((i) => i.message)).toEqual([
+      'Remove "**Dark Mode**: Finally here (`9f130dd`)." from "### 🐛 Bug Fixes": it matches no commit in this release.',
+      "Remove commit 9f130dd: it is not in this release.",
+    ]);
+  });
+
+  it("requires empty sections to be left out", () => {
+    expect(rules(`${good}\n\n### ⚡ Performance\n- (none)`)).toEqual(["empty-section"]);
+    expect(rules(good.replace("- Ada", ""))).toEqual(["empty-section"]);
+  });
+
+  it("checks the version header", () => {
+    expect(rules(good.replace("v2.1.0", "v2.1.0-beta.0"))).toEqual(["version-header"]);
+    expect(rules(good.replace("## v2.1.0", "## v2.0.9"))).toEqual(["version-header"]);
+  });
+
+  it("catches malformed Markdown", () => {
+    expect(rules(`Here are your notes:\n\n${good}`)).toEqual(["markdown"]);
+    expect(rules(`${good}\n\n\`\`\`\ncode`)).toEqual(["markdown"]);
+    expect(rules(`${good}\n\n\`\`\`\nnot **checked\n\`\`\``)).toEqual([]);
+    expect(rules(good.replace("**Google Sign-In**:", "**Google Sign-In:"))).toEqual(["markdown"]);
+    expect(rules(good.replace("## v2.1.0 — December 2025", "## v2.1.0 — <monthYear>"))).toEqual(["markdown"]);
+  });
+});
@@ -0,0 +1,188 @@
+// ─── Types ────────────────────────────────────────────────────────────────────
+// Rule-based checks on drafted Markdown, run before and after every refine
+// pass so the quality branch no longer rests on the draft model grading its
+// own work. Entries are recognised by sha when the line shows it, else by the
+// title the workflow gave the draft model.
+
+export interface ExpectedEntry {
+  sha: string;
+  title: string;
+}
+
+export interface ExpectedSection {
+  heading: string;
+  entries: ExpectedEntry[]; // empty sections must be left out of the notes
+}
+
+export interface ExpectedNotes {
+  version: string;
+  sections: ExpectedSection[]; // the template's sections, in order
+  knownShas: string[];         // every commit in the range, merged ones included
+  otherHeadings: string[];     // breaking changes, contributors: not entry sections
+}
+
+export const VERIFICATION_RULES = ["coverage", "unexpected-entry", "empty-section", "version-header", "markdown"] as const;
+export type VerificationRule = (typeof VERIFICATION_RULES)[number];
+
+export interface VerificationIssue {
+  rule: VerificationRule;
+  message: string; // phrased as a fix, so it can go to the refine model as is
+  sha?: string;
+}
+
+export interface VerificationReport {
+  passed: boolean;
+  issues: VerificationIssue[];
+}
+
+// ─── Parsing ──────────────────────────────────────────────────────────────────
+
+export interface ParsedSection {
+  heading: string;
+  entries: string[]; // top-level list items, marker stripped
+}
+
+const ENTRY_LINE = /^[-*+]\s+(.*)$/;
+const NONE_ENTRY = /^\(?(?:none|n\/a)\.?\)?$/i;
+
+const normalize = (s: string) => s.toLowerCase().replace(/[*_`~[\]]/g, "").replace(/\s+/g, " ").trim();
+
+// Splits the notes at every Markdown heading and every known section heading
+// (templates may use bold text rather than "#"); also used by the eval harness
+export const parseSections = (markdown: string, headings: string[]) => {
+  const known = new Set(headings.map((h) => h.trim()));
+  const sections: ParsedSection[] = [];
+  let current: ParsedSection | null = null;
+  for (const line of markdown.split("\n")) {
+    const trimmed = line.trim();
+    if (/^#{1,6}\s/.test(trimmed) || known.has(trimmed)) {
+      current = { heading: trimmed, entries: [] };
+      sections.push(current);
+      continue;
+    }
+    const entry = line.match(ENTRY_LINE);
+    if (current && entry) current.entries.push(entry[1].trim());
+    else if (current && NONE_ENTRY.test(trimmed)) current.entries.push(trimmed);
+  }
+  return sections;
+};
+
+export const mentions = (line: string, entry: ExpectedEntry) =>
+  line.includes(entry.sha) || (entry.title.trim() !== "" && normalize(line).includes(normalize(entry.title)));
+
+// ─── Rules ────────────────────────────────────────────────────────────────────
+
+const checkCoverage = (parsed: ParsedSection[], expected: ExpectedNotes): VerificationIssue[] => {
+  const issues: VerificationIssue[] = [];
+  // The breaking changes section repeats breaking commits by design
+  const other = new Set(expected.otherHeadings.map((h) => h.trim()));
+  const listed = parsed.filter((p) => !other.has(p.heading));
+  for (const section of expected.sections) {
+    for (const entry of section.entries) {
+      const found = listed.flatMap((p) => p.entries.filter((line) => mentions(line, entry)).map(() => p.heading));
+      const label = `${entry.sha} ("${entry.title}")`;
+      if (found.length === 0) {
+        issues.push({ rule: "coverage", sha: entry.sha, message: `Add the missing entry ${label} under "${section.heading}".` });
+      } else if (found.length > 1) {
+        issues.push({
+          rule: "coverage",
+          sha: entry.sha,
+          message: `Entry ${label} appears ${found.length} times (${[...new Set(found)].join(", ")}); keep it once, under "${section.heading}".`,
+        });
+      } else if (found[0] !== section.heading.trim()) {
+        issues.push({ rule: "coverage", sha: entry.sha, message: `Move entry ${label} from "${found[0]}" to "${section.heading}".` });
+      }
+    }
+  }
+  return issues;
+};
+
+// Backticked or parenthesised hex runs with a digit, so words like "added" pass
+const SHA_TOKEN = /[`(]([0-9a-f]{7,40})[`),]/g;
+
+const checkUnexpected = (parsed: ParsedSection[], expected: ExpectedNotes): VerificationIssue[] => {
+  const issues: VerificationIssue[] = [];
+  const all = expected.sections.flatMap((s) => s.entries);
+  const entryHeadings = new Set(expected.sections.map((s) => s.heading.trim()));
+  for (const section of parsed.filter((p) => entryHeadings.has(p.heading))) {
+    for (const line of section.entries) {
+      if (NONE_ENTRY.test(line) || all.some((e) => mentions(line, e))) continue;
+      issues.push({
+        rule: "unexpected-entry",
+        message: `Remove "${line}" from "${section.heading}": it matches no commit in this release.`,
+      });
+    }
+  }
+
+  const known = (token: string) => expected.knownShas.some((sha) => sha.startsWith(token) || token.startsWith(sha));
+  const text = parsed.flatMap((p) => p.entries).join("\n");
+  for (const token of new Set([...text.matchAll(SHA_TOKEN)].map((m) => m[1]))) {
+    if (/\d/.test(token) && !known(token)) {
+      issues.push({ rule: "unexpected-entry", sha: token, message: `Remove commit ${token}: it is not in this release.` });
+    }
+  }
+  return issues;
+};
+
+const checkEmptySections = (parsed: ParsedSection[], expected: ExpectedNotes): VerificationIssue[] => {
+  const headings = new Set([...expected.sections.map((s) => s.heading), ...expected.otherHeadings].map((h) => h.trim()));
+  return parsed
+    .filter((p) => headings.has(p.heading) && p.entries.every((line) => NONE_ENTRY.test(line)))
+    .map((p) => ({ rule: "empty-section" as const, message: `Remove the empty section "${p.heading}".` }));
+};
+
+const checkVersionHeader = (markdown: string, version: string): VerificationIssue[] => {
+  const header = markdown.split("\n").find((l) => /^##\s/.test(l));
+  if (!header) return [{ rule: "version-header", message: `Start the notes with a "## ${version}" header.` }];
+  const escaped = version.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^\\w.])${escaped}(?![\\w.-]*\\d)`).test(header)
+    ? []
+    : [{ rule: "version-header", message: `The version header "${header.trim()}" must name version ${version}.` }];
+};
+
+const checkMarkdown = (markdown: string): VerificationIssue[] => {
+  const issues: VerificationIssue[] = [];
+  const lines = markdown.split("\n");
+  const first = lines.find((l) => l.trim() !== "");
+  if (first && !/^##\s/.test(first)) {
+    issues.push({ rule: "markdown", message: `Remove "${first.trim()}" above the version header.` });
+  }
+  if (lines.filter((l) => /^\s*(```|~~~)/.test(l)).length % 2 === 1) {
+    issues.push({ rule: "markdown", message: "Close the unterminated code block." });
+  }
+
+  let fenced = false;
+  for (const line of lines) {
+    if (/^\s*(```|~~~)/.test(line)) fenced = !fenced;
+    if (fenced || /^\s*(```|~~~)/.test(line)) continue;
+    const text = line.replace(/`[^`]*`/g, "");
+    if (/^#{1,6}\s*$/.test(line.trim())) {
+      issues.push({ rule: "markdown", message: "Give the empty heading a title or remove it." });
+    } else if ((text.match(/\*\*/g) ?? []).length % 2 === 1) {
+      issues.push({ rule: "markdown", message: `Balance the bold markers in "${line.trim()}".` });
+    } else if ((text.match(/`/g) ?? []).length % 2 === 1) {
+      issues.push({ rule: "markdown", message: `Balance the backticks in "${line.trim()}".` });
+    } else if (/\]\([^)\s]*$/.test(text)) {
+      issues.push({ rule: "markdown", message: `Close the link in "${line.trim()}".` });
+    }
+    const placeholder = text.match(/\{\{\s*\w+\s*\}\}|<(?:version|previousVersion|date|monthYear|fromRef|toRef)>/);
+    if (placeholder) {
+      issues.push({ rule: "markdown", message: `Fill in or remove the placeholder ${placeholder[0]} in "${line.trim()}".` });
+    }
+  }
+  return issues;
+};
+
+// ─── Verification ─────────────────────────────────────────────────────────────
+
+export const verifyReleaseNotes = (markdown: string, expected: ExpectedNotes): VerificationReport => {
+  const parsed = parseSections(markdown, [...expected.sections.map((s) => s.heading), ...expected.otherHeadings]);
+  const issues = [
+    ...checkCoverage(parsed, expected),
+    ...checkUnexpected(parsed, expected),
+    ...checkEmptySections(parsed, expected),
+    ...checkVersionHeader(markdown, expected.version),
+    ...checkMarkdown(markdown),
+  ];
+  return { passed: issues.length === 0, issues };
+};
@@ -0,0 +1,114 @@
+import path from "node:path";
+import { createOpenAI, openai } from "@ai-sdk/openai";
+import type { LanguageModelV3 } from "@ai-sdk/provider";
+import { ReleaseNotesError } from "../lib/errors.js";
+import { createReplayModel, withRecording } from "./replay.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+// The workflow stages that call an LLM; each can use a different model.
+export type ModelRole = "parse" | "enrich" | "draft" | "refine" | "translate";
+
+// "provider:modelId", e.g. "openai:gpt-4o", "local:llama3.1:8b", "mock:default"
+export type ModelSpec = string;
+
+export type ModelFactory = (modelId: string) => LanguageModelV3;
+
+export interface ModelConfig {
+  models: Record<ModelRole, ModelSpec>;
+  // OpenAI-compatible endpoint (Ollama, vLLM, LM Studio, …) served as "local:<model>"
+  localBaseURL?: string;
+  localApiKey?: string;
+  // Recorded responses for the "mock" provider
+  fixturesDir: string;
+  strictFixtures: boolean;
+  // Write every real model response to fixturesDir for later replay
+  record: boolean;
+}
+
+export const DEFAULT_MODELS: Record<ModelRole, ModelSpec> = {
+  parse:     "openai:gpt-4o-mini",
+  enrich:    "openai:gpt-4o",
+  draft:     "openai:gpt-4o",
+  refine:    "openai:gpt-4o",
+  translate: "openai:gpt-4o",
+};
+
+const ROLES = Object.keys(DEFAULT_MODELS) as ModelRole[];
+
+// ─── Registry ─────────────────────────────────────────────────────────────────
+
+let config: ModelConfig = {
+  models: { ...DEFAULT_MODELS },
+  fixturesDir: path.resolve("fixtures/llm"),
+  strictFixtures: false,
+  record: false,
+};
+
+const providers = new Map<string, ModelFactory>();
+
+const registerBuiltins = () => {
+  providers.set("openai", (id) => openai(id));
+  providers.set("mock", (id) =>
+    createReplayModel({ modelId: id, fixturesDir: config.fixturesDir, strict: config.strictFixtures }),
+  );
+  if (config.localBaseURL) {
+    const local = createOpenAI({ name: "local", baseURL: config.localBaseURL, apiKey: config.localApiKey ?? "local" });
+    // Local servers implement Chat Completions, not the Responses API
+    providers.set("local", (id) => local.chat(id));
+  } else {
+    providers.delete("local");
+  }
+};
+registerBuiltins();
+
+export const registerModelProvider = (name: string, factory: ModelFactory) => {
+  providers.set(name, factory);
+};
+
+export const configureModels = (overrides: Partial<Omit<ModelConfig, "models">> & { models?: Partial<Record<ModelRole, ModelSpec>> }) => {
+  config = { ...config, ...overrides, models: { ...config.models, ...overrides.models } };
+  registerBuiltins();
+};
+
+export const getModelConfig = (): Readonly<ModelConfig> => config;
+
+export const parseModelSpec = (spec: ModelSpec) => {
+  const i = spec.indexOf(":");
+  return i === -1 ? { provider: "openai", modelId: spec } : { provider: spec.slice(0, i), modelId: spec.slice(i + 1) };
+};
+
+export const resolveModel = (spec: ModelSpec): LanguageModelV3 => {
+  const { provider, modelId } = parseModelSpec(spec);
+  const factory = providers.get(provider);
+  if (!factory) {
+    throw new ReleaseNotesError("UNKNOWN_MODEL_PROVIDER", `No model provider registered as "${provider}" (from "${spec}")`);
+  }
+  const model = factory(modelId);
+  return config.record && provider !== "mock" ? withRecording(model, config.fixturesDir) : model;
+};
+
+export const modelFor = (role: ModelRole) => resolveModel(config.models[role]);
+
+// ─── Environment ──────────────────────────────────────────────────────────────
+//   MODEL_PROVIDER=mock         every role uses "mock:<role>" (offline)
+//   MODEL_PARSE / MODEL_ENRICH / MODEL_DRAFT / MODEL_REFINE / MODEL_TRANSLATE   per-role spec
+//   LOCAL_LLM_BASE_URL, LOCAL_LLM_API_KEY                     "local:" provider
+//   LLM_FIXTURES_DIR, LLM_FIXTURES_STRICT=1, LLM_RECORD=1      replay / record
+
+export const modelConfigFromEnv = (env: NodeJS.ProcessEnv = process.env): Partial<ModelConfig> => {
+  const models = { ...DEFAULT_MODELS };
+  for (const role of ROLES) {
+    if (env.MODEL_PROVIDER === "mock") models[role] = `mock:${role}`;
+    const override = env[`MODEL_${role.toUpperCase()}`];
+    if (override) models[role] = override;
+  }
+  return {
+    models,
+    localBaseURL:   env.LOCAL_LLM_BASE_URL || undefined,
+    localApiKey:    env.LOCAL_LLM_API_KEY || undefined,
+    fixturesDir:    path.resolve(env.LLM_FIXTURES_DIR || "fixtures/llm"),
+    strictFixtures: env.LLM_FIXTURES_STRICT === "1",
+    record:         env.LLM_RECORD === "1",
+  };
+};
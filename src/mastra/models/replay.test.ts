@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { generateObject, generateText } from "ai";
+import { MockLanguageModelV3 } from "ai/test";
+import { z } from "zod";
+import { createReplayModel, withRecording } from "./replay.js";
+import { configureModels, modelConfigFromEnv, modelFor, parseModelSpec } from "./registry.js";
+
+let fixturesDir: string;
+
+beforeEach(() => {
+  fixturesDir = mkdtempSync(path.join(tmpdir(), "llm-fixtures-"));
+});
+
+afterEach(() => rmSync(fixturesDir, { recursive: true, force: true }));
+
+const schema = z.object({ title: z.string(), breaking: z.boolean(), tags: z.array(z.string()) });
+
+// ─── Replay ────────────────────────────────────────────────────────────────────
+
+describe("createReplayModel", () => {
+  it("returns a schema-valid placeholder when no fixture is recorded", async () => {
+    const model = createReplayModel({ modelId: "test", fixturesDir });
+    const { object } = await generateObject({ model, schema, prompt: "Summarise a23ebf4" });
+    expect(object).toEqual({ title: "", breaking: false, tags: [] });
+  });
+
+  it("throws MISSING_FIXTURE in strict mode", async () => {
+    const model = createReplayModel({ modelId: "test", fixturesDir, strict: true });
+    await expect(generateText({ model, prompt: "hello" })).rejects.toThrow(/No recorded LLM response/);
+  });
+
+  it("replays what a recorded model returned for the same prompt", async () => {
+    const real = new MockLanguageModelV3({
+      doGenerate: async () => ({
+        content: [{ type: "text", text: JSON.stringify({ title: "OAuth Sign-In", breaking: false, tags: ["auth"] }) }],
+        finishReason: { unified: "stop", raw: "stop" },
+        usage: {
+          inputTokens: { total: 10, noCache: 10, cacheRead: 0, cacheWrite: 0 },
+          outputTokens: { total: 5, text: 5, reasoning: 0 },
+        },
+        warnings: [],
+      }),
+    });
+
+    await generateObject({ model: withRecording(real, fixturesDir), schema, prompt: "Summarise a23ebf4" });
+    expect(readdirSync(fixturesDir)).toHaveLength(1);
+
+    const replay = createReplayModel({ modelId: "test", fixturesDir, strict: true });
+    const { object } = await generateObject({ model: replay, schema, prompt: "Summarise a23ebf4" });
+    expect(object).toEqual({ title: "OAuth Sign-In", breaking: false, tags: ["auth"] });
+  });
+});
+
+// ─── Registry ──────────────────────────────────────────────────────────────────
+
+describe("model registry", () => {
+  it("splits provider and model id on the first colon", () => {
+    expect(parseModelSpec("local:llama3.1:8b")).toEqual({ provider: "local", modelId: "llama3.1:8b" });
+    expect(parseModelSpec("gpt-4o")).toEqual({ provider: "openai", modelId: "gpt-4o" });
+  });
+
+  it("routes every role to the mock provider with MODEL_PROVIDER=mock, honouring per-role overrides", () => {
+    const config = modelConfigFromEnv({ MODEL_PROVIDER: "mock", MODEL_DRAFT: "local:qwen2.5" });
+    expect(config.models).toEqual({
+      parse: "mock:parse", enrich: "mock:enrich", draft: "local:qwen2.5", refine: "mock:refine", translate: "mock:translate",
+    });
+  });
+
+  it("resolves configured roles to models", () => {
+    configureModels({ models: { refine: "mock:refine" }, fixturesDir });
+    expect(modelFor("refine")).toMatchObject({ provider: "mock", modelId: "refine" });
+    expect(() => configureModels({ models: { refine: "nope:x" } })).not.toThrow();
+    expect(() => modelFor("refine")).toThrow(/No model provider registered as "nope"/);
+  });
+});
@@ -0,0 +1,163 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type {
+  JSONSchema7,
+  LanguageModelV3,
+  LanguageModelV3CallOptions,
+  LanguageModelV3GenerateResult,
+  LanguageModelV3Prompt,
+  LanguageModelV3StreamPart,
+} from "@ai-sdk/provider";
+import { ReleaseNotesError } from "../lib/errors.js";
+import { estimateTokens } from "../lib/usage.js";
+
+// ─── Fixtures ─────────────────────────────────────────────────────────────────
+// One JSON file per distinct call, named by a hash of the prompt and the
+// requested response schema. The same key is produced whichever model made the
+// call, so a run recorded against OpenAI replays under the mock provider.
+
+export interface LlmFixture {
+  key: string;
+  modelId: string;
+  prompt: string;   // flattened, for humans reviewing the fixture
+  response: string; // raw model text (JSON for generateObject calls)
+}
+
+const flattenPrompt = (prompt: LanguageModelV3Prompt) =>
+  prompt
+    .map((m) =>
+      typeof m.content === "string"
+        ? `[${m.role}] ${m.content}`
+        : `[${m.role}] ${m.content.map((p) => ("text" in p ? p.text : `<${p.type}>`)).join("")}`,
+    )
+    .join("\n\n");
+
+export const fixtureKey = (options: Pick<LanguageModelV3CallOptions, "prompt" | "responseFormat">) =>
+  createHash("sha256")
+    .update(JSON.stringify({ prompt: flattenPrompt(options.prompt), responseFormat: options.responseFormat ?? null }))
+    .digest("hex")
+    .slice(0, 16);
+
+const fixturePath = (dir: string, key: string) => path.join(dir, `${key}.json`);
+
+export const readFixture = async (dir: string, key: string): Promise<LlmFixture | null> => {
+  try {
+    return JSON.parse(await readFile(fixturePath(dir, key), "utf8")) as LlmFixture;
+  } catch {
+    return null;
+  }
+};
+
+export const writeFixture = async (dir: string, fixture: LlmFixture) => {
+  await mkdir(dir, { recursive: true });
+  await writeFile(fixturePath(dir, fixture.key), JSON.stringify(fixture, null, 2) + "\n");
+};
+
+// ─── Schema-valid placeholders ────────────────────────────────────────────────
+// Used when a fixture is missing and the mock isn't strict: the smallest value
+// that satisfies the JSON schema, so generateObject still validates.
+
+export const placeholderFor = (schema: JSONSchema7 | boolean | undefined): unknown => {
+  if (!schema || typeof schema === "boolean") return null;
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum?.length) return schema.enum[0];
+  const branch = schema.anyOf ?? schema.oneOf;
+  if (branch?.length) return placeholderFor(branch[0]);
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([k, v]) => [k, placeholderFor(v)]),
+      );
+    case "array":   return [];
+    case "string":  return "";
+    case "number":
+    case "integer": return 0;
+    case "boolean": return false;
+    default:        return null;
+  }
+};
+
+// ─── Replay model ─────────────────────────────────────────────────────────────
+
+export interface ReplayModelOptions {
+  modelId: string;
+  fixturesDir: string;
+  strict?: boolean; // throw on a missing fixture instead of returning a placeholder
+}
+
+export const createReplayModel = ({ modelId, fixturesDir, strict = false }: ReplayModelOptions): LanguageModelV3 => {
+  const respond = async (options: LanguageModelV3CallOptions): Promise<string> => {
+    const key     = fixtureKey(options);
+    const fixture = await readFixture(fixturesDir, key);
+    if (fixture) return fixture.response;
+    if (strict) {
+      throw new ReleaseNotesError("MISSING_FIXTURE", `No recorded LLM response ${key} in ${fixturesDir}`);
+    }
+    const format = options.responseFormat;
+    return format?.type === "json" ? JSON.stringify(placeholderFor(format.schema)) : "";
+  };
+
+  const usage = (options: LanguageModelV3CallOptions, text: string) => {
+    const input = estimateTokens(flattenPrompt(options.prompt));
+    const output = estimateTokens(text);
+    return {
+      inputTokens:  { total: input, noCache: input, cacheRead: 0, cacheWrite: 0 },
+      outputTokens: { total: output, text: output, reasoning: 0 },
+    };
+  };
+
+  return {
+    specificationVersion: "v3",
+    provider: "mock",
+    modelId,
+    supportedUrls: {},
+    async doGenerate(options): Promise<LanguageModelV3GenerateResult> {
+      const text = await respond(options);
+      return {
+        content: [{ type: "text", text }],
+        finishReason: { unified: "stop", raw: "stop" },
+        usage: usage(options, text),
+        warnings: [],
+      };
+    },
+    async doStream(options) {
+      const text = await respond(options);
+      const stream = new ReadableStream<LanguageModelV3StreamPart>({
+        start(controller) {
+          controller.enqueue({ type: "stream-start", warnings: [] });
+          controller.enqueue({ type: "text-start", id: "0" });
+          controller.enqueue({ type: "text-delta", id: "0", delta: text });
+          controller.enqueue({ type: "text-end", id: "0" });
+          controller.enqueue({ type: "finish", finishReason: { unified: "stop", raw: "stop" }, usage: usage(options, text) });
+          controller.close();
+        },
+      });
+      return { stream };
+    },
+  };
+};
+
+// ─── Recording ────────────────────────────────────────────────────────────────
+// Wraps a real model so each non-streaming response is also written as a
+// fixture the replay model can serve later.
+
+export const withRecording = (model: LanguageModelV3, fixturesDir: string): LanguageModelV3 => ({
+  specificationVersion: "v3",
+  provider: model.provider,
+  modelId: model.modelId,
+  supportedUrls: model.supportedUrls,
+  doGenerate: async (options) => {
+    const result = await model.doGenerate(options);
+    const response = result.content.map((part) => (part.type === "text" ? part.text : "")).join("");
+    await writeFixture(fixturesDir, {
+      key: fixtureKey(options),
+      modelId: `${model.provider}:${model.modelId}`,
+      prompt: flattenPrompt(options.prompt),
+      response,
+    });
+    return result;
+  },
+  doStream: (options) => model.doStream(options),
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_PROFILE, describeProduct, projectGuidance, validateProfile } from "./profile.js";
+
+describe("validateProfile", () => {
+  it("fills defaults for optional fields", () => {
+    const result = validateProfile({ name: "atlas", product: "Atlas" });
+    expect(result).toMatchObject({
+      ok: true,
+      profile: {
+        description: "", glossary: {}, tone: "", versionScheme: "semver", links: {}, components: [], packages: [],
+        webhook: { tags: ["v*"], branches: [], pullRequests: [] },
+      },
+    });
+  });
+
+  it("checks link and component settings", () => {
+    const result = validateProfile({
+      name: "atlas", product: "Atlas", links: { forge: "gitea", repoUrl: "acme/app" }, components: [{ scope: "auth", paths: [] }],
+    });
+    expect(!result.ok && result.errors).toEqual([
+      expect.stringMatching(/^links\.forge: /),
+      expect.stringMatching(/^links\.repoUrl: /),
+      "components.0.paths: component needs at least one path pattern",
+    ]);
+  });
+
+  it("checks the webhook repository", () => {
+    const valid = validateProfile({ name: "atlas", product: "Atlas", webhook: { repository: "acme/platform/atlas" } });
+    expect(valid.ok && valid.profile.webhook).toEqual({ tags: ["v*"], branches: [], pullRequests: [], repository: "acme/platform/atlas" });
+    const result = validateProfile({ name: "atlas", product: "Atlas", webhook: { repository: "atlas" } });
+    expect(!result.ok && result.errors).toEqual(['webhook.repository: repository must read "owner/name"']);
+  });
+
+  it("checks package names and dependencies", () => {
+    const result = validateProfile({
+      name: "atlas",
+      product: "Atlas",
+      packages: [
+        { name: "@acme/api", paths: ["packages/api/"] },
+        { name: "@acme/web", paths: ["packages/web/"], dependsOn: ["@acme/api", "@acme/ui"] },
+        { name: "@acme/api", paths: [] },
+      ],
+    });
+    expect(!result.ok && result.errors).toEqual([
+      "packages.2.paths: package needs at least one path pattern",
+      'packages.2.name: duplicate package "@acme/api"',
+      'packages.1.dependsOn.1: unknown package "@acme/ui"',
+    ]);
+  });
+
+  it("lists every problem", () => {
+    const result = validateProfile({ name: "Atlas", versionScheme: "date" });
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.errors).toEqual([
+      "name: name must be lowercase letters, digits and dashes",
+      expect.stringMatching(/^product: /),
+      expect.stringMatching(/^versionScheme: /),
+    ]);
+  });
+});
+
+describe("prompt context", () => {
+  const profile = validateProfile({
+    name: "n-aible",
+    product: "n-aible",
+    description: "an AI-powered EdTech simulation platform",
+    glossary: { cohort: "a class of learners taking a simulation together" },
+    tone: "Speak to educators.",
+  });
+  if (!profile.ok) throw new Error(profile.errors.join("; "));
+
+  it("names the product and what it is", () => {
+    expect(describeProduct(profile.profile)).toBe("n-aible, an AI-powered EdTech simulation platform");
+    expect(describeProduct(DEFAULT_PROFILE)).toBe("a software project");
+  });
+
+  it("adds tone and glossary lines only when the profile has them", () => {
+    expect(projectGuidance(profile.profile)).toBe(
+      "Style: Speak to educators.\n" +
+        "Glossary (use these terms exactly as written):\n" +
+        "- cohort: a class of learners taking a simulation together",
+    );
+    expect(projectGuidance(DEFAULT_PROFILE)).toBe("");
+  });
+});
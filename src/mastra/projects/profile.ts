@@ -0,0 +1,113 @@
+import { z } from "zod";
+
+// ─── Schema ───────────────────────────────────────────────────────────────────
+// A project profile carries everything the prompts used to hardcode about one
+// product: what it is, the domain terms the notes should use as written, how
+// they should sound, and the defaults a request for that project starts from.
+
+const SLUG = /^[a-z0-9][a-z0-9-]*$/;
+
+export const VERSION_SCHEMES = ["semver", "calver"] as const;
+export type VersionScheme = (typeof VERSION_SCHEMES)[number];
+
+// Where entries link to; see LinkConfig in lib/references.ts
+export const linkConfigSchema = z.object({
+  forge: z.enum(["github", "gitlab"]).optional().describe("Fills in commit, pull request and issue URLs from repoUrl"),
+  repoUrl: z.url().optional().describe("e.g. https://github.com/org/repo"),
+  commit: z.string().optional().describe("Commit URL pattern with {sha}"),
+  pullRequest: z.string().optional().describe("Pull/merge request URL pattern with {number}"),
+  issue: z.string().optional().describe("Issue URL pattern with {number}, for #123"),
+  ticket: z.string().optional().describe("Tracker URL pattern with {key}, for keys like ABC-42 (e.g. Jira)"),
+});
+
+// Monorepo packages; see PackageRule in lib/packages.ts
+export const packageConfigSchema = z.object({
+  name: z.string().min(1, "name is required").describe("e.g. @acme/api"),
+  paths: z.array(z.string().min(1)).min(1, "package needs at least one path pattern")
+    .describe("Path patterns a commit must touch to belong to the package"),
+  dependsOn: z.array(z.string()).default([]).describe("Packages whose releases also bump this one"),
+  tagPrefix: z.string().optional().describe('Tags are "<tagPrefix><version>"; defaults to "<name>@"'),
+});
+
+const packagesSchema = z.array(packageConfigSchema).superRefine((packages, ctx) => {
+  const names = new Set<string>();
+  packages.forEach((pkg, i) => {
+    if (names.has(pkg.name)) ctx.addIssue({ code: "custom", path: [i, "name"], message: `duplicate package "${pkg.name}"` });
+    names.add(pkg.name);
+  });
+  packages.forEach((pkg, i) => pkg.dependsOn.forEach((dep, j) => {
+    if (!names.has(dep)) ctx.addIssue({ code: "custom", path: [i, "dependsOn", j], message: `unknown package "${dep}"` });
+  }));
+});
+
+// Which forge webhook deliveries start a run; see lib/changes.ts for the pattern syntax
+export const webhookTriggersSchema = z.object({
+  tags: z.array(z.string().min(1)).default(["v*"])
+    .describe("Tags whose push starts a run; the previous matching tag is where the release begins"),
+  branches: z.array(z.string().min(1)).default([]).describe("Branches whose pushes start a run"),
+  pullRequests: z.array(z.string().min(1)).default([])
+    .describe("Head branches of release pull/merge requests whose merge starts a run, e.g. release/*"),
+  repository: z.string().regex(/^[^\s/]+(\/[^\s/]+)+$/, 'repository must read "owner/name"').optional()
+    .describe("The only forge repository whose deliveries start runs for the project, e.g. acme/app"),
+});
+
+export const projectProfileSchema = z.object({
+  name: z.string().regex(SLUG, "name must be lowercase letters, digits and dashes"),
+  product: z.string().min(1, "product is required").describe("Product name as it appears in the notes"),
+  description: z.string().default("").describe("One line on what the product is, e.g. 'an AI-powered EdTech simulation platform'"),
+  glossary: z.record(z.string(), z.string()).default({})
+    .describe("Domain term → meaning; terms are kept as written, and left untranslated in localized notes"),
+  repoPath: z.string().optional().describe("Git repository used when the request has no repoPath"),
+  template: z.string().optional().describe("Template used when the request has no template"),
+  tone: z.string().default("").describe("Extra style guidance for every prompt"),
+  versionScheme: z.enum(VERSION_SCHEMES).default("semver")
+    .describe("semver bumps by change type; calver releases as YYYY.M.MICRO from the release date"),
+  links: linkConfigSchema.default({}).describe("How pull requests, issues and commits are linked in the notes"),
+  components: z.array(z.object({
+    scope: z.string().min(1, "scope is required"),
+    paths: z.array(z.string().min(1)).min(1, "component needs at least one path pattern"),
+  })).default([]).describe("Path patterns → scope, for commits without a Conventional Commits scope (see lib/changes.ts)"),
+  packages: packagesSchema.default([]).describe("Monorepo packages, each versioned and released on its own"),
+  webhook: webhookTriggersSchema.default({ tags: ["v*"], branches: [], pullRequests: [] })
+    .describe("Forge events that start a run through POST /api/webhooks/{forge}"),
+});
+
+export type ProjectProfile = z.output<typeof projectProfileSchema>;
+
+// Flattens zod issues into "path: message" strings, as validateTemplate does
+export const validateProfile = (input: unknown) => {
+  const parsed = projectProfileSchema.safeParse(input);
+  return parsed.success
+    ? { ok: true as const, profile: parsed.data }
+    : {
+        ok: false as const,
+        errors: parsed.error.issues.map((i) => (i.path.length ? `${i.path.join(".")}: ${i.message}` : i.message)),
+      };
+};
+
+// ─── Built-in default ─────────────────────────────────────────────────────────
+// Used when neither the request nor RELEASE_NOTES_PROJECT names a project.
+
+export const DEFAULT_PROJECT_NAME = "default";
+
+export const DEFAULT_PROFILE: ProjectProfile = projectProfileSchema.parse({
+  name: DEFAULT_PROJECT_NAME,
+  product: "a software project",
+});
+
+// ─── Prompt context ───────────────────────────────────────────────────────────
+
+// "n-aible, an AI-powered EdTech simulation platform"
+export const describeProduct = (profile: ProjectProfile) =>
+  profile.description ? `${profile.product}, ${profile.description}` : profile.product;
+
+// Tone and glossary lines for the prompts; "" when the profile has neither
+export const projectGuidance = (profile: ProjectProfile) => {
+  const lines: string[] = [];
+  if (profile.tone.trim()) lines.push(`Style: ${profile.tone.trim()}`);
+  const terms = Object.entries(profile.glossary);
+  if (terms.length) {
+    lines.push("Glossary (use these terms exactly as written):", ...terms.map(([term, meaning]) => `- ${term}: ${meaning}`));
+  }
+  return lines.join("\n");
+};
@@ -0,0 +1,72 @@
+import { afterAll, beforeEach, describe, it, expect } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { configureProjects, findProfile, findWebhookProject, getProfile, isAllowedRepoPath, listProfiles } from "./store.js";
+
+const dir = mkdtempSync(path.join(tmpdir(), "projects-"));
+
+beforeEach(() => {
+  configureProjects({ dir, defaultProject: "default", repoRoots: [] });
+  writeFileSync(path.join(dir, "atlas.json"), JSON.stringify({ product: "Atlas", versionScheme: "calver" }));
+  writeFileSync(path.join(dir, "broken.json"), JSON.stringify({ description: "no product" }));
+});
+
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+describe("project store", () => {
+  it("lists file profiles and the built-in default, flagging broken files", async () => {
+    expect(await listProfiles()).toEqual([
+      { name: "atlas", product: "Atlas", source: "file" },
+      { name: "broken", product: "", source: "file", errors: [expect.stringMatching(/^product: /)] },
+      { name: "default", product: "a software project", source: "builtin" },
+    ]);
+  });
+
+  it("names file profiles after the file", async () => {
+    expect(await findProfile("atlas")).toMatchObject({ source: "file", profile: { name: "atlas", versionScheme: "calver" } });
+    expect(await findProfile("nope")).toBeNull();
+  });
+
+  it("falls back to the configured default project", async () => {
+    expect((await getProfile()).name).toBe("default");
+    configureProjects({ defaultProject: "atlas" });
+    expect((await getProfile(" ")).product).toBe("Atlas");
+  });
+
+  it("rejects unknown and invalid projects for the workflow", async () => {
+    await expect(getProfile("nope")).rejects.toMatchObject({ code: "UNKNOWN_PROJECT", status: 422 });
+    await expect(getProfile("broken")).rejects.toMatchObject({ code: "INVALID_PROJECT", status: 422 });
+  });
+
+  it("finds the project that takes a repository's webhook deliveries", async () => {
+    writeFileSync(path.join(dir, "beacon.json"), JSON.stringify({ product: "Beacon", webhook: { repository: "acme/beacon" } }));
+    expect(await findWebhookProject("Acme/Beacon")).toBe("beacon");
+    expect(await findWebhookProject("acme/atlas")).toBeNull();
+    rmSync(path.join(dir, "beacon.json"));
+  });
+
+  it("only allows the default repository, the projects' own and those under the repo roots", async () => {
+    const roots = path.join(dir, "repos");
+    writeFileSync(path.join(dir, "beacon.json"), JSON.stringify({ product: "Beacon", repoPath: path.join(dir, "beacon") }));
+
+    expect(await isAllowedRepoPath(process.cwd())).toBe(true);
+    expect(await isAllowedRepoPath(path.join(dir, "beacon", "..", "beacon"))).toBe(true);
+    expect(await isAllowedRepoPath(path.join(dir, "beacon", "src"))).toBe(false);
+    expect(await isAllowedRepoPath(path.join(roots, "app"))).toBe(false);
+
+    configureProjects({ repoRoots: [roots] });
+    expect(await isAllowedRepoPath(path.join(roots, "app"))).toBe(true);
+    expect(await isAllowedRepoPath(path.join(roots, "app", "..", "..", "atlas.json"))).toBe(false);
+    expect(await isAllowedRepoPath(`${roots}-elsewhere`)).toBe(false);
+    expect(await isAllowedRepoPath("/etc")).toBe(false);
+    rmSync(path.join(dir, "beacon.json"));
+  });
+
+  it("ships valid profiles in projects/", async () => {
+    configureProjects({ dir: path.resolve("projects") });
+    const files = (await listProfiles()).filter((p) => p.source === "file");
+    expect(files.length).toBeGreaterThan(0);
+    expect(files.filter((p) => p.errors)).toEqual([]);
+  });
+});
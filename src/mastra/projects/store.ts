@@ -0,0 +1,116 @@
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { ReleaseNotesError } from "../lib/errors.js";
+import { resolveRepoPath } from "../lib/git.js";
+import { DEFAULT_PROFILE, DEFAULT_PROJECT_NAME, validateProfile, type ProjectProfile } from "./profile.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+// Profiles are checked-in projects/<name>.json files plus the built-in default;
+// a file named default.json replaces the built-in one.
+
+export type ProfileSource = "file" | "builtin";
+
+export interface ProfileSummary {
+  name: string;
+  product: string;
+  source: ProfileSource;
+  errors?: string[]; // set for profile files that fail validation
+}
+
+export interface ProjectStoreConfig {
+  dir: string;            // <name>.json files
+  defaultProject: string; // used when a request names no project
+  repoRoots: string[];    // directories whose repositories requests may name
+}
+
+let config: ProjectStoreConfig = {
+  dir: path.resolve(process.env.RELEASE_NOTES_PROJECTS_DIR ?? "projects"),
+  defaultProject: process.env.RELEASE_NOTES_PROJECT || DEFAULT_PROJECT_NAME,
+  repoRoots: (process.env.RELEASE_NOTES_REPO_ROOTS ?? "").split(",").map((r) => r.trim()).filter(Boolean),
+};
+
+export const configureProjects = (overrides: Partial<ProjectStoreConfig>) => {
+  config = { ...config, ...overrides };
+};
+
+export const defaultProjectName = () => config.defaultProject;
+
+// ─── Files ────────────────────────────────────────────────────────────────────
+
+type FileProfile = { name: string; profile?: ProjectProfile; errors?: string[] };
+
+const readFiles = async (): Promise<FileProfile[]> => {
+  let files: string[];
+  try {
+    files = (await readdir(config.dir)).filter((f) => f.endsWith(".json")).sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  return Promise.all(files.map(async (file) => {
+    const name = path.basename(file, ".json");
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await readFile(path.join(config.dir, file), "utf8"));
+    } catch (error) {
+      return { name, errors: [`invalid JSON: ${(error as Error).message}`] };
+    }
+    // The file name is the project name
+    const result = validateProfile({ ...(raw as object), name });
+    return result.ok ? { name, profile: result.profile } : { name, errors: result.errors };
+  }));
+};
+
+// ─── Lookup ───────────────────────────────────────────────────────────────────
+
+export const listProfiles = async (): Promise<ProfileSummary[]> => {
+  const byName = new Map<string, ProfileSummary>();
+  for (const f of await readFiles()) {
+    byName.set(f.name, { name: f.name, product: f.profile?.product ?? "", source: "file", ...(f.errors && { errors: f.errors }) });
+  }
+  if (!byName.has(DEFAULT_PROFILE.name)) {
+    byName.set(DEFAULT_PROFILE.name, { name: DEFAULT_PROFILE.name, product: DEFAULT_PROFILE.product, source: "builtin" });
+  }
+  return [...byName.values()].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const findProfile = async (name: string): Promise<{ profile: ProjectProfile; source: ProfileSource } | null> => {
+  const file = (await readFiles()).find((f) => f.name === name);
+  if (file?.errors) {
+    throw new ReleaseNotesError("INVALID_PROJECT", `Project profile "${name}" is invalid: ${file.errors.join("; ")}`, 422);
+  }
+  if (file?.profile) return { profile: file.profile, source: "file" };
+
+  return name === DEFAULT_PROFILE.name ? { profile: DEFAULT_PROFILE, source: "builtin" } : null;
+};
+
+// The first project whose webhook filters name repository ("acme/app"); null
+// when none does
+export const findWebhookProject = async (repository: string) =>
+  (await readFiles()).find((f) => f.profile?.webhook.repository?.toLowerCase() === repository.toLowerCase())?.name ?? null;
+
+// Resolves a request's project; no name means the configured default
+export const getProfile = async (name?: string) => {
+  const wanted = name?.trim() || config.defaultProject;
+  const found = await findProfile(wanted);
+  if (!found) throw new ReleaseNotesError("UNKNOWN_PROJECT", `Unknown project "${wanted}"`, 422);
+  return found.profile;
+};
+
+// ─── Repositories ─────────────────────────────────────────────────────────────
+// A request may name the default repository (RELEASE_NOTES_REPO_PATH or the
+// working directory), a project's repoPath, or a repository under one of the
+// RELEASE_NOTES_REPO_ROOTS; nothing else on the server's disk.
+
+const isWithin = (root: string, target: string) => {
+  const rel = path.relative(root, target);
+  return rel !== ".." && !rel.startsWith(`..${path.sep}`) && !path.isAbsolute(rel);
+};
+
+export const isAllowedRepoPath = async (repoPath: string) => {
+  const target   = resolveRepoPath(repoPath);
+  const profiles = [DEFAULT_PROFILE, ...(await readFiles()).flatMap((f) => (f.profile ? [f.profile] : []))];
+  const known    = [resolveRepoPath(), ...profiles.flatMap((p) => (p.repoPath ? [resolveRepoPath(p.repoPath)] : []))];
+  return known.includes(target) || config.repoRoots.some((root) => isWithin(path.resolve(root), target));
+};
@@ -0,0 +1,107 @@
+import { beforeEach, describe, it, expect } from "vitest";
+import { createClient } from "@libsql/client";
+import {
+  compareReleases, configureReleaseStore, getRelease, listReleases, listRevisions, saveRelease, searchReleaseEntries,
+  type NewRelease, type ReleaseCommit,
+} from "./store.js";
+
+const commit = (sha: string, type: string, subject: string): ReleaseCommit => ({
+  sha, type, scope: null, subject, author: "Dana", breaking: false, mergedIn: null,
+});
+
+const release = (version: string, entries: Array<[string, string, string]>): NewRelease => ({
+  project:     "n-aible",
+  version,
+  range:       { from: "v1.4.0", to: version },
+  template:    "default",
+  audiences:   ["customer"],
+  releaseDate: "2026-10-01",
+  runId:       null,
+  commits:     entries.map(([sha, type, title]) => commit(sha, type, title)),
+  markdown:    `## ${version}`,
+  document: {
+    version,
+    date:     "2026-10-01",
+    range:    { from: "v1.4.0", to: version },
+    sections: [{
+      id: "features", title: "Features",
+      entries: entries.map(([sha, , title]) => ({ sha, title, description: `${title}.`, breaking: false })),
+    }],
+  },
+  outputs: { formats: {}, variants: [], localizations: [], packages: [] },
+  verification: { passed: true, issues: [] },
+});
+
+beforeEach(() => {
+  const db = createClient({ url: ":memory:" });
+  configureReleaseStore({ db: () => db });
+});
+
+describe("release store", () => {
+  it("keeps earlier revisions when a version is regenerated", async () => {
+    expect(await saveRelease(release("v1.5.0", [["a23ebf4", "feat", "OAuth Support"]])))
+      .toMatchObject({ version: "v1.5.0", revision: 1, commits: 1, entries: 1 });
+    expect(await saveRelease(release("v1.5.0", [["a23ebf4", "feat", "Sign in with Google"]])))
+      .toMatchObject({ revision: 2 });
+
+    expect((await getRelease("n-aible", "v1.5.0"))?.document.sections[0].entries[0].title).toBe("Sign in with Google");
+    expect((await getRelease("n-aible", "v1.5.0", 1))?.document.sections[0].entries[0].title).toBe("OAuth Support");
+    expect((await listRevisions("n-aible", "v1.5.0")).map((r) => r.revision)).toEqual([1, 2]);
+    expect(await listReleases("n-aible")).toHaveLength(1);
+    expect(await getRelease("n-aible", "v9.9.9")).toBeNull();
+  });
+
+  it("searches the latest revisions by text, sha prefix and type", async () => {
+    await saveRelease(release("v1.5.0", [["a23ebf4", "feat", "OAuth Support"], ["c41a2b0", "fix", "Fix 50% CPU"]]));
+    await saveRelease(release("v1.5.0", [["a23ebf4", "feat", "Sign in with Google"], ["c41a2b0", "fix", "Fix 50% CPU"]]));
+
+    expect((await searchReleaseEntries({ q: "oauth" }))).toEqual([]);
+    expect((await searchReleaseEntries({ q: "google" })).map((e) => [e.sha, e.revision])).toEqual([["a23ebf4", 2]]);
+    expect((await searchReleaseEntries({ q: "50%" })).map((e) => e.sha)).toEqual(["c41a2b0"]);
+    expect((await searchReleaseEntries({ sha: "c41a" })).map((e) => e.type)).toEqual(["fix"]);
+    expect((await searchReleaseEntries({ type: "feat", project: "other" }))).toEqual([]);
+  });
+
+  it("keeps unverified releases with their issues, for lists and search to filter", async () => {
+    const issue = { rule: "coverage" as const, message: "Add an entry for commit c41a2b0", sha: "c41a2b0" };
+    await saveRelease(release("v1.4.1", [["9f130dd", "feat", "Dark mode"]]));
+    const unverified = { ...release("v1.5.0", [["a23ebf4", "feat", "OAuth Support"]]), verification: { passed: false, issues: [issue] } };
+    expect(await saveRelease(unverified)).toMatchObject({ version: "v1.5.0", revision: 1, verified: false });
+
+    expect(await getRelease("n-aible", "v1.5.0")).toMatchObject({ verified: false, issues: [issue] });
+    expect((await listReleases("n-aible")).map((r) => [r.version, r.verified])).toEqual([["v1.5.0", false], ["v1.4.1", true]]);
+    expect((await listReleases("n-aible", { verified: true })).map((r) => r.version)).toEqual(["v1.4.1"]);
+    expect((await listReleases("n-aible", { verified: false })).map((r) => r.version)).toEqual(["v1.5.0"]);
+    expect((await searchReleaseEntries({ type: "feat", verified: false })).map((e) => e.sha)).toEqual(["a23ebf4"]);
+  });
+
+  it("treats releases stored before verification was recorded as verified", async () => {
+    const db = createClient({ url: ":memory:" });
+    await db.execute(`CREATE TABLE releases (
+      id INTEGER PRIMARY KEY AUTOINCREMENT, project TEXT NOT NULL, version TEXT NOT NULL, revision INTEGER NOT NULL,
+      from_ref TEXT NOT NULL, to_ref TEXT NOT NULL, template TEXT NOT NULL, audiences TEXT NOT NULL,
+      release_date TEXT NOT NULL, run_id TEXT, commits TEXT NOT NULL, markdown TEXT NOT NULL, document TEXT NOT NULL,
+      outputs TEXT NOT NULL, created_at TEXT NOT NULL, UNIQUE (project, version, revision)
+    )`);
+    await db.execute(`INSERT INTO releases VALUES (1, 'n-aible', 'v1.3.0', 1, 'v1.2.0', 'v1.3.0', 'default', '[]',
+      '2026-09-01', NULL, '[]', '## v1.3.0', '{"sections":[]}', '{}', '2026-09-01T00:00:00.000Z')`);
+    configureReleaseStore({ db: () => db });
+
+    expect(await getRelease("n-aible", "v1.3.0")).toMatchObject({ verified: true, issues: [] });
+    expect(await saveRelease(release("v1.5.0", []))).toMatchObject({ revision: 1, verified: true });
+  });
+
+  it("lists commits and entries added, dropped or reworded between two releases", async () => {
+    await saveRelease(release("v1.5.0-rc.1", [["a23ebf4", "feat", "OAuth Support"], ["c41a2b0", "fix", "Fix login"]]));
+    await saveRelease(release("v1.5.0", [["a23ebf4", "feat", "Sign in with Google"], ["9f130dd", "feat", "Dark mode"]]));
+
+    const diff = compareReleases((await getRelease("n-aible", "v1.5.0-rc.1"))!, (await getRelease("n-aible", "v1.5.0"))!);
+    expect(diff.commits.added.map((c) => c.sha)).toEqual(["9f130dd"]);
+    expect(diff.commits.dropped.map((c) => c.sha)).toEqual(["c41a2b0"]);
+    expect(diff.entries.added.map((e) => e.title)).toEqual(["Dark mode"]);
+    expect(diff.entries.dropped.map((e) => e.title)).toEqual(["Fix login"]);
+    expect(diff.entries.changed).toMatchObject([
+      { sha: "a23ebf4", from: { title: "OAuth Support" }, to: { title: "Sign in with Google" } },
+    ]);
+  });
+});
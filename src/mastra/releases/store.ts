@@ -0,0 +1,358 @@
+import type { Client, InValue } from "@libsql/client";
+import { getDb } from "../db.js";
+import type { ReleaseDocument, RenderedFormats, SectionId } from "../lib/formats.js";
+import type { VerificationIssue, VerificationReport } from "../lib/verify.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+// Every finalized run is kept as a release of its project: the range, the
+// template and audiences it was written for, the commits it covered and what
+// it rendered, translations included. Regenerating a version adds a revision
+// instead of overwriting the last one; lists, lookups and search use the
+// latest revision unless one is asked for. Notes that failed verification are
+// kept too, marked unverified with the issues found.
+
+export interface ReleaseCommit {
+  sha: string;
+  type: string;
+  scope: string | null;
+  subject: string;
+  author: string;
+  breaking: boolean;
+  mergedIn: string | null;
+}
+
+export interface ReleaseOutputs {
+  formats: RenderedFormats;
+  variants: Array<{ audience: string; markdown: string }>;
+  localizations: Array<{ locale: string; markdown: string }>; // translations of markdown
+  packages: Array<{ name: string; version: string; markdown: string }>;
+}
+
+export interface NewRelease {
+  project: string;
+  version: string;
+  range: { from: string; to: string };
+  template: string;
+  audiences: string[];
+  releaseDate: string;
+  runId: string | null;
+  commits: ReleaseCommit[];
+  markdown: string;
+  document: ReleaseDocument;
+  outputs: ReleaseOutputs;
+  verification: VerificationReport;
+}
+
+export interface ReleaseSummary {
+  project: string;
+  version: string;
+  revision: number;
+  range: { from: string; to: string };
+  template: string;
+  audiences: string[];
+  releaseDate: string;
+  runId: string | null;
+  verified: boolean; // the notes passed verification
+  commits: number;
+  entries: number;
+  createdAt: string;
+}
+
+export interface StoredRelease extends Omit<ReleaseSummary, "commits" | "entries"> {
+  issues: VerificationIssue[];
+  commits: ReleaseCommit[];
+  markdown: string;
+  document: ReleaseDocument;
+  outputs: ReleaseOutputs;
+}
+
+// One entry of a release's notes, as search and comparisons return it
+export interface ReleaseEntryRecord {
+  project: string;
+  version: string;
+  revision: number;
+  section: SectionId;
+  sha: string;
+  type: string | null; // null when the commit is not in the release's commit list
+  title: string;
+  description: string;
+  breaking: boolean;
+}
+
+export interface ReleaseEntryFilter {
+  project?: string;
+  q?: string;    // text in the title or description
+  sha?: string;  // prefix
+  type?: string;
+  verified?: boolean;
+}
+
+export interface ReleaseStoreConfig {
+  db: () => Client;
+}
+
+let config: ReleaseStoreConfig = { db: getDb };
+
+export const configureReleaseStore = (overrides: Partial<ReleaseStoreConfig>) => {
+  config = { ...config, ...overrides };
+};
+
+// ─── Database ─────────────────────────────────────────────────────────────────
+
+const tables = new WeakMap<Client, Promise<unknown>>();
+
+// Histories written before releases recorded verification: their releases
+// were all verified ones
+const migrate = async (client: Client) => {
+  const { rows } = await client.execute("PRAGMA table_info(releases)");
+  if (rows.some((r) => r.name === "verified")) return;
+  await client.batch([
+    "ALTER TABLE releases ADD COLUMN verified INTEGER NOT NULL DEFAULT 1",
+    "ALTER TABLE releases ADD COLUMN issues TEXT NOT NULL DEFAULT '[]'",
+  ], "write");
+};
+
+const db = async () => {
+  const client = config.db();
+  if (!tables.has(client)) {
+    tables.set(client, client.batch([
+      `CREATE TABLE IF NOT EXISTS releases (
+        id           INTEGER PRIMARY KEY AUTOINCREMENT,
+        project      TEXT NOT NULL,
+        version      TEXT NOT NULL,
+        revision     INTEGER NOT NULL,
+        from_ref     TEXT NOT NULL,
+        to_ref       TEXT NOT NULL,
+        template     TEXT NOT NULL,
+        audiences    TEXT NOT NULL,
+        release_date TEXT NOT NULL,
+        run_id       TEXT,
+        verified     INTEGER NOT NULL DEFAULT 1,
+        issues       TEXT NOT NULL DEFAULT '[]',
+        commits      TEXT NOT NULL,
+        markdown     TEXT NOT NULL,
+        document     TEXT NOT NULL,
+        outputs      TEXT NOT NULL,
+        created_at   TEXT NOT NULL,
+        UNIQUE (project, version, revision)
+      )`,
+      // One row per entry of the notes, for search
+      `CREATE TABLE IF NOT EXISTS release_entries (
+        release_id  INTEGER NOT NULL REFERENCES releases (id),
+        section     TEXT NOT NULL,
+        sha         TEXT NOT NULL,
+        type        TEXT,
+        title       TEXT NOT NULL,
+        description TEXT NOT NULL,
+        breaking    INTEGER NOT NULL
+      )`,
+      "CREATE INDEX IF NOT EXISTS release_entries_release ON release_entries (release_id)",
+      "CREATE INDEX IF NOT EXISTS release_entries_sha ON release_entries (sha)",
+    ], "write").then(() => migrate(client)));
+  }
+  await tables.get(client);
+  return client;
+};
+
+// Rows of the latest revision of each version
+const LATEST = `revision = (SELECT MAX(revision) FROM releases latest
+                WHERE latest.project = releases.project AND latest.version = releases.version)`;
+
+const toSummary = (row: Record<string, unknown>): ReleaseSummary => ({
+  project:     String(row.project),
+  version:     String(row.version),
+  revision:    Number(row.revision),
+  range:       { from: String(row.from_ref), to: String(row.to_ref) },
+  template:    String(row.template),
+  audiences:   JSON.parse(String(row.audiences)),
+  releaseDate: String(row.release_date),
+  runId:       row.run_id === null ? null : String(row.run_id),
+  verified:    Number(row.verified) === 1,
+  commits:     Number(row.commit_count),
+  entries:     Number(row.entry_count),
+  createdAt:   String(row.created_at),
+});
+
+const toRelease = (row: Record<string, unknown>): StoredRelease => {
+  const { commits: _, entries: __, ...summary } = toSummary(row);
+  return {
+    ...summary,
+    issues:   JSON.parse(String(row.issues)),
+    commits:  JSON.parse(String(row.commits)),
+    markdown: String(row.markdown),
+    document: JSON.parse(String(row.document)),
+    outputs:  JSON.parse(String(row.outputs)),
+  };
+};
+
+const SUMMARY_COLUMNS = `project, version, revision, from_ref, to_ref, template, audiences, release_date, run_id,
+  verified, created_at, json_array_length(commits) AS commit_count,
+  (SELECT COUNT(*) FROM release_entries WHERE release_id = releases.id) AS entry_count`;
+
+const entriesOf = (release: Pick<StoredRelease, "project" | "version" | "revision" | "commits" | "document">) => {
+  const types = new Map(release.commits.map((c) => [c.sha, c.type] as const));
+  return release.document.sections.flatMap((section) => section.entries.map((e): ReleaseEntryRecord => ({
+    project:     release.project,
+    version:     release.version,
+    revision:    release.revision,
+    section:     section.id,
+    sha:         e.sha,
+    type:        types.get(e.sha) ?? null,
+    title:       e.title,
+    description: e.description,
+    breaking:    e.breaking,
+  })));
+};
+
+// ─── Releases ─────────────────────────────────────────────────────────────────
+
+// Stores the release as the next revision of its version, in one batch so two
+// runs finishing together can't both take the same revision
+export const saveRelease = async (release: NewRelease): Promise<ReleaseSummary> => {
+  const createdAt = new Date().toISOString();
+  const entries   = entriesOf({ ...release, revision: 0 });
+  const key       = [release.project, release.version];
+  const results   = await (await db()).batch([
+    {
+      sql: `INSERT INTO releases
+              (project, version, revision, from_ref, to_ref, template, audiences, release_date, run_id, verified,
+               issues, commits, markdown, document, outputs, created_at)
+            SELECT ?, ?, COALESCE(MAX(revision), 0) + 1, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?
+            FROM releases WHERE project = ? AND version = ?`,
+      args: [
+        ...key, release.range.from, release.range.to, release.template, JSON.stringify(release.audiences),
+        release.releaseDate, release.runId, release.verification.passed ? 1 : 0,
+        JSON.stringify(release.verification.issues), JSON.stringify(release.commits), release.markdown,
+        JSON.stringify(release.document), JSON.stringify(release.outputs), createdAt, ...key,
+      ],
+    },
+    ...entries.map((e) => ({
+      sql: `INSERT INTO release_entries (release_id, section, sha, type, title, description, breaking)
+            SELECT MAX(id), ?, ?, ?, ?, ?, ? FROM releases WHERE project = ? AND version = ?`,
+      args: [e.section, e.sha, e.type, e.title, e.description, e.breaking ? 1 : 0, ...key],
+    })),
+    { sql: "SELECT MAX(revision) AS revision FROM releases WHERE project = ? AND version = ?", args: key },
+  ], "write");
+  const { commits, markdown: _, document: __, outputs: ___, verification, ...rest } = release;
+  return {
+    ...rest,
+    verified: verification.passed,
+    revision: Number(results[results.length - 1].rows[0].revision),
+    commits:  commits.length,
+    entries:  entries.length,
+    createdAt,
+  };
+};
+
+// Latest revision of each version, newest first; verified keeps only latest
+// revisions that passed (true) or failed (false) verification
+export const listReleases = async (
+  project: string,
+  { limit = 100, offset = 0, verified }: { limit?: number; offset?: number; verified?: boolean } = {},
+) => {
+  const { rows } = await (await db()).execute({
+    sql:  `SELECT ${SUMMARY_COLUMNS} FROM releases WHERE project = ? AND ${LATEST}
+           ${verified === undefined ? "" : "AND verified = ?"}
+           ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`,
+    args: verified === undefined ? [project, limit, offset] : [project, verified ? 1 : 0, limit, offset],
+  });
+  return rows.map((r) => toSummary(r as Record<string, unknown>));
+};
+
+// Every revision of one version, oldest first
+export const listRevisions = async (project: string, version: string) => {
+  const { rows } = await (await db()).execute({
+    sql:  `SELECT ${SUMMARY_COLUMNS} FROM releases WHERE project = ? AND version = ? ORDER BY revision`,
+    args: [project, version],
+  });
+  return rows.map((r) => toSummary(r as Record<string, unknown>));
+};
+
+// The latest revision unless one is given; null when there is no such release
+export const getRelease = async (project: string, version: string, revision?: number) => {
+  const { rows } = await (await db()).execute({
+    sql:  `SELECT *, ${SUMMARY_COLUMNS} FROM releases WHERE project = ? AND version = ?
+           AND ${revision === undefined ? LATEST : "revision = ?"}`,
+    args: revision === undefined ? [project, version] : [project, version, revision],
+  });
+  return rows.length ? toRelease(rows[0] as Record<string, unknown>) : null;
+};
+
+// ─── Search ───────────────────────────────────────────────────────────────────
+// Matches entries of the latest revisions; text matches ignore ASCII case and
+// sha matches by prefix, so an abbreviated sha finds its entries.
+
+export const searchReleaseEntries = async (filter: ReleaseEntryFilter, limit = 100) => {
+  const clauses = [LATEST];
+  const args: InValue[] = [];
+  if (filter.project) { clauses.push("project = ?"); args.push(filter.project); }
+  if (filter.sha)     { clauses.push("sha LIKE ?"); args.push(`${filter.sha}%`); }
+  if (filter.type)    { clauses.push("type = ?"); args.push(filter.type); }
+  if (filter.verified !== undefined) { clauses.push("verified = ?"); args.push(filter.verified ? 1 : 0); }
+  if (filter.q) {
+    const pattern = `%${filter.q.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+    clauses.push("(title LIKE ? ESCAPE '\\' OR description LIKE ? ESCAPE '\\')");
+    args.push(pattern, pattern);
+  }
+  const { rows } = await (await db()).execute({
+    sql:  `SELECT project, version, revision, section, sha, type, title, description, breaking
+           FROM release_entries JOIN releases ON releases.id = release_entries.release_id
+           WHERE ${clauses.join(" AND ")} ORDER BY created_at DESC, release_entries.rowid LIMIT ?`,
+    args: [...args, limit],
+  });
+  return rows.map((row): ReleaseEntryRecord => ({
+    project:     String(row.project),
+    version:     String(row.version),
+    revision:    Number(row.revision),
+    section:     String(row.section),
+    sha:         String(row.sha),
+    type:        row.type === null ? null : String(row.type),
+    title:       String(row.title),
+    description: String(row.description),
+    breaking:    Number(row.breaking) === 1,
+  }));
+};
+
+// ─── Comparison ───────────────────────────────────────────────────────────────
+// What changed between two releases (two versions, or two revisions of one):
+// commits and entries in `to` but not in `from` were added, the reverse were
+// dropped, and entries for the same commit whose wording differs are changed.
+
+export interface ReleaseComparison {
+  from: ReleaseSummary;
+  to: ReleaseSummary;
+  commits: { added: ReleaseCommit[]; dropped: ReleaseCommit[] };
+  entries: {
+    added: ReleaseEntryRecord[];
+    dropped: ReleaseEntryRecord[];
+    changed: Array<{ sha: string; from: ReleaseEntryRecord; to: ReleaseEntryRecord }>;
+  };
+}
+
+const summarize = (release: StoredRelease): ReleaseSummary => ({
+  ...release,
+  commits: release.commits.length,
+  entries: release.document.sections.reduce((n, s) => n + s.entries.length, 0),
+});
+
+export const compareReleases = (from: StoredRelease, to: StoredRelease): ReleaseComparison => {
+  const missingFrom = <T extends { sha: string }>(list: T[], other: T[]) => {
+    const shas = new Set(other.map((x) => x.sha));
+    return list.filter((x) => !shas.has(x.sha));
+  };
+  const before = entriesOf(from);
+  const after  = entriesOf(to);
+  const previous = new Map(before.map((e) => [e.sha, e] as const));
+  const changed = after.flatMap((e) => {
+    const old = previous.get(e.sha);
+    return old && (old.title !== e.title || old.description !== e.description || old.section !== e.section)
+      ? [{ sha: e.sha, from: old, to: e }]
+      : [];
+  });
+  return {
+    from:    summarize(from),
+    to:      summarize(to),
+    commits: { added: missingFrom(to.commits, from.commits), dropped: missingFrom(from.commits, to.commits) },
+    entries: { added: missingFrom(after, before), dropped: missingFrom(before, after), changed },
+  };
+};
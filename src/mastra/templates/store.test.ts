@@ -0,0 +1,62 @@
+import { afterAll, beforeEach, describe, it, expect } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { createClient, type Client } from "@libsql/client";
+import { configureTemplates, deleteTemplate, findTemplate, getTemplate, listTemplates, saveTemplate } from "./store.js";
+import { validateTemplate } from "./template.js";
+
+const dir = mkdtempSync(path.join(tmpdir(), "templates-"));
+let db: Client;
+
+const define = (name: string, heading: string) => {
+  const result = validateTemplate({ name, sections: [{ id: "all", heading, types: ["feat"] }] });
+  if (!result.ok) throw new Error(result.errors.join("; "));
+  return result.template;
+};
+
+beforeEach(() => {
+  db = createClient({ url: ":memory:" });
+  configureTemplates({ dir, db: () => db });
+  writeFileSync(path.join(dir, "compact.json"), JSON.stringify({ sections: [{ id: "all", heading: "**All**", types: ["feat"] }] }));
+  writeFileSync(path.join(dir, "broken.json"), JSON.stringify({ sections: [] }));
+});
+
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+describe("template store", () => {
+  it("lists built-in, file and database templates, flagging broken files", async () => {
+    await saveTemplate(define("team", "### Team"));
+    expect(await listTemplates()).toEqual([
+      { name: "broken", description: "", source: "file", errors: ["sections: template needs at least one section"] },
+      { name: "compact", description: "", source: "file" },
+      { name: "default", description: expect.any(String), source: "builtin" },
+      { name: "team", description: "", source: "database" },
+    ]);
+  });
+
+  it("prefers database over file over built-in", async () => {
+    expect((await findTemplate("compact"))?.source).toBe("file");
+    await saveTemplate(define("compact", "### Overridden"));
+    expect(await findTemplate("compact")).toMatchObject({ source: "database", template: { sections: [{ heading: "### Overridden" }] } });
+    expect(await deleteTemplate("compact")).toBe(true);
+    expect((await findTemplate("compact"))?.source).toBe("file");
+  });
+
+  it("reports created vs replaced on save", async () => {
+    expect(await saveTemplate(define("team", "### A"))).toBe(true);
+    expect(await saveTemplate(define("team", "### B"))).toBe(false);
+  });
+
+  it("rejects unknown and invalid templates for the workflow", async () => {
+    await expect(getTemplate("nope")).rejects.toMatchObject({ code: "UNKNOWN_TEMPLATE", status: 422 });
+    await expect(getTemplate("broken")).rejects.toMatchObject({ code: "INVALID_TEMPLATE", status: 422 });
+  });
+
+  it("ships valid templates in templates/", async () => {
+    configureTemplates({ dir: path.resolve("templates"), db: () => db });
+    const files = (await listTemplates()).filter((t) => t.source === "file");
+    expect(files.length).toBeGreaterThan(0);
+    expect(files.filter((t) => t.errors)).toEqual([]);
+  });
+});
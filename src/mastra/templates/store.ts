@@ -0,0 +1,144 @@
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import type { Client } from "@libsql/client";
+import { getDb } from "../db.js";
+import { ReleaseNotesError } from "../lib/errors.js";
+import { DEFAULT_TEMPLATE, validateTemplate, type ReleaseTemplate } from "./template.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+// Templates come from three places; a name found in more than one resolves to
+// the first of database → file → built-in, so a stored template can override a
+// checked-in one.
+
+export type TemplateSource = "database" | "file" | "builtin";
+
+export interface TemplateSummary {
+  name: string;
+  description: string;
+  source: TemplateSource;
+  errors?: string[]; // set for template files that fail validation
+}
+
+export interface TemplateStoreConfig {
+  dir: string;      // <name>.json files
+  db: () => Client;
+}
+
+let config: TemplateStoreConfig = {
+  dir: path.resolve(process.env.RELEASE_NOTES_TEMPLATES_DIR ?? "templates"),
+  db: getDb,
+};
+
+export const configureTemplates = (overrides: Partial<TemplateStoreConfig>) => {
+  config = { ...config, ...overrides };
+};
+
+// ─── Database ─────────────────────────────────────────────────────────────────
+
+const tables = new WeakMap<Client, Promise<unknown>>();
+
+const db = async () => {
+  const client = config.db();
+  if (!tables.has(client)) {
+    tables.set(client, client.execute(`
+      CREATE TABLE IF NOT EXISTS release_note_templates (
+        name       TEXT PRIMARY KEY,
+        definition TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`));
+  }
+  await tables.get(client);
+  return client;
+};
+
+const readStored = async (): Promise<ReleaseTemplate[]> => {
+  const { rows } = await (await db()).execute("SELECT definition FROM release_note_templates ORDER BY name");
+  return rows.map((r) => JSON.parse(String(r.definition)));
+};
+
+// ─── Files ────────────────────────────────────────────────────────────────────
+
+type FileTemplate = { name: string; template?: ReleaseTemplate; errors?: string[] };
+
+const readFiles = async (): Promise<FileTemplate[]> => {
+  let files: string[];
+  try {
+    files = (await readdir(config.dir)).filter((f) => f.endsWith(".json")).sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  return Promise.all(files.map(async (file) => {
+    const name = path.basename(file, ".json");
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await readFile(path.join(config.dir, file), "utf8"));
+    } catch (error) {
+      return { name, errors: [`invalid JSON: ${(error as Error).message}`] };
+    }
+    // The file name is the template name
+    const result = validateTemplate({ ...(raw as object), name });
+    return result.ok ? { name, template: result.template } : { name, errors: result.errors };
+  }));
+};
+
+// ─── Lookup ───────────────────────────────────────────────────────────────────
+
+export const listTemplates = async (): Promise<TemplateSummary[]> => {
+  const byName = new Map<string, TemplateSummary>();
+  const add = (summary: TemplateSummary) => {
+    if (!byName.has(summary.name)) byName.set(summary.name, summary);
+  };
+
+  for (const t of await readStored()) add({ name: t.name, description: t.description, source: "database" });
+  for (const f of await readFiles()) {
+    add({ name: f.name, description: f.template?.description ?? "", source: "file", ...(f.errors && { errors: f.errors }) });
+  }
+  add({ name: DEFAULT_TEMPLATE.name, description: DEFAULT_TEMPLATE.description, source: "builtin" });
+
+  return [...byName.values()].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const findTemplate = async (name: string): Promise<{ template: ReleaseTemplate; source: TemplateSource } | null> => {
+  const { rows } = await (await db()).execute({
+    sql:  "SELECT definition FROM release_note_templates WHERE name = ?",
+    args: [name],
+  });
+  if (rows.length) return { template: JSON.parse(String(rows[0].definition)), source: "database" };
+
+  const file = (await readFiles()).find((f) => f.name === name);
+  if (file?.errors) {
+    throw new ReleaseNotesError("INVALID_TEMPLATE", `Template "${name}" is invalid: ${file.errors.join("; ")}`, 422);
+  }
+  if (file?.template) return { template: file.template, source: "file" };
+
+  return name === DEFAULT_TEMPLATE.name ? { template: DEFAULT_TEMPLATE, source: "builtin" } : null;
+};
+
+export const getTemplate = async (name: string) => {
+  const found = await findTemplate(name);
+  if (!found) throw new ReleaseNotesError("UNKNOWN_TEMPLATE", `Unknown template "${name}"`, 422);
+  return found.template;
+};
+
+// ─── Writes (database only) ───────────────────────────────────────────────────
+
+// Returns true when the template did not exist in the database before
+export const saveTemplate = async (template: ReleaseTemplate) => {
+  const client = await db();
+  const now = new Date().toISOString();
+  const existing = await client.execute({ sql: "SELECT 1 FROM release_note_templates WHERE name = ?", args: [template.name] });
+  await client.execute({
+    sql: `INSERT INTO release_note_templates (name, definition, created_at, updated_at) VALUES (?, ?, ?, ?)
+          ON CONFLICT(name) DO UPDATE SET definition = excluded.definition, updated_at = excluded.updated_at`,
+    args: [template.name, JSON.stringify(template), now, now],
+  });
+  return existing.rows.length === 0;
+};
+
+export const deleteTemplate = async (name: string) => {
+  const result = await (await db()).execute({ sql: "DELETE FROM release_note_templates WHERE name = ?", args: [name] });
+  return result.rowsAffected > 0;
+};
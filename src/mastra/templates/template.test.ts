@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_TEMPLATE, describeLayout, ensureClosingSection, ensureFooter, formatEntry, headerValues, validateTemplate,
+} from "./template.js";
+
+const entry = {
+  sha: "a23ebf4", type: "feat" as const, scope: "auth", title: "Google Sign-In", description: "Log in with Google.", breaking: false,
+};
+
+describe("validateTemplate", () => {
+  it("fills in defaults for a minimal template", () => {
+    const result = validateTemplate({ name: "minimal", sections: [{ id: "all", heading: "### Changes", types: ["feat", "fix"] }] });
+    expect(result.ok && result.template).toMatchObject({
+      header: "## {{version}} — {{monthYear}}",
+      entry: "- {{breaking}}**{{title}}**: {{description}}",
+      footer: "",
+    });
+  });
+
+  it("reports every problem with its path", () => {
+    const result = validateTemplate({
+      name: "Bad Name",
+      header: "# Release",
+      entry: "- {{title}} by {{author}}",
+      sections: [
+        { id: "features", heading: "### Features", types: ["feat"] },
+        { id: "features", heading: "### More", types: ["feat", "fix"] },
+      ],
+    });
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.errors).toEqual([
+      "name: name must be lowercase letters, digits and dashes",
+      "header: header must be a '## ' heading containing {{version}}",
+      "entry: unknown placeholder {{author}} in entry",
+      'sections.1.id: duplicate section id "features"',
+      'sections.1.types: commit type "feat" is already mapped to section "features"',
+    ]);
+  });
+});
+
+describe("rendering", () => {
+  it("formats entries with the section override and breaking label", () => {
+    const [features, , , maintenance] = DEFAULT_TEMPLATE.sections;
+    expect(formatEntry(DEFAULT_TEMPLATE, features, entry)).toBe("- **Google Sign-In**: Log in with Google.");
+    expect(formatEntry(DEFAULT_TEMPLATE, maintenance, { ...entry, type: "chore", breaking: true }))
+      .toBe("- **BREAKING:** Google Sign-In.");
+  });
+
+  it("appends links unless the entry format places {{refs}}", () => {
+    const [features] = DEFAULT_TEMPLATE.sections;
+    const links = [
+      { label: "#240", url: "https://github.com/acme/app/pull/240", relation: "pull" as const },
+      { label: "#9", url: null, relation: "closes" as const },
+    ];
+    expect(formatEntry(DEFAULT_TEMPLATE, features, { ...entry, links }))
+      .toBe("- **Google Sign-In**: Log in with Google. ([#240](https://github.com/acme/app/pull/240), closes #9)");
+    expect(formatEntry(DEFAULT_TEMPLATE, { ...features, entry: "- {{refs}} {{title}}" }, { ...entry, links: links.slice(1) }))
+      .toBe("- (closes #9) Google Sign-In");
+    // {{sha}} already names the commit
+    const commit = [{ label: "a23ebf4", url: "https://github.com/acme/app/commit/a23ebf4", relation: "commit" as const }];
+    expect(formatEntry(DEFAULT_TEMPLATE, { ...features, entry: "- {{title}} ({{sha}})" }, { ...entry, links: commit }))
+      .toBe("- Google Sign-In (a23ebf4)");
+  });
+
+  it("derives monthYear from the date and leaves unknown values for the model", () => {
+    expect(headerValues({ version: "v2.1.0", date: "2025-12-04" })).toMatchObject({ monthYear: "December 2025" });
+    expect(describeLayout(DEFAULT_TEMPLATE, headerValues({ version: "v2.1.0" })).split("\n\n")[0]).toBe("## v2.1.0 — <monthYear>");
+  });
+
+  it("appends the footer once", () => {
+    expect(ensureFooter("## v1\n\n- a\n", "Thanks!")).toBe("## v1\n\n- a\n\nThanks!");
+    expect(ensureFooter("## v1\n\n- a\n\nThanks!\n", "Thanks!")).toBe("## v1\n\n- a\n\nThanks!");
+  });
+
+  it("puts closing sections above the footer once, in order", () => {
+    const people = "### 👥 Contributors\n- Ada";
+    expect(ensureClosingSection("## v1\n\n- a\n\nThanks!", people, "Thanks!"))
+      .toBe("## v1\n\n- a\n\n### 👥 Contributors\n- Ada\n\nThanks!");
+    expect(ensureClosingSection("## v1\n\n- a\n", people, "")).toBe("## v1\n\n- a\n\n### 👥 Contributors\n- Ada");
+    expect(ensureClosingSection("## v1\n\n### 👥 Contributors\n- Ada, Grace", people, "")).toBe("## v1\n\n### 👥 Contributors\n- Ada, Grace");
+    expect(ensureClosingSection("## v1", "", "")).toBe("## v1");
+    const withPackages = ensureClosingSection("## v1\n\nThanks!", "### 📦 Packages\n- **api** 1.1.0", "Thanks!");
+    expect(ensureClosingSection(withPackages, people, "Thanks!"))
+      .toBe("## v1\n\n### 📦 Packages\n- **api** 1.1.0\n\n### 👥 Contributors\n- Ada\n\nThanks!");
+  });
+});
@@ -0,0 +1,204 @@
+import { z } from "zod";
+import { COMMIT_TYPES, type CommitType } from "../lib/conventionalCommits.js";
+import { formatLinksMarkdown, type EntryLink } from "../lib/references.js";
+
+// ─── Schema ───────────────────────────────────────────────────────────────────
+// A template fixes the Markdown layout the draft model is asked for: header and
+// footer blocks, section order and headings, which commit types land in which
+// section, and how each entry is written. Commit types no section claims are
+// left out of the notes. Breaking commits are additionally collected, with a
+// migration guide each, under breakingHeading right below the header, and the
+// release's authors are listed under contributorsHeading above the footer. For
+// monorepo projects, packagesHeading lists each package's new version above
+// the contributors. The other output formats (lib/formats.ts) follow the
+// template's sections too.
+//
+// Placeholders use {{name}}:
+//   header / footer  version, previousVersion, date, monthYear, fromRef, toRef
+//   entry            title, description, sha, scope, type, breaking, refs
+// {{breaking}} expands to breakingLabel for breaking entries and to "" otherwise.
+// {{refs}} is the entry's pull request and issue links, e.g. "([#240](…), closes
+// [#9](…))"; entry formats without it get the links appended.
+
+export const HEADER_FIELDS = ["version", "previousVersion", "date", "monthYear", "fromRef", "toRef"] as const;
+export const ENTRY_FIELDS  = ["title", "description", "sha", "scope", "type", "breaking", "refs"] as const;
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+const SLUG = /^[a-z0-9][a-z0-9-]*$/;
+
+const unknownPlaceholders = (text: string, allowed: readonly string[]) =>
+  [...text.matchAll(PLACEHOLDER)].map((m) => m[1]).filter((name) => !allowed.includes(name));
+
+export const templateSectionSchema = z.object({
+  id: z.string().regex(SLUG, "section id must be lowercase letters, digits and dashes"),
+  heading: z.string().min(1, "section heading is required"),
+  types: z.array(z.enum(COMMIT_TYPES)).min(1, "section must claim at least one commit type"),
+  entry: z.string().optional().describe("Overrides the template's entry format for this section"),
+});
+
+export const templateSchema = z.object({
+  name: z.string().regex(SLUG, "name must be lowercase letters, digits and dashes"),
+  description: z.string().default(""),
+  header: z.string().default("## {{version}} — {{monthYear}}"),
+  footer: z.string().default(""),
+  entry: z.string().default("- {{breaking}}**{{title}}**: {{description}}"),
+  breakingLabel: z.string().default("**BREAKING:** "),
+  breakingHeading: z.string().min(1, "breakingHeading must not be empty").default("### ⚠️ Breaking Changes"),
+  contributorsHeading: z.string().default("### 👥 Contributors").describe("Empty leaves the contributors out"),
+  packagesHeading: z.string().default("### 📦 Packages").describe("Empty leaves the package versions out"),
+  sections: z.array(templateSectionSchema).min(1, "template needs at least one section"),
+}).superRefine((t, ctx) => {
+  // The version header is what enforceVersionHeader rewrites, so it must exist
+  if (!/^##\s/.test(t.header) || !/\{\{\s*version\s*\}\}/.test(t.header)) {
+    ctx.addIssue({ code: "custom", path: ["header"], message: "header must be a '## ' heading containing {{version}}" });
+  }
+  for (const [field, allowed] of [["header", HEADER_FIELDS], ["footer", HEADER_FIELDS], ["entry", ENTRY_FIELDS]] as const) {
+    for (const name of unknownPlaceholders(t[field], allowed)) {
+      ctx.addIssue({ code: "custom", path: [field], message: `unknown placeholder {{${name}}} in ${field}` });
+    }
+  }
+
+  const ids = new Set<string>();
+  const claimed = new Map<CommitType, string>();
+  t.sections.forEach((section, i) => {
+    if (ids.has(section.id)) {
+      ctx.addIssue({ code: "custom", path: ["sections", i, "id"], message: `duplicate section id "${section.id}"` });
+    }
+    ids.add(section.id);
+    for (const type of section.types) {
+      const owner = claimed.get(type);
+      if (owner) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["sections", i, "types"],
+          message: `commit type "${type}" is already mapped to section "${owner}"`,
+        });
+      }
+      claimed.set(type, section.id);
+    }
+    for (const name of unknownPlaceholders(section.entry ?? "", ENTRY_FIELDS)) {
+      ctx.addIssue({ code: "custom", path: ["sections", i, "entry"], message: `unknown placeholder {{${name}}} in entry` });
+    }
+  });
+});
+
+export type ReleaseTemplate = z.output<typeof templateSchema>;
+export type ReleaseTemplateInput = z.input<typeof templateSchema>;
+
+// Flattens zod issues into "path: message" strings for API responses
+export const validateTemplate = (input: unknown) => {
+  const parsed = templateSchema.safeParse(input);
+  return parsed.success
+    ? { ok: true as const, template: parsed.data }
+    : {
+        ok: false as const,
+        errors: parsed.error.issues.map((i) => (i.path.length ? `${i.path.join(".")}: ${i.message}` : i.message)),
+      };
+};
+
+// ─── Built-in default ─────────────────────────────────────────────────────────
+// The layout the draft prompt has always used.
+
+export const DEFAULT_TEMPLATE_NAME = "default";
+
+export const DEFAULT_TEMPLATE: ReleaseTemplate = templateSchema.parse({
+  name: DEFAULT_TEMPLATE_NAME,
+  description: "Emoji section headings; features, fixes, performance, then maintenance",
+  sections: [
+    { id: "features",    heading: "### ✨ Features",    types: ["feat"] },
+    { id: "fixes",       heading: "### 🐛 Bug Fixes",   types: ["fix"] },
+    { id: "performance", heading: "### ⚡ Performance", types: ["perf"] },
+    { id: "maintenance", heading: "### 🔧 Maintenance", types: ["chore", "docs", "refactor", "test"], entry: "- {{breaking}}{{title}}." },
+  ],
+});
+
+// ─── Rendering ────────────────────────────────────────────────────────────────
+
+export interface HeaderInput {
+  version: string;
+  previousVersion?: string | null;
+  date?: string | null; // YYYY-MM-DD
+  fromRef?: string;
+  toRef?: string;
+}
+
+// Values for header and footer placeholders; monthYear is derived from date
+export const headerValues = ({ date, ...rest }: HeaderInput): Partial<Record<string, string | null>> => ({
+  ...rest,
+  date: date ?? null,
+  monthYear: date
+    ? new Date(`${date}T00:00:00Z`).toLocaleString("en-US", { month: "long", year: "numeric", timeZone: "UTC" })
+    : null,
+});
+
+// Unfilled placeholders are kept as "<name>" so the draft model fills them in.
+export const fillPlaceholders = (text: string, values: Partial<Record<string, string | null>>) =>
+  text.replace(PLACEHOLDER, (_, name: string) => values[name] ?? `<${name}>`);
+
+export const sectionForType = (template: ReleaseTemplate, type: CommitType) =>
+  template.sections.find((s) => s.types.includes(type)) ?? null;
+
+export interface TemplateEntry {
+  sha: string;
+  type: CommitType;
+  scope: string | null;
+  title: string;
+  description: string;
+  breaking: boolean;
+  links?: EntryLink[];
+}
+
+// Formats that show {{sha}} already name the commit, so its link is not repeated
+export const formatEntry = (
+  template: ReleaseTemplate,
+  section: ReleaseTemplate["sections"][number],
+  { links = [], ...entry }: TemplateEntry,
+) => {
+  const format = section.entry ?? template.entry;
+  const refs = formatLinksMarkdown(/\{\{\s*sha\s*\}\}/.test(format) ? links.filter((l) => l.relation !== "commit") : links);
+  const line = fillPlaceholders(format, {
+    ...entry,
+    scope: entry.scope ?? "",
+    breaking: entry.breaking ? template.breakingLabel : "",
+    refs,
+  });
+  return refs && !/\{\{\s*refs\s*\}\}/.test(format) ? `${line} ${refs}` : line;
+};
+
+// The example layout shown to the draft model: header, the breaking changes
+// section when the release has one, every section with a sample entry, footer.
+export const describeLayout = (
+  template: ReleaseTemplate,
+  header: Partial<Record<string, string | null>>,
+  footer = fillPlaceholders(template.footer, header),
+  breaking = "",
+) => {
+  const sample: TemplateEntry = {
+    sha: "abc1234", type: "feat", scope: null, title: "Title", description: "Description.", breaking: false,
+  };
+  const blocks = [
+    fillPlaceholders(template.header, header),
+    ...(breaking.trim() ? [breaking.trim()] : []),
+    ...template.sections.map((s) => `${s.heading}\n${formatEntry(template, s, sample)}`),
+  ];
+  if (footer.trim()) blocks.push(footer);
+  return blocks.join("\n\n");
+};
+
+// Puts a rendered closing section (packages, contributors) right above the
+// footer unless the notes already have its heading; run after ensureFooter
+export const ensureClosingSection = (markdown: string, section: string, footer: string) => {
+  const trimmed = markdown.trimEnd();
+  const heading = section.split("\n")[0].trim();
+  if (!heading || trimmed.split("\n").some((l) => l.trim() === heading)) return trimmed;
+  if (!footer.trim() || !trimmed.endsWith(footer.trim())) return `${trimmed}\n\n${section}`;
+  const body = trimmed.slice(0, trimmed.length - footer.trim().length).trimEnd();
+  return `${body}\n\n${section}\n\n${footer.trim()}`;
+};
+
+// Appends the rendered footer unless the notes already end with it
+export const ensureFooter = (markdown: string, footer: string) => {
+  const trimmed = markdown.trimEnd();
+  if (!footer.trim() || trimmed.endsWith(footer.trim())) return trimmed;
+  return `${trimmed}\n\n${footer.trim()}`;
+};
@@ -0,0 +1,30 @@
+import { beforeEach, describe, it, expect } from "vitest";
+import { createClient } from "@libsql/client";
+import { claimDelivery, configureWebhookDeliveries, recordDelivery, releaseDelivery } from "./deliveries.js";
+
+const delivery = { forge: "github", deliveryId: "72d3162e-cc78-11e3-81ab-4c9367dc0958", event: "push", project: "acme" };
+
+beforeEach(() => {
+  const db = createClient({ url: ":memory:" });
+  configureWebhookDeliveries({ db: () => db });
+});
+
+describe("webhook deliveries", () => {
+  it("claims a delivery once and answers repeats with its outcome", async () => {
+    expect(await claimDelivery(delivery)).toBeNull();
+    await recordDelivery("github", delivery.deliveryId, { status: "started", runId: "run-1" });
+
+    expect(await claimDelivery(delivery)).toMatchObject({ status: "started", runId: "run-1", reason: null });
+    expect(await claimDelivery({ ...delivery, forge: "gitlab" })).toBeNull();
+  });
+
+  it("releases a claim whose run never started", async () => {
+    expect(await claimDelivery(delivery)).toBeNull();
+    await releaseDelivery("github", delivery.deliveryId);
+    expect(await claimDelivery(delivery)).toBeNull();
+
+    await recordDelivery("github", delivery.deliveryId, { status: "ignored", reason: "ping" });
+    await releaseDelivery("github", delivery.deliveryId);
+    expect(await claimDelivery(delivery)).toMatchObject({ status: "ignored", reason: "ping" });
+  });
+});
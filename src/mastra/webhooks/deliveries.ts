@@ -0,0 +1,106 @@
+import type { Client } from "@libsql/client";
+import { getDb } from "../db.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+// Forges retry a delivery that timed out and let users redeliver by hand, so
+// each delivery id is claimed once: a repeat gets the first outcome instead of
+// a second run. A claim whose run failed to start is released for the retry.
+
+export type DeliveryStatus = "received" | "started" | "ignored";
+
+export interface WebhookDelivery {
+  forge: string;
+  deliveryId: string;
+  event: string;
+  project: string;
+  status: DeliveryStatus;
+  runId: string | null;
+  reason: string | null; // why an ignored delivery started nothing
+  receivedAt: string;
+}
+
+export interface WebhookDeliveriesConfig {
+  db: () => Client;
+}
+
+let config: WebhookDeliveriesConfig = { db: getDb };
+
+export const configureWebhookDeliveries = (overrides: Partial<WebhookDeliveriesConfig>) => {
+  config = { ...config, ...overrides };
+};
+
+// ─── Database ─────────────────────────────────────────────────────────────────
+
+const tables = new WeakMap<Client, Promise<unknown>>();
+
+const db = async () => {
+  const client = config.db();
+  if (!tables.has(client)) {
+    tables.set(client, client.execute(`CREATE TABLE IF NOT EXISTS webhook_deliveries (
+      forge       TEXT NOT NULL,
+      delivery_id TEXT NOT NULL,
+      event       TEXT NOT NULL,
+      project     TEXT NOT NULL,
+      status      TEXT NOT NULL,
+      run_id      TEXT,
+      reason      TEXT,
+      received_at TEXT NOT NULL,
+      PRIMARY KEY (forge, delivery_id)
+    )`));
+  }
+  await tables.get(client);
+  return client;
+};
+
+const toDelivery = (row: Record<string, unknown>): WebhookDelivery => ({
+  forge:      String(row.forge),
+  deliveryId: String(row.delivery_id),
+  event:      String(row.event),
+  project:    String(row.project),
+  status:     String(row.status) as DeliveryStatus,
+  runId:      row.run_id === null ? null : String(row.run_id),
+  reason:     row.reason === null ? null : String(row.reason),
+  receivedAt: String(row.received_at),
+});
+
+// ─── Deliveries ───────────────────────────────────────────────────────────────
+
+// null when this call claimed the delivery; the earlier claim when it was a repeat
+export const claimDelivery = async (delivery: Pick<WebhookDelivery, "forge" | "deliveryId" | "event" | "project">) => {
+  const client = await db();
+  const inserted = await client.execute({
+    sql: `INSERT INTO webhook_deliveries (forge, delivery_id, event, project, status, received_at)
+          VALUES (?, ?, ?, ?, 'received', ?) ON CONFLICT DO NOTHING`,
+    args: [delivery.forge, delivery.deliveryId, delivery.event, delivery.project, new Date().toISOString()],
+  });
+  if (inserted.rowsAffected > 0) return null;
+  const { rows } = await client.execute({
+    sql:  "SELECT * FROM webhook_deliveries WHERE forge = ? AND delivery_id = ?",
+    args: [delivery.forge, delivery.deliveryId],
+  });
+  return toDelivery(rows[0] as Record<string, unknown>);
+};
+
+export const recordDelivery = async (
+  forge: string,
+  deliveryId: string,
+  outcome: { status: "started"; runId: string } | { status: "ignored"; reason: string },
+) => {
+  await (await db()).execute({
+    sql:  "UPDATE webhook_deliveries SET status = ?, run_id = ?, reason = ? WHERE forge = ? AND delivery_id = ?",
+    args: [
+      outcome.status,
+      outcome.status === "started" ? outcome.runId : null,
+      outcome.status === "ignored" ? outcome.reason : null,
+      forge,
+      deliveryId,
+    ],
+  });
+};
+
+export const releaseDelivery = async (forge: string, deliveryId: string) => {
+  await (await db()).execute({
+    sql:  "DELETE FROM webhook_deliveries WHERE forge = ? AND delivery_id = ? AND status = 'received'",
+    args: [forge, deliveryId],
+  });
+};
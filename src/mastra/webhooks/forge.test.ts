@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { parseForgeEvent, planWebhookRun, signBody, verifySignature, webhookProjectRefusal, type Forge } from "./forge.js";
+
+// ─── Recorded deliveries ───────────────────────────────────────────────────────
+
+const fixture = (name: string) =>
+  JSON.parse(readFileSync(new URL(`./fixtures/${name}.json`, import.meta.url), "utf8")) as {
+    headers: Record<string, string>;
+    payload: Record<string, any>;
+  };
+
+const event = (forge: Forge, name: string) => {
+  const { headers, payload } = fixture(name);
+  return parseForgeEvent(forge, headers, payload);
+};
+
+// ─── Fixture repository ────────────────────────────────────────────────────────
+
+let repo: string;
+
+const git = (...args: string[]) =>
+  execFileSync("git", ["-C", repo, "-c", "user.name=Ada", "-c", "user.email=ada@example.com", ...args], {
+    encoding: "utf8",
+  }).trim();
+
+const commit = (file: string, message: string) => {
+  writeFileSync(path.join(repo, file), message);
+  git("add", file);
+  git("commit", "-q", "-m", message);
+  return git("rev-parse", "HEAD");
+};
+
+let released: string; // tagged v1.5.0
+let merged: string;   // between v1.4.0 and v1.5.0
+
+beforeAll(() => {
+  repo = mkdtempSync(path.join(tmpdir(), "release-notes-webhooks-"));
+  git("init", "-q", "-b", "main");
+  commit("a.txt", "chore: initial commit");
+  git("tag", "v1.4.0");
+  merged = commit("b.txt", "feat: saml login");
+  released = commit("c.txt", "chore(release): 1.5.0");
+  git("tag", "v1.5.0");
+});
+
+afterAll(() => rmSync(repo, { recursive: true, force: true }));
+
+const triggers = { tags: ["v*"], branches: [], pullRequests: ["release/*"] };
+
+// ─── Signatures ────────────────────────────────────────────────────────────────
+
+describe("verifySignature", () => {
+  const body = Buffer.from(JSON.stringify(fixture("github-push-tag").payload));
+
+  it("checks GitHub's HMAC of the raw body", () => {
+    const headers = { "x-hub-signature-256": signBody(body, "s3cret") };
+    expect(verifySignature("github", headers, body, "s3cret")).toBe(true);
+    expect(verifySignature("github", headers, Buffer.concat([body, Buffer.from(" ")]), "s3cret")).toBe(false);
+    expect(verifySignature("github", headers, body, "other")).toBe(false);
+    expect(verifySignature("github", {}, body, "s3cret")).toBe(false);
+  });
+
+  it("checks GitLab's token", () => {
+    expect(verifySignature("gitlab", { "x-gitlab-token": "s3cret" }, body, "s3cret")).toBe(true);
+    expect(verifySignature("gitlab", { "x-gitlab-token": "s3cre" }, body, "s3cret")).toBe(false);
+  });
+});
+
+// ─── Payloads ──────────────────────────────────────────────────────────────────
+
+describe("parseForgeEvent", () => {
+  it("reads tag pushes", () => {
+    expect(event("github", "github-push-tag")).toEqual({
+      forge: "github", event: "push", deliveryId: "72d3162e-cc78-11e3-81ab-4c9367dc0958", kind: "tag",
+      ref: "v1.5.0", base: null, sha: "9f130dd3c1f5b6a4e8d2c7b0a1e4f3d2c1b0a998", repository: "acme/app",
+    });
+    expect(event("gitlab", "gitlab-tag-push")).toMatchObject({
+      deliveryId: "13792a34-cac6-4fda-95a8-c58e00a3954e", kind: "tag", ref: "v1.5.0",
+      sha: "9f130dd3c1f5b6a4e8d2c7b0a1e4f3d2c1b0a998", repository: "acme/app",
+    });
+  });
+
+  it("reads merged pull and merge requests", () => {
+    for (const [forge, name] of [["github", "github-pull-request-merged"], ["gitlab", "gitlab-merge-request-merged"]] as const) {
+      expect(event(forge, name)).toMatchObject({
+        kind: "merge", ref: "release/1.5.0", base: "main", sha: "4e8d2c7b0a1e4f3d2c1b0a9989f130dd3c1f5b6a",
+      });
+    }
+  });
+
+  it("leaves pings, deletions and open pull requests as other", () => {
+    expect(event("github", "github-ping").kind).toBe("other");
+    const { headers, payload } = fixture("github-push-tag");
+    expect(parseForgeEvent("github", headers, { ...payload, deleted: true, after: "0".repeat(40) }).kind).toBe("other");
+    const pr = fixture("github-pull-request-merged");
+    expect(parseForgeEvent("github", pr.headers, { ...pr.payload, action: "opened" }).kind).toBe("other");
+  });
+});
+
+// ─── Projects ──────────────────────────────────────────────────────────────────
+
+describe("webhookProjectRefusal", () => {
+  const triggers = { tags: ["v*"], branches: [], pullRequests: [] };
+
+  it("lets a project take deliveries only from the repository it names", () => {
+    const tag = event("github", "github-push-tag");
+    expect(webhookProjectRefusal(tag, "app", { ...triggers, repository: "Acme/App" }, true)).toBeNull();
+    expect(webhookProjectRefusal(tag, "app", { ...triggers, repository: "acme/app" }, false)).toBeNull();
+    expect(webhookProjectRefusal(tag, "billing", { ...triggers, repository: "acme/billing" }, true))
+      .toBe('deliveries from acme/app cannot start runs for project "billing", which takes acme/billing');
+    expect(webhookProjectRefusal({ ...tag, repository: null }, "app", { ...triggers, repository: "acme/app" }, false))
+      .toMatch(/^deliveries from an unnamed repository/);
+  });
+
+  it("keeps ?project= from picking a project that names no repository", () => {
+    const merge = event("gitlab", "gitlab-merge-request-merged");
+    expect(webhookProjectRefusal(merge, "default", triggers, true)).toMatch(/^project "default" names no webhook repository/);
+    expect(webhookProjectRefusal(merge, "default", triggers, false)).toBeNull();
+  });
+});
+
+// ─── Triggers ──────────────────────────────────────────────────────────────────
+
+describe("planWebhookRun", () => {
+  const at = (name: string, sha: string, forge: Forge = "github") => ({ ...event(forge, name), sha });
+
+  it("releases a pushed tag from the tag before it", async () => {
+    expect(await planWebhookRun(at("github-push-tag", released), triggers, repo))
+      .toEqual({ run: true, fromRef: "v1.4.0", toRef: "v1.5.0" });
+  });
+
+  it("releases a merged release pull request from the last tag", async () => {
+    expect(await planWebhookRun(at("gitlab-merge-request-merged", merged, "gitlab"), triggers, repo))
+      .toEqual({ run: true, fromRef: "v1.4.0", toRef: merged });
+  });
+
+  it("ignores deliveries the filters do not cover", async () => {
+    const push = { ...at("github-push-tag", released), kind: "push" as const, ref: "main" };
+    expect(await planWebhookRun(push, triggers, repo)).toEqual({
+      run: false, reason: "push to main matches none of the project's webhook filters",
+    });
+    expect(await planWebhookRun(push, { ...triggers, branches: ["main"] }, repo))
+      .toEqual({ run: false, reason: "nothing to release since v1.5.0" });
+    expect(await planWebhookRun(at("github-push-tag", released), { ...triggers, tags: ["web@*"] }, repo))
+      .toMatchObject({ run: false, reason: "tag v1.5.0 matches none of the project's webhook filters" });
+    expect(await planWebhookRun(event("github", "github-ping"), triggers, repo))
+      .toEqual({ run: false, reason: '"ping" deliveries do not start a release' });
+  });
+
+  it("ignores commits the repository does not have", async () => {
+    expect(await planWebhookRun(event("github", "github-push-tag"), triggers, repo)).toEqual({
+      run: false, reason: `commit 9f130dd3c1f5b6a4e8d2c7b0a1e4f3d2c1b0a998 is not in ${repo}`,
+    });
+  });
+});
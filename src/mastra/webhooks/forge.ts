@@ -0,0 +1,168 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { globToRegExp } from "../lib/changes.js";
+import { ensureCommit, nearestTag, verifyRef } from "../lib/git.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+// GitHub and GitLab webhook deliveries, reduced to what decides whether a
+// release run starts and over which range: a tag push, a branch push or a
+// merged pull/merge request, with the commit it ends at.
+
+export const FORGES = ["github", "gitlab"] as const;
+export type Forge = (typeof FORGES)[number];
+
+export type ForgeEventKind = "tag" | "push" | "merge" | "other";
+
+export interface ForgeEvent {
+  forge: Forge;
+  event: string;             // X-GitHub-Event / X-Gitlab-Event, e.g. "push", "Tag Push Hook"
+  deliveryId: string | null; // X-GitHub-Delivery / X-Gitlab-Event-UUID
+  kind: ForgeEventKind;
+  ref: string | null;        // tag or branch pushed; head branch of a merged pull request
+  base: string | null;       // branch a pull request was merged into
+  sha: string | null;        // commit the release runs up to
+  repository: string | null; // "acme/app"
+}
+
+export interface WebhookTriggers {
+  tags: string[];
+  branches: string[];
+  pullRequests: string[];
+  repository?: string;       // "acme/app"; see webhookProjectRefusal
+}
+
+export type WebhookPlan =
+  | { run: true; fromRef: string; toRef: string }
+  | { run: false; reason: string };
+
+type Headers = Record<string, string | string[] | undefined>;
+type Payload = Record<string, any>;
+
+const header = (headers: Headers, name: string) => {
+  const value = headers[name];
+  return (Array.isArray(value) ? value[0] : value) ?? null;
+};
+
+// ─── Signatures ───────────────────────────────────────────────────────────────
+// GitHub signs the raw body: X-Hub-Signature-256 is "sha256=" and the hex
+// HMAC-SHA256 of it under the shared secret. GitLab sends the secret itself in
+// X-Gitlab-Token. Both are compared in constant time.
+
+const safeEqual = (a: string, b: string) => {
+  const [x, y] = [Buffer.from(a), Buffer.from(b)];
+  return x.length === y.length && timingSafeEqual(x, y);
+};
+
+export const signBody = (body: Buffer | string, secret: string) =>
+  `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+
+export const verifySignature = (forge: Forge, headers: Headers, body: Buffer, secret: string) => {
+  const provided = forge === "github" ? header(headers, "x-hub-signature-256") : header(headers, "x-gitlab-token");
+  if (!provided) return false;
+  return safeEqual(provided, forge === "github" ? signBody(body, secret) : secret);
+};
+
+// ─── Payloads ─────────────────────────────────────────────────────────────────
+
+const TAG_REF    = "refs/tags/";
+const BRANCH_REF = "refs/heads/";
+
+// Deleted refs come with an all-zero sha (or none), and start nothing
+const pushedRef = (ref: unknown, sha: unknown): Pick<ForgeEvent, "kind" | "ref" | "sha"> => {
+  if (typeof ref !== "string" || typeof sha !== "string" || /^0+$/.test(sha)) return { kind: "other", ref: null, sha: null };
+  if (ref.startsWith(TAG_REF)) return { kind: "tag", ref: ref.slice(TAG_REF.length), sha };
+  if (ref.startsWith(BRANCH_REF)) return { kind: "push", ref: ref.slice(BRANCH_REF.length), sha };
+  return { kind: "other", ref: null, sha: null };
+};
+
+const parseGitHub = (headers: Headers, payload: Payload): ForgeEvent => {
+  const event = header(headers, "x-github-event") ?? "";
+  const base: ForgeEvent = {
+    forge: "github", event, deliveryId: header(headers, "x-github-delivery"),
+    kind: "other", ref: null, base: null, sha: null, repository: payload.repository?.full_name ?? null,
+  };
+  if (event === "push" && !payload.deleted) {
+    return { ...base, ...pushedRef(payload.ref, payload.head_commit?.id ?? payload.after) };
+  }
+  const pr = payload.pull_request;
+  if (event === "pull_request" && payload.action === "closed" && pr?.merged && pr.merge_commit_sha) {
+    return { ...base, kind: "merge", ref: pr.head?.ref ?? null, base: pr.base?.ref ?? null, sha: pr.merge_commit_sha };
+  }
+  return base;
+};
+
+const parseGitLab = (headers: Headers, payload: Payload): ForgeEvent => {
+  const base: ForgeEvent = {
+    forge: "gitlab", event: header(headers, "x-gitlab-event") ?? "", deliveryId: header(headers, "x-gitlab-event-uuid"),
+    kind: "other", ref: null, base: null, sha: null, repository: payload.project?.path_with_namespace ?? null,
+  };
+  if (payload.object_kind === "push" || payload.object_kind === "tag_push") {
+    return { ...base, ...pushedRef(payload.ref, payload.checkout_sha) };
+  }
+  const mr = payload.object_attributes;
+  if (payload.object_kind === "merge_request" && mr?.action === "merge" && mr.merge_commit_sha) {
+    return { ...base, kind: "merge", ref: mr.source_branch ?? null, base: mr.target_branch ?? null, sha: mr.merge_commit_sha };
+  }
+  return base;
+};
+
+export const parseForgeEvent = (forge: Forge, headers: Headers, payload: Payload): ForgeEvent =>
+  forge === "github" ? parseGitHub(headers, payload) : parseGitLab(headers, payload);
+
+// ─── Projects ─────────────────────────────────────────────────────────────────
+// Every project shares the webhook secret, and ?project= is outside what the
+// signature covers, so the repository in the signed payload decides what a
+// delivery may start: a project that names its repository takes deliveries from
+// that repository only, and ?project= may only pick a project that names one.
+
+// Why a delivery may not start runs for project; null when it may
+export const webhookProjectRefusal = (event: ForgeEvent, project: string, triggers: WebhookTriggers, named: boolean) => {
+  const expected = triggers.repository;
+  if (!expected) {
+    return named ? `project "${project}" names no webhook repository, so deliveries cannot pick it with ?project=` : null;
+  }
+  return event.repository?.toLowerCase() === expected.toLowerCase()
+    ? null
+    : `deliveries from ${event.repository ?? "an unnamed repository"} cannot start runs for project "${project}", which takes ${expected}`;
+};
+
+// ─── Triggers ─────────────────────────────────────────────────────────────────
+
+const SHA = /^[0-9a-f]{7,40}$/i;
+const RANGE_REF = /^[\w./@-]+$/; // what the workflow reads back out of "from..to"
+
+const matches = (name: string, patterns: string[]) => patterns.some((p) => globToRegExp(p).test(name));
+
+const describeEvent = (e: ForgeEvent) =>
+  e.kind === "tag" ? `tag ${e.ref}` : e.kind === "push" ? `push to ${e.ref}` : `merge of ${e.ref} into ${e.base}`;
+
+const ignore = (reason: string): WebhookPlan => ({ run: false, reason });
+
+// A tag push releases everything since the matching tag before it; a branch
+// push or a merged release pull request everything since the last such tag.
+// The tag patterns therefore also decide where a release starts.
+export const planWebhookRun = async (
+  event: ForgeEvent,
+  triggers: WebhookTriggers,
+  repoPath: string,
+): Promise<WebhookPlan> => {
+  if (event.kind === "other" || !event.ref || !event.sha) {
+    return ignore(`"${event.event || "unknown"}" deliveries do not start a release`);
+  }
+  // Both end up as git arguments
+  if (!SHA.test(event.sha) || event.ref.startsWith("-")) return ignore("the delivery names a malformed ref");
+
+  const filters = { tag: triggers.tags, push: triggers.branches, merge: triggers.pullRequests }[event.kind];
+  if (!matches(event.ref, filters)) return ignore(`${describeEvent(event)} matches none of the project's webhook filters`);
+
+  if (!(await ensureCommit(repoPath, event.sha))) return ignore(`commit ${event.sha} is not in ${repoPath}`);
+  const from = await nearestTag(repoPath, event.kind === "tag" ? `${event.sha}^` : event.sha, triggers.tags);
+  if (!from) return ignore(`no earlier tag matches ${triggers.tags.join(", ") || "the project's tag filters"}`);
+  if (await verifyRef(repoPath, from) === await verifyRef(repoPath, event.sha)) {
+    return ignore(`nothing to release since ${from}`);
+  }
+
+  // The tag itself reads better in the notes, if the clone has it
+  const tag = event.kind === "tag" && RANGE_REF.test(event.ref) ? event.ref : null;
+  const toRef = tag && await verifyRef(repoPath, tag).then(() => true, () => false) ? tag : event.sha;
+  return { run: true, fromRef: from, toRef };
+};
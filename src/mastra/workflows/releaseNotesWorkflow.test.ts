@@ -1,5 +1,16 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { rm } from "node:fs/promises";
+import { createClient } from "@libsql/client";
+import { Mastra } from "@mastra/core";
+import { LibSQLStore } from "@mastra/libsql";
+import { MockLanguageModelV3 } from "ai/test";
 import { z } from "zod";
+import { releaseNotesWorkflow } from "./releaseNotesWorkflow.js";
+import { configureModels, registerModelProvider } from "../models/registry.js";
+import { configureEnrichmentCache, listEnrichments, pinEnrichment } from "../enrichments/cache.js";
+import { configureReleaseStore, getRelease, listRevisions } from "../releases/store.js";
+import { configureTemplates } from "../templates/store.js";
+import { buildFixtureRepo, type FixtureRepo } from "../../eval/repo.js";
 
 // ─── Schemas duplicated here so tests don't depend on private exports ─────────
 // (mirrors the schemas in releaseNotesWorkflow.ts)
@@ -125,10 +136,10 @@ describe("commit categorisation", () => {
 describe("commit range parsing", () => {
   const parseRefs = (commitLog: string) => {
     const lines = commitLog.split("\n");
-    const match = lines[0].match(/commits?\s+([a-f0-9]+)\.\.([a-f0-9]+)/i);
+    const match = lines[0].match(/(?:commits?\s+)?([\w./~^@{}-]+)\.\.([\w./~^@{}-]+)/i);
     return {
-      fromRef: match?.[1] ?? "HEAD~12",
-      toRef:   match?.[2] ?? "HEAD",
+      fromRef: match?.[1] ?? null,
+      toRef:   match?.[2] ?? null,
       instructions: lines.slice(1).join("\n").replace(/^Additional instructions:\s*/i, "").trim(),
     };
   };
@@ -139,10 +150,16 @@ describe("commit range parsing", () => {
     expect(toRef).toBe("9f130dd");
   });
 
-  it("falls back to HEAD~12..HEAD when no range is provided", () => {
+  it("accepts tag and branch refs without the commits prefix", () => {
+    const { fromRef, toRef } = parseRefs("v2.0.0..release/2.1");
+    expect(fromRef).toBe("v2.0.0");
+    expect(toRef).toBe("release/2.1");
+  });
+
+  it("finds no range when none is provided", () => {
     const { fromRef, toRef } = parseRefs("Generate release notes for this sprint");
-    expect(fromRef).toBe("HEAD~12");
-    expect(toRef).toBe("HEAD");
+    expect(fromRef).toBeNull();
+    expect(toRef).toBeNull();
   });
 
   it("extracts additional instructions from subsequent lines", () => {
@@ -157,3 +174,196 @@ describe("commit range parsing", () => {
     expect(instructions).toBe("");
   });
 });
+
+// ─── Runs ──────────────────────────────────────────────────────────────────────
+// The real workflow on a small fixture repository, with a scripted model that
+// answers each prompt from its text (or a promise of the answer).
+
+type Script = (prompt: string) => unknown;
+
+let script: Script = () => null;
+
+registerModelProvider("scripted", (modelId) => new MockLanguageModelV3({
+  modelId,
+  doGenerate: async (options) => {
+    const prompt = options.prompt
+      .map((m) => (typeof m.content === "string" ? m.content : m.content.map((p) => ("text" in p ? p.text : "")).join("")))
+      .join("\n");
+    const answer = await script(prompt);
+    const text = typeof answer === "string" ? answer : JSON.stringify(answer);
+    return {
+      content: [{ type: "text", text }],
+      finishReason: { unified: "stop", raw: "stop" },
+      usage: {
+        inputTokens: { total: 10, noCache: 10, cacheRead: 0, cacheWrite: 0 },
+        outputTokens: { total: 5, text: 5, reasoning: 0 },
+      },
+      warnings: [],
+    };
+  },
+}));
+
+// The draft model copies the entries it is given, leaving out empty sections
+const draftFromPrompt = (prompt: string) => {
+  const version = /The version is (\S+); do not change it/.exec(prompt)![1];
+  const entries = /Entries by section:\n\n([\s\S]*?)\n\nThe release date/.exec(prompt)![1];
+  const sections = entries.split("\n\n").filter((section) => !section.endsWith("(none)"));
+  return { draft: [`## ${version}`, ...sections].join("\n\n"), isComplete: true, suggestions: [] };
+};
+
+const commits: Array<Omit<FixtureRepo["commits"][number], "author">> = [
+  { message: "chore: initial commit", date: "2026-03-02T10:00:00Z", files: { "README.md": "# demo\n" }, tag: "v1.4.0" },
+  { message: "feat(auth): add sign-in with Google", date: "2026-03-03T09:30:00Z", files: { "src/auth/google.ts": "1\n" } },
+  { message: "feat(search): add saved searches", date: "2026-03-04T09:30:00Z", files: { "src/search/saved.ts": "1\n" } },
+  { message: "fix(api): return 404 for unknown projects", date: "2026-03-05T14:10:00Z", files: { "src/api/projects.ts": "1\n" } },
+];
+
+describe("releaseNotesWorkflow — runs", () => {
+  let repo: Awaited<ReturnType<typeof buildFixtureRepo>>;
+  let mastra: Mastra;
+  const short = (subject: string) => repo.shas.get(subject)!.slice(0, 7);
+
+  beforeEach(async () => {
+    repo = await buildFixtureRepo({ commits: commits.map((c) => ({ author: "Ada <ada@example.com>", ...c })) });
+    const db = createClient({ url: ":memory:" });
+    configureEnrichmentCache({ db: () => db });
+    configureReleaseStore({ db: () => db });
+    configureTemplates({ db: () => db });
+    configureModels({ models: { parse: "scripted:parse", enrich: "scripted:enrich", draft: "scripted:draft", refine: "scripted:refine" } });
+    mastra = new Mastra({ workflows: { releaseNotesWorkflow }, storage: new LibSQLStore({ id: "test", client: db }) });
+  });
+
+  afterEach(() => rm(repo.dir, { recursive: true, force: true }));
+
+  const run = async (input: Record<string, unknown> = {}) => {
+    const run    = await mastra.getWorkflow("releaseNotesWorkflow").createRun();
+    const output = await run.start({ inputData: { query: "v1.4.0..main", repoPath: repo.dir, ...input } as any });
+    expect(output.status).toBe("success");
+    return (output as any).result;
+  };
+
+  it("keeps commits the enrich model left out in every format, titled by their message", async () => {
+    // Only the Google sign-in commit is enriched; the other feature and the fix are skipped
+    script = (prompt) => {
+      if (prompt.includes("Feature commits:")) {
+        const sha = short("feat(auth): add sign-in with Google");
+        return { enrichedFeatures: [{ sha, type: "feat", title: "Sign In With Google", description: "Use Google.", breaking: false }] };
+      }
+      if (prompt.includes("enrichedFixes")) return { enrichedFixes: [], enrichedPerformance: [], enrichedMaintenance: [] };
+      return draftFromPrompt(prompt);
+    };
+
+    const result = await run({ formats: ["json", "text"] });
+    const sections = result.formats.json.sections.map((s: any) => [s.id, s.entries.map((e: any) => [e.sha, e.title])]);
+    expect(sections).toEqual([
+      ["features", [
+        [short("feat(auth): add sign-in with Google"), "Sign In With Google"],
+        [short("feat(search): add saved searches"), "Add saved searches"],
+      ]],
+      ["fixes", [[short("fix(api): return 404 for unknown projects"), "Return 404 for unknown projects"]]],
+    ]);
+    expect(result.formats.text).toContain("Add saved searches");
+    expect(result.result).toContain("Add saved searches");
+  }, 30_000);
+
+  it("lays every format out in the template's sections, so one that leaves maintenance out leaves it out everywhere", async () => {
+    const chore = "chore(deps): bump express to 4.21";
+    const withChore = await buildFixtureRepo({
+      commits: [...commits, { message: chore, date: "2026-03-06T10:00:00Z", files: { "package.json": "{}\n" } }]
+        .map((c) => ({ author: "Ada <ada@example.com>", ...c })),
+    });
+    script = (prompt) =>
+      prompt.includes("Feature commits:") ? { enrichedFeatures: [] }
+        : prompt.includes("enrichedFixes") ? { enrichedFixes: [], enrichedPerformance: [], enrichedMaintenance: [] }
+        : draftFromPrompt(prompt);
+
+    try {
+      const result = await run({
+        repoPath: withChore.dir, template: "compact", formats: ["json", "keepachangelog", "html", "text", "slack"],
+      });
+      expect(result.formats.json.sections.map((s: any) => [s.id, s.title, s.entries.length])).toEqual([
+        ["new", "New", 2],
+        ["fixed", "Fixed", 1],
+      ]);
+      expect(result.formats.keepachangelog).toMatch(/### Added\n\n- \*\*Add sign-in with Google\*\*/);
+      const sha = withChore.shas.get(chore)!.slice(0, 7);
+      for (const rendered of [result.result, result.formats.keepachangelog, result.formats.html, result.formats.text, JSON.stringify(result.formats)]) {
+        expect(rendered).not.toContain(sha);
+        expect(rendered).not.toContain("Bump express");
+      }
+    } finally {
+      await rm(withChore.dir, { recursive: true, force: true });
+    }
+  }, 30_000);
+
+  it("caches prose under full shas, so a pin saved with the full sha applies to the abbreviated one", async () => {
+    script = (prompt) => {
+      if (prompt.includes("Feature commits:")) {
+        return { enrichedFeatures: [...prompt.matchAll(/^([0-9a-f]{7,}): /gm)].map(([, sha]) => ({
+          sha, type: "feat", title: `Generated ${sha}`, description: "", breaking: false,
+        })) };
+      }
+      if (prompt.includes("enrichedFixes")) return { enrichedFixes: [], enrichedPerformance: [], enrichedMaintenance: [] };
+      return draftFromPrompt(prompt);
+    };
+    const google = "feat(auth): add sign-in with Google";
+    await pinEnrichment({ sha: repo.shas.get(google)!, project: "default", audience: "default", title: "Google Sign-In", description: "Pinned." });
+
+    const result = await run({ formats: ["json"] });
+    const titles = result.formats.json.sections[0].entries.map((e: any) => [e.sha, e.title]);
+    expect(titles).toEqual([
+      [short(google), "Google Sign-In"],
+      [short("feat(search): add saved searches"), `Generated ${short("feat(search): add saved searches")}`],
+    ]);
+    expect((await listEnrichments({ pinned: false })).map((e) => e.sha)).toEqual([repo.shas.get("feat(search): add saved searches")]);
+  }, 30_000);
+
+  it("holds each enrich call against the budget the parallel enrich step checks", async () => {
+    const enrichCalls: string[] = [];
+    script = async (prompt) => {
+      if (prompt.includes("Feature commits:") || prompt.includes("enrichedFixes")) {
+        enrichCalls.push(prompt);
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        return prompt.includes("Feature commits:")
+          ? { enrichedFeatures: [] }
+          : { enrichedFixes: [], enrichedPerformance: [], enrichedMaintenance: [] };
+      }
+      return draftFromPrompt(prompt);
+    };
+
+    // Room for one enrich call's prompt and longest answer, not for two
+    const started = await mastra.getWorkflow("releaseNotesWorkflow").createRun();
+    const output  = await started.start({
+      inputData: { query: "v1.4.0..main", repoPath: repo.dir, budget: { maxTokens: 6000 } } as any,
+    });
+    expect(output.status).toBe("failed");
+    expect((output as any).error).toMatchObject({
+      code:    "BUDGET_EXCEEDED",
+      message: expect.stringMatching(/^The run's 6000-token budget does not cover enrich-/),
+    });
+    expect(enrichCalls).toHaveLength(1);
+  }, 30_000);
+
+  it("adds every run but dry runs to the release history, marking notes that failed verification", async () => {
+    const enrich = (prompt: string) =>
+      prompt.includes("Feature commits:") ? { enrichedFeatures: [] }
+        : prompt.includes("enrichedFixes") ? { enrichedFixes: [], enrichedPerformance: [], enrichedMaintenance: [] }
+        : null;
+    script = (prompt) => enrich(prompt) ?? draftFromPrompt(prompt);
+
+    expect((await run({ dryRun: true })).release).toBeNull();
+    expect(await listRevisions("default", "v1.5.0")).toEqual([]);
+
+    expect((await run()).release).toEqual({ project: "default", version: "v1.5.0", revision: 1, verified: true });
+
+    // Notes that leave out every entry fail verification, refined or not
+    script = (prompt) => enrich(prompt) ?? (prompt.includes("Entries by section:")
+      ? { draft: "## v1.5.0", isComplete: true, suggestions: [] }
+      : "## v1.5.0");
+    const failed = await run({ maxRefinements: 1 });
+    expect(failed.verification.passed).toBe(false);
+    expect(failed.release).toEqual({ project: "default", version: "v1.5.0", revision: 2, verified: false });
+    expect((await listRevisions("default", "v1.5.0")).map((r) => [r.revision, r.verified])).toEqual([[1, true], [2, false]]);
+    expect((await getRelease("default", "v1.5.0", 2))?.issues).toEqual(failed.verification.issues);
+  }, 30_000);
+});
@@ -1,15 +1,445 @@
 import { createStep, createWorkflow } from "@mastra/core/workflows";
-import { openai } from "@ai-sdk/openai";
-import { generateText, generateObject } from "ai";
+import { generateText, generateObject, type LanguageModelUsage } from "ai";
 import { z } from "zod";
+import { getModelConfig, modelFor, type ModelRole } from "../models/registry.js";
+import {
+  listMergedTags, mergedCommits, readCommitDiff, readCommitRange, refDate, resolveRepoPath, type CommitChanges,
+  type GitCommit,
+} from "../lib/git.js";
+import { inferScope, summarizeChanges } from "../lib/changes.js";
+import {
+  bumpForCommits, packagesForFiles, packageVersionFromTags, planPackageBumps, renderPackagesSummary, tagPrefix,
+} from "../lib/packages.js";
+import { COMMIT_TYPES, breakingNotes, parseConventionalCommit } from "../lib/conventionalCommits.js";
+import { formatSemver, latestSemver, nextCalendarVersion, nextVersion } from "../lib/semver.js";
+import {
+  BUCKET_IDS, OUTPUT_FORMATS, buildReleaseDocument, renderFormats, renderKeepAChangelog, renderMarkdown,
+} from "../lib/formats.js";
+import { AUDIENCES, AUDIENCE_IDS, selectForAudience } from "../lib/audiences.js";
+import {
+  DEFAULT_TEMPLATE_NAME, describeLayout, ensureClosingSection, ensureFooter, fillPlaceholders, formatEntry, headerValues,
+  sectionForType, templateSchema,
+} from "../templates/template.js";
+import { getTemplate } from "../templates/store.js";
+import { describeProduct, projectGuidance, projectProfileSchema, type ProjectProfile } from "../projects/profile.js";
+import { getProfile } from "../projects/store.js";
+import {
+  DEFAULT_AUDIENCE, lookupEnrichments, storeEnrichments, type Enrichment, type EnrichmentScope,
+} from "../enrichments/cache.js";
+import { DEFAULT_CHANGELOG_PATH, readChangelogFile, updateChangelog } from "../lib/changelog.js";
+import { unifiedDiff } from "../lib/diff.js";
+import {
+  ensureMigrationGuides, missingMigrationGuidance, renderBreakingSection, type MigrationGuide,
+} from "../lib/migrations.js";
+import { VERIFICATION_RULES, verifyReleaseNotes, type ExpectedNotes } from "../lib/verify.js";
+import {
+  LOCALIZATION_RULES, canonicalLocale, checkLocalization, isLocale, languageName, protectMarkdown, restoreMarkdown,
+  type LocalizationIssue,
+} from "../lib/localize.js";
+import {
+  closeRunLedger, estimateTokens, exceedsBudget, holdBudget, resolveBudget, runLedger, summarizeUsage, toUsageRecord,
+  type UsageBudget, type UsageRecord,
+} from "../lib/usage.js";
+import { GitRangeError, ReleaseNotesError } from "../lib/errors.js";
+import { getApiKey, getUsage, recordUsage } from "../auth/keys.js";
+import { saveRelease } from "../releases/store.js";
+import {
+  collectContributors, extractReferences, linkPatterns, mergeReferences, referenceLinks, renderContributors,
+} from "../lib/references.js";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+// Diffs given to the models with includeDiffs are cut to this many characters per commit
+const DIFF_SUMMARY_LIMIT = 3000;
+
+const indent = (text: string) => text.split("\n").map((l) => `    ${l}`).join("\n");
+
+// Changed files and, with includeDiffs, the diff: what lets the models say
+// something specific about a vague message like "updated stuff"
+const formatChangesForPrompt = (changes: CommitChanges, diff: string | null) =>
+  `\n    files: ${summarizeChanges(changes)}${diff ? `\n    diff:\n${indent(diff)}` : ""}`;
+
+const formatCommitForPrompt = (c: GitCommit, diff: string | null) => {
+  const body = c.body ? `\n${indent(c.body)}` : "";
+  const merge = c.parents.length > 1 ? " (merge)" : "";
+  return `${c.sha}${merge}: ${c.subject}${body}${formatChangesForPrompt(c.changes, diff)}`;
+};
+
+// One entry for the enrich prompts; a merge lists what it brought in
+const formatEntryForPrompt = (
+  c: {
+    sha: string; scope: string | null; message: string; contains: Array<{ message: string }>;
+    changes: CommitChanges; diff: string | null;
+  },
+  tag = "",
+) =>
+  `${c.sha}${tag ? ` [${tag}]` : ""}: ${c.scope ? `(${c.scope}) ` : ""}${c.message}` +
+  (c.contains.length ? ` (merges: ${c.contains.map((m) => m.message).join("; ")})` : "") +
+  formatChangesForPrompt(c.changes, c.diff);
+
+// Forces the first "## <version> — <date>" header to carry the computed version,
+// whatever the LLM wrote there; adds the header if the LLM dropped it.
+const VERSION_TOKEN = /v?\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?/;
+
+const enforceVersionHeader = (markdown: string, version: string) => {
+  const lines = markdown.trim().split("\n");
+  const i = lines.findIndex((l) => /^##\s/.test(l));
+  if (i === -1) return `## ${version}\n\n${markdown.trim()}`;
+  lines[i] = VERSION_TOKEN.test(lines[i])
+    ? lines[i].replace(VERSION_TOKEN, version)
+    : lines[i].replace(/^##\s+/, `## ${version} — `);
+  return lines.join("\n");
+};
+
+// Opening of every prompt: the product the notes are for, then the profile's
+// tone and glossary when it has them
+const projectContext = (role: string, profile: ProjectProfile) => {
+  const guidance = projectGuidance(profile);
+  return `${role} for ${describeProduct(profile)}.${guidance ? `\n${guidance}` : ""}`;
+};
+
+// Bump a prompt's version whenever its wording changes, so prose cached from
+// the old prompt is not reused.
+const ENRICH_PROMPTS = {
+  features:  "enrich-features@3",
+  fixes:     "enrich-fixes@3",
+  audiences: "audience-variants@3",
+};
+
+// Prose written with diffs in view is cached apart from prose written without
+const enrichScope = (
+  categorized: { profile: ProjectProfile; instructions: string },
+  audience: string,
+  prompt: string,
+  withDiffs = false,
+): EnrichmentScope => ({
+  project:      categorized.profile.name,
+  audience,
+  instructions: categorized.instructions,
+  prompt:       withDiffs ? `${prompt}+diff` : prompt,
+  model:        getModelConfig().models.enrich,
+  context:      projectContext("", categorized.profile),
+});
+
+// Reuses cached prose for commits enriched before and sends only the rest to
+// generate, storing what it writes. The cache is keyed by full sha; the result
+// and generate use the abbreviated one, as in the notes. Commits the model
+// skipped are missing from the result. always forces the call even when every
+// commit is cached.
+const enrichWithCache = async <C extends { sha: string; fullSha: string }>(
+  scope: EnrichmentScope,
+  commits: C[],
+  generate: (fresh: C[]) => Promise<Array<Enrichment & { sha: string }>>,
+  { always = false } = {},
+) => {
+  const full   = new Map(commits.map((c) => [c.sha, c.fullSha] as const));
+  const cached = await lookupEnrichments(scope, [...full.values()]);
+  const written = new Map(commits.flatMap((c) => {
+    const e = cached.get(c.fullSha);
+    return e ? [[c.sha, e] as const] : [];
+  }));
+  const fresh = commits.filter((c) => !written.has(c.sha));
+  if (fresh.length > 0 || always) {
+    const wanted = new Set(fresh.map((c) => c.sha));
+    const generated = (await generate(fresh)).filter((e) => wanted.has(e.sha));
+    await storeEnrichments(scope, generated.map((e) => ({ ...e, sha: full.get(e.sha)! })));
+    for (const e of generated) written.set(e.sha, { title: e.title, description: e.description });
+  }
+  return written;
+};
+
+// The parts of the notes no model may drop: the template's rendered footer, the
+// package versions and contributors sections, and the breaking changes section
+// with a migration guide per breaking commit. expected is what the verifier
+// holds every draft to.
+interface DraftLayout {
+  footer: string;
+  packages: string;     // rendered section, "" unless the project has packages
+  contributors: string; // rendered section, "" when the template or release has none
+  breakingHeading: string;
+  sectionHeadings: string[]; // where the breaking changes section ends
+  migrations: MigrationGuide[];
+  expected: ExpectedNotes;
+}
+
+// ─── Usage ────────────────────────────────────────────────────────────────────
+// Every model call goes through its step's meter, which records the tokens it
+// used and charges them to the API key that started the run. Before a call the
+// meter holds its input and longest possible answer against the run's budget,
+// shared with the run's other steps (see runLedger), and checks the key's
+// monthly token quota.
+
+// Steps whose outputs carry usage records
+const METERED_STEPS = [
+  "parse-commits", "enrich-features", "enrich-fixes", "audience-variants", "migration-guides",
+  "draft-release-notes", "refine-notes", "review-notes", "localize-notes",
+];
+
+// Longest answer each role may give: calls pass it on as maxOutputTokens
+const MAX_OUTPUT_TOKENS: Record<ModelRole, number> = {
+  parse:     4096,
+  enrich:    4096,
+  draft:     8192,
+  refine:    8192,
+  translate: 8192,
+};
+
+const usageSoFar = (getStepResult: (stepId: string) => any): UsageRecord[] =>
+  METERED_STEPS.flatMap((id) => getStepResult(id)?.usage ?? []);
+
+const createMeter = (
+  step: string,
+  account: { budget?: Partial<UsageBudget>; apiKeyId?: string },
+  runId: string,
+  spent: UsageRecord[],
+) => {
+  const records: UsageRecord[] = [];
+  const budget  = resolveBudget(account.budget);
+  const ledger  = runLedger(runId, spent);
+  const modelOf = (role: ModelRole) => getModelConfig().models[role];
+
+  const overBudget = (exceeded: "tokens" | "cost" | "unpriced", role: ModelRole) => {
+    if (exceeded === "unpriced") {
+      return new ReleaseNotesError("MODEL_UNPRICED", `The run's $${budget.maxCost} budget has no price for ${modelOf(role)} in ${step}`, 422);
+    }
+    const limit = exceeded === "tokens" ? `${budget.maxTokens}-token` : `$${budget.maxCost}`;
+    return new ReleaseNotesError("BUDGET_EXCEEDED", `The run's ${limit} budget does not cover ${step}`, 422);
+  };
+
+  const overQuota = async (tokens: number) => {
+    const key = account.apiKeyId ? await getApiKey(account.apiKeyId) : null;
+    if (key?.tokenQuota != null && (await getUsage(key.id)).tokens + tokens > key.tokenQuota) {
+      return new ReleaseNotesError("QUOTA_EXCEEDED", `The API key's monthly token quota does not cover ${step}`, 429);
+    }
+    return null;
+  };
+
+  // The error a call of about input tokens, answering with up to output, would
+  // run into; null when it may go ahead
+  const check = async (role: ModelRole, input: number, output = MAX_OUTPUT_TOKENS[role]) => {
+    const quota = await overQuota(input + output);
+    if (quota) return quota;
+    const exceeded = exceedsBudget(budget, [...ledger.records, ...ledger.held], modelOf(role), input, output);
+    return exceeded ? overBudget(exceeded, role) : null;
+  };
+
+  const call = async <R extends { usage: LanguageModelUsage }>(
+    role: ModelRole,
+    prompt: string,
+    generate: (model: ReturnType<typeof modelFor>, maxOutputTokens: number) => Promise<R>,
+    maxOutputTokens = MAX_OUTPUT_TOKENS[role],
+  ) => {
+    const input = estimateTokens(prompt);
+    const quota = await overQuota(input + maxOutputTokens);
+    if (quota) throw quota;
+    // Checked and held in one go, so a parallel step's call cannot slip in between
+    const hold = holdBudget(ledger, budget, step, modelOf(role), input, maxOutputTokens);
+    if (hold.exceeded) throw overBudget(hold.exceeded, role);
+    let result: R;
+    try {
+      result = await generate(modelFor(role), maxOutputTokens);
+    } finally {
+      hold.release();
+    }
+    const record = toUsageRecord(step, modelOf(role), result.usage);
+    records.push(record);
+    ledger.records.push(record);
+    if (account.apiKeyId) await recordUsage(account.apiKeyId, { tokens: record.totalTokens });
+    return result;
+  };
+
+  return { records, check, call };
+};
+
+type Meter = ReturnType<typeof createMeter>;
+
+// Refine passes the quality branch may spend on notes that keep failing verification
+const DEFAULT_MAX_REFINEMENTS = 2;
+
+const maxRefinements = (requested?: number) =>
+  requested ?? (Number(process.env.RELEASE_NOTES_MAX_REFINEMENTS) || DEFAULT_MAX_REFINEMENTS);
+
+const refinePrompt = (draft: string, suggestions: string[]) => `Improve these release notes by addressing each suggestion below.
+Keep the same Markdown format and version header. Return only the improved release notes.
+
+Current release notes:
+${draft}
+
+Suggestions to address:
+${suggestions.map((s, i) => `${i + 1}. ${s}`).join("\n")}`;
+
+// A refine pass gets about as much back as the notes it sends; twice that
+// leaves room for what the suggestions add
+const refineOutputTokens = (draft: string) =>
+  Math.min(MAX_OUTPUT_TOKENS.refine, Math.max(1024, 2 * estimateTokens(draft)));
+
+// Why the budget or quota would refuse a refine pass; null when it may go ahead
+const refineRefusal = (meter: Meter, draft: string, suggestions: string[]) =>
+  meter.check("refine", estimateTokens(refinePrompt(draft, suggestions)), refineOutputTokens(draft));
+
+// One refine pass, used for the quality-check branch and for reviewer rejections.
+// Whatever the model returns, the notes leave with every migration guide.
+const refineDraft = async (
+  meter: Meter,
+  draft: string,
+  version: string,
+  layout: DraftLayout,
+  suggestions: string[],
+  abortSignal?: AbortSignal,
+) => {
+  const prompt = refinePrompt(draft, suggestions);
+  const { text } = await meter.call(
+    "refine", prompt, (model, maxOutputTokens) => generateText({ model, maxOutputTokens, abortSignal, prompt }),
+    refineOutputTokens(draft),
+  );
+  const refined = ensureMigrationGuides(
+    enforceVersionHeader(text, version), layout.migrations, layout.breakingHeading, layout.sectionHeadings,
+  );
+  return ensureClosingSections(ensureFooter(refined, layout.footer), layout);
+};
+
+// Package versions, then contributors, right above the footer
+const ensureClosingSections = (markdown: string, layout: DraftLayout) =>
+  ensureClosingSection(
+    ensureClosingSection(markdown, layout.packages, layout.footer), layout.contributors, layout.footer,
+  );
 
 // ─── Shared schemas ───────────────────────────────────────────────────────────
 
+const personSchema = z.object({ name: z.string(), email: z.string() });
+
+const referencesSchema = z.object({
+  pullRequests: z.array(z.number().int()),
+  issues: z.array(z.object({ id: z.string(), closes: z.boolean() })),
+  coAuthors: z.array(personSchema),
+});
+
 const commitSchema = z.object({
   sha: z.string(),
-  type: z.enum(["feat", "fix", "perf", "chore", "docs", "refactor", "test"]),
+  fullSha: z.string(), // what the enrichment cache is keyed by
+  type: z.enum(COMMIT_TYPES),
+  scope: z.string().nullable(),
   message: z.string(),
   breaking: z.boolean(),
+  classifiedBy: z.enum(["conventional", "llm"]),
+  // Metadata read from git; the LLM never fills these in
+  subject: z.string(),
+  body: z.string(),
+  author: personSchema,
+  date: z.string(),
+  parents: z.array(z.string()),
+  trailers: z.array(z.object({ key: z.string(), value: z.string() })),
+  references: referencesSchema,
+  changes: z.object({
+    files: z.array(z.object({ path: z.string(), insertions: z.number(), deletions: z.number(), binary: z.boolean() })),
+    insertions: z.number(),
+    deletions: z.number(),
+  }),
+  diff: z.string().nullable(), // size-capped, only with includeDiffs
+  // Merge grouping: a merge lists the commits it brought in, which point back at it
+  mergedIn: z.string().nullable(),
+  contains: z.array(z.object({ sha: z.string(), type: z.enum(COMMIT_TYPES), message: z.string() })),
+  packages: z.array(z.string()), // monorepo packages whose paths it touched
+});
+
+const contributorSchema = personSchema.extend({ commits: z.number().int() });
+
+// One model call; see lib/usage.ts
+const usageRecordSchema = z.object({
+  step: z.string(),
+  model: z.string(),
+  inputTokens: z.number().int(),
+  outputTokens: z.number().int(),
+  totalTokens: z.number().int(),
+  cost: z.number().nullable(),
+});
+
+const usageTotalsSchema = z.object({
+  calls: z.number().int(),
+  inputTokens: z.number().int(),
+  outputTokens: z.number().int(),
+  totalTokens: z.number().int(),
+  cost: z.number(),
+});
+
+// One monorepo package's release; see PackageRelease in lib/packages.ts
+const packageReleaseSchema = z.object({
+  name: z.string(),
+  bump: z.enum(["major", "minor", "patch"]),
+  reason: z.enum(["changes", "dependency"]),
+  triggeredBy: z.array(z.string()),
+  previousVersion: z.string().nullable(),
+  version: z.string(),
+  tag: z.string(),
+  shas: z.array(z.string()),
+});
+
+const workflowInputSchema = z.object({
+  query: z.string().describe("Commit range (e.g. 'f59ffed..9f130dd') plus optional instructions"),
+  repoPath: z.string().optional().describe("Local git repository; defaults to RELEASE_NOTES_REPO_PATH or the cwd"),
+  currentVersion: z.string().optional()
+    .describe("Version being released from; defaults to the latest semver tag reachable from fromRef"),
+  prerelease: z.string().optional().describe("Prerelease channel, e.g. 'beta' → v2.1.0-beta.0"),
+  buildMetadata: z.string().optional().describe("Semver build metadata, e.g. 'sha.9f130dd'"),
+  formats: z.array(z.enum(OUTPUT_FORMATS)).optional()
+    .describe("Extra renderings of the notes alongside the Markdown result"),
+  changelog: z.object({
+    contents: z.string().optional().describe("Current CHANGELOG.md; read from repoPath when omitted"),
+    path: z.string().optional().describe("Changelog path relative to repoPath; defaults to CHANGELOG.md"),
+  }).optional().describe("Return an updated CHANGELOG.md with this release spliced in"),
+  review: z.boolean().optional().describe("Suspend before finalizing until a reviewer approves, edits or rejects the notes"),
+  audiences: z.array(z.enum(AUDIENCE_IDS)).optional()
+    .describe("Extra variants of the notes, each with its own tone and filtering rules"),
+  template: z.string().optional().describe("Release notes template name; defaults to the project's template"),
+  project: z.string().optional()
+    .describe("Project profile name; defaults to RELEASE_NOTES_PROJECT or the built-in profile. See GET /api/projects"),
+  releaseDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional()
+    .describe("Release date (YYYY-MM-DD); defaults to the date toRef was committed"),
+  includeDiffs: z.boolean().optional()
+    .describe("Give the classify and enrich models each commit's diff, capped in size, besides its changed files"),
+  maxRefinements: z.number().int().min(1).max(5).optional()
+    .describe("Refine passes allowed while the notes fail verification; defaults to RELEASE_NOTES_MAX_REFINEMENTS or 2"),
+  budget: z.object({
+    maxTokens: z.number().int().min(1).optional(),
+    maxCost: z.number().positive().optional().describe("USD"),
+  }).optional()
+    .describe("Fail before a model call that would go over, and skip refine passes that would; " +
+      "defaults to RELEASE_NOTES_MAX_TOKENS and RELEASE_NOTES_MAX_COST"),
+  apiKeyId: z.string().optional().describe("Set by the API: the key whose token quota the run draws on"),
+  locales: z.array(z.string().refine(isLocale, "locales may only contain BCP 47 language tags, e.g. de or pt-BR"))
+    .optional()
+    .describe("Translate the final notes into each of these locales, e.g. ['de', 'pt-BR']"),
+  dryRun: z.boolean().optional().describe("Leave the release history untouched, e.g. for a preview"),
+});
+
+// Output of categorize-commits, shared by both parallel enrich steps
+const categorizedSchema = z.object({
+  fromRef: z.string(),
+  toRef: z.string(),
+  instructions: z.string(),
+  repoPath: z.string(),
+  releaseDate: z.string(),
+  profile: projectProfileSchema,
+  features: z.array(commitSchema),
+  fixes: z.array(commitSchema),
+  performance: z.array(commitSchema),
+  maintenance: z.array(commitSchema),
+  versionBump: z.enum(["major", "minor", "patch"]),
+  previousVersion: z.string().nullable(),
+  suggestedVersion: z.string(),
+  // The run's template, resolved once so edits mid-run don't split the layout
+  template: templateSchema,
+  sections: z.array(z.object({ id: z.string(), heading: z.string(), shas: z.array(z.string()) })),
+  contributors: z.array(contributorSchema),
+  packages: z.array(packageReleaseSchema),
+});
+
+// The subset of commitSchema the classifier is asked to produce
+const classificationSchema = commitSchema.pick({ sha: true, type: true, scope: true, message: true, breaking: true });
+
+// Per-commit record of how it was classified, returned alongside the notes
+const classificationReportSchema = commitSchema.pick({
+  sha: true, type: true, scope: true, breaking: true, classifiedBy: true, mergedIn: true,
 });
 
 const enrichedCommitSchema = z.object({
@@ -20,53 +450,238 @@ const enrichedCommitSchema = z.object({
   breaking: z.boolean(),
 });
 
-// Real commits from github.com/Hendrik040/n-aible_edtech_sims (Dec 2025 sprint)
-const REPO_COMMITS = [
-  { sha: "f59ffed", raw: "updated stuff" },
-  { sha: "c300d63", raw: "added static worker ID logic for redis db caching" },
-  { sha: "718bf11", raw: "removed Redis KEY logic" },
-  { sha: "efc056f", raw: "adding some load testing" },
-  { sha: "34deabf", raw: "added testing and password hash optimization" },
-  { sha: "3583104", raw: "new database migration added" },
-  { sha: "cfab29e", raw: "added new caching logic to optimize response time for chat experience" },
-  { sha: "a23ebf4", raw: "oauth implementation" },
-  { sha: "c41a2b0", raw: "fixed google oauth" },
-  { sha: "d5f451b", raw: "big commit with heaps of changes (notification module)" },
-  { sha: "dd8c5a2", raw: "Add load tests for simulation module" },
-  { sha: "9f130dd", raw: "Merge PR #240: Optimize Database Connections & Queries" },
-];
+const migrationGuideSchema = z.object({
+  sha: z.string(),
+  title: z.string(),
+  whatChanged: z.string(),
+  whoIsAffected: z.string(),
+  upgradeSteps: z.array(z.string()),
+});
+
+const expectedNotesSchema = z.object({
+  version: z.string(),
+  sections: z.array(z.object({
+    heading: z.string(),
+    entries: z.array(z.object({ sha: z.string(), title: z.string() })),
+  })),
+  knownShas: z.array(z.string()),
+  otherHeadings: z.array(z.string()),
+});
+
+const draftLayoutSchema = z.object({
+  footer: z.string(),
+  packages: z.string(),
+  contributors: z.string(),
+  breakingHeading: z.string(),
+  sectionHeadings: z.array(z.string()),
+  migrations: z.array(migrationGuideSchema),
+  expected: expectedNotesSchema,
+});
+
+const verificationReportSchema = z.object({
+  passed: z.boolean(),
+  issues: z.array(z.object({
+    rule: z.enum(VERIFICATION_RULES),
+    message: z.string(),
+    sha: z.string().optional(),
+  })),
+});
+
+// Structured notes every output format is rendered from (see lib/formats.ts)
+const releaseDocumentSchema = z.object({
+  package: z.string().optional(),
+  version: z.string(),
+  date: z.string(),
+  range: z.object({ from: z.string(), to: z.string() }),
+  sections: z.array(z.object({
+    id: z.string().describe("The template section's id"),
+    title: z.string(),
+    icon: z.string().optional(),
+    entries: z.array(enrichedCommitSchema.omit({ type: true }).extend({
+      links: z.array(z.object({
+        label: z.string(),
+        url: z.string().nullable(),
+        relation: z.enum(["pull", "closes", "refs", "commit"]),
+      })).optional(),
+    })),
+  })),
+  contributors: z.array(contributorSchema).optional(),
+});
+
+const renderedFormatsSchema = z.object({
+  json: releaseDocumentSchema.optional(),
+  keepachangelog: z.string().optional(),
+  html: z.string().optional(),
+  text: z.string().optional(),
+  slack: z.object({ text: z.string(), blocks: z.array(z.record(z.string(), z.unknown())) }).optional(),
+});
+
+// Review mode: what a suspended run holds, what the reviewer sends back, and
+// the record of their decision that ends up in the result
+const pendingReviewSchema = z.object({
+  draft: z.string(),
+  version: z.string(),
+  suggestions: z.array(z.string()).describe("Quality-check suggestions, or the feedback behind the latest revision"),
+  revision: z.number().int().describe("Refine passes triggered by reviewer rejections so far"),
+  feedback: z.array(z.string()),
+  usage: z.array(usageRecordSchema).describe("Model calls made for reviewer rejections so far"),
+});
+
+const reviewDecisionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("approve"), reviewer: z.string().optional() }),
+  z.object({ action: z.literal("edit"), markdown: z.string(), reviewer: z.string().optional() }),
+  z.object({ action: z.literal("reject"), feedback: z.string(), reviewer: z.string().optional() }),
+]);
+
+const reviewReportSchema = z.object({
+  status: z.enum(["approved", "edited"]),
+  reviewer: z.string().nullable(),
+  revisions: z.number().int(),
+  feedback: z.array(z.string()),
+});
+
+const reviewedNotesSchema = z.object({
+  draft: z.string(),
+  version: z.string(),
+  refined: z.boolean(),
+  review: reviewReportSchema.nullable(),
+  usage: z.array(usageRecordSchema),
+});
+
+// A translation of the final notes; issues are what the last pass still got wrong
+const localizationSchema = z.object({
+  locale: z.string(),
+  language: z.string(),
+  markdown: z.string(),
+  verified: z.boolean(),
+  issues: z.array(z.object({ rule: z.enum(LOCALIZATION_RULES), message: z.string() })),
+});
+
+const localizedNotesSchema = reviewedNotesSchema.extend({
+  localizations: z.array(localizationSchema),
+});
+
+const audienceVariantSchema = z.object({
+  audience: z.enum(AUDIENCE_IDS),
+  label: z.string(),
+  summary: z.string().nullable(),
+  markdown: z.string(),
+  document: releaseDocumentSchema,
+});
+
+const packageNotesSchema = packageReleaseSchema.extend({
+  summary: z.string().nullable(),
+  markdown: z.string(),
+  document: releaseDocumentSchema,
+});
+
+const changelogUpdateSchema = z.object({
+  path: z.string(),
+  action: z.enum(["created", "inserted", "replaced"]),
+  contents: z.string(),
+  diff: z.string().describe("Unified diff from the previous contents"),
+});
+
+const workflowOutputSchema = z.object({
+  result:  z.string(),
+  version: z.string(),
+  refined: z.boolean(),
+  classification: z.array(classificationReportSchema),
+  formats: renderedFormatsSchema,
+  changelog: changelogUpdateSchema.nullable(),
+  review: reviewReportSchema.nullable(),
+  variants: z.array(audienceVariantSchema),
+  localizations: z.array(localizationSchema),
+  migrations: z.array(migrationGuideSchema),
+  packages: z.array(packageNotesSchema),
+  verification: verificationReportSchema.extend({
+    refinements: z.number().int().describe("Refine passes the quality branch ran"),
+  }),
+  usage: usageTotalsSchema.extend({
+    currency: z.literal("USD"),
+    steps: z.record(z.string(), usageTotalsSchema),
+    models: z.record(z.string(), usageTotalsSchema),
+    unpricedModels: z.array(z.string()),
+    budget: z.object({
+      maxTokens: z.number().nullable(),
+      maxCost: z.number().nullable(),
+      refinementSkipped: z.string().nullable().describe("Why refine passes were skipped to stay within budget"),
+    }),
+  }),
+  release: z.object({
+    project: z.string(),
+    version: z.string(),
+    revision: z.number().int().describe("Starts at 1; regenerating the version adds one"),
+    verified: z.boolean().describe("false when the notes failed verification; they are kept all the same"),
+  }).nullable()
+    .describe("Where the release history keeps this run; see GET /api/releases. null for dry runs"),
+});
 
 // ─── Step 1: Parse commits ────────────────────────────────────────────────────
-// Extracts fromRef, toRef, and instructions from the raw query string,
-// then asks an LLM to classify each commit into a structured object.
+// Extracts fromRef, toRef, and instructions from the raw query string, loads
+// the project profile, reads that range from the local git repository, then
+// classifies each commit.
+// Well-formed Conventional Commits are parsed deterministically; only the
+// free-form messages are sent to the LLM.
+// Pull request, issue and co-author references are read from each message,
+// and a merge commit becomes one entry for the commits it brought in: it takes
+// their highest-ranked type, their breaking flag and their references, while
+// they point back at it through mergedIn and stay out of the notes.
+// Commits are attributed to the project's packages by the paths they touched.
 
 const parseCommitsStep = createStep({
   id: "parse-commits",
-  description: "Parse the commit range query and classify commits by type using GPT-4o mini",
+  description: "Read the commit range from git and classify commits by type (Conventional Commits, then the parse model)",
   inputSchema: z.object({
     query: z.string(),
+    repoPath: z.string().optional(),
+    project: z.string().optional(),
+    releaseDate: z.string().optional(),
+    includeDiffs: z.boolean().optional(),
   }),
   outputSchema: z.object({
     fromRef: z.string(),
     toRef: z.string(),
     instructions: z.string(),
+    repoPath: z.string(),
+    releaseDate: z.string(),
+    profile: projectProfileSchema,
     commits: z.array(commitSchema),
+    usage: z.array(usageRecordSchema),
   }),
-  execute: async ({ inputData }) => {
+  execute: async ({ inputData, getInitData, abortSignal, runId }) => {
     const lines = inputData.query.split("\n");
-    const refMatch = lines[0].match(/commits?\s+([a-f0-9]+)\.\.([a-f0-9]+)/i);
-    const fromRef = refMatch?.[1] ?? "HEAD~12";
-    const toRef = refMatch?.[2] ?? "HEAD";
+    const refMatch = lines[0].match(/(?:commits?\s+)?([\w./~^@{}-]+)\.\.([\w./~^@{}-]+)/i);
+    // No guessing at a range: callers that want "since the last tag" resolve it first
+    if (!refMatch) {
+      throw new GitRangeError("MISSING_RANGE", `No commit range in the query; start it with "<fromRef>..<toRef>"`);
+    }
+    const [, fromRef, toRef] = refMatch;
     const instructions = lines
       .slice(1)
       .join("\n")
       .replace(/^Additional instructions:\s*/i, "")
       .trim();
 
-    const { object } = await generateObject({
-      model: openai("gpt-4o-mini"),
-      schema: z.object({ commits: z.array(commitSchema) }),
-      prompt: `You are processing git commit messages for n-aible, an AI-powered EdTech simulation platform.
+    // The request's repoPath wins over the project's
+    const profile     = await getProfile(inputData.project);
+    const repoPath    = resolveRepoPath(inputData.repoPath || profile.repoPath);
+    const gitCommits  = await readCommitRange(repoPath, fromRef, toRef);
+    // An explicit releaseDate wins; otherwise the day toRef was committed
+    const releaseDate = inputData.releaseDate ?? await refDate(repoPath, toRef);
+    const diffs = new Map(inputData.includeDiffs
+      ? await Promise.all(gitCommits.map(async (g) => [g.sha, await readCommitDiff(repoPath, g, DIFF_SUMMARY_LIMIT)] as const))
+      : []);
+
+    const conventional = new Map(
+      gitCommits.map((g) => [g.sha, parseConventionalCommit(g.subject, g.trailers)] as const),
+    );
+    const freeForm = gitCommits.filter((g) => !conventional.get(g.sha));
+
+    const meter = createMeter("parse-commits", getInitData<z.infer<typeof workflowInputSchema>>(), runId, []);
+    const llmLabels = new Map<string, z.infer<typeof classificationSchema>>();
+    if (freeForm.length > 0) {
+      const prompt = `${projectContext("You are processing git commit messages", profile)}
 
 Classify each commit into a structured object. Infer the conventional commit type from context:
 - feat: new features or capabilities
@@ -78,41 +693,95 @@ Classify each commit into a structured object. Infer the conventional commit typ
 - test: tests added or changed
 
 Commits to classify:
-${REPO_COMMITS.map((c) => `${c.sha}: ${c.raw}`).join("\n")}
+${freeForm.map((g) => formatCommitForPrompt(g, diffs.get(g.sha) ?? null)).join("\n")}
 
-For each commit return: sha, type, optional scope, cleaned message (readable, no "feat:" prefix), breaking (true only if explicitly breaking).`,
+For each commit return: sha, type, scope (null if none), cleaned message (readable, no "feat:" prefix), breaking (true only if explicitly breaking).
+Use the changed files to tell what a vague message is about; the message should name the affected area.`;
+      const { object } = await meter.call("parse", prompt, (model, maxOutputTokens) => generateObject({
+        model,
+        maxOutputTokens,
+        abortSignal,
+        schema: z.object({ commits: z.array(classificationSchema) }),
+        prompt,
+      }));
+      for (const c of object.commits) llmLabels.set(c.sha, c);
+    }
+
+    // Git is the source of truth for which commits exist; the parser or the LLM only labels them.
+    const labelled = gitCommits.map((g) => {
+      const parsed = conventional.get(g.sha);
+      const label  = parsed ?? llmLabels.get(g.sha);
+      return {
+        sha:          g.sha,
+        fullSha:      g.fullSha,
+        type:         label?.type ?? ("chore" as const),
+        // The project's path rules fill in scopes neither the header nor the model gave
+        scope:        label?.scope ?? inferScope(g.changes.files, profile.components),
+        message:      label?.message ?? g.subject,
+        // A BREAKING CHANGE footer is authoritative whichever path classified the commit
+        breaking:     (label?.breaking ?? false) || breakingNotes(g.trailers).length > 0,
+        classifiedBy: parsed ? ("conventional" as const) : ("llm" as const),
+        subject:      g.subject,
+        body:         g.body,
+        author:       g.author,
+        date:         g.date,
+        parents:      g.parents,
+        trailers:     g.trailers,
+        references:   extractReferences(g.subject, g.body, g.trailers),
+        changes:      g.changes,
+        diff:         diffs.get(g.sha) ?? null,
+        mergedIn:     null as string | null,
+        contains:     [] as Array<{ sha: string; type: (typeof COMMIT_TYPES)[number]; message: string }>,
+        packages:     packagesForFiles(g.changes.files, profile.packages),
+      };
     });
 
-    return { fromRef, toRef, instructions, commits: object.commits };
+    // Oldest first, so a merge nested in another is grouped before the outer one
+    // and joins it as a single commit. COMMIT_TYPES order doubles as precedence.
+    const byFullSha = new Map(gitCommits.map((g, i) => [g.fullSha, labelled[i]] as const));
+    for (const [i, g] of gitCommits.entries()) {
+      const merge = labelled[i];
+      const members = (await mergedCommits(repoPath, g))
+        .map((full) => byFullSha.get(full))
+        .filter((c): c is (typeof labelled)[number] => c !== undefined && c.mergedIn === null);
+      if (members.length === 0) continue;
+      for (const c of members) c.mergedIn = merge.sha;
+      const group = [merge, ...members];
+      merge.type       = group.map((c) => c.type).sort((a, b) => COMMIT_TYPES.indexOf(a) - COMMIT_TYPES.indexOf(b))[0];
+      merge.breaking   = group.some((c) => c.breaking);
+      merge.references = mergeReferences(...group.map((c) => c.references));
+      merge.contains   = members.map(({ sha, type, message }) => ({ sha, type, message }));
+    }
+
+    return { fromRef, toRef, instructions, repoPath, releaseDate, profile, commits: labelled, usage: meter.records };
   },
 });
 
 // ─── Step 2: Categorize ───────────────────────────────────────────────────────
-// Groups commits into feat/fix/perf/maintenance buckets and determines
-// what semantic version bump this release warrants.
+// Groups commits into feat/fix/perf/maintenance buckets for enrichment, maps
+// them onto the requested template's sections, and determines what semantic
+// version bump this release warrants. Commits a merge brought in are left to
+// the merge's entry; their authors still count as contributors. Monorepo
+// packages are versioned the same way from their own commits and tags, and
+// packages depending on a released one get a patch release.
 
 const categorizeStep = createStep({
   id: "categorize-commits",
-  description: "Group commits by category and determine the semantic version bump",
+  description: "Group commits by category and compute the next semantic version",
   inputSchema: z.object({
     fromRef: z.string(),
     toRef: z.string(),
     instructions: z.string(),
+    repoPath: z.string(),
+    releaseDate: z.string(),
+    profile: projectProfileSchema,
     commits: z.array(commitSchema),
   }),
-  outputSchema: z.object({
-    fromRef: z.string(),
-    toRef: z.string(),
-    instructions: z.string(),
-    features: z.array(commitSchema),
-    fixes: z.array(commitSchema),
-    performance: z.array(commitSchema),
-    maintenance: z.array(commitSchema),
-    versionBump: z.enum(["major", "minor", "patch"]),
-    suggestedVersion: z.string(),
-  }),
-  execute: async ({ inputData }) => {
-    const { commits, fromRef, toRef, instructions } = inputData;
+  outputSchema: categorizedSchema,
+  execute: async ({ inputData, getInitData }) => {
+    const { fromRef, toRef, instructions, repoPath, releaseDate, profile } = inputData;
+    const init = getInitData<z.infer<typeof workflowInputSchema>>();
+    const commits = inputData.commits.filter((c) => c.mergedIn === null);
 
     const features    = commits.filter((c) => c.type === "feat");
     const fixes       = commits.filter((c) => c.type === "fix");
@@ -121,128 +790,357 @@ const categorizeStep = createStep({
       ["chore", "docs", "refactor", "test"].includes(c.type)
     );
 
-    const hasBreaking     = commits.some((c) => c.breaking);
-    const versionBump     = (hasBreaking ? "major" : features.length > 0 ? "minor" : "patch") as "major" | "minor" | "patch";
-    const suggestedVersion = versionBump === "major" ? "v3.0.0"
-      : versionBump === "minor" ? "v2.1.0"
-      : "v2.0.1";
+    const versionBump = bumpForCommits(commits) ?? "patch";
+
+    // An explicit currentVersion wins; otherwise the newest semver tag behind fromRef.
+    const tags = await listMergedTags(repoPath, fromRef);
+    let previousVersion = init.currentVersion?.trim() || null;
+    if (!previousVersion) {
+      const latest = latestSemver(tags);
+      previousVersion = latest ? formatSemver(latest) : null;
+    }
+    const bumpOptions = {
+      prerelease: init.prerelease || undefined,
+      build:      init.buildMetadata || undefined,
+    };
+    // Calendar versions ignore the bump; the release date decides them
+    const next = (current: string | null, bump: typeof versionBump) => profile.versionScheme === "calver"
+      ? nextCalendarVersion(current, releaseDate, bumpOptions)
+      : nextVersion(current, bump, bumpOptions);
+    const suggestedVersion = next(previousVersion, versionBump);
+
+    const ownBumps = new Map(profile.packages.map((pkg) =>
+      [pkg.name, bumpForCommits(commits.filter((c) => c.packages.includes(pkg.name)))] as const,
+    ));
+    const packages = planPackageBumps(profile.packages, ownBumps).map((planned) => {
+      const pkg = profile.packages.find((p) => p.name === planned.name)!;
+      const current = packageVersionFromTags(tags, pkg);
+      const version = next(current, planned.bump);
+      return {
+        ...planned,
+        previousVersion: current,
+        version,
+        tag:  `${tagPrefix(pkg)}${version}`,
+        shas: commits.filter((c) => c.packages.includes(pkg.name)).map((c) => c.sha),
+      };
+    });
+
+    // Template sections decide where each commit appears in the Markdown notes
+    const template = await getTemplate(init.template?.trim() || profile.template || DEFAULT_TEMPLATE_NAME);
+    const sections = template.sections.map((section) => ({
+      id:      section.id,
+      heading: section.heading,
+      shas:    commits.filter((c) => sectionForType(template, c.type)?.id === section.id).map((c) => c.sha),
+    }));
+
+    // Whoever pressed merge is not an author of what it brought in
+    const contributors = collectContributors(inputData.commits.filter((c) => c.contains.length === 0));
 
     return {
-      fromRef, toRef, instructions,
+      fromRef, toRef, instructions, repoPath, releaseDate, profile,
       features, fixes, performance, maintenance,
-      versionBump, suggestedVersion,
+      versionBump, previousVersion, suggestedVersion,
+      template, sections, contributors, packages,
     };
   },
 });
 
+// Type and breaking come from classification; the enrich model only writes the prose
+const toEnriched = (commits: Array<z.infer<typeof commitSchema>>, written: Map<string, Enrichment>) =>
+  commits.flatMap((c) => {
+    const e = written.get(c.sha);
+    return e ? [{ sha: c.sha, type: c.type, title: e.title, description: e.description, breaking: c.breaking }] : [];
+  });
+
 // ─── Step 3a: Enrich features (runs in parallel with 3b) ─────────────────────
 // Rewrites raw feature commit messages into user-facing release note prose.
+// Commits an earlier run already enriched with the same prompt, model and
+// instructions are served from the cache (see enrichments/cache.ts).
 
 const enrichFeaturesStep = createStep({
   id: "enrich-features",
   description: "Rewrite feature commits into user-friendly release note entries",
-  inputSchema: z.object({
-    fromRef: z.string(),
-    toRef: z.string(),
-    instructions: z.string(),
-    features: z.array(commitSchema),
-    fixes: z.array(commitSchema),
-    performance: z.array(commitSchema),
-    maintenance: z.array(commitSchema),
-    versionBump: z.enum(["major", "minor", "patch"]),
-    suggestedVersion: z.string(),
-  }),
+  inputSchema: categorizedSchema,
   outputSchema: z.object({
     enrichedFeatures: z.array(enrichedCommitSchema),
+    usage: z.array(usageRecordSchema),
   }),
-  execute: async ({ inputData }) => {
-    if (inputData.features.length === 0) return { enrichedFeatures: [] };
+  execute: async ({ inputData, getInitData, getStepResult, abortSignal, runId }) => {
+    if (inputData.features.length === 0) return { enrichedFeatures: [], usage: [] };
+    const init  = getInitData<z.infer<typeof workflowInputSchema>>();
+    const meter = createMeter("enrich-features", init, runId, usageSoFar(getStepResult));
 
-    const { object } = await generateObject({
-      model: openai("gpt-4o"),
-      schema: z.object({ enrichedFeatures: z.array(enrichedCommitSchema) }),
-      prompt: `You are writing release notes for n-aible, an AI-powered EdTech simulation platform.
+    const written = await enrichWithCache(
+      enrichScope(inputData, DEFAULT_AUDIENCE, ENRICH_PROMPTS.features, Boolean(init.includeDiffs)),
+      inputData.features,
+      async (fresh) => {
+        const prompt = `${projectContext("You are writing release notes", inputData.profile)}
 Transform these feature commits into polished, user-friendly release note entries.
 Write for a technical-but-product-aware audience. Be specific about user impact.
+Each commit lists the files it changed (and its diff, when given): use them to say what actually changed for users,
+especially when the message is vague, but do not list file names.
 ${inputData.instructions ? `\nAdditional instructions: ${inputData.instructions}` : ""}
 
 Feature commits:
-${inputData.features.map((c) => `${c.sha}: ${c.message}`).join("\n")}
+${fresh.map((c) => formatEntryForPrompt(c)).join("\n")}
 
 For each commit, write:
 - title: 3–6 words, no "feat:" prefix, title-case
-- description: 1–2 sentences explaining the user value or impact`,
-    });
+- description: 1–2 sentences explaining the user value or impact`;
+        const { object } = await meter.call("enrich", prompt, (model, maxOutputTokens) => generateObject({
+          model,
+          maxOutputTokens,
+          abortSignal,
+          schema: z.object({ enrichedFeatures: z.array(enrichedCommitSchema) }),
+          prompt,
+        }));
+        return object.enrichedFeatures;
+      },
+    );
 
-    return object;
+    return { enrichedFeatures: toEnriched(inputData.features, written), usage: meter.records };
   },
 });
 
 // ─── Step 3b: Enrich fixes & perf (runs in parallel with 3a) ─────────────────
-// Rewrites fix, perf, and chore commits into user-facing release note prose.
+// Rewrites fix, perf, and chore commits into user-facing release note prose,
+// cached like 3a.
 
 const enrichFixesStep = createStep({
   id: "enrich-fixes",
   description: "Rewrite fix, performance, and maintenance commits into release note entries",
-  inputSchema: z.object({
-    fromRef: z.string(),
-    toRef: z.string(),
-    instructions: z.string(),
-    features: z.array(commitSchema),
-    fixes: z.array(commitSchema),
-    performance: z.array(commitSchema),
-    maintenance: z.array(commitSchema),
-    versionBump: z.enum(["major", "minor", "patch"]),
-    suggestedVersion: z.string(),
-  }),
+  inputSchema: categorizedSchema,
   outputSchema: z.object({
     enrichedFixes: z.array(enrichedCommitSchema),
     enrichedPerformance: z.array(enrichedCommitSchema),
     enrichedMaintenance: z.array(enrichedCommitSchema),
+    usage: z.array(usageRecordSchema),
   }),
-  execute: async ({ inputData }) => {
-    const all = [
-      ...inputData.fixes.map((c) => ({ ...c, _bucket: "fix" })),
-      ...inputData.performance.map((c) => ({ ...c, _bucket: "perf" })),
-      ...inputData.maintenance.map((c) => ({ ...c, _bucket: "maintenance" })),
-    ];
-    if (all.length === 0) {
-      return { enrichedFixes: [], enrichedPerformance: [], enrichedMaintenance: [] };
+  execute: async ({ inputData, getInitData, getStepResult, abortSignal, runId }) => {
+    const { fixes, performance, maintenance } = inputData;
+    if (fixes.length + performance.length + maintenance.length === 0) {
+      return { enrichedFixes: [], enrichedPerformance: [], enrichedMaintenance: [], usage: [] };
     }
+    const init  = getInitData<z.infer<typeof workflowInputSchema>>();
+    const meter = createMeter("enrich-fixes", init, runId, usageSoFar(getStepResult));
 
-    const { object } = await generateObject({
-      model: openai("gpt-4o"),
-      schema: z.object({
-        enrichedFixes:       z.array(enrichedCommitSchema),
-        enrichedPerformance: z.array(enrichedCommitSchema),
-        enrichedMaintenance: z.array(enrichedCommitSchema),
-      }),
-      prompt: `You are writing release notes for n-aible, an AI-powered EdTech simulation platform.
+    const written = await enrichWithCache(
+      enrichScope(inputData, DEFAULT_AUDIENCE, ENRICH_PROMPTS.fixes, Boolean(init.includeDiffs)),
+      [...fixes, ...performance, ...maintenance],
+      async (fresh) => {
+        const list = (bucket: typeof fresh) =>
+          bucket.filter((c) => fresh.includes(c)).map((c) => `  ${formatEntryForPrompt(c)}`).join("\n") || "  (none)";
+        const prompt = `${projectContext("You are writing release notes", inputData.profile)}
 Transform these commits into polished release note entries. Group them correctly.
+Each commit lists the files it changed (and its diff, when given): use them to say what actually changed for users,
+especially when the message is vague, but do not list file names.
 ${inputData.instructions ? `\nAdditional instructions: ${inputData.instructions}` : ""}
 
 Bug fixes [fix]:
-${inputData.fixes.map((c) => `  ${c.sha}: ${c.message}`).join("\n") || "  (none)"}
+${list(fixes)}
 
 Performance [perf]:
-${inputData.performance.map((c) => `  ${c.sha}: ${c.message}`).join("\n") || "  (none)"}
+${list(performance)}
 
 Maintenance [chore/docs/refactor/test]:
-${inputData.maintenance.map((c) => `  ${c.sha}: ${c.message}`).join("\n") || "  (none)"}
+${list(maintenance)}
 
 For each commit:
 - title: 3–6 words, title-case, no prefix
 - description: 1 sentence, technical but clear
-Place each commit in the correct output array (enrichedFixes / enrichedPerformance / enrichedMaintenance).`,
-    });
+Place each commit in the correct output array (enrichedFixes / enrichedPerformance / enrichedMaintenance).`;
+        const { object } = await meter.call("enrich", prompt, (model, maxOutputTokens) => generateObject({
+          model,
+          maxOutputTokens,
+          abortSignal,
+          schema: z.object({
+            enrichedFixes:       z.array(enrichedCommitSchema),
+            enrichedPerformance: z.array(enrichedCommitSchema),
+            enrichedMaintenance: z.array(enrichedCommitSchema),
+          }),
+          prompt,
+        }));
+        return [...object.enrichedFixes, ...object.enrichedPerformance, ...object.enrichedMaintenance];
+      },
+    );
+
+    // Buckets come from categorize-commits, so cached and fresh entries land alike
+    return {
+      enrichedFixes:       toEnriched(fixes, written),
+      enrichedPerformance: toEnriched(performance, written),
+      enrichedMaintenance: toEnriched(maintenance, written),
+      usage:               meter.records,
+    };
+  },
+});
+
+// ─── Step 3c: Audience variants (runs in parallel with 3a and 3b) ────────────
+// One extra set of notes per requested audience, built from the same
+// categorized commits. Each audience filters the buckets by its own rules and
+// gets one enrich call in its own tone, cached per audience like 3a; the
+// Markdown is then rendered from the entries, so variants skip the draft and
+// refine passes.
 
-    return object;
+const audienceVariantsStep = createStep({
+  id: "audience-variants",
+  description: "Write a variant of the notes for each requested audience (developer, customer, …)",
+  inputSchema: categorizedSchema,
+  outputSchema: z.object({
+    variants: z.array(audienceVariantSchema),
+    usage: z.array(usageRecordSchema),
+  }),
+  execute: async ({ inputData, getInitData, getStepResult, abortSignal, runId }) => {
+    const init = getInitData<z.infer<typeof workflowInputSchema>>();
+    if (!init.audiences?.length) return { variants: [], usage: [] };
+    const meter = createMeter("audience-variants", init, runId, usageSoFar(getStepResult));
+
+    const meta = {
+      version: inputData.suggestedVersion,
+      date:    inputData.releaseDate,
+      range:   { from: inputData.fromRef, to: inputData.toRef },
+    };
+    const links = linkPatterns(inputData.profile.links);
+
+    const variants = await Promise.all([...new Set(init.audiences)].map(async (id) => {
+      const audience = AUDIENCES[id];
+      const buckets  = selectForAudience(inputData, audience);
+      const commits  = BUCKET_IDS.flatMap((section) => buckets[section].map((c) => ({ ...c, section })));
+
+      // The summary covers the whole release, so audiences with one always make
+      // the call; the commits already cached are listed for context only.
+      let summary: string | null = null;
+      const line = (c: (typeof commits)[number]) =>
+        `  ${formatEntryForPrompt(c, `${c.section}${c.breaking ? ", breaking" : ""}`)}`;
+      const written = commits.length === 0 ? new Map<string, Enrichment>() : await enrichWithCache(
+        enrichScope(inputData, id, ENRICH_PROMPTS.audiences, Boolean(init.includeDiffs)),
+        commits,
+        async (fresh) => {
+          const known = commits.filter((c) => !fresh.includes(c));
+          const prompt = `${projectContext("You are writing release notes", inputData.profile)}
+Audience: ${audience.label}. ${audience.tone}
+Each commit lists the files it changed (and its diff, when given): use them to say what actually changed for users,
+especially when the message is vague, but do not list file names.
+${inputData.instructions ? `\nAdditional instructions: ${inputData.instructions}` : ""}
+
+Commits:
+${fresh.map(line).join("\n") || "  (none)"}
+${known.length ? `\nAlso in this release (already written, do not return entries for these):\n${known.map(line).join("\n")}\n` : ""}
+For each commit return sha, type, title (3–6 words, title-case, no prefix), description (1–2 sentences for this audience) and breaking.
+${audience.summary ? "Also write summary: 2–3 sentences on what this release means for this audience." : "Set summary to null."}`;
+          const { object } = await meter.call("enrich", prompt, (model, maxOutputTokens) => generateObject({
+            model,
+            maxOutputTokens,
+            abortSignal,
+            schema: z.object({
+              summary: z.string().nullable().describe(audience.summary ? "2–3 sentence release summary" : "Always null"),
+              entries: z.array(enrichedCommitSchema),
+            }),
+            prompt,
+          }));
+          summary = audience.summary ? object.summary : null;
+          return object.entries;
+        },
+        { always: audience.summary },
+      );
+
+      // Sections come from the template and breaking flags from our buckets; the model only writes the prose
+      const toEntries = (list: typeof commits) =>
+        list.map((c) => ({
+          sha:         c.sha,
+          title:       written.get(c.sha)?.title ?? c.message,
+          description: written.get(c.sha)?.description ?? "",
+          breaking:    c.breaking,
+          links:       referenceLinks(c.sha, c.references, links),
+        }));
+      const document = buildReleaseDocument(
+        { ...meta, ...(audience.contributors && inputData.contributors.length && { contributors: inputData.contributors }) },
+        Object.fromEntries(inputData.sections.map((s) => [s.id, toEntries(commits.filter((c) => s.shas.includes(c.sha)))])),
+        inputData.sections,
+      );
+
+      return { audience: id, label: audience.label, summary, markdown: renderMarkdown(document, summary), document };
+    }));
+
+    return { variants, usage: meter.records };
+  },
+});
+
+// ─── Step 3d: Migration guides (runs in parallel with 3a–3c) ─────────────────
+// Writes what changed, who is affected and how to upgrade for every breaking
+// commit, from its body and BREAKING CHANGE footer. The draft gets these as a
+// ready-made section, and the quality check holds the notes to them.
+
+const migrationGuidesStep = createStep({
+  id: "migration-guides",
+  description: "Write a migration guide for each breaking commit",
+  inputSchema: categorizedSchema,
+  outputSchema: z.object({
+    migrations: z.array(migrationGuideSchema),
+    usage: z.array(usageRecordSchema),
+  }),
+  execute: async ({ inputData, getInitData, getStepResult, abortSignal, runId }) => {
+    // A merge is breaking through the commits it brought in, which get the guides
+    const breaking = (getStepResult(parseCommitsStep)?.commits ?? []).filter((c) => c.breaking && c.contains.length === 0);
+    if (breaking.length === 0) return { migrations: [], usage: [] };
+    const meter = createMeter("migration-guides", getInitData<z.infer<typeof workflowInputSchema>>(), runId, usageSoFar(getStepResult));
+
+    const describe = (c: (typeof breaking)[number]) => {
+      const notes = breakingNotes(c.trailers);
+      const body  = c.body ? `\n${indent(c.body)}` : "";
+      return `${c.sha} [${c.type}${c.scope ? `(${c.scope})` : ""}]: ${c.subject}${body}` +
+        (notes.length ? `\n    Breaking change note: ${notes.join(" ")}` : "") + formatChangesForPrompt(c.changes, c.diff);
+    };
+
+    const prompt = `${projectContext("You are writing upgrade guidance", inputData.profile)}
+Every commit below is a breaking change. Write a migration guide for each one, using the commit message,
+body and breaking change note. Do not invent APIs, settings or steps the commit does not support.
+${inputData.instructions ? `\nAdditional instructions: ${inputData.instructions}` : ""}
+
+Breaking commits:
+${breaking.map(describe).join("\n")}
+
+For each commit return:
+- sha
+- title: 3–8 words naming the change, title-case
+- whatChanged: 1–2 sentences, old behaviour versus new
+- whoIsAffected: 1 sentence on which users, integrations or deployments must act
+- upgradeSteps: 1–5 short imperative steps`;
+    const { object } = await meter.call("enrich", prompt, (model, maxOutputTokens) => generateObject({
+      model,
+      maxOutputTokens,
+      abortSignal,
+      schema: z.object({ migrations: z.array(migrationGuideSchema) }),
+      prompt,
+    }));
+
+    // One guide per breaking commit, in commit order; a commit the model skipped
+    // falls back to its own breaking change note.
+    const written = new Map(object.migrations.map((m) => [m.sha, m] as const));
+    return {
+      migrations: breaking.map((c) => {
+        const guide = written.get(c.sha);
+        if (guide?.upgradeSteps.length) return { ...guide, sha: c.sha };
+        const note = breakingNotes(c.trailers).join(" ") || c.subject;
+        return {
+          sha:           c.sha,
+          title:         guide?.title ?? c.message,
+          whatChanged:   guide?.whatChanged ?? note,
+          whoIsAffected: guide?.whoIsAffected ?? "Not stated in the commit.",
+          upgradeSteps:  [`Review ${c.sha}: ${note}`],
+        };
+      }),
+      usage: meter.records,
+    };
   },
 });
 
 // ─── Step 4: Draft release notes ─────────────────────────────────────────────
-// Assembles all enriched commits into a complete Markdown changelog.
-// Also runs a quality check and returns isComplete + suggestions.
+// Assembles all enriched commits into a complete Markdown changelog laid out
+// by the run's template.
+// Also runs a quality check and returns isComplete + suggestions; notes that
+// leave a breaking commit without migration guidance, or that fail the
+// rule-based verifier (coverage, invented entries, empty sections, version
+// header, Markdown), never pass it.
 
 const draftStep = createStep({
   id: "draft-release-notes",
@@ -258,67 +1156,141 @@ const draftStep = createStep({
         enrichedMaintenance: z.array(enrichedCommitSchema),
       })
       .optional(),
+    "migration-guides": z
+      .object({ migrations: z.array(migrationGuideSchema) })
+      .optional(),
   }),
   outputSchema: z.object({
     draft:       z.string(),
     version:     z.string(),
     isComplete:  z.boolean(),
     suggestions: z.array(z.string()),
+    layout:      draftLayoutSchema,
+    verification: verificationReportSchema,
+    usage:       z.array(usageRecordSchema),
   }),
-  execute: async ({ inputData, getInitData }) => {
-    const init     = getInitData<{ query: string }>();
-    const features    = inputData["enrich-features"]?.enrichedFeatures   ?? [];
-    const fixes       = inputData["enrich-fixes"]?.enrichedFixes          ?? [];
-    const perf        = inputData["enrich-fixes"]?.enrichedPerformance    ?? [];
-    const maintenance = inputData["enrich-fixes"]?.enrichedMaintenance    ?? [];
-
-    const { object } = await generateObject({
-      model: openai("gpt-4o"),
-      schema: z.object({
-        draft:       z.string().describe("Complete Markdown release notes"),
-        version:     z.string().describe("Version string, e.g. v2.1.0"),
-        isComplete:  z.boolean().describe("True if the notes are comprehensive and well-written"),
-        suggestions: z.array(z.string()).describe("Improvement suggestions if isComplete is false"),
-      }),
-      prompt: `You are finalizing release notes for n-aible, an AI-powered EdTech simulation platform.
-
-Assemble these enriched commits into polished Markdown release notes using this format:
+  execute: async ({ inputData, getInitData, getStepResult, abortSignal, runId }) => {
+    const init        = getInitData<z.infer<typeof workflowInputSchema>>();
+    const meter       = createMeter("draft-release-notes", init, runId, usageSoFar(getStepResult));
+    const categorized = getStepResult(categorizeStep);
+    const version     = categorized?.suggestedVersion ?? "unknown";
+    const template    = categorized.template;
+    const enriched    = new Map([
+      ...(inputData["enrich-features"]?.enrichedFeatures   ?? []),
+      ...(inputData["enrich-fixes"]?.enrichedFixes         ?? []),
+      ...(inputData["enrich-fixes"]?.enrichedPerformance   ?? []),
+      ...(inputData["enrich-fixes"]?.enrichedMaintenance   ?? []),
+    ].map((e) => [e.sha, e] as const));
+    const commits = new Map(
+      [...categorized.features, ...categorized.fixes, ...categorized.performance, ...categorized.maintenance]
+        .map((c) => [c.sha, c] as const),
+    );
 
-## <version> — <Month Year>
+    // Type, scope and breaking come from classification; title and description from enrichment
+    const links = linkPatterns(categorized.profile.links);
+    const placed = template.sections.map((section) => {
+      const shas = categorized.sections.find((s) => s.id === section.id)?.shas ?? [];
+      const entries = shas.flatMap((sha) => {
+        const commit = commits.get(sha);
+        if (!commit) return [];
+        const e = enriched.get(sha);
+        return [{
+          sha,
+          type:        commit.type,
+          scope:       commit.scope,
+          title:       e?.title ?? commit.message,
+          description: e?.description ?? "",
+          breaking:    commit.breaking,
+          links:       referenceLinks(sha, commit.references, links),
+        }];
+      });
+      return { section, entries };
+    });
+    const sectionEntries = placed.map(({ section, entries }) =>
+      `${section.heading}\n${entries.map((e) => formatEntry(template, section, e)).join("\n") || "(none)"}`,
+    );
+    const header = headerValues({
+      version,
+      previousVersion: categorized.previousVersion,
+      date:            categorized.releaseDate,
+      fromRef:         categorized.fromRef,
+      toRef:           categorized.toRef,
+    });
 
-### ✨ Features
-- **Title**: Description.
+    // The footer, package versions and contributors are fixed text, so they are
+    // appended below rather than trusted to the model
+    const layout = {
+      footer:          fillPlaceholders(template.footer, header),
+      packages:        renderPackagesSummary(categorized.packages, template.packagesHeading),
+      contributors:    renderContributors(categorized.contributors, template.contributorsHeading),
+      breakingHeading: template.breakingHeading,
+      sectionHeadings: template.sections.map((s) => s.heading),
+      migrations:      inputData["migration-guides"]?.migrations ?? [],
+      expected: {
+        version,
+        sections:      placed.map(({ section, entries }) => ({
+          heading: section.heading,
+          entries: entries.map(({ sha, title }) => ({ sha, title })),
+        })),
+        knownShas:     (getStepResult(parseCommitsStep)?.commits ?? []).map((c) => c.sha),
+        otherHeadings: [template.breakingHeading, template.packagesHeading, template.contributorsHeading]
+          .filter((h) => h.trim()),
+      },
+    };
+    const breakingSection = renderBreakingSection(layout.migrations, layout.breakingHeading);
 
-### 🐛 Bug Fixes
-- **Title**: Description.
+    const prompt = `${projectContext("You are finalizing release notes", categorized.profile)}
 
-### ⚡ Performance
-- **Title**: Description.
+Assemble these enriched commits into polished Markdown release notes using this format:
 
-### 🔧 Maintenance
-- Item.
+${describeLayout(template, header, layout.footer, breakingSection)}
 
-(Omit sections with no entries.)
+(Omit sections with no entries. Keep the headings and entry format exactly as shown, including each entry's
+links to pull requests and issues.)${
+  breakingSection ? "\nCopy the breaking changes section word for word, directly below the version header." : ""}
 
 Original request context: ${init?.query ?? ""}
 
-Features:
-${features.map((f) => `- ${f.title}: ${f.description}`).join("\n") || "(none)"}
-
-Bug Fixes:
-${fixes.map((f) => `- ${f.title}: ${f.description}`).join("\n") || "(none)"}
-
-Performance:
-${perf.map((f) => `- ${f.title}: ${f.description}`).join("\n") || "(none)"}
+Entries by section:
 
-Maintenance:
-${maintenance.map((f) => `- ${f.title}: ${f.description}`).join("\n") || "(none)"}
+${sectionEntries.join("\n\n")}
 
-Use December 2025 as the release date.
-Set isComplete: true if the notes are comprehensive and clear. Otherwise list specific suggestions.`,
-    });
+The release date is ${categorized.releaseDate}. The version is ${version}; do not change it.
+Set isComplete: true if the notes are comprehensive and clear. Otherwise list specific suggestions.`;
+    const { object } = await meter.call("draft", prompt, (model, maxOutputTokens) => generateObject({
+      model,
+      maxOutputTokens,
+      abortSignal,
+      schema: z.object({
+        draft:       z.string().describe("Complete Markdown release notes"),
+        isComplete:  z.boolean().describe("True if the notes are comprehensive and well-written"),
+        suggestions: z.array(z.string()).describe("Improvement suggestions if isComplete is false"),
+      }),
+      prompt,
+    }));
 
-    return object;
+    // A breaking commit without migration guidance, or any verifier finding,
+    // fails the quality check whatever the model thinks of its draft
+    const draft   = ensureClosingSections(ensureFooter(enforceVersionHeader(object.draft, version), layout.footer), layout);
+    const missing = missingMigrationGuidance(draft, layout.migrations, layout.breakingHeading, layout.sectionHeadings);
+    const guides  = new Map(layout.migrations.map((m) => [m.sha, m] as const));
+    const verification = verifyReleaseNotes(draft, layout.expected);
+    return {
+      draft,
+      version,
+      isComplete:  object.isComplete && missing.length === 0 && verification.passed,
+      suggestions: [
+        ...object.suggestions,
+        ...missing.map((sha) =>
+          `Breaking change ${sha} has no migration guidance. Add this entry under "${layout.breakingHeading}":\n` +
+          renderBreakingSection([guides.get(sha)!], layout.breakingHeading).split("\n").slice(1).join("\n"),
+        ),
+        ...verification.issues.map((i) => i.message),
+      ],
+      layout,
+      verification,
+      usage: meter.records,
+    };
   },
 });
 
@@ -332,6 +1304,9 @@ const passThroughStep = createStep({
     version:     z.string(),
     isComplete:  z.boolean(),
     suggestions: z.array(z.string()),
+    layout:      draftLayoutSchema,
+    verification: verificationReportSchema,
+    usage:       z.array(usageRecordSchema),
   }),
   outputSchema: z.object({
     draft:   z.string(),
@@ -346,7 +1321,12 @@ const passThroughStep = createStep({
 });
 
 // ─── Step 5b: Refine notes (branch: quality check failed) ────────────────────
-// Applies the LLM's own suggestions to improve the draft before outputting.
+// Applies the quality check's suggestions to improve the draft before
+// outputting, then restores the breaking changes section if the refine model
+// dropped a guide. Each pass is verified again; while issues remain they become
+// the next pass's suggestions, up to maxRefinements passes. A pass the run's
+// budget or the API key's quota would not cover is skipped, and the notes go on
+// as they are.
 
 const refineStep = createStep({
   id: "refine-notes",
@@ -356,54 +1336,334 @@ const refineStep = createStep({
     version:     z.string(),
     isComplete:  z.boolean(),
     suggestions: z.array(z.string()),
+    layout:      draftLayoutSchema,
+    verification: verificationReportSchema,
+    usage:       z.array(usageRecordSchema),
   }),
   outputSchema: z.object({
-    draft:   z.string(),
-    version: z.string(),
-    refined: z.literal(true),
+    draft:       z.string(),
+    version:     z.string(),
+    refined:     z.boolean(),
+    refinements: z.number().int(),
+    skipped:     z.string().nullable().describe("Why the remaining passes were skipped"),
+    usage:       z.array(usageRecordSchema),
   }),
-  execute: async ({ inputData }) => {
-    const { text } = await generateText({
-      model: openai("gpt-4o"),
-      prompt: `Improve these release notes by addressing each suggestion below.
-Keep the same Markdown format and version header. Return only the improved release notes.
-
-Current release notes:
-${inputData.draft}
+  execute: async ({ inputData, getInitData, getStepResult, abortSignal, runId }) => {
+    const init  = getInitData<z.infer<typeof workflowInputSchema>>();
+    const limit = maxRefinements(init.maxRefinements);
+    const meter = createMeter("refine-notes", init, runId, usageSoFar(getStepResult));
+    const { version, layout } = inputData;
 
-Suggestions to address:
-${inputData.suggestions.map((s, i) => `${i + 1}. ${s}`).join("\n")}`,
-    });
-
-    return { draft: text, version: inputData.version, refined: true as const };
+    let draft       = inputData.draft;
+    let suggestions = inputData.suggestions;
+    let refinements = 0;
+    let skipped: string | null = null;
+    while (refinements < limit) {
+      skipped = (await refineRefusal(meter, draft, suggestions))?.message ?? null;
+      if (skipped) break;
+      draft = await refineDraft(meter, draft, version, layout, suggestions, abortSignal);
+      refinements++;
+      const verification = verifyReleaseNotes(draft, layout.expected);
+      if (verification.passed) break;
+      suggestions = verification.issues.map((i) => i.message);
+    }
+    return { draft, version, refined: refinements > 0, refinements, skipped, usage: meter.records };
   },
 });
 
-// ─── Step 6: Finalize output ──────────────────────────────────────────────────
-// Merges the branch outputs and returns the final { result } the API serves.
+// ─── Step 6: Review (optional human approval gate) ───────────────────────────
+// With review enabled the run suspends here holding the draft and the quality
+// check's suggestions. The reviewer resumes it through the /api/runs/:runId
+// approve, edit or reject endpoints; a rejection runs another refine pass with
+// their feedback and suspends again for the next look.
 
-const finalizeStep = createStep({
-  id: "finalize-output",
-  description: "Package the final release notes into the API response payload",
+const reviewStep = createStep({
+  id: "review-notes",
+  description: "Hold the notes for a reviewer to approve, edit, or reject with feedback (review mode only)",
   inputSchema: z.object({
     "pass-through": z
       .object({ draft: z.string(), version: z.string(), refined: z.literal(false) })
       .optional(),
     "refine-notes": z
-      .object({ draft: z.string(), version: z.string(), refined: z.literal(true) })
+      .object({ draft: z.string(), version: z.string(), refined: z.boolean() })
       .optional(),
   }),
-  outputSchema: z.object({
-    result:  z.string(),
-    version: z.string(),
-    refined: z.boolean(),
-  }),
-  execute: async ({ inputData }) => {
+  outputSchema: reviewedNotesSchema,
+  suspendSchema: pendingReviewSchema,
+  resumeSchema: reviewDecisionSchema,
+  execute: async ({ inputData, getInitData, getStepResult, resumeData, suspendData, suspend, abortSignal, runId }) => {
+    const init = getInitData<z.infer<typeof workflowInputSchema>>();
     const data = inputData["pass-through"] ?? inputData["refine-notes"];
+    const draft   = data?.draft   ?? "## Release Notes\n\nNo content generated.";
+    const version = data?.version ?? "unknown";
+    const refined = data?.refined ?? false;
+    if (!init.review) return { draft, version, refined, review: null, usage: [] };
+
+    // suspendData is what the reviewer last saw; on the first pass, the branch output
+    const pending = suspendData ?? {
+      draft, version,
+      suggestions: getStepResult(draftStep)?.suggestions ?? [],
+      revision: 0,
+      feedback: [],
+      usage: [],
+    };
+    if (!resumeData) return suspend(pending);
+
+    const reviewer = resumeData.reviewer ?? null;
+    switch (resumeData.action) {
+      case "approve":
+        return {
+          draft: pending.draft, version, refined: refined || pending.revision > 0,
+          review: { status: "approved" as const, reviewer, revisions: pending.revision, feedback: pending.feedback },
+          usage: pending.usage,
+        };
+      case "edit":
+        return {
+          draft: enforceVersionHeader(resumeData.markdown, version), version, refined: refined || pending.revision > 0,
+          review: { status: "edited" as const, reviewer, revisions: pending.revision, feedback: pending.feedback },
+          usage: pending.usage,
+        };
+      case "reject": {
+        // Over budget, the reviewer gets the same notes back with the reason
+        const meter   = createMeter("review-notes", init, runId, [...usageSoFar(getStepResult), ...pending.usage]);
+        const refused = await refineRefusal(meter, pending.draft, [resumeData.feedback]);
+        if (refused) {
+          return suspend({
+            ...pending,
+            suggestions: [`Not refined: ${refused.message}`],
+            feedback:    [...pending.feedback, resumeData.feedback],
+          });
+        }
+        return suspend({
+          draft:       await refineDraft(
+            meter, pending.draft, version, getStepResult(draftStep).layout, [resumeData.feedback], abortSignal,
+          ),
+          version,
+          suggestions: [resumeData.feedback],
+          revision:    pending.revision + 1,
+          feedback:    [...pending.feedback, resumeData.feedback],
+          usage:       [...pending.usage, ...meter.records],
+        });
+      }
+    }
+  },
+});
+
+// ─── Step 7: Localize (optional translations of the final notes) ─────────────
+// One translation per requested locale, made from the notes as reviewed. The
+// version header, code, links, shas, references and the project's product and
+// glossary terms reach the translate model as placeholders (see
+// lib/localize.ts) and are put back afterwards. A translation that loses a
+// placeholder or changes the Markdown structure gets another pass with the
+// problems listed; whatever is still wrong after that is returned as issues.
+
+const TRANSLATION_PASSES = 2;
+
+const translatePrompt = (
+  profile: ProjectProfile,
+  notes: string,
+  locale: string,
+  retry?: { translation: string; issues: LocalizationIssue[] },
+) => `${projectContext("You are translating release notes", profile)}
+Translate these release notes into ${languageName(locale)} (${locale}).
+Keep every Markdown heading, list item, emphasis and link exactly where it is; translate only the words.
+Placeholders like ⟦3⟧ stand for version headers, code, links, references and product terms: copy each one
+unchanged, as many times as it appears, and add none. Return only the translated notes.
+
+Release notes:
+${notes}${retry ? `
+
+Your previous translation:
+${retry.translation}
+
+Fix these problems in it:
+${retry.issues.map((i, n) => `${n + 1}. ${i.message}`).join("\n")}` : ""}`;
+
+const localizeStep = createStep({
+  id: "localize-notes",
+  description: "Translate the final notes into each requested locale, keeping structure, references and product terms",
+  inputSchema: reviewedNotesSchema,
+  outputSchema: localizedNotesSchema.extend({
+    usage: z.array(usageRecordSchema).describe("This step's model calls; review-notes reports its own"),
+  }),
+  execute: async ({ inputData, getInitData, getStepResult, abortSignal, runId }) => {
+    const init = getInitData<z.infer<typeof workflowInputSchema>>();
+    const { usage: _, ...notes } = inputData;
+    if (!init.locales?.length) return { ...notes, localizations: [], usage: [] };
+
+    const profile = getStepResult(categorizeStep).profile;
+    const meter   = createMeter("localize-notes", init, runId, usageSoFar(getStepResult));
+    const source  = protectMarkdown(notes.draft, {
+      version: notes.version,
+      terms:   [profile.product, ...Object.keys(profile.glossary)],
+    });
+
+    const localizations = await Promise.all([...new Set(init.locales.map(canonicalLocale))].map(async (locale) => {
+      let translation = "";
+      let issues: LocalizationIssue[] = [];
+      for (let pass = 0; pass < TRANSLATION_PASSES && (pass === 0 || issues.length); pass++) {
+        const prompt = translatePrompt(profile, source.text, locale, pass ? { translation, issues } : undefined);
+        const { text } = await meter.call(
+          "translate", prompt, (model, maxOutputTokens) => generateText({ model, maxOutputTokens, abortSignal, prompt }),
+        );
+        translation = text.trim();
+        issues      = checkLocalization(source.text, translation);
+      }
+      return {
+        locale,
+        language: languageName(locale),
+        markdown: restoreMarkdown(translation, source.tokens),
+        verified: issues.length === 0,
+        issues,
+      };
+    }));
+
+    return { ...notes, localizations, usage: meter.records };
+  },
+});
+
+// ─── Step 8: Finalize output ──────────────────────────────────────────────────
+// Takes the reviewed (or passed-through) notes and returns the final { result } the API serves,
+// plus any extra formats or CHANGELOG.md update the caller asked for. Those are
+// rendered from the enriched entries rather than from the Markdown the LLM wrote.
+
+const finalizeStep = createStep({
+  id: "finalize-output",
+  description: "Package the final release notes, requested formats and changelog update into the API response payload",
+  inputSchema: localizedNotesSchema,
+  outputSchema: workflowOutputSchema,
+  execute: async ({ inputData, getInitData, getStepResult, runId }) => {
+    const init        = getInitData<z.infer<typeof workflowInputSchema>>();
+    const parsed      = getStepResult(parseCommitsStep);
+    const categorized = getStepResult(categorizeStep);
+    const version     = inputData.version;
+
+    // The whole release, or just the entries of one package
+    const buildDocument = (only?: { name: string; version: string; shas: string[] }) => {
+      const features = getStepResult(enrichFeaturesStep);
+      const rest     = getStepResult(enrichFixesStep);
+      const enriched = new Map([
+        ...(features?.enrichedFeatures ?? []),
+        ...(rest?.enrichedFixes        ?? []),
+        ...(rest?.enrichedPerformance  ?? []),
+        ...(rest?.enrichedMaintenance  ?? []),
+      ].map((e) => [e.sha, e] as const));
+      const links = linkPatterns(categorized?.profile.links);
+      const keep  = (sha: string) => !only || only.shas.includes(sha);
+      // Every categorized commit gets an entry, as in the draft: one the enrich
+      // model skipped keeps its commit message. A breaking footer found by
+      // parse-commits wins over the enrich model's flag.
+      const toEntries = (bucket: Array<z.infer<typeof commitSchema>> | undefined) =>
+        (bucket ?? []).filter((c) => keep(c.sha)).map((commit) => {
+          const e = enriched.get(commit.sha);
+          return {
+            sha:         commit.sha,
+            title:       e?.title ?? commit.message,
+            description: e?.description ?? "",
+            breaking:    (e?.breaking ?? false) || commit.breaking,
+            links:       referenceLinks(commit.sha, commit.references, links),
+          };
+        });
+      const contributors = only
+        ? collectContributors((parsed?.commits ?? []).filter((c) => c.contains.length === 0 && c.packages.includes(only.name)))
+        : categorized?.contributors ?? [];
+      // Laid out in the template's sections, as the Markdown notes are
+      const bySha = new Map(BUCKET_IDS.flatMap((id) => categorized?.[id] ?? []).map((c) => [c.sha, c] as const));
+      const sections = categorized?.sections ?? [];
+      return buildReleaseDocument(
+        {
+          ...(only && { package: only.name }),
+          version: only?.version ?? version,
+          date:  categorized?.releaseDate ?? "",
+          range: { from: categorized?.fromRef ?? "", to: categorized?.toRef ?? "" },
+          ...(contributors.length && { contributors }),
+        },
+        Object.fromEntries(sections.map((s) => [s.id, toEntries(s.shas.flatMap((sha) => bySha.get(sha) ?? []))])),
+        sections,
+      );
+    };
+    const doc = buildDocument();
+
+    // Per-package notes; a package released only for its dependencies says so
+    const packages = (categorized?.packages ?? []).map((pkg) => {
+      const document = buildDocument(pkg);
+      const summary  = pkg.reason === "dependency" ? `Updated dependencies: ${pkg.triggeredBy.join(", ")}.` : null;
+      return { ...pkg, summary, markdown: renderMarkdown(document, summary), document };
+    });
+
+    let changelog: z.infer<typeof changelogUpdateSchema> | null = null;
+    if (init.changelog) {
+      const file   = init.changelog.path ?? DEFAULT_CHANGELOG_PATH;
+      const before = init.changelog.contents ?? await readChangelogFile(categorized.repoPath, file);
+      const { contents, action } = updateChangelog(before, renderKeepAChangelog(doc), version, {
+        previousVersion: categorized?.previousVersion,
+      });
+      changelog = {
+        path: file,
+        action,
+        contents,
+        diff: unifiedDiff(before, contents, { fromFile: before ? `a/${file}` : "/dev/null", toFile: `b/${file}` }),
+      };
+    }
+
+    const formats  = init.formats?.length ? renderFormats(doc, init.formats) : {};
+    const variants = getStepResult(audienceVariantsStep)?.variants ?? [];
+
+    // Checked again here: a reviewer's edit or rejection may have changed the notes
+    const verification = {
+      ...verifyReleaseNotes(inputData.draft, getStepResult(draftStep).layout.expected),
+      refinements: getStepResult(refineStep)?.refinements ?? 0,
+    };
+
+    // Kept in the release history (see releases/store.ts) unless this is a dry
+    // run, marked unverified when the notes failed verification; a regenerated
+    // version becomes its next revision
+    const release = init.dryRun ? null : await saveRelease({
+      project:     categorized.profile.name,
+      version,
+      range:       doc.range,
+      template:    categorized.template.name,
+      audiences:   init.audiences ?? [],
+      releaseDate: doc.date,
+      runId,
+      commits: (parsed?.commits ?? []).map(({ sha, type, scope, subject, author, breaking, mergedIn }) => ({
+        sha, type, scope, subject, author: author.name, breaking, mergedIn,
+      })),
+      markdown: inputData.draft,
+      document: doc,
+      outputs: {
+        formats,
+        variants: variants.map(({ audience, markdown }) => ({ audience, markdown })),
+        localizations: inputData.localizations.map(({ locale, markdown }) => ({ locale, markdown })),
+        packages: packages.map((pkg) => ({ name: pkg.name, version: pkg.version, markdown: pkg.markdown })),
+      },
+      verification: { passed: verification.passed, issues: verification.issues },
+    });
+    // No model calls after this step
+    closeRunLedger(runId);
+
     return {
-      result:  data?.draft   ?? "## Release Notes\n\nNo content generated.",
-      version: data?.version ?? "unknown",
-      refined: data?.refined ?? false,
+      result:  inputData.draft,
+      version,
+      refined: inputData.refined,
+      classification: (parsed?.commits ?? []).map(({ sha, type, scope, breaking, classifiedBy, mergedIn }) => ({
+        sha, type, scope, breaking, classifiedBy, mergedIn,
+      })),
+      formats,
+      changelog,
+      review:  inputData.review,
+      variants,
+      localizations: inputData.localizations,
+      migrations: getStepResult(migrationGuidesStep)?.migrations ?? [],
+      packages,
+      verification,
+      usage: {
+        ...summarizeUsage(usageSoFar(getStepResult)),
+        budget: { ...resolveBudget(init.budget), refinementSkipped: getStepResult(refineStep)?.skipped ?? null },
+      },
+      release: release && {
+        project: release.project, version: release.version, revision: release.revision, verified: release.verified,
+      },
     };
   },
 });
@@ -411,40 +1671,53 @@ const finalizeStep = createStep({
 // ─── Workflow assembly ────────────────────────────────────────────────────────
 //
 //  start
-//    → parse-commits          (classify raw commits with GPT-4o mini)
-//    → categorize-commits     (group by type, determine semver bump)
+//    → parse-commits          (project profile, read range from git, Conventional Commits parser,
+//                              parse model for free-form messages, references, merge grouping)
+//    → categorize-commits     (group by type, bump the previous version tag by semver or calver,
+//                              collect contributors, plan per-package releases)
 //    → parallel([
-//        enrich-features,     (GPT-4o: user-friendly feature descriptions)
-//        enrich-fixes,        (GPT-4o: fix + perf + maintenance descriptions)
+//        enrich-features,     (enrich model: user-friendly feature descriptions)
+//        enrich-fixes,        (enrich model: fix + perf + maintenance descriptions)
+//        audience-variants,   (enrich model: one variant per requested audience)
+//        migration-guides,    (enrich model: upgrade guide per breaking commit)
 //      ])
-//    → draft-release-notes    (GPT-4o: assemble Markdown + quality check)
+//    → draft-release-notes    (draft model: assemble Markdown + quality check; missing
+//                              migration guidance or a lib/verify.ts finding fails the check)
 //    → branch([
-//        [isComplete=false → refine-notes],
+//        [isComplete=false → refine-notes],  (loops while verification fails, up to maxRefinements)
 //        [isComplete=true  → pass-through],
 //      ])
-//    → finalize-output
+//    → review-notes           (review mode: suspend until approve / edit / reject;
+//                              a rejection refines again and re-suspends)
+//    → localize-notes         (translate model: one translation per requested locale, with
+//                              references and product terms held back as placeholders)
+//    → finalize-output        (Markdown result + requested formats from lib/formats.ts,
+//                              CHANGELOG.md update from lib/changelog.ts, per-package notes,
+//                              token usage and cost per step and model; saved to the
+//                              release history in releases/store.ts unless a dry run,
+//                              marked unverified when the notes failed verification)
 //  end
+//
+//  Models per stage (parse/enrich/draft/refine/translate) come from models/registry.ts; every call is
+//  metered against the run's budget and the API key's token quota (lib/usage.ts).
 
 export const releaseNotesWorkflow = createWorkflow({
   id: "release-notes-workflow",
   description:
-    "Multi-step AI workflow: parse commits → categorize → parallel enrich → draft → quality-review branch → finalize",
-  inputSchema: z.object({
-    query: z.string().describe("Commit range (e.g. 'f59ffed..9f130dd') plus optional instructions"),
-  }),
-  outputSchema: z.object({
-    result:  z.string(),
-    version: z.string(),
-    refined: z.boolean(),
-  }),
+    "Multi-step AI workflow: parse commits → categorize → parallel enrich → draft → quality-review branch → " +
+    "optional human review → localize → finalize",
+  inputSchema: workflowInputSchema,
+  outputSchema: workflowOutputSchema,
 })
   .then(parseCommitsStep)
   .then(categorizeStep)
-  .parallel([enrichFeaturesStep, enrichFixesStep])
+  .parallel([enrichFeaturesStep, enrichFixesStep, audienceVariantsStep, migrationGuidesStep])
   .then(draftStep)
   .branch([
     [async ({ inputData }: any) => !inputData.isComplete, refineStep],
     [async ({ inputData }: any) =>  inputData.isComplete, passThroughStep],
   ])
+  .then(reviewStep as any)
+  .then(localizeStep as any)
   .then(finalizeStep as any)
   .commit();